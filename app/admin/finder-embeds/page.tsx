@@ -0,0 +1,24 @@
+import { notFound, redirect } from "next/navigation";
+
+import { listFinderEmbeds } from "@/app/utils/finder-embeds";
+import { getSessionUserId } from "@/app/utils/provider-admin";
+import { isSiteAdmin } from "@/app/utils/site-admin";
+import { FinderEmbedsManager } from "@/components/admin/FinderEmbedsManager";
+
+export const metadata = {
+  title: "Finder embeds",
+};
+
+export default async function FinderEmbedsPage() {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    redirect("/login?callbackUrl=/admin/finder-embeds");
+  }
+  if (!(await isSiteAdmin(userId))) {
+    notFound();
+  }
+
+  const embeds = await listFinderEmbeds();
+
+  return <FinderEmbedsManager initialEmbeds={embeds} />;
+}
@@ -0,0 +1,24 @@
+import { notFound, redirect } from "next/navigation";
+
+import { listPartnerApiKeys } from "@/app/utils/partner-api-keys";
+import { getSessionUserId } from "@/app/utils/provider-admin";
+import { isSiteAdmin } from "@/app/utils/site-admin";
+import { PartnerApiKeysManager } from "@/components/admin/PartnerApiKeysManager";
+
+export const metadata = {
+  title: "Partner API keys",
+};
+
+export default async function PartnerApiKeysPage() {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    redirect("/login?callbackUrl=/admin/partner-api-keys");
+  }
+  if (!(await isSiteAdmin(userId))) {
+    notFound();
+  }
+
+  const keys = await listPartnerApiKeys();
+
+  return <PartnerApiKeysManager initialKeys={keys} />;
+}
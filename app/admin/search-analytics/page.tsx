@@ -0,0 +1,35 @@
+import { notFound, redirect } from "next/navigation";
+
+import { getSessionUserId } from "@/app/utils/provider-admin";
+import { getSearchAnalyticsReport } from "@/app/utils/search-analytics";
+import { isSiteAdmin } from "@/app/utils/site-admin";
+import { SearchAnalyticsReport } from "@/components/admin/SearchAnalyticsReport";
+import { searchAnalyticsQuerySchema } from "@/schemas/search-analytics.types";
+
+export const metadata = {
+  title: "Search analytics",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default async function SearchAnalyticsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    redirect("/login?callbackUrl=/admin/search-analytics");
+  }
+  if (!(await isSiteAdmin(userId))) {
+    notFound();
+  }
+
+  const filters = searchAnalyticsQuerySchema.parse(await searchParams);
+  const report = await getSearchAnalyticsReport({
+    since: new Date(Date.now() - filters.days * DAY_MS),
+    source: filters.source ?? null,
+  });
+
+  return <SearchAnalyticsReport filters={filters} report={report} />;
+}
@@ -0,0 +1,24 @@
+import { notFound, redirect } from "next/navigation";
+
+import { getSessionUserId } from "@/app/utils/provider-admin";
+import { listSearchSynonyms } from "@/app/utils/search-synonyms";
+import { isSiteAdmin } from "@/app/utils/site-admin";
+import { SearchSynonymsEditor } from "@/components/admin/SearchSynonymsEditor";
+
+export const metadata = {
+  title: "Search synonyms",
+};
+
+export default async function SearchSynonymsPage() {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    redirect("/login?callbackUrl=/admin/search-synonyms");
+  }
+  if (!(await isSiteAdmin(userId))) {
+    notFound();
+  }
+
+  const synonyms = await listSearchSynonyms();
+
+  return <SearchSynonymsEditor initialSynonyms={synonyms} />;
+}
@@ -0,0 +1,91 @@
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+
+import {
+  invalidateFinderEmbed,
+  toFinderEmbedItem,
+} from "@/app/utils/finder-embeds";
+import { getSessionUserId } from "@/app/utils/provider-admin";
+import { isSiteAdmin } from "@/app/utils/site-admin";
+import { prisma } from "@/lib/prisma";
+import {
+  finderEmbedPayloadSchema,
+  type FinderEmbedItem,
+} from "@/schemas/finder-embed.types";
+
+function isPrismaError(err: unknown, code: string) {
+  return (
+    err instanceof Prisma.PrismaClientKnownRequestError && err.code === code
+  );
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ embedId: string }> },
+): Promise<NextResponse<{ embed: FinderEmbedItem } | { error: string }>> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!(await isSiteAdmin(userId))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { embedId } = await params;
+  const json = await request.json().catch(() => null);
+  const parsed = finderEmbedPayloadSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid body" },
+      { status: 400 },
+    );
+  }
+
+  const { disabled, ...data } = parsed.data;
+  try {
+    const existing = await prisma.finderEmbed.findUniqueOrThrow({
+      where: { id: embedId },
+      select: { disabledAt: true },
+    });
+    const embed = await prisma.finderEmbed.update({
+      where: { id: embedId },
+      data: {
+        ...data,
+        // Keep the original date when it stays disabled.
+        disabledAt: disabled ? (existing.disabledAt ?? new Date()) : null,
+      },
+    });
+    invalidateFinderEmbed(embedId);
+    return NextResponse.json({ embed: toFinderEmbedItem(embed) });
+  } catch (err) {
+    if (isPrismaError(err, "P2025")) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    throw err;
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ embedId: string }> },
+): Promise<NextResponse<{ ok: true } | { error: string }>> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!(await isSiteAdmin(userId))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { embedId } = await params;
+  try {
+    await prisma.finderEmbed.delete({ where: { id: embedId } });
+  } catch (err) {
+    if (isPrismaError(err, "P2025")) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    throw err;
+  }
+  invalidateFinderEmbed(embedId);
+  return NextResponse.json({ ok: true });
+}
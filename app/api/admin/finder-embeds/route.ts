@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+
+import { listFinderEmbeds, toFinderEmbedItem } from "@/app/utils/finder-embeds";
+import { getSessionUserId } from "@/app/utils/provider-admin";
+import { isSiteAdmin } from "@/app/utils/site-admin";
+import { prisma } from "@/lib/prisma";
+import {
+  finderEmbedPayloadSchema,
+  type FinderEmbedItem,
+  type FinderEmbedsResponse,
+} from "@/schemas/finder-embed.types";
+
+/**
+ * Partner sites allowed to embed the finder widget.
+ */
+export async function GET(): Promise<
+  NextResponse<FinderEmbedsResponse | { error: string }>
+> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!(await isSiteAdmin(userId))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  return NextResponse.json({ embeds: await listFinderEmbeds() });
+}
+
+export async function POST(
+  request: Request,
+): Promise<NextResponse<{ embed: FinderEmbedItem } | { error: string }>> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!(await isSiteAdmin(userId))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const json = await request.json().catch(() => null);
+  const parsed = finderEmbedPayloadSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid body" },
+      { status: 400 },
+    );
+  }
+
+  const { disabled, ...data } = parsed.data;
+  const embed = await prisma.finderEmbed.create({
+    data: { ...data, disabledAt: disabled ? new Date() : null },
+  });
+  return NextResponse.json(
+    { embed: toFinderEmbedItem(embed) },
+    { status: 201 },
+  );
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+
+import { revokePartnerApiKey } from "@/app/utils/partner-api-keys";
+import { getSessionUserId } from "@/app/utils/provider-admin";
+import { isSiteAdmin } from "@/app/utils/site-admin";
+import type { PartnerApiKeyItem } from "@/schemas/partner-api.types";
+
+/** Revokes the key. Its usage log is kept, so this isn't a delete. */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ keyId: string }> },
+): Promise<NextResponse<{ key: PartnerApiKeyItem } | { error: string }>> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!(await isSiteAdmin(userId))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { keyId } = await params;
+  const key = await revokePartnerApiKey(keyId);
+  if (!key) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return NextResponse.json({ key });
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+
+import {
+  createPartnerApiKey,
+  listPartnerApiKeys,
+} from "@/app/utils/partner-api-keys";
+import { getSessionUserId } from "@/app/utils/provider-admin";
+import { isSiteAdmin } from "@/app/utils/site-admin";
+import {
+  createPartnerApiKeyPayloadSchema,
+  type CreatePartnerApiKeyResponse,
+  type PartnerApiKeysResponse,
+} from "@/schemas/partner-api.types";
+
+/**
+ * API keys for the `/api/v1` partner API, with today's usage against quota.
+ */
+export async function GET(): Promise<
+  NextResponse<PartnerApiKeysResponse | { error: string }>
+> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!(await isSiteAdmin(userId))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  return NextResponse.json({ keys: await listPartnerApiKeys() });
+}
+
+export async function POST(
+  request: Request,
+): Promise<NextResponse<CreatePartnerApiKeyResponse | { error: string }>> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!(await isSiteAdmin(userId))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const json = await request.json().catch(() => null);
+  const parsed = createPartnerApiKeyPayloadSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid body" },
+      { status: 400 },
+    );
+  }
+
+  return NextResponse.json(await createPartnerApiKey(parsed.data), {
+    status: 201,
+  });
+}
@@ -0,0 +1,88 @@
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+
+import { getSessionUserId } from "@/app/utils/provider-admin";
+import {
+  invalidateSynonymDictionary,
+  toSearchSynonymItem,
+} from "@/app/utils/search-synonyms";
+import { isSiteAdmin } from "@/app/utils/site-admin";
+import { prisma } from "@/lib/prisma";
+import {
+  searchSynonymPayloadSchema,
+  type SearchSynonymItem,
+} from "@/schemas/search-synonyms.types";
+
+function isPrismaError(err: unknown, code: string) {
+  return (
+    err instanceof Prisma.PrismaClientKnownRequestError && err.code === code
+  );
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ synonymId: string }> },
+): Promise<NextResponse<{ synonym: SearchSynonymItem } | { error: string }>> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!(await isSiteAdmin(userId))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { synonymId } = await params;
+  const json = await request.json().catch(() => null);
+  const parsed = searchSynonymPayloadSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid body" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const synonym = await prisma.searchSynonym.update({
+      where: { id: synonymId },
+      data: parsed.data,
+    });
+    invalidateSynonymDictionary();
+    return NextResponse.json({ synonym: toSearchSynonymItem(synonym) });
+  } catch (err) {
+    if (isPrismaError(err, "P2025")) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    if (isPrismaError(err, "P2002")) {
+      return NextResponse.json(
+        { error: `"${parsed.data.term}" is already in the dictionary` },
+        { status: 409 },
+      );
+    }
+    throw err;
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ synonymId: string }> },
+): Promise<NextResponse<{ ok: true } | { error: string }>> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!(await isSiteAdmin(userId))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { synonymId } = await params;
+  try {
+    await prisma.searchSynonym.delete({ where: { id: synonymId } });
+  } catch (err) {
+    if (isPrismaError(err, "P2025")) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    throw err;
+  }
+  invalidateSynonymDictionary();
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,74 @@
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+
+import { getSessionUserId } from "@/app/utils/provider-admin";
+import {
+  invalidateSynonymDictionary,
+  listSearchSynonyms,
+  toSearchSynonymItem,
+} from "@/app/utils/search-synonyms";
+import { isSiteAdmin } from "@/app/utils/site-admin";
+import { prisma } from "@/lib/prisma";
+import {
+  searchSynonymPayloadSchema,
+  type SearchSynonymItem,
+  type SearchSynonymsResponse,
+} from "@/schemas/search-synonyms.types";
+
+/**
+ * NDIS synonym dictionary used to expand finder and autocomplete queries.
+ */
+export async function GET(): Promise<
+  NextResponse<SearchSynonymsResponse | { error: string }>
+> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!(await isSiteAdmin(userId))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  return NextResponse.json({ synonyms: await listSearchSynonyms() });
+}
+
+export async function POST(
+  request: Request,
+): Promise<NextResponse<{ synonym: SearchSynonymItem } | { error: string }>> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!(await isSiteAdmin(userId))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const json = await request.json().catch(() => null);
+  const parsed = searchSynonymPayloadSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid body" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const synonym = await prisma.searchSynonym.create({ data: parsed.data });
+    invalidateSynonymDictionary();
+    return NextResponse.json(
+      { synonym: toSearchSynonymItem(synonym) },
+      { status: 201 },
+    );
+  } catch (err) {
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2002"
+    ) {
+      return NextResponse.json(
+        { error: `"${parsed.data.term}" is already in the dictionary` },
+        { status: 409 },
+      );
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  type PopularRegionsRefreshSummary,
+  refreshPopularRegions,
+} from "@/app/utils/popular-providers";
+
+// A radius query per populated region; give the run room.
+export const maxDuration = 300;
+
+/**
+ * Precomputes the autocomplete fallback's popular providers per region.
+ * Scheduled in `vercel.json`; Vercel Cron sends
+ * `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(
+  req: NextRequest,
+): Promise<NextResponse<PopularRegionsRefreshSummary | { error: string }>> {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await refreshPopularRegions());
+  } catch (err) {
+    console.error("popular providers refresh:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
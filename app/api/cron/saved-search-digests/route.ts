@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  DigestRunSummary,
+  runSavedSearchDigests,
+} from "@/app/utils/saved-search-digest";
+
+// Digests page through many searches; give the run room.
+export const maxDuration = 300;
+
+/**
+ * Sends due saved search digests. Scheduled in `vercel.json`; Vercel Cron
+ * sends `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(
+  req: NextRequest,
+): Promise<NextResponse<DigestRunSummary | { error: string }>> {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await runSavedSearchDigests());
+  } catch (err) {
+    console.error("saved search digests:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
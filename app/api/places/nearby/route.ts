@@ -1,59 +1,52 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import { getBoundingBox } from "@/app/utils/getBoundingBox";
-import { prisma } from "@/lib/prisma";
+import {
+  findAddressesNearby,
+  resolveNearbyQuery,
+} from "@/app/utils/geo-search";
+import { rateLimit } from "@/app/utils/rate-limit";
+import { nearbyQuerySchema } from "@/schemas/provider-finder.types";
 
 export async function GET(req: NextRequest) {
-  try {
-    const { searchParams } = new URL(req.url);
-
-    const lat = parseFloat(searchParams.get("lat") || "");
-    const lon = parseFloat(searchParams.get("lon") || "");
-    const radius = parseFloat(searchParams.get("radius") || "5");
-
-    if (isNaN(lat) || isNaN(lon)) {
-      return NextResponse.json(
-        { error: "Invalid latitude or longitude" },
-        { status: 400 },
-      );
-    }
+  const limited = await rateLimit(req, "placesNearby");
+  if (limited) return limited;
+
+  const searchParams = req.nextUrl.searchParams;
+  const parsed = nearbyQuerySchema.safeParse({
+    ...Object.fromEntries(searchParams),
+    // `radius` / `distanceKm` are accepted for older callers.
+    radiusKm:
+      searchParams.get("radiusKm") ??
+      searchParams.get("radius") ??
+      searchParams.get("distanceKm") ??
+      undefined,
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid latitude or longitude" },
+      { status: 400 },
+    );
+  }
 
-    const { minLat, maxLat, minLon, maxLon } = getBoundingBox(lat, lon, radius);
+  const query = resolveNearbyQuery(parsed.data);
+  if (!query) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
 
-    // Bounding-box-only query
-    const addressesWithProviders = await prisma.address.findMany({
+  try {
+    const page = await findAddressesNearby({
+      ...query,
       include: {
-        providers: true,
-        providerOutlets: true,
-      },
-      where: {
-        latitude: {
-          gte: minLat,
-          lte: maxLat,
+        providers: { where: { isActive: true } },
+        providerOutlets: {
+          where: { isActive: true, provider: { isActive: true } },
         },
-        longitude: {
-          gte: minLon,
-          lte: maxLon,
-        },
-      },
-      take: 100, // limit results for performance
-      orderBy: {
-        createdAt: "desc",
       },
     });
 
-    console.log("addressesWithProviders", addressesWithProviders);
-    // console.log(
-    //   "providers",
-    //   addressesWithProviders.map((a) => a.providers),
-    // );
-    // console.log(
-    //   "providerOutlets",
-    //   addressesWithProviders.map((a) => a.providerOutlets),
-    // );
-
-    return NextResponse.json(addressesWithProviders);
-  } catch (err: any) {
+    return NextResponse.json(page);
+  } catch (err) {
     console.error("Nearby search error:", err);
     return NextResponse.json(
       { error: "Internal server error" },
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { rateLimit } from "@/app/utils/rate-limit";
+import { reverseGeocode } from "@/lib/gazetteer";
+import type { ReverseGeocodeResult } from "@/lib/geo";
+import { reverseGeocodeQuerySchema } from "@/schemas/places.types";
+
+/** Nearest suburb/postcode to `?lat=&lon=`; 404 outside gazetteer coverage. */
+export async function GET(
+  req: NextRequest,
+): Promise<NextResponse<ReverseGeocodeResult | { error: string }>> {
+  const parsed = reverseGeocodeQuerySchema.safeParse(
+    Object.fromEntries(req.nextUrl.searchParams),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Valid lat and lon query parameters are required." },
+      { status: 400 },
+    );
+  }
+
+  const limited = await rateLimit(req, "placesReverse");
+  if (limited) return limited;
+
+  const result = reverseGeocode(parsed.data.lat, parsed.data.lon);
+  if (!result) {
+    return NextResponse.json(
+      { error: "No suburb found near that location" },
+      { status: 404 },
+    );
+  }
+  return NextResponse.json(result);
+}
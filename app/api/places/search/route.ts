@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { rateLimit } from "@/app/utils/rate-limit";
+import { type GazetteerPlace, searchPlaces } from "@/lib/gazetteer";
+import { placeSearchQuerySchema } from "@/schemas/places.types";
+
+export type PlaceSearchResponse =
+  | { query: string; places: GazetteerPlace[] }
+  | { error: string };
+
+/** Suburb/postcode lookup (`?q=Parramatta` or `?q=2150`) with centroids. */
+export async function GET(
+  req: NextRequest,
+): Promise<NextResponse<PlaceSearchResponse>> {
+  const parsed = placeSearchQuerySchema.safeParse(
+    Object.fromEntries(req.nextUrl.searchParams),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid parameters" },
+      { status: 400 },
+    );
+  }
+
+  const limited = await rateLimit(req, "placesSearch");
+  if (limited) return limited;
+
+  const { q, limit } = parsed.data;
+  return NextResponse.json({ query: q, places: searchPlaces(q, limit) });
+}
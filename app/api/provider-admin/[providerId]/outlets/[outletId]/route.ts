@@ -0,0 +1,75 @@
+import { revalidatePath } from "next/cache";
+import { NextResponse } from "next/server";
+
+import {
+  canEditOrganization,
+  getProviderMembership,
+  getSessionUserId,
+  isValidProviderId,
+} from "@/app/utils/provider-admin";
+import { prisma } from "@/lib/prisma";
+import {
+  patchOutletPayloadSchema,
+  PatchOutletResponse,
+} from "@/schemas/provider-admin.types";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function isValidOutletId(id: string) {
+  return UUID_RE.test(id);
+}
+
+/** Updates an outlet's premises accessibility features. */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ providerId: string; outletId: string }> },
+): Promise<NextResponse<PatchOutletResponse | { error: string }>> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { providerId, outletId } = await params;
+  if (!isValidProviderId(providerId) || !isValidOutletId(outletId)) {
+    return NextResponse.json({ error: "Invalid id" }, { status: 400 });
+  }
+
+  const membership = await getProviderMembership(userId, providerId);
+  if (!membership || !canEditOrganization(membership.role)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = patchOutletPayloadSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid JSON body" },
+      { status: 400 },
+    );
+  }
+
+  const outlet = await prisma.providerOutlet.findFirst({
+    where: { id: outletId, providerId },
+    select: { id: true },
+  });
+  if (!outlet) {
+    return NextResponse.json(
+      { error: "Outlet not found for this provider" },
+      { status: 404 },
+    );
+  }
+
+  const updated = await prisma.providerOutlet.update({
+    where: { id: outletId },
+    data: {
+      accessibilityFeatures: [...new Set(parsed.data.accessibilityFeatures)],
+    },
+    select: { id: true, accessibilityFeatures: true },
+  });
+
+  revalidatePath(`/provider-outlet/${outletId}`);
+
+  return NextResponse.json({ outlet: updated } satisfies PatchOutletResponse);
+}
@@ -58,10 +58,17 @@ export async function GET(
       ndisRegistered: provider.ndisRegistered,
       ndisNumber: provider.ndisNumber,
       serviceAreas: provider.serviceAreas,
+      accessibilityFeatures: provider.accessibilityFeatures,
       specialisations: provider.specialisations.map(
         (s) => s.specialisationDefinition,
       ),
     },
+    outlets: provider.outlets.map((outlet) => ({
+      id: outlet.id,
+      name: outlet.name,
+      addressString: outlet.address?.addressString ?? null,
+      accessibilityFeatures: outlet.accessibilityFeatures,
+    })),
     workers: provider.workers.map((wp) => ({
       id: wp.worker.id,
       userId: wp.worker.userId,
@@ -151,6 +158,10 @@ export async function PATCH(
       .filter(Boolean);
   }
 
+  if (body.accessibilityFeatures !== undefined) {
+    data.accessibilityFeatures = [...new Set(body.accessibilityFeatures ?? [])];
+  }
+
   if (body.specialisations !== undefined) {
     if (!Array.isArray(body.specialisations)) {
       return NextResponse.json(
@@ -207,6 +218,7 @@ export async function PATCH(
       ndisRegistered: updated.ndisRegistered,
       ndisNumber: updated.ndisNumber,
       serviceAreas: updated.serviceAreas,
+      accessibilityFeatures: updated.accessibilityFeatures,
       specialisations: updated.specialisations.map(
         (s) => s.specialisationDefinition,
       ),
@@ -1,60 +1,58 @@
+import { Prisma } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
 
+import { REG_GROUP_OPTIONS } from "@/app/provider-finder/regGroupOptions";
+import { suggestCorrection } from "@/app/utils/did-you-mean";
+import {
+  getPopularProviders,
+  preloadPopularProviders,
+} from "@/app/utils/popular-providers";
+import { rateLimit } from "@/app/utils/rate-limit";
+import { logSearch } from "@/app/utils/search-analytics";
+import {
+  expandSearchQuery,
+  variantsArraySql,
+  variantsTsQuerySql,
+  type ExpandedQuery,
+} from "@/app/utils/search-synonyms";
+import {
+  outletServicesAreaSql,
+  providerServicesAreaSql,
+  resolveSearchedArea,
+} from "@/app/utils/service-areas";
+import { searchPlaces } from "@/lib/gazetteer";
 import { prisma } from "@/lib/prisma";
+import { createTtlCache } from "@/lib/ttlCache";
 
-import { AutocompleteItem, AutocompleteResponse } from "./types";
+import {
+  AutocompleteItem,
+  AutocompleteResponse,
+  AutocompleteSuggestionGroups,
+} from "./types";
 
 const MIN_QUERY_LENGTH = 3;
 const MAX_RESULTS = 8;
+const MAX_FALLBACK_RESULTS = 5;
+const MAX_SUGGESTIONS_PER_GROUP = 4;
 const QUERY_TIMEOUT_MS = 2500;
+/** Extra wait after a timeout; the fallback is precomputed, so this is plenty. */
+const FALLBACK_TIMEOUT_MS = 500;
 
-// todo: review
-async function fetchFallbackSuggestions(): Promise<AutocompleteItem[]> {
-  const providers = await prisma.provider.findMany({
-    where: { isActive: true },
-    include: {
-      address: true,
-      services: {
-        include: {
-          serviceDefinition: { select: { name: true } },
-        },
-      },
-    },
-    orderBy: [{ reviewCount: "desc" }, { name: "asc" }],
-    take: 5,
-  });
+/** Recent query → response, so repeat keystrokes skip Postgres. */
+const responseCache = createTtlCache<AutocompleteResponse>({
+  ttlMs: 60_000,
+  maxEntries: 500,
+});
 
-  return providers.map((provider) => ({
-    id: provider.id,
-    type: "provider",
-    name: provider.name,
-    providerId: provider.id,
-    rating: provider.rating,
-    reviewCount: provider.reviewCount,
-    addressString: provider.address.addressString,
-    latitude: provider.address.latitude ?? 0,
-    longitude: provider.address.longitude ?? 0,
-    // ndisRegistered: provider.ndisRegistered,
-    // suburb: provider.address?.suburb ?? null,
-    // state: provider.address?.state ?? null,
-    // postcode: provider.address?.postcode ?? null,
-    // matchedService: null,
-    // services: provider.services
-    //   .map((s) => s.serviceDefinition.name)
-    //   .filter(Boolean)
-    //   .slice(0, 4),
-    // todo: fix
-    distanceKm: 0,
-    ft_rank: 0,
-    trigram_rank: 0,
-    services: provider.services
-      .map((s) => s.serviceDefinition.name)
-      .filter(Boolean),
-  }));
-}
+const EMPTY_SUGGESTIONS: AutocompleteSuggestionGroups = {
+  places: [],
+  services: [],
+  specialisations: [],
+  regGroups: [],
+};
 
 async function fetchAutocompleteItems(
-  query: string,
+  query: ExpandedQuery,
   latitude: number,
   longitude: number,
   minLatitude: number,
@@ -62,11 +60,12 @@ async function fetchAutocompleteItems(
   minLongitude: number,
   maxLongitude: number,
 ): Promise<AutocompleteItem[]> {
-  // measure time taken
-  const startTime = Date.now();
+  const names = variantsArraySql(query);
+  // Providers based elsewhere still match if they service the searched place.
+  const servicedArea = await resolveSearchedArea(latitude, longitude);
   const rows = await prisma.$queryRaw<AutocompleteItem[]>`
   WITH q AS (
-    SELECT websearch_to_tsquery('english', ${query}) AS tsq
+    SELECT ${variantsTsQuerySql(query)} AS tsq
   ),
   search AS (
     SELECT
@@ -86,26 +85,33 @@ async function fetchAutocompleteItems(
           sin(radians(${latitude})) *
           sin(radians(a.latitude))
         )
-      ) AS distanceKm,
+      ) AS "distanceKm",
       -- Full-text rank
       ts_rank_cd(p.search_vector, q.tsq) AS ft_rank,
       -- Trigram similarity on provider name
-      similarity(p.name, ${query}) AS trigram_rank
+      similarity(p.name, ${query.text}) AS trigram_rank,
+      CASE
+        WHEN a.latitude BETWEEN ${minLatitude} AND ${maxLatitude}
+          AND a.longitude BETWEEN ${minLongitude} AND ${maxLongitude}
+        THEN 'located'
+        ELSE 'serviceArea'
+      END AS coverage
     FROM "Provider" p
     JOIN "Address" a ON p."addressId" = a.id
     CROSS JOIN q
     WHERE
       (p.search_vector @@ q.tsq
-      OR p.name % ${query}
+      OR p.name % ANY(${names})
       OR EXISTS (
         SELECT 1
         FROM "ProviderService" ps
         JOIN "ServiceDefinition" sd ON ps."serviceDefinitionId" = sd.id
         WHERE ps."providerId" = p.id
-          AND (sd.name % ${query} OR to_tsvector('english', sd.name) @@ q.tsq)
+          AND (sd.name % ANY(${names}) OR to_tsvector('english', sd.name) @@ q.tsq)
       ))
-      AND a.latitude BETWEEN ${minLatitude} AND ${maxLatitude}
-      AND a.longitude BETWEEN ${minLongitude} AND ${maxLongitude}
+      AND ((a.latitude BETWEEN ${minLatitude} AND ${maxLatitude}
+        AND a.longitude BETWEEN ${minLongitude} AND ${maxLongitude})
+        OR ${providerServicesAreaSql(servicedArea)})
 
     UNION ALL
 
@@ -126,24 +132,31 @@ async function fetchAutocompleteItems(
           sin(radians(${latitude})) *
           sin(radians(a.latitude))
         )
-      ) AS distanceKm,
+      ) AS "distanceKm",
       ts_rank_cd(po.search_vector, q.tsq) AS ft_rank,
-      similarity(po.name, ${query}) AS trigram_rank
+      similarity(po.name, ${query.text}) AS trigram_rank,
+      CASE
+        WHEN a.latitude BETWEEN ${minLatitude} AND ${maxLatitude}
+          AND a.longitude BETWEEN ${minLongitude} AND ${maxLongitude}
+        THEN 'located'
+        ELSE 'serviceArea'
+      END AS coverage
     FROM "ProviderOutlet" po
     JOIN "Address" a ON po."addressId" = a.id
     CROSS JOIN q
     WHERE
       (po.search_vector @@ q.tsq
-      OR po.name % ${query}
+      OR po.name % ANY(${names})
       OR EXISTS (
         SELECT 1
         FROM "ProviderOutletService" pos
         JOIN "ServiceDefinition" sd ON pos."serviceDefinitionId" = sd.id
         WHERE pos."providerOutletId" = po.id
-          AND (sd.name % ${query} OR to_tsvector('english', sd.name) @@ q.tsq)
+          AND (sd.name % ANY(${names}) OR to_tsvector('english', sd.name) @@ q.tsq)
       ))
-      AND a.latitude BETWEEN ${minLatitude} AND ${maxLatitude}
-      AND a.longitude BETWEEN ${minLongitude} AND ${maxLongitude}
+      AND ((a.latitude BETWEEN ${minLatitude} AND ${maxLatitude}
+        AND a.longitude BETWEEN ${minLongitude} AND ${maxLongitude})
+        OR ${outletServicesAreaSql(servicedArea)})
   ),
   limited AS (
     SELECT *
@@ -176,12 +189,81 @@ async function fetchAutocompleteItems(
   ) svc ON TRUE;
   `;
 
-  const endTime = Date.now();
-  console.log(`Time taken: ${endTime - startTime}ms`);
-
   return rows;
 }
 
+type DefinitionRow = { id: string; name: string };
+
+/**
+ * Places, services, specialisations and registration groups matching the
+ * query, for people who type "speech therapy" or "Geelong" rather than a name.
+ * Synonym variants count too, so "SIL" suggests Supported Independent Living.
+ */
+async function fetchSuggestions(
+  query: ExpandedQuery,
+): Promise<AutocompleteSuggestionGroups> {
+  const lowerVariants = query.variants.map((v) => v.toLowerCase());
+  const regGroups = REG_GROUP_OPTIONS.filter((r) =>
+    lowerVariants.some((v) => r.RegGroup.toLowerCase().includes(v)),
+  ).slice(0, MAX_SUGGESTIONS_PER_GROUP);
+  const names = variantsArraySql(query);
+  const patterns = Prisma.sql`ARRAY[${Prisma.join(
+    query.variants.map((v) => `%${v}%`),
+  )}]::text[]`;
+
+  const [services, specialisations, regGroupServices] = await Promise.all([
+    prisma.$queryRaw<DefinitionRow[]>`
+      SELECT sd.id, sd.name
+      FROM "ServiceDefinition" sd
+      WHERE sd.name ILIKE ANY(${patterns}) OR sd.name % ANY(${names})
+      ORDER BY
+        (SELECT max(similarity(sd.name, v)) FROM unnest(${names}) v) DESC,
+        sd.name ASC
+      LIMIT ${MAX_SUGGESTIONS_PER_GROUP}
+    `,
+    prisma.$queryRaw<DefinitionRow[]>`
+      SELECT sd.id, sd.name
+      FROM "SpecialisationDefinition" sd
+      WHERE sd.name ILIKE ANY(${patterns}) OR sd.name % ANY(${names})
+      ORDER BY
+        (SELECT max(similarity(sd.name, v)) FROM unnest(${names}) v) DESC,
+        sd.name ASC
+      LIMIT ${MAX_SUGGESTIONS_PER_GROUP}
+    `,
+    regGroups.length > 0
+      ? prisma.serviceDefinition.findMany({
+          where: { name: { in: regGroups.map((r) => r.RegGroup) } },
+          select: { id: true, name: true },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  const serviceIdByName = Object.fromEntries(
+    regGroupServices.map((s) => [s.name, s.id]),
+  );
+
+  return {
+    places: searchPlaces(query.text, MAX_SUGGESTIONS_PER_GROUP).map(
+      (place) => ({
+        type: "place",
+        ...place,
+      }),
+    ),
+    services: services.map((s) => ({ type: "service", ...s })),
+    specialisations: specialisations.map((s) => ({
+      type: "specialisation",
+      ...s,
+    })),
+    regGroups: regGroups.map((r) => ({
+      type: "regGroup",
+      index: r.Index,
+      name: r.RegGroup,
+      group: r.Group,
+      serviceDefinitionId: serviceIdByName[r.RegGroup] ?? null,
+    })),
+  };
+}
+
 async function withTimeout<T>(
   promise: Promise<T>,
   timeoutMs: number,
@@ -201,16 +283,48 @@ async function withTimeout<T>(
   }
 }
 
+/** Options shown in the panel: suggestions first, then providers/outlets. */
+function countOptions(response: AutocompleteResponse) {
+  const groups = response.suggestions ?? EMPTY_SUGGESTIONS;
+  return (
+    groups.places.length +
+    groups.services.length +
+    groups.specialisations.length +
+    groups.regGroups.length +
+    response.items.length
+  );
+}
+
+/** Best-effort spelling correction; null on timeout or error. */
+function didYouMeanFor(query: ExpandedQuery, timeoutMs = QUERY_TIMEOUT_MS) {
+  return withTimeout(
+    suggestCorrection(query.text, query.expandedTerms),
+    timeoutMs,
+  ).catch((error) => {
+    console.error("provider-finder autocomplete didYouMean:", error);
+    return null;
+  });
+}
+
 export async function GET(
   req: NextRequest,
 ): Promise<NextResponse<AutocompleteResponse | { error: string }>> {
+  const limited = await rateLimit(req, "autocomplete");
+  if (limited) return limited;
+
   try {
+    const startedAt = performance.now();
     const searchParams = req.nextUrl.searchParams;
 
     console.log("searchParams", searchParams);
     const search = searchParams.get("q")?.trim() ?? "";
+    const expanded = await expandSearchQuery(search);
 
-    if (search.length < MIN_QUERY_LENGTH) {
+    // Short jargon like "OT" is worth searching before the usual minimum.
+    if (
+      expanded.text.length < MIN_QUERY_LENGTH &&
+      expanded.expandedTerms.length === 0
+    ) {
       return NextResponse.json({
         query: search,
         keepTyping: true,
@@ -218,64 +332,140 @@ export async function GET(
       });
     }
 
-    try {
-      // todo: clean up this logic
-      const latitude = parseFloat(searchParams.get("lat") || "");
-      const longitude = parseFloat(searchParams.get("lon") || "");
-      const minLatitude = parseFloat(searchParams.get("minLat") || "");
-      const maxLatitude = parseFloat(searchParams.get("maxLat") || "");
-      const minLongitude = parseFloat(searchParams.get("minLon") || "");
-      const maxLongitude = parseFloat(searchParams.get("maxLon") || "");
-
-      console.log("latitude", latitude);
-      console.log("longitude", longitude);
-      console.log("minLatitude", minLatitude);
-      console.log("maxLatitude", maxLatitude);
-      console.log("minLongitude", minLongitude);
-      console.log("maxLongitude", maxLongitude);
-
-      if (
-        isNaN(latitude) ||
-        isNaN(longitude) ||
-        isNaN(minLatitude) ||
-        isNaN(maxLatitude) ||
-        isNaN(minLongitude) ||
-        isNaN(maxLongitude)
-      ) {
-        return NextResponse.json(
-          {
-            error:
-              "Invalid latitude, longitude, minLatitude, maxLatitude, minLongitude, maxLongitude",
-          },
-          { status: 400 },
-        );
-      }
+    // todo: clean up this logic
+    const latitude = parseFloat(searchParams.get("lat") || "");
+    const longitude = parseFloat(searchParams.get("lon") || "");
+    const minLatitude = parseFloat(searchParams.get("minLat") || "");
+    const maxLatitude = parseFloat(searchParams.get("maxLat") || "");
+    const minLongitude = parseFloat(searchParams.get("minLon") || "");
+    const maxLongitude = parseFloat(searchParams.get("maxLon") || "");
 
-      const items = await withTimeout(
-        fetchAutocompleteItems(
-          search,
-          latitude,
-          longitude,
-          minLatitude,
-          maxLatitude,
-          minLongitude,
-          maxLongitude,
-        ),
-        QUERY_TIMEOUT_MS,
+    if (
+      isNaN(latitude) ||
+      isNaN(longitude) ||
+      isNaN(minLatitude) ||
+      isNaN(maxLatitude) ||
+      isNaN(minLongitude) ||
+      isNaN(maxLongitude)
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "Invalid latitude, longitude, minLatitude, maxLatitude, minLongitude, maxLongitude",
+        },
+        { status: 400 },
       );
-      return NextResponse.json({ query: search, items });
-    } catch (error) {
+    }
+
+    // Rounded so nearby repeats share an entry (distances may be ~1 km off).
+    // `search` keeps its case: match-case synonyms ("OT") expand by it, and
+    // the response echoes it.
+    const cacheKey = [
+      search,
+      latitude.toFixed(2),
+      longitude.toFixed(2),
+      minLatitude.toFixed(3),
+      maxLatitude.toFixed(3),
+      minLongitude.toFixed(3),
+      maxLongitude.toFixed(3),
+    ].join("|");
+    const logResponse = (response: AutocompleteResponse) =>
+      logSearch({
+        source: "AUTOCOMPLETE",
+        query: search,
+        latitude,
+        longitude,
+        resultCount: countOptions(response),
+        latencyMs: performance.now() - startedAt,
+        fallback: response.fallback,
+      });
+
+    const cachedResponse = responseCache.get(cacheKey);
+    if (cachedResponse) {
+      return NextResponse.json({
+        ...cachedResponse,
+        searchId: logResponse(cachedResponse),
+      });
+    }
+
+    // Warm this region's fallback in case the main query times out.
+    preloadPopularProviders(latitude, longitude);
+
+    // Suggestions are best-effort; a slow or failed lookup just hides them.
+    const suggestionsPromise = withTimeout(
+      fetchSuggestions(expanded),
+      QUERY_TIMEOUT_MS,
+    ).catch((error) => {
+      console.error("provider-finder autocomplete suggestions:", error);
+      return EMPTY_SUGGESTIONS;
+    });
+
+    const items = await withTimeout(
+      fetchAutocompleteItems(
+        expanded,
+        latitude,
+        longitude,
+        minLatitude,
+        maxLatitude,
+        minLongitude,
+        maxLongitude,
+      ),
+      QUERY_TIMEOUT_MS,
+    ).catch((error) => {
       if (error instanceof Error && error.message === "Query timed out") {
-        const fallbackItems = await fetchFallbackSuggestions();
-        return NextResponse.json({
-          query: search,
-          fallback: true,
-          items: fallbackItems,
-        });
+        return null;
       }
-
       throw error;
+    });
+
+    if (items === null) {
+      const [fallbackItems, suggestions, didYouMean] = await Promise.all([
+        withTimeout(
+          getPopularProviders({
+            latitude,
+            longitude,
+            bounds: {
+              minLat: minLatitude,
+              maxLat: maxLatitude,
+              minLon: minLongitude,
+              maxLon: maxLongitude,
+            },
+            limit: MAX_FALLBACK_RESULTS,
+          }),
+          FALLBACK_TIMEOUT_MS,
+        ).catch((error) => {
+          console.error("provider-finder autocomplete fallback:", error);
+          return [];
+        }),
+        suggestionsPromise,
+        didYouMeanFor(expanded, FALLBACK_TIMEOUT_MS),
+      ]);
+      // Not cached: the next keystroke should retry the real query.
+      const fallbackResponse: AutocompleteResponse = {
+        query: search,
+        fallback: true,
+        items: fallbackItems,
+        suggestions,
+        didYouMean,
+      };
+      return NextResponse.json({
+        ...fallbackResponse,
+        searchId: logResponse(fallbackResponse),
+      });
     }
+
+    const [suggestions, didYouMean] = await Promise.all([
+      suggestionsPromise,
+      items.length === 0 ? didYouMeanFor(expanded) : null,
+    ]);
+    const response: AutocompleteResponse = {
+      query: search,
+      items,
+      suggestions,
+      didYouMean,
+    };
+    responseCache.set(cacheKey, response);
+    return NextResponse.json({ ...response, searchId: logResponse(response) });
   } catch (err) {
     console.error("provider-finder autocomplete:", err);
     return NextResponse.json(
@@ -18,11 +18,67 @@ export type AutocompleteItem = {
   ft_rank: number;
   trigram_rank: number;
   services: string[];
+  /** `serviceArea` when matched on declared service areas rather than location. */
+  coverage: "located" | "serviceArea";
+};
+
+/** Suburb/postcode from the gazetteer; picking one recentres the map. */
+export type PlaceSuggestion = {
+  type: "place";
+  suburb: string;
+  postcode: string;
+  state: string;
+  latitude: number;
+  longitude: number;
+  displayName: string;
+};
+
+/** Picking one applies the category (service) filter. */
+export type ServiceSuggestion = { type: "service"; id: string; name: string };
+
+/** Picking one applies the specialisation filter. */
+export type SpecialisationSuggestion = {
+  type: "specialisation";
+  id: string;
+  name: string;
+};
+
+/**
+ * NDIS registration group (`REG_GROUP_OPTIONS`). Imported providers get one
+ * `ServiceDefinition` per group, so picking one applies that service filter;
+ * `serviceDefinitionId` is null when no provider offers the group yet.
+ */
+export type RegGroupSuggestion = {
+  type: "regGroup";
+  index: number;
+  name: string;
+  group: string;
+  serviceDefinitionId: string | null;
+};
+
+export type AutocompleteSuggestion =
+  | PlaceSuggestion
+  | ServiceSuggestion
+  | SpecialisationSuggestion
+  | RegGroupSuggestion;
+
+export type AutocompleteSuggestionGroups = {
+  places: PlaceSuggestion[];
+  services: ServiceSuggestion[];
+  specialisations: SpecialisationSuggestion[];
+  regGroups: RegGroupSuggestion[];
 };
 
 export type AutocompleteResponse = {
   query: string;
   keepTyping?: boolean;
   fallback?: boolean;
+  /** Providers and outlets. */
   items: AutocompleteItem[];
+  /** Non-provider suggestions, grouped by type; absent while `keepTyping`. */
+  suggestions?: AutocompleteSuggestionGroups;
+  /** Spelling-corrected query, offered when no providers or outlets match. */
+  didYouMean?: string | null;
+  /** Search analytics log id, sent back when a result is clicked. */
+  searchId?: string;
 };
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getMarkerClusters } from "@/app/utils/provider-clusters";
+import { rateLimit } from "@/app/utils/rate-limit";
+import { clusterQuerySchema } from "@/schemas/provider-finder.types";
+
+import { MarkerClusterResponse } from "./types";
+
+/**
+ * Grid-aggregated provider/outlet clusters for zoomed-out map views.
+ * Takes the viewport bbox plus `zoom`, and optional `serviceIds` /
+ * `registeredOnly` / `accessibilityFeatures`.
+ */
+export async function GET(
+  req: NextRequest,
+): Promise<NextResponse<MarkerClusterResponse | { error: string }>> {
+  const parsed = clusterQuerySchema.safeParse(
+    Object.fromEntries(req.nextUrl.searchParams),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Valid minLat, maxLat, minLon, maxLon and zoom are required." },
+      { status: 400 },
+    );
+  }
+
+  const limited = await rateLimit(req, "finderClusters");
+  if (limited) return limited;
+
+  try {
+    const clusters = await getMarkerClusters(parsed.data);
+    return NextResponse.json(clusters);
+  } catch (err) {
+    console.error("provider-finder clusters:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
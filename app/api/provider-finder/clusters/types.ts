@@ -0,0 +1,17 @@
+/** At or above this zoom the finder shows individual pins instead of clusters. */
+export const CLUSTER_MAX_ZOOM = 13;
+
+export type MarkerCluster = {
+  id: string;
+  count: number;
+  latitude: number;
+  longitude: number;
+  topServices: string[];
+};
+
+export type MarkerClusterResponse = {
+  zoom: number;
+  cellSizeDeg: number;
+  total: number;
+  clusters: MarkerCluster[];
+};
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { collectExportRows, toFinderCsv } from "@/app/utils/finder-export";
+import { rateLimit } from "@/app/utils/rate-limit";
+import { searchQuerySchema } from "@/schemas/provider-finder.types";
+
+/**
+ * CSV of the finder's current results (up to `MAX_EXPORT_ROWS`). Takes the
+ * search API's params; `page` and `pageSize` are ignored.
+ */
+export async function GET(req: NextRequest) {
+  const parsed = searchQuerySchema.safeParse(
+    Object.fromEntries(req.nextUrl.searchParams),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid search parameters" },
+      { status: 400 },
+    );
+  }
+
+  const limited = await rateLimit(req, "finderExport");
+  if (limited) return limited;
+
+  try {
+    const { rows } = await collectExportRows(parsed.data);
+    const date = new Date().toISOString().slice(0, 10);
+    return new NextResponse(toFinderCsv(rows), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="providers-${date}.csv"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    console.error("provider-finder export:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  getProviderFeatures,
+  toProviderVectorTile,
+} from "@/app/utils/provider-features";
+import { rateLimit } from "@/app/utils/rate-limit";
+import { isValidTile, tileBounds, tileKey } from "@/lib/mapTiles";
+import { createTtlCache } from "@/lib/ttlCache";
+import { featureTileParamsSchema } from "@/schemas/provider-finder.types";
+
+import {
+  MAX_FEATURE_TILE_ZOOM,
+  type ProviderFeatureCollection,
+} from "../../../types";
+
+const TILE_TTL_MS = 5 * 60 * 1000;
+
+const tileCache = createTtlCache<ProviderFeatureCollection>({
+  ttlMs: TILE_TTL_MS,
+  maxEntries: 500,
+});
+
+const CACHE_CONTROL = `public, max-age=${TILE_TTL_MS / 1000}, s-maxage=${TILE_TTL_MS / 1000}, stale-while-revalidate=3600`;
+
+/**
+ * One slippy-map tile of the provider feed: `{y}.mvt` is a Mapbox Vector Tile
+ * with a `providers` point layer, `{y}.geojson` the same features as GeoJSON.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ z: string; x: string; y: string }> },
+): Promise<NextResponse> {
+  const parsed = featureTileParamsSchema.safeParse(await params);
+  if (
+    !parsed.success ||
+    parsed.data.z > MAX_FEATURE_TILE_ZOOM ||
+    !isValidTile(parsed.data)
+  ) {
+    return NextResponse.json(
+      {
+        error: `Tiles are {z}/{x}/{y}.mvt or .geojson with z up to ${MAX_FEATURE_TILE_ZOOM}.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const limited = await rateLimit(req, "providerFeatures");
+  if (limited) return limited;
+
+  const { format, ...tile } = parsed.data;
+  const key = tileKey(tile);
+
+  try {
+    let collection = tileCache.get(key);
+    if (!collection) {
+      collection = await getProviderFeatures(tileBounds(tile));
+      tileCache.set(key, collection);
+    }
+
+    if (format === "geojson") {
+      return NextResponse.json(collection, {
+        headers: {
+          "Content-Type": "application/geo+json",
+          "Cache-Control": CACHE_CONTROL,
+        },
+      });
+    }
+    return new NextResponse(toProviderVectorTile(collection, tile), {
+      headers: {
+        "Content-Type": "application/vnd.mapbox-vector-tile",
+        "Cache-Control": CACHE_CONTROL,
+      },
+    });
+  } catch (err) {
+    console.error("provider-finder feature tile:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
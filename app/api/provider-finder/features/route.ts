@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getProviderFeatures } from "@/app/utils/provider-features";
+import { rateLimit } from "@/app/utils/rate-limit";
+import { featureQuerySchema } from "@/schemas/provider-finder.types";
+
+import { ProviderFeatureCollection } from "./types";
+
+/**
+ * Providers and outlets in a bbox (`minLat`, `maxLat`, `minLon`, `maxLon`) as
+ * a GeoJSON FeatureCollection. Tiled GeoJSON and vector tiles are served from
+ * `./{z}/{x}/{y}.geojson` and `./{z}/{x}/{y}.mvt`.
+ */
+export async function GET(
+  req: NextRequest,
+): Promise<NextResponse<ProviderFeatureCollection | { error: string }>> {
+  const limited = await rateLimit(req, "providerFeatures");
+  if (limited) return limited;
+
+  const parsed = featureQuerySchema.safeParse(
+    Object.fromEntries(req.nextUrl.searchParams),
+  );
+  if (
+    !parsed.success ||
+    parsed.data.minLat > parsed.data.maxLat ||
+    parsed.data.minLon > parsed.data.maxLon
+  ) {
+    return NextResponse.json(
+      { error: "Valid minLat, maxLat, minLon and maxLon are required." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    return NextResponse.json(await getProviderFeatures(parsed.data), {
+      headers: { "Content-Type": "application/geo+json" },
+    });
+  } catch (err) {
+    console.error("provider-finder features:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
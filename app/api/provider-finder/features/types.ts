@@ -0,0 +1,36 @@
+/** Vector tile layer holding the provider and outlet points. */
+export const PROVIDER_FEATURES_LAYER = "providers";
+
+/** Most addresses in one response; busier areas come back `truncated`. */
+export const MAX_FEATURE_ADDRESSES = 2000;
+
+/** Deepest tile zoom served; map clients overzoom past it. */
+export const MAX_FEATURE_TILE_ZOOM = 16;
+
+export type ProviderFeatureProperties = {
+  type: "provider" | "outlet";
+  id: string;
+  name: string;
+  /** The parent provider, for outlets. */
+  providerName: string | null;
+  services: string[];
+  /** Outlets take their provider's registration. */
+  ndisRegistered: boolean;
+  address: string;
+  profileUrl: string;
+};
+
+/** A GeoJSON (RFC 7946) point feature; coordinates are [longitude, latitude]. */
+export type ProviderFeature = {
+  type: "Feature";
+  id: string;
+  geometry: { type: "Point"; coordinates: [number, number] };
+  properties: ProviderFeatureProperties;
+};
+
+export type ProviderFeatureCollection = {
+  type: "FeatureCollection";
+  features: ProviderFeature[];
+  /** More addresses matched than `MAX_FEATURE_ADDRESSES`. */
+  truncated: boolean;
+};
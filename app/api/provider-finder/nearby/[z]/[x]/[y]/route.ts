@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { findAddressesInBox } from "@/app/utils/geo-search";
+import { rateLimit } from "@/app/utils/rate-limit";
+import { isValidTile, tileBounds, tileKey } from "@/lib/mapTiles";
+import { createTtlCache } from "@/lib/ttlCache";
+import { nearbyTileParamsSchema } from "@/schemas/provider-finder.types";
+
+import { providerOutletFinderInclude } from "../../../prisma-types";
+import {
+  MAX_TILE_ADDRESSES,
+  NEARBY_TILE_ZOOM,
+  NearbyTileResponse,
+} from "../../../types";
+
+const TILE_TTL_MS = 5 * 60 * 1000;
+
+/** Recent tiles, so a busy area's tiles skip Postgres between CDN misses. */
+const tileCache = createTtlCache<NearbyTileResponse>({
+  ttlMs: TILE_TTL_MS,
+  maxEntries: 500,
+});
+
+// Profile edits show up on the map within about five minutes.
+const CACHE_CONTROL = `public, max-age=${TILE_TTL_MS / 1000}, s-maxage=${TILE_TTL_MS / 1000}, stale-while-revalidate=3600`;
+
+/**
+ * Addresses with providers/outlets in one slippy-map tile at
+ * `NEARBY_TILE_ZOOM`. Responses are the same for everyone, so browsers and the
+ * CDN cache them.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ z: string; x: string; y: string }> },
+): Promise<NextResponse<NearbyTileResponse | { error: string }>> {
+  const parsed = nearbyTileParamsSchema.safeParse(await params);
+  if (
+    !parsed.success ||
+    parsed.data.z !== NEARBY_TILE_ZOOM ||
+    !isValidTile(parsed.data)
+  ) {
+    return NextResponse.json(
+      { error: `Tiles must be z=${NEARBY_TILE_ZOOM} with x and y in range.` },
+      { status: 400 },
+    );
+  }
+
+  const limited = await rateLimit(req, "nearbyTiles");
+  if (limited) return limited;
+
+  const tile = parsed.data;
+  const key = tileKey(tile);
+
+  try {
+    let response = tileCache.get(key);
+    if (!response) {
+      const { addresses, truncated } = await findAddressesInBox({
+        box: tileBounds(tile),
+        limit: MAX_TILE_ADDRESSES,
+        include: providerOutletFinderInclude,
+      });
+      response = { tile, addresses, truncated };
+      tileCache.set(key, response);
+    }
+
+    return NextResponse.json(response, {
+      headers: { "Cache-Control": CACHE_CONTROL },
+    });
+  } catch (err) {
+    console.error("provider-finder nearby tile:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { Prisma } from "@prisma/client";
 
 export const providerOutletFinderInclude = {
   providers: {
+    where: { isActive: true },
     include: {
       services: { include: { serviceDefinition: true } },
       specialisations: { include: { specialisationDefinition: true } },
@@ -9,6 +10,7 @@ export const providerOutletFinderInclude = {
     },
   },
   providerOutlets: {
+    where: { isActive: true, provider: { isActive: true } },
     include: {
       provider: true,
       services: { include: { serviceDefinition: true } },
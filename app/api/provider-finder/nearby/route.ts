@@ -1,13 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import { distanceKm } from "@/lib/geo";
-import { prisma, type Prisma } from "@/lib/prisma";
+import {
+  findAddressesNearby,
+  resolveNearbyQuery,
+} from "@/app/utils/geo-search";
+import {
+  type ProviderSearchResult,
+  searchProviders,
+} from "@/app/utils/provider-finder-search";
+import { rateLimit } from "@/app/utils/rate-limit";
+import { type Prisma } from "@/lib/prisma";
+import {
+  nearbyQuerySchema,
+  searchQuerySchema,
+} from "@/schemas/provider-finder.types";
 
 import { providerOutletFinderInclude } from "./prisma-types";
 
-// todo: review this file
-
-const MAX_LIMIT = 100;
+const SERVICE_AREA_RESULTS_LIMIT = 20;
 
 export type NearbyProviderResult = {
   address: Prisma.AddressGetPayload<{
@@ -16,68 +26,62 @@ export type NearbyProviderResult = {
   distanceKm: number;
 };
 
-export type NearbyProviderResponse = NearbyProviderResult[] | { error: string };
+export type NearbyProviderPage = {
+  results: NearbyProviderResult[];
+  nextCursor: string | null;
+  /** "Services your area": set on the first page when `includeServiceAreas=true`. */
+  servicesYourArea?: ProviderSearchResult[];
+};
+
+export type NearbyProviderResponse = NearbyProviderPage | { error: string };
 
+/**
+ * Addresses with providers/outlets nearest first. Takes `lat`, `lon`, `radiusKm`
+ * or a viewport bbox (`minLat`, `maxLat`, `minLon`, `maxLon`), plus `cursor`.
+ * `includeServiceAreas=true` also returns mobile providers based elsewhere whose
+ * service areas cover the centre.
+ */
 export async function GET(
   req: NextRequest,
-): Promise<NextResponse<NearbyProviderResult[] | { error: string }>> {
-  try {
-    const { searchParams } = new URL(req.url);
-
-    // todo: should center be based on user location?
-    const minLat = parseFloat(searchParams.get("minLat") || "");
-    const maxLat = parseFloat(searchParams.get("maxLat") || "");
-    const minLon = parseFloat(searchParams.get("minLon") || "");
-    const maxLon = parseFloat(searchParams.get("maxLon") || "");
-
-    if (isNaN(minLat) || isNaN(maxLat) || isNaN(minLon) || isNaN(maxLon)) {
-      return NextResponse.json(
-        { error: "Invalid minLat, maxLat, minLon, maxLon" },
-        { status: 400 },
-      );
-    }
-
-    if (
-      !Number.isFinite(minLat) ||
-      !Number.isFinite(maxLat) ||
-      !Number.isFinite(minLon) ||
-      !Number.isFinite(maxLon)
-    ) {
-      return NextResponse.json(
-        {
-          error:
-            "Valid minLat, maxLat, minLon, maxLon query parameters are required.",
-        },
-        { status: 400 },
-      );
-    }
+): Promise<NextResponse<NearbyProviderResponse>> {
+  const limited = await rateLimit(req, "providerNearby");
+  if (limited) return limited;
 
-    const addressesWithProviders = await prisma.address.findMany({
-      include: providerOutletFinderInclude,
-      where: {
-        latitude: {
-          gte: minLat,
-          lte: maxLat,
-        },
-        longitude: {
-          gte: minLon,
-          lte: maxLon,
-        },
-      },
-      take: MAX_LIMIT,
-    });
-
-    const centerLat = (minLat + maxLat) / 2;
-    const centerLon = (minLon + maxLon) / 2;
+  const parsed = nearbyQuerySchema.safeParse(
+    Object.fromEntries(req.nextUrl.searchParams),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid parameters" },
+      { status: 400 },
+    );
+  }
 
-    const addressesWithProvidersAndDistance = addressesWithProviders
-      .map((a) => ({
-        address: a,
-        distanceKm: distanceKm(centerLat, centerLon, a.latitude!, a.longitude!),
-      }))
-      .sort((a, b) => a.distanceKm - b.distanceKm);
+  const query = resolveNearbyQuery(parsed.data);
+  if (!query) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
 
-    return NextResponse.json(addressesWithProvidersAndDistance);
+  try {
+    const [page, servicesYourArea] = await Promise.all([
+      findAddressesNearby({
+        ...query,
+        include: providerOutletFinderInclude,
+      }),
+      parsed.data.includeServiceAreas && !query.cursor
+        ? searchProviders(
+            searchQuerySchema.parse({
+              lat: query.lat,
+              lon: query.lon,
+              radiusKm: query.radiusKm,
+              coverage: "serviceArea",
+              sort: "distance",
+              pageSize: SERVICE_AREA_RESULTS_LIMIT,
+            }),
+          ).then((res) => res.items)
+        : undefined,
+    ]);
+    return NextResponse.json({ ...page, servicesYourArea });
   } catch (err) {
     console.error("provider-finder nearby:", err);
     return NextResponse.json(
@@ -0,0 +1,20 @@
+import type { MapTile } from "@/lib/mapTiles";
+
+import type { NearbyProviderResult } from "./route";
+
+/**
+ * Map pins are loaded in slippy-map tiles of this zoom whatever the map's own
+ * zoom (pins only show from `CLUSTER_MAX_ZOOM`), so every viewport reuses the
+ * same few tile URLs.
+ */
+export const NEARBY_TILE_ZOOM = 12;
+
+/** Most addresses returned for one tile. */
+export const MAX_TILE_ADDRESSES = 500;
+
+export type NearbyTileResponse = {
+  tile: MapTile;
+  addresses: NearbyProviderResult["address"][];
+  /** More than `MAX_TILE_ADDRESSES` addresses were in the tile. */
+  truncated: boolean;
+};
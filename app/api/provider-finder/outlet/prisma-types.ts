@@ -0,0 +1,46 @@
+import { Prisma } from "@prisma/client";
+
+/** Parent provider fields of `ProviderOutlet["provider"]`. */
+export const outletParentProviderSelect = {
+  id: true,
+  name: true,
+  rating: true,
+  reviewCount: true,
+  ndisRegistered: true,
+  logoUrl: true,
+  description: true,
+  website: true,
+  email: true,
+  phone: true,
+  abn: true,
+  businessType: true,
+  ndisNumber: true,
+  serviceAreas: true,
+  accessibilityFeatures: true,
+} satisfies Prisma.ProviderSelect;
+
+export const providerOutletDetailInclude = {
+  address: true,
+  provider: { select: outletParentProviderSelect },
+  services: { include: { serviceDefinition: true } },
+  specialisations: { include: { specialisationDefinition: true } },
+  businessHours: true,
+} satisfies Prisma.ProviderOutletInclude;
+
+/** Other active outlets of the same provider, for "Other locations". */
+export const siblingOutletSelect = {
+  id: true,
+  name: true,
+  rating: true,
+  reviewCount: true,
+  address: {
+    select: {
+      addressString: true,
+      suburb: true,
+      state: true,
+      postcode: true,
+      latitude: true,
+      longitude: true,
+    },
+  },
+} satisfies Prisma.ProviderOutletSelect;
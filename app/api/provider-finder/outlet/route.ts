@@ -2,15 +2,24 @@ import { NextRequest, NextResponse } from "next/server";
 
 import { prisma } from "@/lib/prisma";
 
-// import {
-//   mapPrismaOutletToProvider,
-//   providerOutletFinderInclude,
-// } from "@/lib/provider-finder-map";
+import {
+  providerOutletDetailInclude,
+  siblingOutletSelect,
+} from "./prisma-types";
+import type { ProviderOutletResponse } from "./types";
 
-/** Single outlet by id (for profile deep links). */
-export async function GET(req: NextRequest) {
+const MAX_SIBLING_OUTLETS = 20;
+
+/**
+ * Single outlet by id (for profile deep links and the selected-outlet panel):
+ * services, specialisations, business hours, address, the parent provider and
+ * its other active outlets.
+ */
+export async function GET(
+  req: NextRequest,
+): Promise<NextResponse<ProviderOutletResponse | { error: string }>> {
   try {
-    const id = new URL(req.url).searchParams.get("id")?.trim();
+    const id = req.nextUrl.searchParams.get("id")?.trim();
     if (!id) {
       return NextResponse.json({ error: "Missing id" }, { status: 400 });
     }
@@ -21,19 +30,31 @@ export async function GET(req: NextRequest) {
         isActive: true,
         provider: { isActive: true },
       },
-      // include: providerOutletFinderInclude,
+      include: providerOutletDetailInclude,
     });
 
     if (!outlet) {
       return NextResponse.json({ error: "Not found" }, { status: 404 });
     }
 
-    const provider = 2 as any;
-    if (!provider) {
-      return NextResponse.json({ error: "Not found" }, { status: 404 });
-    }
+    const siblingWhere = {
+      providerId: outlet.providerId,
+      isActive: true,
+      id: { not: outlet.id },
+    };
+    const [siblingOutlets, siblingOutletCount] = await Promise.all([
+      prisma.providerOutlet.findMany({
+        where: siblingWhere,
+        select: siblingOutletSelect,
+        orderBy: { name: "asc" },
+        take: MAX_SIBLING_OUTLETS,
+      }),
+      prisma.providerOutlet.count({ where: siblingWhere }),
+    ]);
 
-    return NextResponse.json({ provider });
+    return NextResponse.json({
+      providerOutlet: { ...outlet, siblingOutlets, siblingOutletCount },
+    });
   } catch (err) {
     console.error("provider-finder outlet:", err);
     return NextResponse.json(
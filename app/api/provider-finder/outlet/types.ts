@@ -0,0 +1,22 @@
+import type { Address, ProviderOutlet } from "@/app/provider-finder/providers";
+
+export type SiblingOutlet = {
+  id: string;
+  name: string;
+  rating: number | null;
+  reviewCount: number;
+  address: Pick<
+    Address,
+    "addressString" | "suburb" | "state" | "postcode" | "latitude" | "longitude"
+  > | null;
+};
+
+/** `ProviderOutlet` plus what a deep link or the selected-outlet panel shows. */
+export type ProviderOutletDetail = ProviderOutlet & {
+  address: Address | null;
+  /** Other active outlets of the provider, alphabetical; the first 20. */
+  siblingOutlets: SiblingOutlet[];
+  siblingOutletCount: number;
+};
+
+export type ProviderOutletResponse = { providerOutlet: ProviderOutletDetail };
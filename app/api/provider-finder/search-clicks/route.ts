@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+
+import { recordSearchClick } from "@/app/utils/search-analytics";
+import { searchClickPayloadSchema } from "@/schemas/search-analytics.types";
+
+/**
+ * Click on a result of a logged finder or autocomplete search (`searchId` from
+ * the search response). Sent with `navigator.sendBeacon`, so it answers 204.
+ */
+export async function POST(request: Request) {
+  const json = await request.json().catch(() => null);
+  const parsed = searchClickPayloadSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid body" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await recordSearchClick(parsed.data);
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    console.error("provider-finder search click:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  ProviderSearchResponse,
+  searchProviders,
+} from "@/app/utils/provider-finder-search";
+import { rateLimit } from "@/app/utils/rate-limit";
+import { logSearch } from "@/app/utils/search-analytics";
+import {
+  searchQuerySchema,
+  type SearchQuery,
+} from "@/schemas/provider-finder.types";
+
+/** Filters worth reporting on, leaving out defaults. */
+function loggedFilters(query: SearchQuery) {
+  return {
+    ...(query.serviceIds.length > 0 && { serviceIds: query.serviceIds }),
+    ...(query.specialisationIds.length > 0 && {
+      specialisationIds: query.specialisationIds,
+    }),
+    ...(query.languageIds.length > 0 && { languageIds: query.languageIds }),
+    ...(query.registeredOnly && { registeredOnly: true }),
+    ...(query.accessibilityFeatures.length > 0 && {
+      accessibilityFeatures: query.accessibilityFeatures,
+    }),
+    ...(query.openNow && { openNow: true }),
+    ...(query.openWeekends && { openWeekends: true }),
+    ...(query.openAfter && { openAfter: query.openAfter }),
+    ...(query.coverage !== "all" && { coverage: query.coverage }),
+    ...(query.sort !== "relevance" && { sort: query.sort }),
+  };
+}
+
+/**
+ * Paged provider + outlet search for the Provider Finder.
+ * Accepts a bbox (`minLat`, `maxLat`, `minLon`, `maxLon`) or centre + radius
+ * (`lat`, `lon`, `radiusKm`), plus `q`, `serviceIds`, `specialisationIds`,
+ * `languageIds`, `registeredOnly`, `accessibilityFeatures`, `sort`, `page` and
+ * `pageSize`.
+ */
+export async function GET(
+  req: NextRequest,
+): Promise<NextResponse<ProviderSearchResponse | { error: string }>> {
+  const parsed = searchQuerySchema.safeParse(
+    Object.fromEntries(req.nextUrl.searchParams),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid search parameters" },
+      { status: 400 },
+    );
+  }
+
+  const limited = await rateLimit(req, "finderSearch");
+  if (limited) return limited;
+
+  try {
+    const startedAt = performance.now();
+    const results = await searchProviders(parsed.data);
+    const query = parsed.data;
+
+    // Later pages are the same search, so only the first is logged.
+    if (query.page > 1) return NextResponse.json(results);
+
+    const hasBbox = query.minLat !== undefined && query.maxLat !== undefined;
+    const searchId = logSearch({
+      source: "FINDER",
+      query: query.q,
+      filters: loggedFilters(query),
+      latitude: hasBbox ? (query.minLat! + query.maxLat!) / 2 : query.lat,
+      longitude: hasBbox ? (query.minLon! + query.maxLon!) / 2 : query.lon,
+      resultCount: results.total,
+      latencyMs: performance.now() - startedAt,
+    });
+    return NextResponse.json({ ...results, searchId });
+  } catch (err) {
+    console.error("provider-finder search:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+
+import { getSessionUserId } from "@/app/utils/provider-admin";
+import { toSavedSearchItem } from "@/app/utils/saved-searches";
+import { prisma } from "@/lib/prisma";
+import {
+  patchSavedSearchPayloadSchema,
+  type SavedSearchItem,
+} from "@/schemas/saved-searches.types";
+
+async function findOwnSavedSearch(userId: string, savedSearchId: string) {
+  return prisma.savedSearch.findFirst({
+    where: { id: savedSearchId, userId },
+    select: { id: true },
+  });
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ savedSearchId: string }> },
+): Promise<NextResponse<{ savedSearch: SavedSearchItem } | { error: string }>> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { savedSearchId } = await params;
+  if (!(await findOwnSavedSearch(userId, savedSearchId))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const json = await request.json().catch(() => null);
+  const parsed = patchSavedSearchPayloadSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid body" },
+      { status: 400 },
+    );
+  }
+
+  const savedSearch = await prisma.savedSearch.update({
+    where: { id: savedSearchId },
+    data: parsed.data,
+  });
+  return NextResponse.json({ savedSearch: toSavedSearchItem(savedSearch) });
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ savedSearchId: string }> },
+): Promise<NextResponse<{ ok: true } | { error: string }>> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { savedSearchId } = await params;
+  if (!(await findOwnSavedSearch(userId, savedSearchId))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  await prisma.savedSearch.delete({ where: { id: savedSearchId } });
+  return NextResponse.json({ ok: true });
+}
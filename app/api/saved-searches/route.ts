@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+
+import { getSessionUserId } from "@/app/utils/provider-admin";
+import {
+  createSavedSearch,
+  listSavedSearches,
+  parseSavedSearchParams,
+  toSavedSearchItem,
+} from "@/app/utils/saved-searches";
+import {
+  createSavedSearchPayloadSchema,
+  type SavedSearchesResponse,
+  type SavedSearchItem,
+} from "@/schemas/saved-searches.types";
+
+const MAX_SAVED_SEARCHES_PER_USER = 25;
+
+export async function GET(): Promise<
+  NextResponse<SavedSearchesResponse | { error: string }>
+> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json({ savedSearches: await listSavedSearches(userId) });
+}
+
+/**
+ * Saves the current finder search (query, filters, location and radius) for
+ * the signed-in user, with optional email digests of new matches.
+ */
+export async function POST(
+  request: Request,
+): Promise<NextResponse<{ savedSearch: SavedSearchItem } | { error: string }>> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const json = await request.json().catch(() => null);
+  const parsed = createSavedSearchPayloadSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid body" },
+      { status: 400 },
+    );
+  }
+
+  const search = parseSavedSearchParams(parsed.data.params);
+  if (!search.success) {
+    return NextResponse.json(
+      { error: search.error.issues[0]?.message ?? "Invalid search" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const existing = await listSavedSearches(userId);
+    if (existing.length >= MAX_SAVED_SEARCHES_PER_USER) {
+      return NextResponse.json(
+        {
+          error: `You can save up to ${MAX_SAVED_SEARCHES_PER_USER} searches. Remove one first.`,
+        },
+        { status: 409 },
+      );
+    }
+
+    const savedSearch = await createSavedSearch(userId, parsed.data);
+    return NextResponse.json(
+      { savedSearch: toSavedSearchItem(savedSearch) },
+      { status: 201 },
+    );
+  } catch (err) {
+    console.error("saved searches:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
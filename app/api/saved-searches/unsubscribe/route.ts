@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { ROUTES } from "@/lib/routes";
+
+/**
+ * Turns off digest emails for one saved search. Accepts the token in the query
+ * string (RFC 8058 one-click from mail clients' `List-Unsubscribe-Post`) or as
+ * a form field from the confirm page, which is redirected back afterwards.
+ */
+export async function POST(req: NextRequest) {
+  const contentType = req.headers.get("content-type") ?? "";
+  const isForm = contentType.includes("application/x-www-form-urlencoded");
+  const form = isForm ? await req.formData() : null;
+  const token =
+    req.nextUrl.searchParams.get("token") ??
+    (typeof form?.get("token") === "string" ? String(form.get("token")) : "");
+
+  if (!token) {
+    return NextResponse.json({ error: "Missing token" }, { status: 400 });
+  }
+
+  const { count } = await prisma.savedSearch.updateMany({
+    where: { unsubscribeToken: token },
+    data: { emailAlerts: false },
+  });
+  if (count === 0) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  if (form) {
+    const url = new URL(ROUTES.savedSearchUnsubscribe(token), req.url);
+    url.searchParams.set("done", "1");
+    return NextResponse.redirect(url, 303);
+  }
+  return NextResponse.json({ ok: true });
+}
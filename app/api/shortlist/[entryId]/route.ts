@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+
+import { getSessionUserId } from "@/app/utils/provider-admin";
+import { prisma } from "@/lib/prisma";
+import { patchShortlistEntryPayloadSchema } from "@/schemas/shortlist.types";
+
+async function findOwnShortlistEntry(userId: string, entryId: string) {
+  return prisma.shortlistEntry.findFirst({
+    where: { id: entryId, userId },
+    select: { id: true },
+  });
+}
+
+/** Updates the private note on a shortlist entry. */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ entryId: string }> },
+): Promise<NextResponse<{ note: string | null } | { error: string }>> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { entryId } = await params;
+  if (!(await findOwnShortlistEntry(userId, entryId))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const json = await request.json().catch(() => null);
+  const parsed = patchShortlistEntryPayloadSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid body" },
+      { status: 400 },
+    );
+  }
+
+  const entry = await prisma.shortlistEntry.update({
+    where: { id: entryId },
+    data: { note: parsed.data.note },
+    select: { note: true },
+  });
+  return NextResponse.json({ note: entry.note });
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ entryId: string }> },
+): Promise<NextResponse<{ ok: true } | { error: string }>> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { entryId } = await params;
+  if (!(await findOwnShortlistEntry(userId, entryId))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  await prisma.shortlistEntry.delete({ where: { id: entryId } });
+  return NextResponse.json({ ok: true });
+}
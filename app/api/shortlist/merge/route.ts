@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+
+import { getSessionUserId } from "@/app/utils/provider-admin";
+import { listShortlist, mergeShortlist } from "@/app/utils/shortlist";
+import {
+  mergeShortlistPayloadSchema,
+  type ShortlistResponse,
+} from "@/schemas/shortlist.types";
+
+/** Adds the shortlist kept while signed out to the account. */
+export async function POST(
+  request: Request,
+): Promise<NextResponse<ShortlistResponse | { error: string }>> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const json = await request.json().catch(() => null);
+  const parsed = mergeShortlistPayloadSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid body" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await mergeShortlist(userId, parsed.data.entries);
+    return NextResponse.json({ entries: await listShortlist(userId) });
+  } catch (err) {
+    console.error("shortlist merge:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+
+import { getSessionUserId } from "@/app/utils/provider-admin";
+import {
+  addToShortlist,
+  listShortlist,
+  MAX_SHORTLIST_ENTRIES,
+} from "@/app/utils/shortlist";
+import { prisma } from "@/lib/prisma";
+import {
+  addShortlistEntryPayloadSchema,
+  type ShortlistEntryItem,
+  type ShortlistResponse,
+} from "@/schemas/shortlist.types";
+
+export async function GET(): Promise<
+  NextResponse<ShortlistResponse | { error: string }>
+> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json({ entries: await listShortlist(userId) });
+}
+
+/** Adds a provider, outlet or worker to the signed-in user's shortlist. */
+export async function POST(
+  request: Request,
+): Promise<NextResponse<{ entry: ShortlistEntryItem } | { error: string }>> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const json = await request.json().catch(() => null);
+  const parsed = addShortlistEntryPayloadSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid body" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const count = await prisma.shortlistEntry.count({ where: { userId } });
+    if (count >= MAX_SHORTLIST_ENTRIES) {
+      return NextResponse.json(
+        {
+          error: `Your shortlist can hold up to ${MAX_SHORTLIST_ENTRIES} entries. Remove one first.`,
+        },
+        { status: 409 },
+      );
+    }
+
+    const entry = await addToShortlist(userId, parsed.data);
+    if (!entry) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (err) {
+    console.error("shortlist:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
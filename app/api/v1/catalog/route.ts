@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getPartnerCatalog } from "@/app/utils/partner-api";
+import { withPartnerApi } from "@/app/utils/partner-api-keys";
+
+/** Ids for the search filters (`serviceIds`, `languageIds`, …). */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  return withPartnerApi(req, "GET /api/v1/catalog", async () =>
+    NextResponse.json(await getPartnerCatalog()),
+  );
+}
@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { buildPartnerOpenApiDocument } from "@/app/utils/openapi";
+
+/** The partner API's contract. Public, so partners can read it before a key. */
+export function GET(req: NextRequest): NextResponse {
+  return NextResponse.json(buildPartnerOpenApiDocument(req.nextUrl.origin), {
+    headers: { "Cache-Control": "public, max-age=3600" },
+  });
+}
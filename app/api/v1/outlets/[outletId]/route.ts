@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getPartnerOutlet } from "@/app/utils/partner-api";
+import { withPartnerApi } from "@/app/utils/partner-api-keys";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ outletId: string }> },
+): Promise<NextResponse> {
+  return withPartnerApi(req, "GET /api/v1/outlets/{outletId}", async () => {
+    const { outletId } = await params;
+    const outlet = await getPartnerOutlet(outletId);
+    if (!outlet) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json(outlet);
+  });
+}
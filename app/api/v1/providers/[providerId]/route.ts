@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getPartnerProvider } from "@/app/utils/partner-api";
+import { withPartnerApi } from "@/app/utils/partner-api-keys";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ providerId: string }> },
+): Promise<NextResponse> {
+  return withPartnerApi(req, "GET /api/v1/providers/{providerId}", async () => {
+    const { providerId } = await params;
+    const provider = await getPartnerProvider(providerId);
+    if (!provider) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json(provider);
+  });
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { searchForPartner } from "@/app/utils/partner-api";
+import { withPartnerApi } from "@/app/utils/partner-api-keys";
+import { partnerSearchQuerySchema } from "@/schemas/partner-api.types";
+
+/** Partner provider + outlet search; same params as the finder's search. */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  return withPartnerApi(req, "GET /api/v1/search", async () => {
+    const parsed = partnerSearchQuerySchema.safeParse(
+      Object.fromEntries(req.nextUrl.searchParams),
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: parsed.error.issues[0]?.message ?? "Invalid search parameters",
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json(await searchForPartner(parsed.data));
+  });
+}
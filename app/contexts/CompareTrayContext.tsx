@@ -0,0 +1,132 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+
+import { MAX_COMPARE_ITEMS } from "@/schemas/provider-finder.types";
+
+export type CompareItem = {
+  type: "provider" | "outlet";
+  id: string;
+  name: string;
+};
+
+interface CompareTrayContextType {
+  items: CompareItem[];
+  isFull: boolean;
+  has: (type: CompareItem["type"], id: string) => boolean;
+  toggle: (item: CompareItem) => void;
+  remove: (type: CompareItem["type"], id: string) => void;
+  /** Replaces the tray, e.g. with the providers on a shared compare link. */
+  replace: (items: CompareItem[]) => void;
+  clear: () => void;
+}
+
+const CompareTrayContext = createContext<CompareTrayContextType | undefined>(
+  undefined,
+);
+
+const STORAGE_KEY = "mapable-compare-tray";
+
+function isCompareItem(value: unknown): value is CompareItem {
+  if (typeof value !== "object" || value === null) return false;
+  const item = value as Record<string, unknown>;
+  return (
+    (item.type === "provider" || item.type === "outlet") &&
+    typeof item.id === "string" &&
+    typeof item.name === "string"
+  );
+}
+
+function readStoredItems(): CompareItem[] {
+  try {
+    const parsed: unknown = JSON.parse(
+      localStorage.getItem(STORAGE_KEY) ?? "[]",
+    );
+    return Array.isArray(parsed)
+      ? parsed.filter(isCompareItem).slice(0, MAX_COMPARE_ITEMS)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Providers/outlets picked for `/provider-finder/compare`, kept across visits. */
+export function CompareTrayProvider({ children }: { children: ReactNode }) {
+  const [items, setItems] = useState<CompareItem[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  // Set by `replace`, which can run before the stored tray is read (children's
+  // effects run first); the page's items then win over the stored ones.
+  const replacedRef = useRef(false);
+
+  // Read after mount so the server render and hydration agree.
+  useEffect(() => {
+    if (!replacedRef.current) setItems(readStoredItems());
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (loaded) localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  }, [items, loaded]);
+
+  const has = useCallback(
+    (type: CompareItem["type"], id: string) =>
+      items.some((i) => i.type === type && i.id === id),
+    [items],
+  );
+
+  const remove = useCallback((type: CompareItem["type"], id: string) => {
+    setItems((prev) => prev.filter((i) => !(i.type === type && i.id === id)));
+  }, []);
+
+  const toggle = useCallback((item: CompareItem) => {
+    setItems((prev) => {
+      if (prev.some((i) => i.type === item.type && i.id === item.id)) {
+        return prev.filter((i) => !(i.type === item.type && i.id === item.id));
+      }
+      return prev.length < MAX_COMPARE_ITEMS ? [...prev, item] : prev;
+    });
+  }, []);
+
+  const replace = useCallback((next: CompareItem[]) => {
+    replacedRef.current = true;
+    setItems(next.slice(0, MAX_COMPARE_ITEMS));
+  }, []);
+
+  const clear = useCallback(() => setItems([]), []);
+
+  const value = useMemo(
+    () => ({
+      items,
+      isFull: items.length >= MAX_COMPARE_ITEMS,
+      has,
+      toggle,
+      remove,
+      replace,
+      clear,
+    }),
+    [items, has, toggle, remove, replace, clear],
+  );
+
+  return (
+    <CompareTrayContext.Provider value={value}>
+      {children}
+    </CompareTrayContext.Provider>
+  );
+}
+
+export function useCompareTray() {
+  const context = useContext(CompareTrayContext);
+  if (!context) {
+    throw new Error("useCompareTray must be used within a CompareTrayProvider");
+  }
+  return context;
+}
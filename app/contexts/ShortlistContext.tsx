@@ -0,0 +1,218 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSession } from "next-auth/react";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+
+import { API_ROUTES } from "@/lib/routes";
+import {
+  MAX_LOCAL_SHORTLIST_ENTRIES,
+  type ShortlistEntityType,
+  type ShortlistResponse,
+} from "@/schemas/shortlist.types";
+
+export const SHORTLIST_QUERY_KEY = ["shortlist"];
+
+/** What a heart button needs to add something to the shortlist. */
+export type ShortlistTarget = {
+  type: ShortlistEntityType;
+  id: string;
+  name: string;
+};
+
+interface ShortlistContextType {
+  /** False until the account's (or this browser's) shortlist has loaded. */
+  ready: boolean;
+  isShortlisted: (type: ShortlistEntityType, id: string) => boolean;
+  toggle: (target: ShortlistTarget) => Promise<void>;
+}
+
+const ShortlistContext = createContext<ShortlistContextType | undefined>(
+  undefined,
+);
+
+const STORAGE_KEY = "mapable-shortlist";
+
+function isShortlistTarget(value: unknown): value is ShortlistTarget {
+  if (typeof value !== "object" || value === null) return false;
+  const item = value as Record<string, unknown>;
+  return (
+    (item.type === "provider" ||
+      item.type === "outlet" ||
+      item.type === "worker") &&
+    typeof item.id === "string" &&
+    typeof item.name === "string"
+  );
+}
+
+function readStoredTargets(): ShortlistTarget[] {
+  try {
+    const parsed: unknown = JSON.parse(
+      localStorage.getItem(STORAGE_KEY) ?? "[]",
+    );
+    return Array.isArray(parsed)
+      ? parsed.filter(isShortlistTarget).slice(0, MAX_LOCAL_SHORTLIST_ENTRIES)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+async function sendShortlist(
+  url: string,
+  method: "POST" | "DELETE",
+  body?: unknown,
+) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(
+      typeof data.error === "string" ? data.error : "Save failed",
+    );
+  }
+  return data;
+}
+
+/**
+ * The shortlist behind the heart buttons: the account's when signed in,
+ * otherwise this browser's, which is added to the account on sign-in.
+ */
+export function ShortlistProvider({ children }: { children: ReactNode }) {
+  const { status } = useSession();
+  const queryClient = useQueryClient();
+  const signedIn = status === "authenticated";
+
+  const [localTargets, setLocalTargets] = useState<ShortlistTarget[]>([]);
+  const [localLoaded, setLocalLoaded] = useState(false);
+
+  // Read after mount so the server render and hydration agree.
+  useEffect(() => {
+    setLocalTargets(readStoredTargets());
+    setLocalLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (localLoaded) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(localTargets));
+    }
+  }, [localTargets, localLoaded]);
+
+  const shortlistQuery = useQuery<ShortlistResponse, Error>({
+    queryKey: SHORTLIST_QUERY_KEY,
+    queryFn: async () => {
+      const res = await fetch(API_ROUTES.shortlist.list);
+      if (!res.ok) throw new Error("Failed to load shortlist");
+      return res.json() as Promise<ShortlistResponse>;
+    },
+    enabled: signedIn,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: (targets: ShortlistTarget[]) =>
+      sendShortlist(API_ROUTES.shortlist.merge, "POST", {
+        entries: targets.map(({ type, id }) => ({ type, id })),
+      }) as Promise<ShortlistResponse>,
+    onSuccess: (data) => {
+      queryClient.setQueryData(SHORTLIST_QUERY_KEY, data);
+      setLocalTargets([]);
+    },
+  });
+
+  // Once per sign-in; on failure the local list is kept for the next visit.
+  const mergeStarted = useRef(false);
+  useEffect(() => {
+    if (!signedIn) {
+      mergeStarted.current = false;
+      return;
+    }
+    if (!localLoaded || mergeStarted.current) return;
+    mergeStarted.current = true;
+    if (localTargets.length > 0) mergeMutation.mutate(localTargets);
+  }, [signedIn, localLoaded, localTargets, mergeMutation]);
+
+  const entries = shortlistQuery.data?.entries;
+
+  const isShortlisted = useCallback(
+    (type: ShortlistEntityType, id: string) =>
+      signedIn
+        ? (entries ?? []).some((e) => e.type === type && e.entityId === id)
+        : localTargets.some((t) => t.type === type && t.id === id),
+    [signedIn, entries, localTargets],
+  );
+
+  const toggle = useCallback(
+    async (target: ShortlistTarget) => {
+      if (!signedIn) {
+        const shortlisted = localTargets.some(
+          (t) => t.type === target.type && t.id === target.id,
+        );
+        if (
+          !shortlisted &&
+          localTargets.length >= MAX_LOCAL_SHORTLIST_ENTRIES
+        ) {
+          throw new Error(
+            `Sign in to keep more than ${MAX_LOCAL_SHORTLIST_ENTRIES} on your shortlist`,
+          );
+        }
+        setLocalTargets((prev) =>
+          prev.some((t) => t.type === target.type && t.id === target.id)
+            ? prev.filter(
+                (t) => !(t.type === target.type && t.id === target.id),
+              )
+            : [...prev, target],
+        );
+        return;
+      }
+
+      const existing = (entries ?? []).find(
+        (e) => e.type === target.type && e.entityId === target.id,
+      );
+      if (existing) {
+        await sendShortlist(API_ROUTES.shortlist.item(existing.id), "DELETE");
+      } else {
+        await sendShortlist(API_ROUTES.shortlist.list, "POST", {
+          type: target.type,
+          id: target.id,
+        });
+      }
+      await queryClient.invalidateQueries({ queryKey: SHORTLIST_QUERY_KEY });
+    },
+    [signedIn, localTargets, entries, queryClient],
+  );
+
+  const ready = signedIn
+    ? shortlistQuery.isSuccess
+    : status === "unauthenticated" && localLoaded;
+
+  const value = useMemo(
+    () => ({ ready, isShortlisted, toggle }),
+    [ready, isShortlisted, toggle],
+  );
+
+  return (
+    <ShortlistContext.Provider value={value}>
+      {children}
+    </ShortlistContext.Provider>
+  );
+}
+
+export function useShortlist() {
+  const context = useContext(ShortlistContext);
+  if (!context) {
+    throw new Error("useShortlist must be used within a ShortlistProvider");
+  }
+  return context;
+}
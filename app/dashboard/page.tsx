@@ -3,6 +3,11 @@ import { redirect } from "next/navigation";
 import { getServerSession } from "next-auth";
 
 import { authOptions } from "@/app/api/auth/[...nextauth]/authOptions";
+import { listSavedSearches } from "@/app/utils/saved-searches";
+import { listShortlist } from "@/app/utils/shortlist";
+import { isSiteAdmin } from "@/app/utils/site-admin";
+import { SavedSearchesList } from "@/components/saved-searches/SavedSearchesList";
+import { ShortlistList } from "@/components/shortlist/ShortlistList";
 import { prisma } from "@/lib/prisma";
 
 export default async function Dashboard() {
@@ -15,6 +20,9 @@ export default async function Dashboard() {
     include: { provider: { select: { id: true, name: true } } },
     orderBy: { provider: { name: "asc" } },
   });
+  const siteAdmin = await isSiteAdmin(session.user.id);
+  const savedSearches = await listSavedSearches(session.user.id);
+  const shortlist = await listShortlist(session.user.id);
 
   return (
     <div className="mx-auto max-w-lg space-y-6 px-4 py-10">
@@ -53,6 +61,53 @@ export default async function Dashboard() {
           )}
         </div>
       )}
+      <div className="rounded-xl border border-border bg-card p-4 shadow-sm">
+        <h2 className="font-semibold">Shortlist</h2>
+        <ShortlistList initialEntries={shortlist} />
+      </div>
+      <div className="rounded-xl border border-border bg-card p-4 shadow-sm">
+        <h2 className="font-semibold">Saved searches</h2>
+        <SavedSearchesList initialSavedSearches={savedSearches} />
+      </div>
+      {siteAdmin && (
+        <div className="rounded-xl border border-border bg-card p-4 shadow-sm">
+          <h2 className="font-semibold">Site administration</h2>
+          <ul className="mt-3 space-y-2">
+            <li>
+              <Link
+                href="/admin/search-synonyms"
+                className="text-sm font-medium text-primary hover:underline"
+              >
+                Search synonyms
+              </Link>
+            </li>
+            <li>
+              <Link
+                href="/admin/search-analytics"
+                className="text-sm font-medium text-primary hover:underline"
+              >
+                Search analytics
+              </Link>
+            </li>
+            <li>
+              <Link
+                href="/admin/partner-api-keys"
+                className="text-sm font-medium text-primary hover:underline"
+              >
+                Partner API keys
+              </Link>
+            </li>
+            <li>
+              <Link
+                href="/admin/finder-embeds"
+                className="text-sm font-medium text-primary hover:underline"
+              >
+                Finder embeds
+              </Link>
+            </li>
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,278 @@
+"use client";
+
+import { ExternalLink, MapPin, Search } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+
+import { cn } from "@/app/lib/utils";
+import LocationAutocomplete from "@/app/provider-finder/components/LocationAutocomplete";
+import { useProviderFinderSearch } from "@/app/provider-finder/hooks/useProviderFinderSearch";
+import { trackSearchClick } from "@/app/provider-finder/trackSearchClick";
+import { getBoundingBox } from "@/app/utils/getBoundingBox";
+import type { ProviderSearchResult } from "@/app/utils/provider-finder-search";
+import { Button } from "@/components/ui/button";
+import { ROUTES } from "@/lib/routes";
+import type { FinderEmbedQuery } from "@/schemas/finder-embed.types";
+
+const EMBED_PAGE_SIZE = 6;
+const DEFAULT_RADIUS_KM = 10;
+/** Sent to the embedding page so `finder-embed.js` can size the iframe. */
+const RESIZE_MESSAGE = "mapable-finder:resize";
+
+type EmbedLocation = { lat: number; lon: number; label: string | null };
+
+function resultLink(item: ProviderSearchResult) {
+  return item.type === "provider"
+    ? `/provider/${encodeURIComponent(item.provider.id)}`
+    : `/provider-outlet/${encodeURIComponent(item.providerOutlet.id)}`;
+}
+
+/** The same search on the full finder. */
+function fullFinderUrl(
+  q: string,
+  serviceIds: string[],
+  location: EmbedLocation | null,
+  radiusKm: number,
+) {
+  const params = new URLSearchParams();
+  if (q.trim()) params.set("q", q.trim());
+  if (serviceIds.length > 0) params.set("serviceIds", serviceIds.join(","));
+  if (location) {
+    params.set("lat", location.lat.toFixed(4));
+    params.set("lon", location.lon.toFixed(4));
+    params.set("radiusKm", String(radiusKm));
+  }
+  return `${ROUTES.providerFinder}?${params}`;
+}
+
+function ResultItem({
+  item,
+  onOpen,
+}: {
+  item: ProviderSearchResult;
+  onOpen: () => void;
+}) {
+  const entity = item.type === "provider" ? item.provider : item.providerOutlet;
+  const services = entity.services.map((s) => s.serviceDefinition.name);
+
+  return (
+    <li className="rounded-lg border border-border bg-card p-3">
+      <div className="flex flex-wrap items-baseline justify-between gap-x-3">
+        <h2 className="font-semibold">{entity.name}</h2>
+        <span className="text-xs text-muted-foreground">
+          {item.coverage === "serviceArea"
+            ? "Services your area"
+            : `${item.distanceKm.toFixed(1)} km`}
+        </span>
+      </div>
+      {item.type === "outlet" ? (
+        <p className="text-xs text-muted-foreground">
+          Part of {item.providerOutlet.provider.name}
+        </p>
+      ) : null}
+      <p className="mt-1 text-sm text-muted-foreground">
+        {item.address.addressString}
+      </p>
+      {services.length > 0 ? (
+        <p className="mt-1 text-xs">
+          {services.slice(0, 3).join(" · ")}
+          {services.length > 3 ? ` +${services.length - 3} more` : ""}
+        </p>
+      ) : null}
+      <a
+        href={resultLink(item)}
+        target="_blank"
+        rel="noopener"
+        onClick={onOpen}
+        className="mt-2 inline-flex items-center gap-1 text-sm font-medium text-primary hover:underline"
+      >
+        Full profile on Mapable
+        <ExternalLink className="h-3.5 w-3.5" aria-hidden />
+        <span className="sr-only">(opens in a new tab)</span>
+      </a>
+    </li>
+  );
+}
+
+export default function EmbeddedFinderClient({
+  embedId,
+  config,
+  services,
+}: {
+  embedId: string;
+  config: FinderEmbedQuery;
+  /** The embed's fixed service categories. */
+  services: { id: string; name: string }[];
+}) {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const [q, setQ] = useState(config.q);
+  const [page, setPage] = useState(1);
+  const [location, setLocation] = useState<EmbedLocation | null>(
+    config.lat !== undefined && config.lon !== undefined
+      ? { lat: config.lat, lon: config.lon, label: config.location ?? null }
+      : null,
+  );
+  const radiusKm = config.radiusKm ?? DEFAULT_RADIUS_KM;
+
+  const { data, isFetching, isError } = useProviderFinderSearch({
+    q,
+    mapSearchView: location
+      ? getBoundingBox(location.lat, location.lon, radiusKm)
+      : null,
+    serviceIds: config.serviceIds,
+    specialisationIds: [],
+    languageIds: [],
+    registeredOnly: false,
+    accessibilityFeatures: [],
+    openNow: false,
+    openWeekends: false,
+    openAfter: null,
+    coverage: "all",
+    sort: "relevance",
+    page,
+    pageSize: EMBED_PAGE_SIZE,
+  });
+
+  // Only first pages are logged; later pages' clicks belong to that search.
+  const searchLogIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (data?.searchId) searchLogIdRef.current = data.searchId;
+  }, [data]);
+
+  // The iframe can't size itself; the embedding page does, from these.
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root || window.parent === window) return;
+    const observer = new ResizeObserver(() => {
+      // Only the height is sent, and framing is limited to the embed's
+      // origins, so any target origin is fine.
+      window.parent.postMessage(
+        { type: RESIZE_MESSAGE, embed: embedId, height: root.offsetHeight },
+        "*",
+      );
+    });
+    observer.observe(root);
+    return () => observer.disconnect();
+  }, [embedId]);
+
+  const trackResultClick = (index: number, item: ProviderSearchResult) => {
+    if (!searchLogIdRef.current) return;
+    trackSearchClick({
+      searchId: searchLogIdRef.current,
+      position: (page - 1) * EMBED_PAGE_SIZE + index + 1,
+      entityType: item.type,
+      entityId:
+        item.type === "provider" ? item.provider.id : item.providerOutlet.id,
+    });
+  };
+
+  const items = data?.items ?? [];
+  const totalPages = data?.totalPages ?? 0;
+
+  return (
+    <div ref={rootRef} className="space-y-3 bg-background p-3 text-foreground">
+      <div className="grid gap-2 sm:grid-cols-2">
+        <label className="relative block">
+          <span className="sr-only">Search providers</span>
+          <Search
+            className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground"
+            aria-hidden
+          />
+          <input
+            type="search"
+            value={q}
+            onChange={(e) => {
+              setQ(e.target.value);
+              setPage(1);
+            }}
+            placeholder="Provider name or service"
+            className="w-full rounded-lg border border-input bg-background py-2 pl-9 pr-3 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          />
+        </label>
+        <LocationAutocomplete
+          id="embedded-finder-location"
+          currentLocationLabel={location?.label}
+          onSelect={(place) => {
+            setLocation({
+              lat: place.latitude,
+              lon: place.longitude,
+              label: place.displayName,
+            });
+            setPage(1);
+          }}
+        />
+      </div>
+
+      {services.length > 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Showing {services.map((s) => s.name).join(", ")}
+        </p>
+      ) : null}
+
+      {!location ? (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <MapPin className="h-4 w-4" aria-hidden />
+          Enter a suburb or postcode to find providers near you.
+        </p>
+      ) : isError ? (
+        <p className="text-sm text-destructive">
+          Search isn&rsquo;t working right now. Please try again.
+        </p>
+      ) : (
+        <>
+          <p role="status" className="text-sm text-muted-foreground">
+            {data
+              ? `${data.total.toLocaleString()} ${data.total === 1 ? "result" : "results"} within ${radiusKm} km${location.label ? ` of ${location.label}` : ""}`
+              : "Searching…"}
+          </p>
+          <ul className={cn("space-y-2", isFetching && "opacity-60")}>
+            {items.map((item, index) => (
+              <ResultItem
+                key={`${item.type}:${item.type === "provider" ? item.provider.id : item.providerOutlet.id}`}
+                item={item}
+                onOpen={() => trackResultClick(index, item)}
+              />
+            ))}
+          </ul>
+          {totalPages > 1 ? (
+            <div className="flex items-center justify-between gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={page <= 1}
+                onClick={() => setPage((p) => p - 1)}
+              >
+                Previous
+              </Button>
+              <span className="text-xs text-muted-foreground">
+                Page {page} of {totalPages}
+              </span>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={page >= totalPages}
+                onClick={() => setPage((p) => p + 1)}
+              >
+                Next
+              </Button>
+            </div>
+          ) : null}
+        </>
+      )}
+
+      <p className="border-t border-border pt-2 text-xs text-muted-foreground">
+        Provider information from{" "}
+        <a
+          href={fullFinderUrl(q, config.serviceIds, location, radiusKm)}
+          target="_blank"
+          rel="noopener"
+          className="font-medium text-primary hover:underline"
+        >
+          Mapable
+        </a>
+        , the disability provider directory.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import type { CSSProperties } from "react";
+
+import { getActiveFinderEmbed } from "@/app/utils/finder-embeds";
+import { prisma } from "@/lib/prisma";
+import { ROUTES } from "@/lib/routes";
+import { hexToHslChannels, readableForeground } from "@/lib/themeColours";
+import { finderEmbedQuerySchema } from "@/schemas/finder-embed.types";
+
+import EmbeddedFinderClient from "./EmbeddedFinderClient";
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+export const metadata = {
+  title: "Find NDIS providers – Mapable",
+  robots: { index: false },
+};
+
+/** Partner colours as theme variables, scoped to the widget. */
+function themeStyle(colours: { primary?: string; secondary?: string }) {
+  const style: Record<string, string> = {};
+  if (colours.primary) {
+    style["--primary"] = hexToHslChannels(colours.primary);
+    style["--primary-foreground"] = readableForeground(colours.primary);
+    style["--ring"] = style["--primary"];
+    style["--accent-foreground"] = style["--primary"];
+  }
+  if (colours.secondary) {
+    style["--secondary"] = hexToHslChannels(colours.secondary);
+    style["--secondary-foreground"] = readableForeground(colours.secondary);
+  }
+  return style as CSSProperties;
+}
+
+/**
+ * Cut-down finder framed on partner sites by `public/finder-embed.js`.
+ * Only the embed's own origins may frame it (see `middleware.ts`).
+ */
+export default async function EmbeddedFinderPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  const raw = await searchParams;
+  const config = finderEmbedQuerySchema.parse(
+    Object.fromEntries(
+      Object.entries(raw).map(([key, value]) => [
+        key,
+        Array.isArray(value) ? value[0] : value,
+      ]),
+    ),
+  );
+
+  const embed = await getActiveFinderEmbed(config.embed);
+  if (!embed) {
+    return (
+      <main className="p-4 text-sm">
+        This provider finder isn&rsquo;t available here.{" "}
+        <a
+          href={ROUTES.providerFinder}
+          target="_blank"
+          rel="noopener"
+          className="font-medium text-primary hover:underline"
+        >
+          Search on Mapable
+        </a>
+      </main>
+    );
+  }
+
+  const services =
+    config.serviceIds.length > 0
+      ? await prisma.serviceDefinition.findMany({
+          where: { id: { in: config.serviceIds } },
+          select: { id: true, name: true },
+          orderBy: { name: "asc" },
+        })
+      : [];
+
+  return (
+    <main style={themeStyle(config)}>
+      <EmbeddedFinderClient
+        embedId={embed.id}
+        config={config}
+        services={services}
+      />
+    </main>
+  );
+}
@@ -1,6 +1,7 @@
 import "@/app/index.css";
 import "leaflet/dist/leaflet.css";
 
+import { SiteChrome } from "@/components/layout/SiteChrome";
 import { SiteFooter } from "@/components/layout/SiteFooter";
 import { SiteHeader } from "@/components/layout/SiteHeader";
 import { Providers } from "@/components/providers";
@@ -15,9 +16,13 @@ export default function RootLayout({
       <body>
         <Providers>
           <div className="flex min-h-screen flex-col">
-            <SiteHeader />
+            <SiteChrome>
+              <SiteHeader />
+            </SiteChrome>
             <div className="flex-1">{children}</div>
-            <SiteFooter />
+            <SiteChrome>
+              <SiteFooter />
+            </SiteChrome>
           </div>
         </Providers>
       </body>
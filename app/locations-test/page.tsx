@@ -26,15 +26,15 @@ export default function PlacesPage() {
     setError("");
     try {
       const res = await fetch(
-        `/api/places/nearby?lat=${lat}&lon=${lon}&distanceKm=${distanceKm}`,
+        `/api/places/nearby?lat=${lat}&lon=${lon}&radiusKm=${distanceKm}`,
       );
       if (!res.ok) {
         const data = await res.json();
         throw new Error(data.error || "Failed to fetch");
       }
-      const data: Place[] = await res.json();
-      console.log("data", data);
-      setResults(data);
+      const data: { results: { address: Place; distanceKm: number }[] } =
+        await res.json();
+      setResults(data.results.map((r) => r.address));
     } catch (err: any) {
       setError(err.message);
       setResults([]);
@@ -0,0 +1,12 @@
+"use client";
+
+import dynamic from "next/dynamic";
+
+const Map = dynamic(() => import("@/components/Map"), {
+  ssr: false,
+});
+
+/** Every listed provider and outlet, loaded from the public feed as you pan. */
+export default function ProviderMapClient() {
+  return <Map providers={[]} providerOutlets={[]} featureLayer />;
+}
@@ -0,0 +1,31 @@
+import Link from "next/link";
+
+import { ROUTES } from "@/lib/routes";
+
+import ProviderMapClient from "./ProviderMapClient";
+
+export const metadata = {
+  title: "Map of NDIS providers",
+};
+
+export default function ProviderMapPage() {
+  return (
+    <div className="mx-auto max-w-6xl space-y-4 px-4 py-8 sm:px-6">
+      <div>
+        <h1 className="font-heading text-2xl font-bold">Provider map</h1>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Providers and outlets in the area you&rsquo;re viewing. To filter by
+          service or location, use the{" "}
+          <Link
+            href={ROUTES.providerFinder}
+            className="font-medium text-primary hover:underline"
+          >
+            provider finder
+          </Link>
+          .
+        </p>
+      </div>
+      <ProviderMapClient />
+    </div>
+  );
+}
@@ -11,24 +11,54 @@ import {
   X,
 } from "lucide-react";
 import dynamic from "next/dynamic";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
+import { CLUSTER_MAX_ZOOM } from "@/app/api/provider-finder/clusters/types";
+import type { NearbyProviderResult } from "@/app/api/provider-finder/nearby/route";
 import { cn } from "@/app/lib/utils";
+import type { ProviderSearchResponse } from "@/app/utils/provider-finder-search";
 import type { MapSearchView } from "@/components/Map";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { distanceKm } from "@/lib/geo";
+import {
+  matchesOpeningHoursFilter,
+  type OpeningHoursFilter,
+} from "@/lib/openingHours";
+import type { AccessibilityFeature } from "@/schemas/accessibility.types";
+import type {
+  SearchCoverage,
+  SearchSort,
+} from "@/schemas/provider-finder.types";
 
 import { getBoundingBox } from "../utils/getBoundingBox";
 
+import { AccessibilityFilter } from "./components/AccessibilityFilter";
+import { CompareTray } from "./components/CompareTray";
+import { ExportResultsButtons } from "./components/ExportResultsButtons";
+import LocationAutocomplete from "./components/LocationAutocomplete";
 import { ProviderCard } from "./components/ProviderCard";
 import ProviderOutletAutocomplete from "./components/ProviderOutletAutocomplete";
 import { ProviderOutletCard } from "./components/ProviderOutletCard";
+import { SaveSearchButton } from "./components/SaveSearchButton";
+import {
+  FINDER_PAGE_SIZE,
+  type FinderUrlState,
+  OPEN_LATE_AFTER,
+  toFinderSearchParams,
+  toFinderUrlParams,
+  toSearchUrlParams,
+} from "./finderUrlState";
 import { useAddressesAndAssociatedProvidersNearby } from "./hooks/useAddressesAndAssociatedProvidersNearby";
+import { useProviderClusters } from "./hooks/useProviderClusters";
+import { useProviderFinderSearch } from "./hooks/useProviderFinderSearch";
+import { useReverseGeocode } from "./hooks/useReverseGeocode";
 import { useUserLocation } from "./hooks/useUserLocation";
 import { SelectedProviderOrOutlet } from "./providers";
+import { trackSearchClick } from "./trackSearchClick";
 import { ViewMode } from "./types";
 
 // todo: what does this do?
@@ -37,7 +67,7 @@ const Map = dynamic(() => import("@/components/Map"), {
   ssr: false,
 });
 
-type SortMode = "relevance" | "distance" | "rating";
+type SortMode = SearchSort;
 
 const RADIUS_KM = 5;
 const MAP_PIN_LIMIT = 100;
@@ -45,43 +75,6 @@ const MIN_MAP_FETCH_MOVE_KM = 1;
 const MIN_MAP_FETCH_RADIUS_DELTA_KM = 2;
 const MIN_MAP_FETCH_RADIUS_DELTA_RATIO = 0.2;
 
-const PAGE_SIZE = 9;
-
-function scoreRelevance(
-  details: {
-    name: string;
-    suburb: string | null;
-    state: string | null;
-    postcode: string | null;
-    categories: string[];
-  },
-  queryRaw: string,
-) {
-  const query = queryRaw.trim().toLowerCase();
-  if (!query) return 0;
-
-  const haystack = [
-    details.name,
-    details.suburb ?? "",
-    details.state ?? "",
-    details.postcode ?? "",
-    ...details.categories,
-  ]
-    .join(" ")
-    .toLowerCase();
-
-  // Very lightweight relevance: exact name prefix > word match > substring match.
-  const name = details.name.toLowerCase();
-  if (name.startsWith(query)) return 100;
-  const words = query.split(/\s+/).filter(Boolean);
-  const wordHits = words.reduce(
-    (acc, w) => acc + (haystack.includes(w) ? 1 : 0),
-    0,
-  );
-  const substring = haystack.includes(query) ? 1 : 0;
-  return wordHits * 10 + substring * 5;
-}
-
 // function ProviderOutletCard({
 //   providerOutlet,
 //   view,
@@ -94,43 +87,80 @@ function scoreRelevance(
 
 export default function ProviderFinderClient({
   serviceNamesData,
+  initialState,
+  initialResults,
 }: {
   serviceNamesData: { id: string; name: string }[];
+  /** Finder state from the page URL. */
+  initialState: FinderUrlState;
+  /** Server-rendered results for `initialState`, when it names an area. */
+  initialResults: ProviderSearchResponse | null;
 }) {
   // todo: clean up and move everything to hooks and components
 
   const router = useRouter();
   const [manualMapUpdate, setManualMapUpdate] = useState(0);
-  const [query, setQuery] = useState("");
+  const [query, setQuery] = useState(initialState.q);
   const [autocompleteQuery, setAutocompleteQuery] = useState("");
-  const [categoryId, setCategoryId] = useState<"all" | string>("all");
-  const [registeredOnly, setRegisteredOnly] = useState(false);
-  const [view, setView] = useState<ViewMode>("grid");
-  const [sort, setSort] = useState<SortMode>("relevance");
-  const [page, setPage] = useState(1);
+  const [categoryId, setCategoryId] = useState<"all" | string>(
+    initialState.categoryId,
+  );
+  const [specialisationId, setSpecialisationId] = useState<"all" | string>(
+    initialState.specialisationId,
+  );
+  const [languageId, setLanguageId] = useState<"all" | string>(
+    initialState.languageId,
+  );
+  const [registeredOnly, setRegisteredOnly] = useState(
+    initialState.registeredOnly,
+  );
+  const [accessibilityFeatures, setAccessibilityFeatures] = useState<
+    AccessibilityFeature[]
+  >(initialState.accessibilityFeatures);
+  const [openNow, setOpenNow] = useState(initialState.openNow);
+  const [openWeekends, setOpenWeekends] = useState(initialState.openWeekends);
+  const [openLate, setOpenLate] = useState(initialState.openLate);
+  const [coverage, setCoverage] = useState<SearchCoverage>(
+    initialState.coverage,
+  );
+  const [view, setView] = useState<ViewMode>(initialState.view);
+  const [sort, setSort] = useState<SortMode>(initialState.sort);
+  const [page, setPage] = useState(initialState.page);
   const [filtersExpanded, setFiltersExpanded] = useState(false);
   const [selectedProviderOrOutlet, setSelectedProviderOrOutlet] =
     useState<SelectedProviderOrOutlet>(null);
   const [mapSearchViewport, setMapSearchViewport] =
-    useState<MapSearchView | null>(null);
-  const { userLocation, getUserLocation, locationLoading, locationError } =
-    useUserLocation({
-      setPage,
-      onLocationChange: (location) => {
-        setManualMapUpdate((prev) => prev + 1);
-        const { minLat, maxLat, minLon, maxLon } = getBoundingBox(
-          location.lat,
-          location.lng,
-          RADIUS_KM,
-        );
-        setMapSearchViewport({
-          minLat,
-          maxLat,
-          minLon,
-          maxLon,
-        });
-      },
-    });
+    useState<MapSearchView | null>(initialState.viewport);
+  const [initialSearch] = useState(() => {
+    const params = toFinderSearchParams(initialState);
+    return params && initialResults ? { params, data: initialResults } : null;
+  });
+  const {
+    userLocation,
+    getUserLocation,
+    setLocation,
+    locationLoading,
+    locationError,
+    isFallback,
+  } = useUserLocation({
+    setPage,
+    // A link to a specific area keeps showing that area.
+    followInitialLocation: initialState.viewport == null,
+    onLocationChange: (location) => {
+      setManualMapUpdate((prev) => prev + 1);
+      const { minLat, maxLat, minLon, maxLon } = getBoundingBox(
+        location.lat,
+        location.lng,
+        RADIUS_KM,
+      );
+      setMapSearchViewport({
+        minLat,
+        maxLat,
+        minLon,
+        maxLon,
+      });
+    },
+  });
   const q = query.trim().toLowerCase();
 
   const onMapViewChange = useCallback(
@@ -164,7 +194,9 @@ export default function ProviderFinderClient({
 
         // console.log("centerMovedEnough", centerMovedEnough);
         // console.log("radiusChangedEnough", radiusChangedEnough);
-        if (!centerMovedEnough) {
+        // Zooming switches between cluster bubbles and pins, so always refetch.
+        const zoomChanged = view.zoom !== prev.zoom;
+        if (!centerMovedEnough && !zoomChanged) {
           return prev;
         }
 
@@ -179,6 +211,10 @@ export default function ProviderFinderClient({
     await getUserLocation();
   }, [getUserLocation]);
 
+  const { data: userArea } = useReverseGeocode(
+    isFallback ? null : userLocation,
+  );
+
   const selectFn = useCallback((data: any[]) => {
     const providers = [];
     const providerOutlets = [];
@@ -196,8 +232,17 @@ export default function ProviderFinderClient({
         }
       }
 
+      // A head office listed as one of its own outlets gets one pin.
       if (a.address.providerOutlets.length > 0) {
         for (const o of a.address.providerOutlets) {
+          if (
+            a.address.providers.some(
+              (p: NearbyProviderResult["address"]["providers"][number]) =>
+                p.id === o.providerId,
+            )
+          ) {
+            continue;
+          }
           providerOutlets.push({
             type: "outlet" as const,
             providerOutlet: o,
@@ -211,6 +256,11 @@ export default function ProviderFinderClient({
     return { providers, providerOutlets };
   }, []);
 
+  // Zoomed out, the map shows server-side clusters instead of individual pins.
+  const showClusters =
+    mapSearchViewport?.zoom != null &&
+    mapSearchViewport.zoom < CLUSTER_MAX_ZOOM;
+
   const {
     data: { providers, providerOutlets } = {
       providers: [],
@@ -225,7 +275,7 @@ export default function ProviderFinderClient({
     mapSearchViewport?.maxLat,
     mapSearchViewport?.minLon,
     mapSearchViewport?.maxLon,
-    mapSearchViewport != null,
+    mapSearchViewport != null && !showClusters,
     selectFn,
   );
 
@@ -242,8 +292,6 @@ export default function ProviderFinderClient({
 
   // todo: distinguish between provider and outlets, should these display the same?
 
-  // todo: consider case where address has providers and outlets
-
   // const providers = useMemo(
   //   () =>
   //     addressesAndAssociatedProvidersNearby
@@ -278,9 +326,26 @@ export default function ProviderFinderClient({
 
   // console.log("providerOutlets", providerOutlets);
 
+  const openingHoursFilter = useMemo<OpeningHoursFilter>(
+    () => ({
+      openNow,
+      openWeekends,
+      openAfter: openLate ? OPEN_LATE_AFTER : undefined,
+    }),
+    [openNow, openWeekends, openLate],
+  );
+
   const filteredProviders = useMemo(() => {
     return providers.filter(({ provider: p, address: a }) => {
       if (registeredOnly && !p.ndisRegistered) return false;
+      if (
+        !accessibilityFeatures.every((f) => p.accessibilityFeatures.includes(f))
+      )
+        return false;
+      if (
+        !matchesOpeningHoursFilter(p.businessHours, a.state, openingHoursFilter)
+      )
+        return false;
       if (
         categoryId !== "all" &&
         // todo: confirm filtering by category works
@@ -307,12 +372,27 @@ export default function ProviderFinderClient({
 
       return true;
     });
-  }, [providers, registeredOnly, categoryId, q]);
+  }, [
+    providers,
+    registeredOnly,
+    accessibilityFeatures,
+    openingHoursFilter,
+    categoryId,
+    q,
+  ]);
 
   const filteredProviderOutlets = useMemo(() => {
     return providerOutlets.filter(({ providerOutlet: o, address: a }) => {
       // todo: consider approach for checking if outlets provider has NDIS registration -- load with JOIN?
       // if (registeredOnly && !o.ndisRegistered) return false;
+      if (
+        !accessibilityFeatures.every((f) => o.accessibilityFeatures.includes(f))
+      )
+        return false;
+      if (
+        !matchesOpeningHoursFilter(o.businessHours, a.state, openingHoursFilter)
+      )
+        return false;
       if (
         categoryId !== "all" &&
         !o.services.some(
@@ -338,86 +418,206 @@ export default function ProviderFinderClient({
 
       return true;
     });
-  }, [providerOutlets, categoryId, q]);
-
-  const filteredCombinedProviderAndOutletAddresses = useMemo(() => {
-    return [...filteredProviders, ...filteredProviderOutlets];
-  }, [filteredProviders, filteredProviderOutlets]);
-
-  // todo: clean up and move to hook
-  const filteredSortedCombinedProviderAndOutletAddresses = useMemo(() => {
-    const sorted = [...filteredCombinedProviderAndOutletAddresses].sort(
-      (a, b) => {
-        const aProviderOrOutlet =
-          "provider" in a ? a.provider : a.providerOutlet;
-        const bProviderOrOutlet =
-          "provider" in b ? b.provider : b.providerOutlet;
-
-        if (sort === "distance") return a.distanceKm - b.distanceKm;
-
-        if (
-          sort === "rating" &&
-          aProviderOrOutlet.rating &&
-          bProviderOrOutlet.rating
-        )
-          return bProviderOrOutlet.rating - aProviderOrOutlet.rating;
-
-        // relevance
-        const sa = scoreRelevance(
-          {
-            name: aProviderOrOutlet.name,
-            suburb: a.address.suburb,
-            state: a.address.state,
-            postcode: a.address.postcode,
-            categories: aProviderOrOutlet.services.map(
-              (s: any) => s.serviceDefinition.name,
-            ),
-          },
-          query,
-        );
-        const sb = scoreRelevance(
-          {
-            name: bProviderOrOutlet.name,
-            suburb: b.address.suburb,
-            state: b.address.state,
-            postcode: b.address.postcode,
-            categories: bProviderOrOutlet.services.map(
-              (s: any) => s.serviceDefinition.name,
-            ),
-          },
-          query,
-        );
+  }, [
+    providerOutlets,
+    accessibilityFeatures,
+    openingHoursFilter,
+    categoryId,
+    q,
+  ]);
+
+  // Saved searches and compare distances use the map centre when the user
+  // has panned away, otherwise their location.
+  const searchCentre = useMemo(
+    () =>
+      mapSearchViewport
+        ? {
+            lat: (mapSearchViewport.minLat + mapSearchViewport.maxLat) / 2,
+            lng: (mapSearchViewport.minLon + mapSearchViewport.maxLon) / 2,
+          }
+        : isFallback
+          ? null
+          : userLocation,
+    [mapSearchViewport, isFallback, userLocation],
+  );
 
-        if (sb !== sa) return sb - sa;
-        return aProviderOrOutlet.name.localeCompare(bProviderOrOutlet.name);
-      },
-    );
+  // Exports cover every result, not just the current page.
+  const exportSearchParams = useMemo(() => {
+    if (!mapSearchViewport) return null;
+    const params = toSearchUrlParams({
+      q: query.trim(),
+      mapSearchView: mapSearchViewport,
+      serviceIds: categoryId !== "all" ? [categoryId] : [],
+      specialisationIds: specialisationId !== "all" ? [specialisationId] : [],
+      languageIds: languageId !== "all" ? [languageId] : [],
+      registeredOnly,
+      accessibilityFeatures,
+      openNow,
+      openWeekends,
+      openAfter: openLate ? OPEN_LATE_AFTER : null,
+      coverage,
+      sort,
+      page: 1,
+      pageSize: FINDER_PAGE_SIZE,
+    });
+    params.delete("page");
+    params.delete("pageSize");
+    return params;
+  }, [
+    mapSearchViewport,
+    query,
+    categoryId,
+    specialisationId,
+    languageId,
+    registeredOnly,
+    accessibilityFeatures,
+    openNow,
+    openWeekends,
+    openLate,
+    coverage,
+    sort,
+  ]);
+
+  const {
+    data: searchData,
+    isFetching: isSearchFetching,
+    isError: isSearchError,
+    error: searchError,
+  } = useProviderFinderSearch(
+    {
+      q: query,
+      mapSearchView: mapSearchViewport,
+      serviceIds: categoryId !== "all" ? [categoryId] : [],
+      specialisationIds: specialisationId !== "all" ? [specialisationId] : [],
+      languageIds: languageId !== "all" ? [languageId] : [],
+      registeredOnly,
+      accessibilityFeatures,
+      openNow,
+      openWeekends,
+      openAfter: openLate ? OPEN_LATE_AFTER : null,
+      coverage,
+      sort,
+      page,
+      pageSize: FINDER_PAGE_SIZE,
+    },
+    initialSearch,
+  );
 
-    return sorted;
-  }, [filteredCombinedProviderAndOutletAddresses, query, sort]);
+  const {
+    data: clusterData,
+    isFetching: isClusterFetching,
+    isError: isClusterError,
+    error: clusterError,
+  } = useProviderClusters(
+    mapSearchViewport,
+    {
+      serviceIds: categoryId !== "all" ? [categoryId] : [],
+      registeredOnly,
+      accessibilityFeatures,
+    },
+    showClusters,
+  );
 
-  const total = filteredSortedCombinedProviderAndOutletAddresses.length;
-  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const visible = useMemo(() => searchData?.items ?? [], [searchData]);
+  const total = searchData?.total ?? 0;
+  const totalPages = searchData?.totalPages ?? 1;
   const currentPage = Math.min(page, totalPages);
 
-  const visible = useMemo(() => {
-    const start = (currentPage - 1) * PAGE_SIZE;
-    return filteredSortedCombinedProviderAndOutletAddresses.slice(
-      start,
-      start + PAGE_SIZE,
-    );
-  }, [currentPage, filteredSortedCombinedProviderAndOutletAddresses]);
+  const serviceFacetCounts = useMemo<Record<string, number>>(
+    () =>
+      Object.fromEntries(
+        (searchData?.facets.services ?? []).map((f) => [f.id, f.count]),
+      ),
+    [searchData],
+  );
+  const specialisationFacets = searchData?.facets.specialisations ?? [];
+  const languageFacets = searchData?.facets.languages ?? [];
+
+  // Only first pages are logged; later pages' clicks belong to that search.
+  const searchLogIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (searchData?.searchId) searchLogIdRef.current = searchData.searchId;
+  }, [searchData]);
+
+  const trackResultClick = (
+    index: number,
+    entityType: "provider" | "outlet",
+    entityId: string,
+  ) => {
+    if (!searchLogIdRef.current) return;
+    trackSearchClick({
+      searchId: searchLogIdRef.current,
+      position: (currentPage - 1) * FINDER_PAGE_SIZE + index + 1,
+      entityType,
+      entityId,
+    });
+  };
 
   // Clamp page when filters/sort reduce total pages.
   useEffect(() => {
-    if (page !== currentPage) setPage(currentPage);
-  }, [currentPage, page]);
+    if (searchData && page !== currentPage) setPage(currentPage);
+  }, [searchData, currentPage, page]);
+
+  const urlState = useMemo<FinderUrlState>(
+    () => ({
+      q: query,
+      categoryId,
+      specialisationId,
+      languageId,
+      registeredOnly,
+      accessibilityFeatures,
+      openNow,
+      openWeekends,
+      openLate,
+      coverage,
+      sort,
+      view,
+      page,
+      viewport: mapSearchViewport,
+    }),
+    [
+      query,
+      categoryId,
+      specialisationId,
+      languageId,
+      registeredOnly,
+      accessibilityFeatures,
+      openNow,
+      openWeekends,
+      openLate,
+      coverage,
+      sort,
+      view,
+      page,
+      mapSearchViewport,
+    ],
+  );
+
+  const pageHref = (target: number) =>
+    `?${toFinderUrlParams({ ...urlState, page: target })}`;
+
+  // Keep the URL shareable. Replaces rather than pushes so typing and panning
+  // don't fill the history, and skips the router so the page isn't re-rendered
+  // on the server for every change.
+  useEffect(() => {
+    const search = toFinderUrlParams(urlState).toString();
+    if (search === window.location.search.replace(/^\?/, "")) return;
+    const url = `${window.location.pathname}${search ? `?${search}` : ""}`;
+    window.history.replaceState(window.history.state, "", url);
+  }, [urlState]);
 
   const clearFilters = () => {
     setQuery("");
     setCategoryId("all");
+    setSpecialisationId("all");
+    setLanguageId("all");
     setSelectedProviderOrOutlet(null);
     setRegisteredOnly(false);
+    setAccessibilityFeatures([]);
+    setOpenNow(false);
+    setOpenWeekends(false);
+    setOpenLate(false);
+    setCoverage("all");
     setSort("relevance");
     setPage(1);
   };
@@ -425,7 +625,14 @@ export default function ProviderFinderClient({
   const hasActiveFilters =
     query.trim() ||
     categoryId !== "all" ||
+    specialisationId !== "all" ||
+    languageId !== "all" ||
     registeredOnly ||
+    accessibilityFeatures.length > 0 ||
+    openNow ||
+    openWeekends ||
+    openLate ||
+    coverage !== "all" ||
     sort !== "relevance";
 
   // if (!coordsReady || isLoading) {
@@ -442,13 +649,16 @@ export default function ProviderFinderClient({
   //   );
   // }
 
-  if (isError) {
+  if (isError || isSearchError || isClusterError) {
+    const loadError = error ?? searchError ?? clusterError;
     return (
       <div className="min-h-screen bg-background flex items-center justify-center py-12">
         <Card variant="outlined" className="p-8 text-center max-w-md">
           <h2 className="text-lg font-semibold">Could not load providers</h2>
           <p className="mt-2 text-sm text-muted-foreground">
-            {error instanceof Error ? error.message : "Something went wrong."}
+            {loadError instanceof Error
+              ? loadError.message
+              : "Something went wrong."}
           </p>
         </Card>
       </div>
@@ -506,6 +716,29 @@ export default function ProviderFinderClient({
                             : `/provider-outlet/${encodeURIComponent(item.id)}`;
                         router.push(path);
                       }}
+                      onSelectSuggestion={(suggestion) => {
+                        switch (suggestion.type) {
+                          case "place":
+                            setMapSearchViewport(null);
+                            setLocation({
+                              lat: suggestion.latitude,
+                              lng: suggestion.longitude,
+                            });
+                            break;
+                          case "service":
+                            setCategoryId(suggestion.id);
+                            break;
+                          case "specialisation":
+                            setSpecialisationId(suggestion.id);
+                            break;
+                          case "regGroup":
+                            if (suggestion.serviceDefinitionId) {
+                              setCategoryId(suggestion.serviceDefinitionId);
+                            }
+                            break;
+                        }
+                        setPage(1);
+                      }}
                       className="mt-1"
                     />
                   </div>
@@ -535,6 +768,9 @@ export default function ProviderFinderClient({
                       )}
                     >
                       {cat.name}
+                      {cat.id in serviceFacetCounts
+                        ? ` (${serviceFacetCounts[cat.id]})`
+                        : null}
                     </Button>
                   ))}
                 </div>
@@ -600,6 +836,37 @@ export default function ProviderFinderClient({
                         List
                       </Button>
 
+                      <SaveSearchButton
+                        filters={{
+                          q: query,
+                          serviceIds: categoryId !== "all" ? [categoryId] : [],
+                          specialisationIds:
+                            specialisationId !== "all"
+                              ? [specialisationId]
+                              : [],
+                          languageIds: languageId !== "all" ? [languageId] : [],
+                          registeredOnly,
+                          accessibilityFeatures,
+                          openNow,
+                          openWeekends,
+                          openAfter: openLate ? OPEN_LATE_AFTER : null,
+                          coverage,
+                        }}
+                        centre={searchCentre}
+                        areaLabel={
+                          searchCentre === userLocation
+                            ? userArea?.displayName
+                            : undefined
+                        }
+                        postcode={
+                          searchCentre === userLocation
+                            ? userArea?.postcode
+                            : undefined
+                        }
+                      />
+
+                      <ExportResultsButtons searchParams={exportSearchParams} />
+
                       <Button
                         variant="outline"
                         size="sm"
@@ -617,7 +884,7 @@ export default function ProviderFinderClient({
                   {filtersExpanded && (
                     <div className="min-w-0 space-y-4">
                       <div className="grid min-w-0 grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-12">
-                        <div className="min-w-0 sm:col-span-2 lg:col-span-6">
+                        <div className="min-w-0 sm:col-span-2 lg:col-span-4">
                           <label
                             htmlFor="provider-finder-search"
                             className="text-xs font-medium text-muted-foreground"
@@ -647,21 +914,22 @@ export default function ProviderFinderClient({
                             Location
                           </label>
                           <div className="mt-1 flex min-w-0 gap-2">
-                            {/* <input
+                            <LocationAutocomplete
                               id="provider-finder-location"
-                              value={selectedLocation}
-                              onChange={(e) => {
-                                setSelectedLocation(e.target.value);
-                                setPage(1);
+                              className="flex-1"
+                              currentLocationLabel={userArea?.displayName}
+                              onSelect={(place) => {
+                                setMapSearchViewport(null);
+                                setLocation({
+                                  lat: place.latitude,
+                                  lng: place.longitude,
+                                });
                               }}
-                              placeholder="Suburb or postcode"
-                              className="min-w-0 flex-1 rounded-lg border border-input bg-background px-3 py-2.5 text-sm shadow-sm outline-none transition focus:border-primary/30 focus:ring-2 focus:ring-ring"
-                            /> */}
+                            />
                             <Button
                               type="button"
                               variant="outline"
                               size="default"
-                              style={{ width: "100%" }}
                               onClick={getUserLocationAndClearMapSearch}
                               disabled={locationLoading}
                               className="shrink-0 gap-1.5 px-3"
@@ -672,14 +940,13 @@ export default function ProviderFinderClient({
                               ) : (
                                 <MapPin className="h-4 w-4" />
                               )}
-                              <span className="hidden sm:inline">
-                                Use my location
-                              </span>
+                              <span className="sr-only">Use my location</span>
                             </Button>
                           </div>
                           {locationError ? (
                             <p className="mt-1 text-xs text-destructive">
-                              {locationError}
+                              {locationError}. Enter a suburb or postcode
+                              instead.
                             </p>
                           ) : null}
                         </div>
@@ -703,7 +970,32 @@ export default function ProviderFinderClient({
                             <option value="all">All</option>
                             {serviceNamesData.map((c) => (
                               <option key={c.id} value={c.id}>
-                                {c.name}
+                                {c.name} ({serviceFacetCounts[c.id] ?? 0})
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+
+                        <div className="min-w-0 lg:col-span-2">
+                          <label
+                            htmlFor="provider-finder-specialisation"
+                            className="text-xs font-medium text-muted-foreground"
+                          >
+                            Specialisation
+                          </label>
+                          <select
+                            id="provider-finder-specialisation"
+                            value={specialisationId}
+                            onChange={(e) => {
+                              setSpecialisationId(e.target.value);
+                              setPage(1);
+                            }}
+                            className="mt-1 min-w-0 w-full rounded-lg border border-input bg-background px-3 py-2.5 text-sm shadow-sm outline-none transition focus:border-primary/30 focus:ring-2 focus:ring-ring"
+                          >
+                            <option value="all">All</option>
+                            {specialisationFacets.map((f) => (
+                              <option key={f.id} value={f.id}>
+                                {f.name} ({f.count})
                               </option>
                             ))}
                           </select>
@@ -719,9 +1011,10 @@ export default function ProviderFinderClient({
                           <select
                             id="provider-finder-sort"
                             value={sort}
-                            onChange={(e) =>
-                              setSort(e.target.value as SortMode)
-                            }
+                            onChange={(e) => {
+                              setSort(e.target.value as SortMode);
+                              setPage(1);
+                            }}
                             className="mt-1 w-full rounded-lg border border-input bg-background px-3 py-2.5 text-sm shadow-sm outline-none transition focus:border-primary/30 focus:ring-2 focus:ring-ring"
                           >
                             <option value="relevance">Relevance</option>
@@ -745,6 +1038,75 @@ export default function ProviderFinderClient({
                             />
                             Registered only
                           </label>
+                          <label className="inline-flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={openNow}
+                              onChange={(e) => {
+                                setOpenNow(e.target.checked);
+                                setPage(1);
+                              }}
+                              className="h-4 w-4 rounded border-border text-primary focus:ring-ring"
+                            />
+                            Open now
+                          </label>
+                          <label className="inline-flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={openWeekends}
+                              onChange={(e) => {
+                                setOpenWeekends(e.target.checked);
+                                setPage(1);
+                              }}
+                              className="h-4 w-4 rounded border-border text-primary focus:ring-ring"
+                            />
+                            Open weekends
+                          </label>
+                          <label className="inline-flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={openLate}
+                              onChange={(e) => {
+                                setOpenLate(e.target.checked);
+                                setPage(1);
+                              }}
+                              className="h-4 w-4 rounded border-border text-primary focus:ring-ring"
+                            />
+                            Open after 5pm
+                          </label>
+                          <select
+                            aria-label="Language spoken"
+                            value={languageId}
+                            onChange={(e) => {
+                              setLanguageId(e.target.value);
+                              setPage(1);
+                            }}
+                            className="rounded-lg border border-input bg-background px-2 py-1 text-sm shadow-sm outline-none transition focus:border-primary/30 focus:ring-2 focus:ring-ring"
+                          >
+                            <option value="all">Any language</option>
+                            {languageFacets.map((f) => (
+                              <option key={f.id} value={f.id}>
+                                Speaks {f.name} ({f.count})
+                              </option>
+                            ))}
+                          </select>
+                          <select
+                            aria-label="Location"
+                            value={coverage}
+                            onChange={(e) => {
+                              setCoverage(e.target.value as SearchCoverage);
+                              setPage(1);
+                            }}
+                            className="rounded-lg border border-input bg-background px-2 py-1 text-sm shadow-sm outline-none transition focus:border-primary/30 focus:ring-2 focus:ring-ring"
+                          >
+                            <option value="all">
+                              Nearby or servicing area
+                            </option>
+                            <option value="located">Located nearby</option>
+                            <option value="serviceArea">
+                              Services your area
+                            </option>
+                          </select>
                         </div>
 
                         <div className="text-sm text-muted-foreground">
@@ -759,6 +1121,14 @@ export default function ProviderFinderClient({
                           providers
                         </div>
                       </div>
+
+                      <AccessibilityFilter
+                        value={accessibilityFeatures}
+                        onChange={(next) => {
+                          setAccessibilityFeatures(next);
+                          setPage(1);
+                        }}
+                      />
                     </div>
                   )}
                 </div>
@@ -768,9 +1138,7 @@ export default function ProviderFinderClient({
         </section>
 
         <section className="container mx-auto mt-8 px-4">
-          {!userLocation &&
-          filteredSortedCombinedProviderAndOutletAddresses.length >
-            MAP_PIN_LIMIT ? (
+          {!userLocation && total > MAP_PIN_LIMIT ? (
             <Card variant="outlined" className="mb-4 p-4">
               <p className="text-sm text-muted-foreground">
                 Set a location (or use &quot;Use my location&quot;) to see
@@ -795,7 +1163,7 @@ export default function ProviderFinderClient({
             </Card>
           ) : null}
           <div className="relative">
-            {isFetching ? (
+            {isFetching || isSearchFetching || isClusterFetching ? (
               <div className="pointer-events-none absolute left-1/2 top-3 z-[500] -translate-x-1/2">
                 <Badge
                   variant="secondary"
@@ -821,6 +1189,7 @@ export default function ProviderFinderClient({
               onViewChange={onMapViewChange}
               fitBoundsPolicy="initial-only"
               initialSearchView={mapSearchViewport}
+              clusters={showClusters ? (clusterData?.clusters ?? []) : null}
             />
           </div>
         </section>
@@ -831,6 +1200,22 @@ export default function ProviderFinderClient({
               <Card variant="outlined" className="p-8 text-center">
                 <div className="mx-auto max-w-md">
                   <h2 className="text-lg font-semibold">No providers found</h2>
+                  {searchData?.didYouMean ? (
+                    <p className="mt-2 text-sm">
+                      Did you mean{" "}
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setQuery(searchData.didYouMean ?? "");
+                          setPage(1);
+                        }}
+                        className="font-semibold text-primary underline-offset-2 hover:underline"
+                      >
+                        {searchData.didYouMean}
+                      </button>
+                      ?
+                    </p>
+                  ) : null}
                   <p className="mt-2 text-sm text-muted-foreground">
                     Try removing a filter or searching a broader term.
                   </p>
@@ -855,15 +1240,18 @@ export default function ProviderFinderClient({
                       : "flex flex-col gap-4",
                   )}
                 >
-                  {visible.map((p) => {
+                  {visible.map((p, index) => {
                     if (p.type === "provider" && "provider" in p) {
                       return (
                         <ProviderCard
                           key={p.provider.id}
                           address={p.address}
                           provider={p.provider}
+                          languages={p.languages}
+                          site={p.site}
                           view={view}
                           onSelect={(provider) => {
+                            trackResultClick(index, "provider", provider.id);
                             setSelectedProviderOrOutlet({
                               type: "provider",
                               provider: provider,
@@ -877,6 +1265,7 @@ export default function ProviderFinderClient({
                               p.provider.id
                           }
                           distanceKm={p.distanceKm}
+                          coverage={p.coverage}
                         />
                       );
                     } else if (p.type === "outlet" && "providerOutlet" in p) {
@@ -885,9 +1274,17 @@ export default function ProviderFinderClient({
                           key={p.providerOutlet.id}
                           address={p.address}
                           distanceKm={p.distanceKm}
+                          coverage={p.coverage}
                           providerOutlet={p.providerOutlet}
+                          languages={p.languages}
+                          site={p.site}
                           view={view}
                           onSelect={(providerOutlet) => {
+                            trackResultClick(
+                              index,
+                              "outlet",
+                              providerOutlet.id,
+                            );
                             setSelectedProviderOrOutlet({
                               type: "outlet",
                               providerOutlet: providerOutlet,
@@ -918,27 +1315,46 @@ export default function ProviderFinderClient({
                     </span>
                   </div>
 
+                  {/* Links so pages work before hydration and can be crawled. */}
                   <div className="flex items-center gap-2">
-                    <Button
-                      variant="outline"
-                      size="default"
-                      type="button"
-                      onClick={() => setPage((p) => Math.max(1, p - 1))}
-                      disabled={currentPage <= 1}
-                    >
-                      Previous
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="default"
-                      type="button"
-                      onClick={() =>
-                        setPage((p) => Math.min(totalPages, p + 1))
-                      }
-                      disabled={currentPage >= totalPages}
-                    >
-                      Next
-                    </Button>
+                    {currentPage <= 1 ? (
+                      <Button variant="outline" size="default" disabled>
+                        Previous
+                      </Button>
+                    ) : (
+                      <Button variant="outline" size="default" asChild>
+                        <Link
+                          href={pageHref(currentPage - 1)}
+                          rel="prev"
+                          scroll={false}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            setPage(currentPage - 1);
+                          }}
+                        >
+                          Previous
+                        </Link>
+                      </Button>
+                    )}
+                    {currentPage >= totalPages ? (
+                      <Button variant="outline" size="default" disabled>
+                        Next
+                      </Button>
+                    ) : (
+                      <Button variant="outline" size="default" asChild>
+                        <Link
+                          href={pageHref(currentPage + 1)}
+                          rel="next"
+                          scroll={false}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            setPage(currentPage + 1);
+                          }}
+                        >
+                          Next
+                        </Link>
+                      </Button>
+                    )}
                   </div>
                 </div>
               </>
@@ -946,6 +1362,7 @@ export default function ProviderFinderClient({
           </div>
         </section>
       </main>
+      <CompareTray origin={searchCentre} />
     </div>
   );
 }
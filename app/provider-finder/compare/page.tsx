@@ -0,0 +1,97 @@
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+
+import { getComparisonEntries } from "@/app/utils/provider-comparison";
+import { Button } from "@/components/ui/button";
+import { ROUTES } from "@/lib/routes";
+import { compareQuerySchema } from "@/schemas/provider-finder.types";
+
+import { CompareTraySync } from "../components/CompareTraySync";
+import { ComparisonTable } from "../components/ComparisonTable";
+
+export const metadata = {
+  title: "Compare providers",
+};
+
+export default async function ComparePage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const query = compareQuerySchema.parse(await searchParams);
+  const origin =
+    query.lat !== undefined && query.lon !== undefined
+      ? { lat: query.lat, lon: query.lon }
+      : null;
+  const entries = await getComparisonEntries(query.items, origin);
+
+  const compareHref = (
+    items: { type: "provider" | "outlet"; id: string }[],
+    onlyDifferences: boolean,
+  ) => {
+    const href = ROUTES.providerCompare(
+      items,
+      origin && { lat: origin.lat, lng: origin.lon },
+    );
+    return onlyDifferences ? `${href}&diff=1` : href;
+  };
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-6 px-4 py-10 sm:px-6">
+      <CompareTraySync
+        items={entries.map(({ type, id, name }) => ({ type, id, name }))}
+      />
+
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <Link
+            href={ROUTES.providerFinder}
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Provider Finder
+          </Link>
+          <h1 className="mt-2 font-heading text-2xl font-bold">
+            Compare providers
+          </h1>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Highlighted rows are where they differ.
+            {origin ? null : " Distances show when you compare from a search."}
+          </p>
+        </div>
+        {entries.length >= 2 ? (
+          <Button asChild variant="outline" size="sm">
+            <Link href={compareHref(entries, !query.diff)}>
+              {query.diff ? "Show all rows" : "Only show differences"}
+            </Link>
+          </Button>
+        ) : null}
+      </div>
+
+      {entries.length >= 2 ? (
+        <ComparisonTable
+          entries={entries}
+          onlyDifferences={query.diff}
+          removeHref={(removed) =>
+            compareHref(
+              entries.filter((entry) => entry !== removed),
+              query.diff,
+            )
+          }
+        />
+      ) : (
+        <div className="rounded-xl border border-border p-8 text-center">
+          <p className="font-medium">Pick at least two to compare</p>
+          <p className="mt-1 text-sm text-muted-foreground">
+            {entries.length === 1
+              ? `Add another provider or outlet to compare with ${entries[0].name}.`
+              : "Use Compare on provider and outlet cards in the Provider Finder."}
+          </p>
+          <Button asChild variant="default" size="default" className="mt-4">
+            <Link href={ROUTES.providerFinder}>Find providers</Link>
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
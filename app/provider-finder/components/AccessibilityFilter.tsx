@@ -0,0 +1,49 @@
+import { ACCESSIBILITY_FEATURE_ICONS } from "@/components/AccessibilityFeatureList";
+import { ACCESSIBILITY_FEATURE_LABELS } from "@/lib/accessibility";
+import {
+  ACCESSIBILITY_FEATURES,
+  type AccessibilityFeature,
+} from "@/schemas/accessibility.types";
+
+/** Premises feature checkboxes; results must have every one ticked. */
+export function AccessibilityFilter({
+  value,
+  onChange,
+}: {
+  value: AccessibilityFeature[];
+  onChange: (next: AccessibilityFeature[]) => void;
+}) {
+  return (
+    <fieldset className="min-w-0">
+      <legend className="text-xs font-medium text-muted-foreground">
+        Accessibility
+      </legend>
+      <div className="mt-1 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+        {ACCESSIBILITY_FEATURES.map((feature) => {
+          const Icon = ACCESSIBILITY_FEATURE_ICONS[feature];
+          return (
+            <label key={feature} className="inline-flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={value.includes(feature)}
+                onChange={(e) =>
+                  onChange(
+                    e.target.checked
+                      ? [...value, feature]
+                      : value.filter((f) => f !== feature),
+                  )
+                }
+                className="h-4 w-4 rounded border-border text-primary focus:ring-ring"
+              />
+              <Icon
+                className="h-4 w-4 text-muted-foreground"
+                aria-hidden="true"
+              />
+              {ACCESSIBILITY_FEATURE_LABELS[feature]}
+            </label>
+          );
+        })}
+      </div>
+    </fieldset>
+  );
+}
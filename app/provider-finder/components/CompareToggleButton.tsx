@@ -0,0 +1,36 @@
+"use client";
+
+import { Check, Plus } from "lucide-react";
+
+import {
+  type CompareItem,
+  useCompareTray,
+} from "@/app/contexts/CompareTrayContext";
+import { Button } from "@/components/ui/button";
+import { MAX_COMPARE_ITEMS } from "@/schemas/provider-finder.types";
+
+/** Adds a card's provider/outlet to the comparison tray, or takes it out. */
+export function CompareToggleButton({ item }: { item: CompareItem }) {
+  const { has, isFull, toggle } = useCompareTray();
+  const selected = has(item.type, item.id);
+
+  return (
+    <Button
+      type="button"
+      variant={selected ? "secondary" : "outline"}
+      size="sm"
+      className="w-full"
+      aria-pressed={selected}
+      disabled={!selected && isFull}
+      title={
+        !selected && isFull
+          ? `You can compare up to ${MAX_COMPARE_ITEMS} at a time`
+          : undefined
+      }
+      onClick={() => toggle(item)}
+    >
+      {selected ? <Check /> : <Plus />}
+      {selected ? "Added to compare" : "Compare"}
+    </Button>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { Scale, X } from "lucide-react";
+import Link from "next/link";
+
+import { useCompareTray } from "@/app/contexts/CompareTrayContext";
+import { Button } from "@/components/ui/button";
+import type { UserPosition } from "@/lib/geo";
+import { ROUTES } from "@/lib/routes";
+import { MAX_COMPARE_ITEMS } from "@/schemas/provider-finder.types";
+
+/**
+ * Bar pinned to the bottom of the finder while anything is picked for
+ * comparison. Distances on the compare page are from `origin`.
+ */
+export function CompareTray({ origin }: { origin: UserPosition | null }) {
+  const { items, remove, clear } = useCompareTray();
+
+  if (items.length === 0) return null;
+
+  return (
+    <>
+      {/* Keeps the end of the page clear of the bar. */}
+      <div aria-hidden className="h-28 sm:h-20" />
+      <div
+        role="region"
+        aria-label="Comparison tray"
+        className="fixed inset-x-0 bottom-0 z-40 print:hidden border-t border-border bg-background/95 shadow-lg backdrop-blur"
+      >
+        <div className="mx-auto flex max-w-7xl flex-col gap-3 px-4 py-3 sm:flex-row sm:items-center sm:px-6">
+          <div className="flex min-w-0 flex-1 flex-wrap items-center gap-2">
+            <span className="text-sm font-medium">
+              Compare {items.length}/{MAX_COMPARE_ITEMS}
+            </span>
+            {items.map((item) => (
+              <span
+                key={`${item.type}:${item.id}`}
+                className="inline-flex max-w-[14rem] items-center gap-1 rounded-md border border-border bg-card py-0.5 pl-2 pr-1 text-xs"
+              >
+                <span className="truncate">{item.name}</span>
+                <button
+                  type="button"
+                  onClick={() => remove(item.type, item.id)}
+                  className="rounded p-0.5 text-muted-foreground hover:bg-accent hover:text-foreground"
+                  aria-label={`Remove ${item.name} from comparison`}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </span>
+            ))}
+          </div>
+          <div className="flex shrink-0 items-center gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={clear}>
+              Clear
+            </Button>
+            {items.length < 2 ? (
+              <Button variant="default" size="sm" disabled>
+                <Scale />
+                Add one more to compare
+              </Button>
+            ) : (
+              <Button asChild variant="default" size="sm">
+                <Link href={ROUTES.providerCompare(items, origin)}>
+                  <Scale />
+                  Compare
+                </Link>
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
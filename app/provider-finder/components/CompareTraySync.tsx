@@ -0,0 +1,20 @@
+"use client";
+
+import { useEffect } from "react";
+
+import {
+  type CompareItem,
+  useCompareTray,
+} from "@/app/contexts/CompareTrayContext";
+
+/** Makes the tray match the compare page, e.g. after opening a shared link. */
+export function CompareTraySync({ items }: { items: CompareItem[] }) {
+  const { replace } = useCompareTray();
+  const key = JSON.stringify(items);
+
+  useEffect(() => {
+    replace(JSON.parse(key) as CompareItem[]);
+  }, [key, replace]);
+
+  return null;
+}
@@ -0,0 +1,236 @@
+import type { DayOfWeek } from "@prisma/client";
+import { ShieldCheck, Star, X } from "lucide-react";
+import Link from "next/link";
+import type { ReactNode } from "react";
+
+import { cn } from "@/app/lib/utils";
+import type { ComparisonEntry } from "@/app/utils/provider-comparison";
+import { DAYS_OF_WEEK } from "@/lib/openingHours";
+
+const DAY_LABELS: Record<DayOfWeek, string> = {
+  MONDAY: "Monday",
+  TUESDAY: "Tuesday",
+  WEDNESDAY: "Wednesday",
+  THURSDAY: "Thursday",
+  FRIDAY: "Friday",
+  SATURDAY: "Saturday",
+  SUNDAY: "Sunday",
+};
+
+type Row = {
+  label: string;
+  /** Compared across entries to decide whether the row differs. */
+  values: string[];
+  render: (entry: ComparisonEntry) => ReactNode;
+};
+
+function formatDistance(km: number | null) {
+  return km === null ? "–" : `${km.toFixed(1)} km`;
+}
+
+function formatRating(entry: ComparisonEntry) {
+  return entry.rating === null || entry.reviewCount === 0
+    ? "No reviews yet"
+    : `${entry.rating.toFixed(1)} (${entry.reviewCount})`;
+}
+
+/** Items, with those not every entry has picked out. */
+function setRow(
+  label: string,
+  entries: ComparisonEntry[],
+  pick: (entry: ComparisonEntry) => string[],
+): Row {
+  const shared = new Set(
+    pick(entries[0]).filter((value) =>
+      entries.every((entry) => pick(entry).includes(value)),
+    ),
+  );
+  return {
+    label,
+    values: entries.map((entry) => pick(entry).join("\n")),
+    render: (entry) => {
+      const values = pick(entry);
+      if (values.length === 0) {
+        return <span className="text-muted-foreground">None listed</span>;
+      }
+      return (
+        <ul className="flex flex-wrap gap-1.5">
+          {values.map((value) => (
+            <li
+              key={value}
+              className={cn(
+                "rounded-md border px-2 py-0.5 text-xs",
+                shared.has(value)
+                  ? "border-border/70 bg-card text-muted-foreground"
+                  : "border-primary/20 bg-primary/10 font-medium text-primary",
+              )}
+            >
+              {value}
+            </li>
+          ))}
+        </ul>
+      );
+    },
+  };
+}
+
+function buildRows(entries: ComparisonEntry[]): Row[] {
+  return [
+    {
+      label: "Distance",
+      values: entries.map((entry) => formatDistance(entry.distanceKm)),
+      render: (entry) => (
+        <span className="tabular-nums">{formatDistance(entry.distanceKm)}</span>
+      ),
+    },
+    {
+      label: "Rating",
+      values: entries.map(formatRating),
+      render: (entry) =>
+        entry.rating === null || entry.reviewCount === 0 ? (
+          <span className="text-muted-foreground">No reviews yet</span>
+        ) : (
+          <span className="inline-flex items-center gap-1 tabular-nums">
+            <Star className="h-4 w-4 fill-yellow-500 text-yellow-500" />
+            <span className="font-medium">{entry.rating.toFixed(1)}</span>
+            <span className="text-muted-foreground">({entry.reviewCount})</span>
+          </span>
+        ),
+    },
+    {
+      label: "NDIS registration",
+      values: entries.map((entry) => String(entry.ndisRegistered)),
+      render: (entry) =>
+        entry.ndisRegistered ? (
+          <span className="inline-flex items-center gap-1 text-primary">
+            <ShieldCheck className="h-4 w-4" />
+            Registered
+          </span>
+        ) : (
+          <span className="text-muted-foreground">Unregistered</span>
+        ),
+    },
+    setRow("Services", entries, (entry) => entry.services),
+    setRow("Specialisations", entries, (entry) => entry.specialisations),
+    setRow("Languages spoken", entries, (entry) => entry.languages),
+    setRow("Service areas", entries, (entry) => entry.serviceAreas),
+    setRow("Accessibility", entries, (entry) => entry.accessibility),
+    ...DAYS_OF_WEEK.map(
+      (day): Row => ({
+        label: DAY_LABELS[day],
+        values: entries.map((entry) => entry.hours[day] ?? ""),
+        render: (entry) =>
+          entry.hours[day] ? (
+            <span className="tabular-nums">{entry.hours[day]}</span>
+          ) : (
+            <span className="text-muted-foreground">Closed</span>
+          ),
+      }),
+    ),
+  ];
+}
+
+/**
+ * One column per provider/outlet. Rows where they differ are highlighted;
+ * with `onlyDifferences` the rest are left out.
+ */
+export function ComparisonTable({
+  entries,
+  onlyDifferences,
+  removeHref,
+}: {
+  entries: ComparisonEntry[];
+  onlyDifferences: boolean;
+  /** Link to the comparison without `entry`. */
+  removeHref: (entry: ComparisonEntry) => string;
+}) {
+  const rows = buildRows(entries).map((row) => ({
+    ...row,
+    differs: new Set(row.values).size > 1,
+  }));
+  const shown = onlyDifferences ? rows.filter((row) => row.differs) : rows;
+
+  return (
+    <div className="overflow-x-auto rounded-xl border border-border">
+      <table className="w-full min-w-[40rem] table-fixed text-left text-sm">
+        <thead>
+          <tr className="border-b border-border bg-muted/40 align-top">
+            <th scope="col" className="w-36 px-4 py-3">
+              <span className="sr-only">Compared</span>
+            </th>
+            {entries.map((entry) => (
+              <th
+                key={`${entry.type}:${entry.id}`}
+                scope="col"
+                className="px-4 py-3 font-normal"
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <Link
+                      href={entry.href}
+                      className="font-semibold text-foreground hover:text-primary hover:underline"
+                    >
+                      {entry.name}
+                    </Link>
+                    {entry.parentProviderName ? (
+                      <p className="text-xs text-muted-foreground">
+                        Outlet of {entry.parentProviderName}
+                      </p>
+                    ) : null}
+                    {entry.address ? (
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        {entry.address}
+                      </p>
+                    ) : null}
+                  </div>
+                  <Link
+                    href={removeHref(entry)}
+                    className="rounded p-1 text-muted-foreground hover:bg-accent hover:text-foreground"
+                    aria-label={`Remove ${entry.name} from comparison`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Link>
+                </div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">
+          {shown.map((row) => (
+            <tr
+              key={row.label}
+              className={cn("align-top", row.differs && "bg-primary/5")}
+            >
+              <th
+                scope="row"
+                className="px-4 py-3 text-xs font-medium text-muted-foreground"
+              >
+                {row.label}
+                {row.differs ? (
+                  <span className="mt-1 block font-normal text-primary">
+                    Differs
+                  </span>
+                ) : null}
+              </th>
+              {entries.map((entry) => (
+                <td key={`${entry.type}:${entry.id}`} className="px-4 py-3">
+                  {row.render(entry)}
+                </td>
+              ))}
+            </tr>
+          ))}
+          {shown.length === 0 ? (
+            <tr>
+              <td
+                colSpan={entries.length + 1}
+                className="px-4 py-6 text-center text-muted-foreground"
+              >
+                These are the same on everything compared.
+              </td>
+            </tr>
+          ) : null}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { Download, Printer } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { API_ROUTES, ROUTES } from "@/lib/routes";
+
+/**
+ * CSV download and printable report of the current results. `searchParams`
+ * are the search API's params; null until the map has an area to search.
+ */
+export function ExportResultsButtons({
+  searchParams,
+}: {
+  searchParams: URLSearchParams | null;
+}) {
+  if (!searchParams) {
+    return (
+      <>
+        <Button variant="outline" size="sm" className="gap-2" disabled>
+          <Download className="h-4 w-4" />
+          CSV
+        </Button>
+        <Button variant="outline" size="sm" className="gap-2" disabled>
+          <Printer className="h-4 w-4" />
+          Print
+        </Button>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Button asChild variant="outline" size="sm" className="gap-2">
+        <a href={API_ROUTES.providerFinder.export(searchParams)} download>
+          <Download className="h-4 w-4" />
+          CSV
+        </a>
+      </Button>
+      <Button asChild variant="outline" size="sm" className="gap-2">
+        <a
+          href={ROUTES.providerFinderReport(searchParams)}
+          target="_blank"
+          rel="noopener"
+        >
+          <Printer className="h-4 w-4" />
+          Print
+        </a>
+      </Button>
+    </>
+  );
+}
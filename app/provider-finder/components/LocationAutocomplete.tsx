@@ -0,0 +1,156 @@
+"use client";
+
+import { Loader2, MapPin } from "lucide-react";
+import { useEffect, useId, useRef, useState } from "react";
+
+import { cn } from "@/app/lib/utils";
+import { Card } from "@/components/ui/card";
+import type { GazetteerPlace } from "@/lib/gazetteer";
+
+import { usePlaceSearch } from "../hooks/usePlaceSearch";
+
+type LocationAutocompleteProps = {
+  id?: string;
+  /** Name of the current search location, e.g. "Parramatta NSW 2150". */
+  currentLocationLabel?: string | null;
+  onSelect: (place: GazetteerPlace) => void;
+  placeholder?: string;
+  className?: string;
+};
+
+/** Typed suburb/postcode entry backed by the bundled gazetteer. */
+export default function LocationAutocomplete({
+  id,
+  currentLocationLabel,
+  onSelect,
+  placeholder = "Suburb or postcode",
+  className,
+}: LocationAutocompleteProps) {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const [value, setValue] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const listboxId = useId();
+
+  const { data: places = [], isFetching, isError } = usePlaceSearch(value);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const onPointerDown = (event: MouseEvent) => {
+      if (!rootRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+        setActiveIndex(-1);
+      }
+    };
+
+    document.addEventListener("mousedown", onPointerDown);
+    return () => document.removeEventListener("mousedown", onPointerDown);
+  }, [isOpen]);
+
+  const selectPlace = (place: GazetteerPlace) => {
+    setValue("");
+    setIsOpen(false);
+    setActiveIndex(-1);
+    onSelect(place);
+  };
+
+  const showPanel = isOpen && value.trim().length >= 2;
+
+  return (
+    <div ref={rootRef} className={cn("relative min-w-0", className)}>
+      <MapPin className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <input
+        id={id}
+        value={value}
+        onChange={(e) => {
+          setValue(e.target.value);
+          setIsOpen(true);
+          setActiveIndex(-1);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={(event) => {
+          if (event.key === "Escape") {
+            setIsOpen(false);
+            setActiveIndex(-1);
+            return;
+          }
+          if (!showPanel || places.length === 0) return;
+
+          if (event.key === "ArrowDown") {
+            event.preventDefault();
+            setActiveIndex((prev) => (prev + 1) % places.length);
+          } else if (event.key === "ArrowUp") {
+            event.preventDefault();
+            setActiveIndex((prev) =>
+              prev <= 0 ? places.length - 1 : prev - 1,
+            );
+          } else if (event.key === "Enter") {
+            event.preventDefault();
+            selectPlace(places[Math.max(activeIndex, 0)]);
+          }
+        }}
+        placeholder={currentLocationLabel ?? placeholder}
+        role="combobox"
+        aria-expanded={showPanel}
+        aria-controls={listboxId}
+        aria-autocomplete="list"
+        aria-activedescendant={
+          activeIndex >= 0 ? `${listboxId}-option-${activeIndex}` : undefined
+        }
+        className="w-full min-w-0 rounded-lg border border-input bg-background px-9 py-2.5 text-sm shadow-sm outline-none transition focus:border-primary/30 focus:ring-2 focus:ring-ring"
+      />
+      {isFetching ? (
+        <Loader2
+          className="pointer-events-none absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground"
+          aria-hidden
+        />
+      ) : null}
+
+      {showPanel ? (
+        <Card
+          variant="outlined"
+          className="absolute z-[500] mt-2 w-full overflow-hidden border-border/80 bg-background shadow-lg"
+        >
+          <div
+            id={listboxId}
+            role="listbox"
+            className="max-h-[320px] overflow-y-auto p-1"
+          >
+            {isError ? (
+              <p className="p-3 text-sm text-destructive">
+                We could not look up that location.
+              </p>
+            ) : places.length === 0 && !isFetching ? (
+              <p className="p-3 text-sm text-muted-foreground">
+                No matching suburb or postcode.
+              </p>
+            ) : (
+              places.map((place, index) => (
+                <button
+                  key={`${place.suburb}-${place.postcode}`}
+                  id={`${listboxId}-option-${index}`}
+                  type="button"
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => selectPlace(place)}
+                  className={cn(
+                    "w-full rounded-md px-3 py-2 text-left text-sm transition",
+                    index === activeIndex
+                      ? "bg-primary/5 text-foreground"
+                      : "hover:bg-accent/50",
+                  )}
+                >
+                  <span className="font-medium">{place.suburb}</span>{" "}
+                  <span className="text-muted-foreground">
+                    {place.state} {place.postcode}
+                  </span>
+                </button>
+              ))
+            )}
+          </div>
+        </Card>
+      ) : null}
+    </div>
+  );
+}
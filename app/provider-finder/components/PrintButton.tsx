@@ -0,0 +1,20 @@
+"use client";
+
+import { Printer } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+export function PrintButton() {
+  return (
+    <Button
+      type="button"
+      variant="default"
+      size="sm"
+      className="print:hidden"
+      onClick={() => window.print()}
+    >
+      <Printer />
+      Print or save as PDF
+    </Button>
+  );
+}
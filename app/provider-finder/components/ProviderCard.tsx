@@ -11,6 +11,8 @@ import Link from "next/link";
 import { Fragment } from "react";
 
 import { cn } from "@/app/lib/utils";
+import AccessibilityFeatureList from "@/components/AccessibilityFeatureList";
+import { ShortlistButton } from "@/components/shortlist/ShortlistButton";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -24,12 +26,18 @@ import { getDbTimeString } from "@/lib/dbTime";
 
 import { Address, Provider } from "../providers";
 import { ViewMode } from "../types";
-import { clampRating, formatLocation } from "../utils";
+import { clampRating, coverageLabel, formatLocation } from "../utils";
+
+import { CompareToggleButton } from "./CompareToggleButton";
+import { SiteGroupSummary, type SiteGroup } from "./SiteGroupSummary";
 
 export function ProviderCard({
   provider,
   address,
   distanceKm,
+  coverage,
+  languages = [],
+  site,
   view,
   onSelect,
   isSelected,
@@ -37,6 +45,12 @@ export function ProviderCard({
   provider: Provider;
   address: Address;
   distanceKm: number;
+  /** From the search API; omitted where coverage isn't known. */
+  coverage?: "located" | "serviceArea";
+  /** Spoken by linked workers; from the search API. */
+  languages?: { id: string; name: string }[];
+  /** The parent provider's other sites; from the search API. */
+  site?: SiteGroup;
   view: ViewMode;
   onSelect?: (provider: Provider) => void;
   isSelected?: boolean;
@@ -82,6 +96,18 @@ export function ProviderCard({
               <span className="w-fit rounded-md bg-accent px-2 py-0.5 text-xs text-foreground">
                 {distanceKm.toFixed(1)} km away
               </span>
+              {coverage ? (
+                <span
+                  className={cn(
+                    "w-fit rounded-md px-2 py-0.5 text-xs",
+                    coverage === "serviceArea"
+                      ? "bg-primary/10 text-primary"
+                      : "bg-muted text-muted-foreground",
+                  )}
+                >
+                  {coverageLabel(coverage)}
+                </span>
+              ) : null}
             </div>
           </div>
 
@@ -118,6 +144,8 @@ export function ProviderCard({
       </CardHeader>
 
       <CardContent className="min-h-0 flex-1 space-y-3">
+        {site ? <SiteGroupSummary site={site} /> : null}
+
         <div className="flex flex-wrap gap-2">
           {provider.services.map((s) => (
             <Badge
@@ -130,6 +158,25 @@ export function ProviderCard({
           ))}
         </div>
 
+        <AccessibilityFeatureList
+          features={provider.accessibilityFeatures}
+          compact
+        />
+
+        {languages.length > 0 ? (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            <span className="font-medium text-foreground">Speaks:</span>
+            {languages.map((l) => (
+              <span
+                key={l.id}
+                className="rounded-md border border-border/70 bg-card px-2 py-0.5"
+              >
+                {l.name}
+              </span>
+            ))}
+          </div>
+        ) : null}
+
         {provider.serviceAreas.length > 0 ? (
           <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
             <span className="inline-flex items-center gap-2">
@@ -227,15 +274,29 @@ export function ProviderCard({
         ) : null}
       </CardContent>
 
-      <CardFooter className="gap-2" onClick={(e) => e.stopPropagation()}>
-        <Button asChild variant="outline" size="default" className="flex-1">
-          <Link href={`/provider/${encodeURIComponent(provider.id)}`}>
-            View profile
-          </Link>
-        </Button>
-        <Button variant="default" size="default" className="flex-1">
-          Contact
-        </Button>
+      <CardFooter
+        className="flex flex-col gap-2"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex w-full gap-2">
+          <Button asChild variant="outline" size="default" className="flex-1">
+            <Link href={`/provider/${encodeURIComponent(provider.id)}`}>
+              View profile
+            </Link>
+          </Button>
+          <Button variant="default" size="default" className="flex-1">
+            Contact
+          </Button>
+        </div>
+        <div className="flex w-full gap-2">
+          <CompareToggleButton
+            item={{ type: "provider", id: provider.id, name: provider.name }}
+          />
+          <ShortlistButton
+            target={{ type: "provider", id: provider.id, name: provider.name }}
+            className="h-9 w-9 shrink-0 md:h-8 md:w-8"
+          />
+        </div>
       </CardFooter>
     </Card>
   );
@@ -3,13 +3,18 @@
 import { Loader2, MapPin, Search, Star, TriangleAlert } from "lucide-react";
 import { useEffect, useId, useMemo, useRef, useState } from "react";
 
-import { AutocompleteItem } from "@/app/api/provider-finder/autocomplete/types";
+import {
+  AutocompleteItem,
+  AutocompleteSuggestion,
+} from "@/app/api/provider-finder/autocomplete/types";
 import { cn } from "@/app/lib/utils";
 import { MapSearchView } from "@/components/Map";
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
 
 import { useProviderOutletAutocomplete } from "../hooks/useProviderOutletAutocomplete";
+import { trackSearchClick } from "../trackSearchClick";
+import { coverageLabel } from "../utils";
 
 type ProviderOutletAutocompleteProps = {
   id?: string;
@@ -19,10 +24,53 @@ type ProviderOutletAutocompleteProps = {
   value: string;
   onValueChange: (value: string) => void;
   onSelect?: (item: AutocompleteItem) => void;
+  /** Place, service, specialisation or registration group picked. */
+  onSelectSuggestion?: (suggestion: AutocompleteSuggestion) => void;
   placeholder?: string;
   className?: string;
 };
 
+const SUGGESTION_GROUP_LABELS: Record<AutocompleteSuggestion["type"], string> =
+  {
+    place: "Places",
+    service: "Services",
+    specialisation: "Specialisations",
+    regGroup: "NDIS registration groups",
+  };
+
+function suggestionLabel(suggestion: AutocompleteSuggestion) {
+  return suggestion.type === "place" ? suggestion.displayName : suggestion.name;
+}
+
+function isSuggestion(
+  option: AutocompleteSuggestion | AutocompleteItem,
+): option is AutocompleteSuggestion {
+  return option.type !== "provider" && option.type !== "outlet";
+}
+
+function suggestionKey(suggestion: AutocompleteSuggestion) {
+  switch (suggestion.type) {
+    case "place":
+      return `place-${suggestion.suburb}-${suggestion.postcode}`;
+    case "regGroup":
+      return `regGroup-${suggestion.index}`;
+    default:
+      return `${suggestion.type}-${suggestion.id}`;
+  }
+}
+
+/** Id recorded in search analytics when the option is clicked. */
+function optionEntityId(option: AutocompleteSuggestion | AutocompleteItem) {
+  switch (option.type) {
+    case "place":
+      return option.postcode;
+    case "regGroup":
+      return String(option.index);
+    default:
+      return option.id;
+  }
+}
+
 function highlightText(text: string, query: string) {
   const q = query.trim();
   if (!q) return text;
@@ -56,7 +104,8 @@ export default function ProviderOutletAutocomplete({
   value,
   onValueChange,
   onSelect,
-  placeholder = "Search providers, outlets, or services...",
+  onSelectSuggestion,
+  placeholder = "Search providers, suburbs, services or NDIS groups...",
   className,
 }: ProviderOutletAutocompleteProps) {
   const rootRef = useRef<HTMLDivElement>(null);
@@ -70,11 +119,14 @@ export default function ProviderOutletAutocomplete({
   // todo: move into autocomplete search bar once data has finished loading?
   const {
     items,
+    suggestions,
     queryResult: { isFetching, isError, error },
     keepTyping,
     minChars,
     fallback,
+    didYouMean,
     debouncedQuery,
+    searchId,
   } = useProviderOutletAutocomplete({
     query: value,
     mapSearchView,
@@ -101,20 +153,64 @@ export default function ProviderOutletAutocomplete({
   }, [isOpen]);
 
   const showPanel = isOpen && (value.trim().length > 0 || isFetching);
-  const hasResults = items.length > 0;
-  const activeItem = useMemo(
-    () => (activeIndex >= 0 ? items[activeIndex] : null),
-    [activeIndex, items],
+  // Suggestion groups first, then providers/outlets; one index space for keyboard nav.
+  const suggestionList = useMemo<AutocompleteSuggestion[]>(
+    () =>
+      suggestions
+        ? [
+            ...suggestions.places,
+            ...suggestions.services,
+            ...suggestions.specialisations,
+            ...suggestions.regGroups,
+          ]
+        : [],
+    [suggestions],
+  );
+  const options = useMemo<(AutocompleteSuggestion | AutocompleteItem)[]>(
+    () => [...suggestionList, ...items],
+    [suggestionList, items],
+  );
+  const hasResults = options.length > 0;
+  const activeOption = useMemo(
+    () => (activeIndex >= 0 ? options[activeIndex] : null),
+    [activeIndex, options],
   );
 
-  const selectItem = (item: AutocompleteItem) => {
-    onValueChange(item.name);
-    onSelect?.(item);
+  const close = () => {
     setIsOpen(false);
     setActiveIndex(-1);
     inputRef.current?.focus();
   };
 
+  const selectItem = (item: AutocompleteItem) => {
+    onValueChange(item.name);
+    onSelect?.(item);
+    close();
+  };
+
+  const selectSuggestion = (suggestion: AutocompleteSuggestion) => {
+    // The pick becomes a filter or map position, so clear the typed text.
+    onValueChange("");
+    onSelectSuggestion?.(suggestion);
+    close();
+  };
+
+  const selectOption = (option: AutocompleteSuggestion | AutocompleteItem) => {
+    if (searchId) {
+      trackSearchClick({
+        searchId,
+        position: options.indexOf(option) + 1,
+        entityType: option.type,
+        entityId: optionEntityId(option),
+      });
+    }
+    if (isSuggestion(option)) {
+      selectSuggestion(option);
+    } else {
+      selectItem(option);
+    }
+  };
+
   return (
     <div ref={rootRef} className={cn("relative", className)}>
       <Search className="pointer-events-none absolute left-3 top-1/2 z-10 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
@@ -140,8 +236,8 @@ export default function ProviderOutletAutocomplete({
           if (event.key === "ArrowDown") {
             event.preventDefault();
             setActiveIndex((prev) => {
-              if (items.length === 0) return -1;
-              return prev < items.length - 1 ? prev + 1 : 0;
+              if (options.length === 0) return -1;
+              return prev < options.length - 1 ? prev + 1 : 0;
             });
             return;
           }
@@ -149,16 +245,16 @@ export default function ProviderOutletAutocomplete({
           if (event.key === "ArrowUp") {
             event.preventDefault();
             setActiveIndex((prev) => {
-              if (items.length === 0) return -1;
-              return prev <= 0 ? items.length - 1 : prev - 1;
+              if (options.length === 0) return -1;
+              return prev <= 0 ? options.length - 1 : prev - 1;
             });
             return;
           }
 
           if (event.key === "Enter") {
-            if (activeItem) {
+            if (activeOption) {
               event.preventDefault();
-              selectItem(activeItem);
+              selectOption(activeOption);
             }
             return;
           }
@@ -221,6 +317,24 @@ export default function ProviderOutletAutocomplete({
               </div>
             ) : null}
 
+            {!keepTyping && !isFetching && !isError && didYouMean ? (
+              <div className="mb-2 rounded-lg border border-border bg-muted/40 p-3 text-sm">
+                Did you mean{" "}
+                <button
+                  type="button"
+                  onClick={() => {
+                    onValueChange(didYouMean);
+                    setActiveIndex(-1);
+                    inputRef.current?.focus();
+                  }}
+                  className="font-semibold text-primary underline-offset-2 hover:underline"
+                >
+                  {didYouMean}
+                </button>
+                ?
+              </div>
+            ) : null}
+
             {!keepTyping && !isFetching && !isError && fallback ? (
               <div className="mb-2 rounded-lg border border-amber-500/30 bg-amber-500/10 p-3 text-xs text-amber-900 dark:text-amber-200">
                 Search is taking longer than usual. Showing fallback
@@ -236,7 +350,56 @@ export default function ProviderOutletAutocomplete({
 
             {!keepTyping && !isFetching && !isError && hasResults ? (
               <div className="space-y-2">
-                {items.map((item, index) => {
+                {suggestionList.map((suggestion, index) => {
+                  const isActive = index === activeIndex;
+                  const startsGroup =
+                    index === 0 ||
+                    suggestionList[index - 1].type !== suggestion.type;
+
+                  return (
+                    <div key={suggestionKey(suggestion)}>
+                      {startsGroup ? (
+                        <p className="px-1 pb-1 pt-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                          {SUGGESTION_GROUP_LABELS[suggestion.type]}
+                        </p>
+                      ) : null}
+                      <button
+                        id={`${listboxId}-option-${index}`}
+                        type="button"
+                        role="option"
+                        aria-selected={isActive}
+                        onMouseEnter={() => setActiveIndex(index)}
+                        onClick={() => selectOption(suggestion)}
+                        className={cn(
+                          "flex w-full items-center justify-between gap-3 rounded-lg border px-3 py-2 text-left text-sm transition",
+                          isActive
+                            ? "border-primary/40 bg-primary/5 shadow-sm"
+                            : "border-border/60 bg-card hover:border-primary/20 hover:bg-accent/50",
+                        )}
+                      >
+                        <span className="min-w-0 truncate">
+                          {highlightText(
+                            suggestionLabel(suggestion),
+                            debouncedQuery,
+                          )}
+                        </span>
+                        {suggestion.type === "regGroup" ? (
+                          <span className="shrink-0 text-xs text-muted-foreground">
+                            {suggestion.group}
+                          </span>
+                        ) : null}
+                      </button>
+                    </div>
+                  );
+                })}
+
+                {items.length > 0 && suggestionList.length > 0 ? (
+                  <p className="px-1 pb-1 pt-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                    Providers
+                  </p>
+                ) : null}
+                {items.map((item, itemIndex) => {
+                  const index = suggestionList.length + itemIndex;
                   const isActive = index === activeIndex;
                   const resultTypeLabel =
                     item.type === "provider" ? "Provider" : "Outlet";
@@ -249,7 +412,7 @@ export default function ProviderOutletAutocomplete({
                       role="option"
                       aria-selected={isActive}
                       onMouseEnter={() => setActiveIndex(index)}
-                      onClick={() => selectItem(item)}
+                      onClick={() => selectOption(item)}
                       className={cn(
                         "w-full rounded-lg border px-3 py-3 text-left transition",
                         isActive
@@ -274,6 +437,11 @@ export default function ProviderOutletAutocomplete({
                           >
                             {resultTypeLabel}
                           </Badge>
+                          {item.coverage === "serviceArea" ? (
+                            <Badge variant="secondary">
+                              {coverageLabel(item.coverage)}
+                            </Badge>
+                          ) : null}
                           <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
                             <Star className="h-3.5 w-3.5 text-yellow-500" />
                             <span className="font-medium text-foreground">
@@ -11,6 +11,8 @@ import Link from "next/link";
 import { Fragment } from "react";
 
 import { cn } from "@/app/lib/utils";
+import AccessibilityFeatureList from "@/components/AccessibilityFeatureList";
+import { ShortlistButton } from "@/components/shortlist/ShortlistButton";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -24,12 +26,18 @@ import { getDbTimeString } from "@/lib/dbTime";
 
 import { Address, ProviderOutlet } from "../providers";
 import { ViewMode } from "../types";
-import { clampRating, formatLocation } from "../utils";
+import { clampRating, coverageLabel, formatLocation } from "../utils";
+
+import { CompareToggleButton } from "./CompareToggleButton";
+import { SiteGroupSummary, type SiteGroup } from "./SiteGroupSummary";
 
 export function ProviderOutletCard({
   providerOutlet,
   address,
   distanceKm,
+  coverage,
+  languages = [],
+  site,
   view,
   onSelect,
   isSelected,
@@ -37,6 +45,12 @@ export function ProviderOutletCard({
   providerOutlet: ProviderOutlet;
   address: Address;
   distanceKm: number;
+  /** From the search API; omitted where coverage isn't known. */
+  coverage?: "located" | "serviceArea";
+  /** Spoken by linked workers; from the search API. */
+  languages?: { id: string; name: string }[];
+  /** The parent provider's other sites; from the search API. */
+  site?: SiteGroup;
   view: ViewMode;
   onSelect?: (providerOutlet: ProviderOutlet) => void;
   isSelected?: boolean;
@@ -88,6 +102,18 @@ export function ProviderOutletCard({
               <span className="w-fit rounded-md bg-accent px-2 py-0.5 text-xs text-foreground">
                 {distanceKm.toFixed(1)} km away
               </span>
+              {coverage ? (
+                <span
+                  className={cn(
+                    "w-fit rounded-md px-2 py-0.5 text-xs",
+                    coverage === "serviceArea"
+                      ? "bg-primary/10 text-primary"
+                      : "bg-muted text-muted-foreground",
+                  )}
+                >
+                  {coverageLabel(coverage)}
+                </span>
+              ) : null}
             </div>
           </div>
 
@@ -124,6 +150,8 @@ export function ProviderOutletCard({
       </CardHeader>
 
       <CardContent className="min-h-0 flex-1 space-y-3">
+        {site ? <SiteGroupSummary site={site} /> : null}
+
         <div className="flex flex-wrap gap-2">
           {providerOutlet.services.map((s) => (
             <Badge
@@ -136,6 +164,25 @@ export function ProviderOutletCard({
           ))}
         </div>
 
+        <AccessibilityFeatureList
+          features={providerOutlet.accessibilityFeatures}
+          compact
+        />
+
+        {languages.length > 0 ? (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            <span className="font-medium text-foreground">Speaks:</span>
+            {languages.map((l) => (
+              <span
+                key={l.id}
+                className="rounded-md border border-border/70 bg-card px-2 py-0.5"
+              >
+                {l.name}
+              </span>
+            ))}
+          </div>
+        ) : null}
+
         {providerOutlet.serviceAreas.length > 0 ? (
           <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
             <span className="inline-flex items-center gap-2">
@@ -256,6 +303,23 @@ export function ProviderOutletCard({
             Contact
           </Button>
         </div>
+        <div className="flex w-full gap-2">
+          <CompareToggleButton
+            item={{
+              type: "outlet",
+              id: providerOutlet.id,
+              name: providerOutlet.name,
+            }}
+          />
+          <ShortlistButton
+            target={{
+              type: "outlet",
+              id: providerOutlet.id,
+              name: providerOutlet.name,
+            }}
+            className="h-9 w-9 shrink-0 md:h-8 md:w-8"
+          />
+        </div>
       </CardFooter>
     </Card>
   );
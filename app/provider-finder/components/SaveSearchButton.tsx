@@ -0,0 +1,239 @@
+"use client";
+
+import { useMutation } from "@tanstack/react-query";
+import { Bookmark, Check, Loader2 } from "lucide-react";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import type { UserPosition } from "@/lib/geo";
+import { API_ROUTES, ROUTES } from "@/lib/routes";
+import type { AccessibilityFeature } from "@/schemas/accessibility.types";
+import type { SearchCoverage } from "@/schemas/provider-finder.types";
+import type {
+  CreateSavedSearchPayload,
+  SavedSearchFrequency,
+  SavedSearchParams,
+} from "@/schemas/saved-searches.types";
+
+const RADIUS_OPTIONS_KM = [5, 10, 25, 50];
+const DEFAULT_RADIUS_KM = 10;
+
+const inputClass =
+  "mt-1 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm shadow-sm outline-none transition focus:border-primary/30 focus:ring-2 focus:ring-ring";
+
+export type SaveSearchFilters = {
+  q: string;
+  serviceIds: string[];
+  specialisationIds: string[];
+  languageIds: string[];
+  registeredOnly: boolean;
+  accessibilityFeatures: AccessibilityFeature[];
+  openNow: boolean;
+  openWeekends: boolean;
+  openAfter: string | null;
+  coverage: SearchCoverage;
+};
+
+function toSavedSearchParams(
+  filters: SaveSearchFilters,
+  centre: UserPosition,
+  radiusKm: number,
+  postcode: string | undefined,
+): SavedSearchParams {
+  const params: SavedSearchParams = {
+    lat: String(centre.lat),
+    lon: String(centre.lng),
+    radiusKm: String(radiusKm),
+    coverage: filters.coverage,
+  };
+  if (filters.q.trim()) params.q = filters.q.trim();
+  if (postcode) params.postcode = postcode;
+  if (filters.serviceIds.length > 0) {
+    params.serviceIds = filters.serviceIds.join(",");
+  }
+  if (filters.specialisationIds.length > 0) {
+    params.specialisationIds = filters.specialisationIds.join(",");
+  }
+  if (filters.languageIds.length > 0) {
+    params.languageIds = filters.languageIds.join(",");
+  }
+  if (filters.registeredOnly) params.registeredOnly = "true";
+  if (filters.accessibilityFeatures.length > 0) {
+    params.accessibilityFeatures = filters.accessibilityFeatures.join(",");
+  }
+  if (filters.openNow) params.openNow = "true";
+  if (filters.openWeekends) params.openWeekends = "true";
+  if (filters.openAfter) params.openAfter = filters.openAfter;
+  return params;
+}
+
+/**
+ * Saves the current finder search around `centre` so it can be re-run from the
+ * dashboard and emailed as a digest when new providers match.
+ */
+export function SaveSearchButton({
+  filters,
+  centre,
+  areaLabel,
+  postcode,
+}: {
+  filters: SaveSearchFilters;
+  centre: UserPosition | null;
+  /** e.g. "Dandenong VIC 3175", used in the default name. */
+  areaLabel?: string;
+  postcode?: string;
+}) {
+  const { status } = useSession();
+  const [open, setOpen] = useState(false);
+  const [radiusKm, setRadiusKm] = useState(DEFAULT_RADIUS_KM);
+  const [name, setName] = useState("");
+  const [emailAlerts, setEmailAlerts] = useState(true);
+  const [frequency, setFrequency] = useState<SavedSearchFrequency>("WEEKLY");
+
+  const defaultName = `${filters.q.trim() || "Providers"} within ${radiusKm} km${
+    areaLabel ? ` of ${areaLabel}` : ""
+  }`;
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      if (!centre) throw new Error("Choose a location first");
+      const res = await fetch(API_ROUTES.savedSearches.list, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim() || defaultName,
+          params: toSavedSearchParams(filters, centre, radiusKm, postcode),
+          emailAlerts,
+          frequency,
+        } satisfies CreateSavedSearchPayload),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          typeof data.error === "string" ? data.error : "Save failed",
+        );
+      }
+      return data;
+    },
+    onSuccess: () => setOpen(false),
+  });
+
+  if (status === "unauthenticated") {
+    return (
+      <Button variant="outline" size="sm" className="gap-2" asChild>
+        <Link
+          href={`${ROUTES.login}?callbackUrl=${encodeURIComponent(ROUTES.providerFinder)}`}
+        >
+          <Bookmark className="h-4 w-4" />
+          Sign in to save
+        </Link>
+      </Button>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <Button
+        variant="outline"
+        size="sm"
+        type="button"
+        className="gap-2"
+        disabled={status !== "authenticated"}
+        aria-expanded={open}
+        onClick={() => {
+          setOpen((o) => !o);
+          mutation.reset();
+        }}
+      >
+        {mutation.isSuccess ? (
+          <Check className="h-4 w-4" />
+        ) : (
+          <Bookmark className="h-4 w-4" />
+        )}
+        {mutation.isSuccess ? "Saved" : "Save search"}
+      </Button>
+
+      {open ? (
+        <form
+          className="absolute right-0 z-[600] mt-2 w-72 space-y-3 rounded-xl border border-border bg-background p-4 text-sm shadow-lg"
+          onSubmit={(e) => {
+            e.preventDefault();
+            mutation.mutate();
+          }}
+        >
+          {!centre ? (
+            <p className="text-muted-foreground">
+              Choose a location or use your location to save this search.
+            </p>
+          ) : (
+            <>
+              <label className="block font-medium">
+                Name
+                <input
+                  className={inputClass}
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder={defaultName}
+                  maxLength={120}
+                />
+              </label>
+              <label className="block font-medium">
+                Within
+                <select
+                  className={inputClass}
+                  value={radiusKm}
+                  onChange={(e) => setRadiusKm(Number(e.target.value))}
+                >
+                  {RADIUS_OPTIONS_KM.map((km) => (
+                    <option key={km} value={km}>
+                      {km} km{areaLabel ? ` of ${areaLabel}` : ""}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={emailAlerts}
+                  onChange={(e) => setEmailAlerts(e.target.checked)}
+                  className="h-4 w-4 rounded border-border text-primary focus:ring-ring"
+                />
+                Email me new providers
+              </label>
+              {emailAlerts ? (
+                <select
+                  aria-label="Email frequency"
+                  className={inputClass}
+                  value={frequency}
+                  onChange={(e) =>
+                    setFrequency(e.target.value as SavedSearchFrequency)
+                  }
+                >
+                  <option value="WEEKLY">Weekly</option>
+                  <option value="DAILY">Daily</option>
+                </select>
+              ) : null}
+              {mutation.isError ? (
+                <p className="text-destructive">{mutation.error.message}</p>
+              ) : null}
+              <Button
+                type="submit"
+                variant="default"
+                size="sm"
+                className="w-full gap-2"
+                disabled={mutation.isPending}
+              >
+                {mutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : null}
+                Save search
+              </Button>
+            </>
+          )}
+        </form>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { ChevronDown, ChevronUp } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+
+/** The parent provider's other sites; from the search API. */
+export type SiteGroup = {
+  providerId: string;
+  providerName: string;
+  otherSites: {
+    type: "provider" | "outlet";
+    id: string;
+    name: string;
+    addressString: string;
+  }[];
+  otherSiteCount: number;
+};
+
+/** "Acme Care — this location + 6 other sites", expandable to list them. */
+export function SiteGroupSummary({ site }: { site: SiteGroup }) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (site.otherSiteCount === 0) return null;
+
+  const hidden = site.otherSiteCount - site.otherSites.length;
+
+  return (
+    <div className="text-xs text-muted-foreground">
+      <button
+        type="button"
+        aria-expanded={expanded}
+        className="inline-flex items-center gap-1 text-left hover:text-foreground"
+        onClick={(e) => {
+          // The card itself is clickable.
+          e.stopPropagation();
+          setExpanded((prev) => !prev);
+        }}
+      >
+        <span>
+          <span className="font-medium text-foreground">
+            {site.providerName}
+          </span>{" "}
+          — this location + {site.otherSiteCount} other{" "}
+          {site.otherSiteCount === 1 ? "site" : "sites"}
+        </span>
+        {expanded ? (
+          <ChevronUp className="h-3.5 w-3.5 shrink-0" aria-hidden="true" />
+        ) : (
+          <ChevronDown className="h-3.5 w-3.5 shrink-0" aria-hidden="true" />
+        )}
+      </button>
+      {expanded ? (
+        <ul className="mt-2 space-y-1 border-l border-border/70 pl-3">
+          {site.otherSites.map((s) => (
+            <li key={`${s.type}:${s.id}`}>
+              <Link
+                href={`/${s.type === "provider" ? "provider" : "provider-outlet"}/${encodeURIComponent(s.id)}`}
+                className="text-primary hover:underline"
+                onClick={(e) => e.stopPropagation()}
+              >
+                {s.name}
+              </Link>
+              <span className="block">{s.addressString}</span>
+            </li>
+          ))}
+          {hidden > 0 ? <li>and {hidden} more</li> : null}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import type { MapSearchView } from "@/components/Map";
+import type { AccessibilityFeature } from "@/schemas/accessibility.types";
+import {
+  finderUrlQuerySchema,
+  type SearchCoverage,
+  type SearchSort,
+} from "@/schemas/provider-finder.types";
+
+import { getBoundingBox } from "../utils/getBoundingBox";
+
+import type { ViewMode } from "./types";
+
+/**
+ * Provider Finder state that is kept in the page URL, so a result set can be
+ * shared as a link and rendered on the server. Shared by `page.tsx` and
+ * `ProviderFinderClient`, so it must not import anything client- or
+ * server-only.
+ */
+
+export const FINDER_PAGE_SIZE = 9;
+/** "Open after 5pm" filter threshold. */
+export const OPEN_LATE_AFTER = "17:00";
+/** Radius shown for a `lat`/`lon` link without `radiusKm`. */
+const DEFAULT_LINK_RADIUS_KM = 5;
+/** ~10 m; keeps shared links short. */
+const COORD_DECIMALS = 4;
+
+export type FinderUrlState = {
+  q: string;
+  categoryId: "all" | string;
+  specialisationId: "all" | string;
+  languageId: "all" | string;
+  registeredOnly: boolean;
+  accessibilityFeatures: AccessibilityFeature[];
+  openNow: boolean;
+  openWeekends: boolean;
+  openLate: boolean;
+  coverage: SearchCoverage;
+  sort: SearchSort;
+  view: ViewMode;
+  page: number;
+  /** Map area searched; null until the user's location is known. */
+  viewport: MapSearchView | null;
+};
+
+export type ProviderFinderSearchParams = {
+  q: string;
+  mapSearchView: MapSearchView;
+  serviceIds: string[];
+  specialisationIds: string[];
+  languageIds: string[];
+  registeredOnly: boolean;
+  accessibilityFeatures: AccessibilityFeature[];
+  openNow: boolean;
+  openWeekends: boolean;
+  /** "HH:MM", or null for no late-hours filter. */
+  openAfter: string | null;
+  coverage: SearchCoverage;
+  sort: SearchSort;
+  page: number;
+  pageSize: number;
+};
+
+type RawSearchParams =
+  | URLSearchParams
+  | Record<string, string | string[] | undefined>;
+
+function firstValues(params: RawSearchParams) {
+  if (params instanceof URLSearchParams) return Object.fromEntries(params);
+  return Object.fromEntries(
+    Object.entries(params).map(([key, value]) => [
+      key,
+      Array.isArray(value) ? value[0] : value,
+    ]),
+  );
+}
+
+export function parseFinderUrlState(params: RawSearchParams): FinderUrlState {
+  const query = finderUrlQuerySchema.parse(firstValues(params));
+
+  let viewport: MapSearchView | null = null;
+  if (
+    query.minLat !== undefined &&
+    query.maxLat !== undefined &&
+    query.minLon !== undefined &&
+    query.maxLon !== undefined &&
+    query.minLat < query.maxLat &&
+    query.minLon < query.maxLon
+  ) {
+    viewport = {
+      minLat: query.minLat,
+      maxLat: query.maxLat,
+      minLon: query.minLon,
+      maxLon: query.maxLon,
+    };
+  } else if (query.lat !== undefined && query.lon !== undefined) {
+    viewport = getBoundingBox(
+      query.lat,
+      query.lon,
+      query.radiusKm ?? DEFAULT_LINK_RADIUS_KM,
+    );
+  }
+
+  return {
+    q: query.q,
+    categoryId: query.serviceIds[0] ?? "all",
+    specialisationId: query.specialisationIds[0] ?? "all",
+    languageId: query.languageIds[0] ?? "all",
+    registeredOnly: query.registeredOnly,
+    accessibilityFeatures: query.accessibilityFeatures,
+    openNow: query.openNow,
+    openWeekends: query.openWeekends,
+    openLate: query.openAfter !== undefined,
+    coverage: query.coverage,
+    sort: query.sort,
+    view: query.view,
+    page: query.page,
+    viewport,
+  };
+}
+
+/** URL params for `state`, leaving out defaults. */
+export function toFinderUrlParams(state: FinderUrlState) {
+  const params = new URLSearchParams();
+  const q = state.q.trim();
+  if (q) params.set("q", q);
+  if (state.categoryId !== "all") params.set("serviceIds", state.categoryId);
+  if (state.specialisationId !== "all") {
+    params.set("specialisationIds", state.specialisationId);
+  }
+  if (state.languageId !== "all") params.set("languageIds", state.languageId);
+  if (state.registeredOnly) params.set("registeredOnly", "true");
+  if (state.accessibilityFeatures.length > 0) {
+    params.set("accessibilityFeatures", state.accessibilityFeatures.join(","));
+  }
+  if (state.openNow) params.set("openNow", "true");
+  if (state.openWeekends) params.set("openWeekends", "true");
+  if (state.openLate) params.set("openAfter", OPEN_LATE_AFTER);
+  if (state.coverage !== "all") params.set("coverage", state.coverage);
+  if (state.sort !== "relevance") params.set("sort", state.sort);
+  if (state.view !== "grid") params.set("view", state.view);
+  if (state.page > 1) params.set("page", String(state.page));
+  if (state.viewport) {
+    const { minLat, maxLat, minLon, maxLon } = state.viewport;
+    params.set("minLat", minLat.toFixed(COORD_DECIMALS));
+    params.set("maxLat", maxLat.toFixed(COORD_DECIMALS));
+    params.set("minLon", minLon.toFixed(COORD_DECIMALS));
+    params.set("maxLon", maxLon.toFixed(COORD_DECIMALS));
+  }
+  return params;
+}
+
+/** Search API params for `state`, or null when there is no area to search. */
+export function toFinderSearchParams(
+  state: FinderUrlState,
+): ProviderFinderSearchParams | null {
+  if (!state.viewport) return null;
+  return {
+    q: state.q.trim(),
+    mapSearchView: state.viewport,
+    serviceIds: state.categoryId !== "all" ? [state.categoryId] : [],
+    specialisationIds:
+      state.specialisationId !== "all" ? [state.specialisationId] : [],
+    languageIds: state.languageId !== "all" ? [state.languageId] : [],
+    registeredOnly: state.registeredOnly,
+    accessibilityFeatures: state.accessibilityFeatures,
+    openNow: state.openNow,
+    openWeekends: state.openWeekends,
+    openAfter: state.openLate ? OPEN_LATE_AFTER : null,
+    coverage: state.coverage,
+    sort: state.sort,
+    page: state.page,
+    pageSize: FINDER_PAGE_SIZE,
+  };
+}
+
+export function toSearchUrlParams(params: ProviderFinderSearchParams) {
+  const { minLat, maxLat, minLon, maxLon } = params.mapSearchView;
+  const searchParams = new URLSearchParams({
+    minLat: String(minLat),
+    maxLat: String(maxLat),
+    minLon: String(minLon),
+    maxLon: String(maxLon),
+    coverage: params.coverage,
+    sort: params.sort,
+    page: String(params.page),
+    pageSize: String(params.pageSize),
+  });
+  if (params.q) searchParams.set("q", params.q);
+  if (params.serviceIds.length > 0) {
+    searchParams.set("serviceIds", params.serviceIds.join(","));
+  }
+  if (params.specialisationIds.length > 0) {
+    searchParams.set("specialisationIds", params.specialisationIds.join(","));
+  }
+  if (params.languageIds.length > 0) {
+    searchParams.set("languageIds", params.languageIds.join(","));
+  }
+  if (params.registeredOnly) searchParams.set("registeredOnly", "true");
+  if (params.accessibilityFeatures.length > 0) {
+    searchParams.set(
+      "accessibilityFeatures",
+      params.accessibilityFeatures.join(","),
+    );
+  }
+  if (params.openNow) searchParams.set("openNow", "true");
+  if (params.openWeekends) searchParams.set("openWeekends", "true");
+  if (params.openAfter) searchParams.set("openAfter", params.openAfter);
+  return searchParams;
+}
@@ -1,30 +1,28 @@
 "use client";
 
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 
 import { Provider } from "@/components/provider/types";
 import { ProviderOutlet } from "@/data/provider-outlets.types";
+import { distanceKm } from "@/lib/geo";
+import { type MapTile, tileKey, tilesCoveringBox } from "@/lib/mapTiles";
 
 import { NearbyProviderResult } from "../../api/provider-finder/nearby/route";
+import {
+  NEARBY_TILE_ZOOM,
+  NearbyTileResponse,
+} from "../../api/provider-finder/nearby/types";
 
-export async function fetchAddressesAndAssociatedProvidersNearby(
-  minLat: number,
-  maxLat: number,
-  minLon: number,
-  maxLon: number,
+export async function fetchNearbyTile(
+  tile: MapTile,
   signal?: AbortSignal,
-): Promise<NearbyProviderResult[]> {
-  const params = new URLSearchParams({
-    minLat: String(minLat),
-    maxLat: String(maxLat),
-    minLon: String(minLon),
-    maxLon: String(maxLon),
-  });
+): Promise<NearbyTileResponse> {
   const base =
     typeof window !== "undefined" ? "" : (process.env.NEXT_PUBLIC_ORIGIN ?? "");
-  const res = await fetch(`${base}/api/provider-finder/nearby?${params}`, {
-    signal: signal,
-  });
+  const res = await fetch(
+    `${base}/api/provider-finder/nearby/${tileKey(tile)}`,
+    { signal: signal },
+  );
   if (!res.ok) {
     const err = (await res.json().catch((err) => {
       console.error(err);
@@ -50,11 +48,41 @@ export const addressesAndAssociatedProvidersNearbyQueryKey = (
   maxLon: number,
 ) => ["provider-finder-nearby", minLat, maxLat, minLon, maxLon] as const;
 
+export const nearbyTileQueryKey = (tile: MapTile) =>
+  ["provider-finder-nearby-tile", tileKey(tile)] as const;
+
 const STALE_TIME_MS = 5 * 60 * 1000;
 const GC_TIME_MS = 30 * 60 * 1000;
 
+/** One entry per address, nearest to the viewport centre first. */
+function mergeTiles(
+  tiles: NearbyTileResponse[],
+  centreLat: number,
+  centreLon: number,
+): NearbyProviderResult[] {
+  return tiles
+    .flatMap((t) => t.addresses)
+    .flatMap((address) =>
+      address.latitude != null && address.longitude != null
+        ? [
+            {
+              address,
+              distanceKm: distanceKm(
+                centreLat,
+                centreLon,
+                address.latitude,
+                address.longitude,
+              ),
+            },
+          ]
+        : [],
+    )
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
+
 /**
- * Loads up to 100 providers nearest to the given coordinates from the database.
+ * Loads the addresses with providers in the map tiles covering the given
+ * viewport. Tiles are cached per tile, so panning only fetches the new ones.
  * `enabled` should be false until coordinates are known (e.g. after geolocation).
  */
 export function useAddressesAndAssociatedProvidersNearby(
@@ -68,6 +96,8 @@ export function useAddressesAndAssociatedProvidersNearby(
     providerOutlets: any[];
   },
 ) {
+  const queryClient = useQueryClient();
+
   return useQuery({
     queryKey:
       minLat != null && maxLat != null && minLon != null && maxLon != null
@@ -78,14 +108,31 @@ export function useAddressesAndAssociatedProvidersNearby(
             maxLon,
           )
         : ["provider-finder-nearby", "pending"],
-    queryFn: ({ signal }) =>
-      fetchAddressesAndAssociatedProvidersNearby(
-        minLat!,
-        maxLat!,
-        minLon!,
-        maxLon!,
-        signal,
-      ),
+    queryFn: async () => {
+      const tiles = await Promise.all(
+        tilesCoveringBox(
+          {
+            minLat: minLat!,
+            maxLat: maxLat!,
+            minLon: minLon!,
+            maxLon: maxLon!,
+          },
+          NEARBY_TILE_ZOOM,
+        ).map((tile) =>
+          queryClient.fetchQuery({
+            queryKey: nearbyTileQueryKey(tile),
+            queryFn: ({ signal }) => fetchNearbyTile(tile, signal),
+            staleTime: STALE_TIME_MS,
+            gcTime: GC_TIME_MS,
+          }),
+        ),
+      );
+      return mergeTiles(
+        tiles,
+        (minLat! + maxLat!) / 2,
+        (minLon! + maxLon!) / 2,
+      );
+    },
     enabled:
       enabled &&
       minLat != null &&
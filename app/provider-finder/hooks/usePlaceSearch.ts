@@ -0,0 +1,44 @@
+"use client";
+
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+
+import type { PlaceSearchResponse } from "@/app/api/places/search/route";
+import type { GazetteerPlace } from "@/lib/gazetteer";
+
+import { useDebouncedValue } from "./useDebouncedValue";
+
+const MIN_QUERY_LENGTH = 2;
+const DEBOUNCE_MS = 200;
+// The gazetteer is static, so results never go stale within a session.
+const STALE_TIME_MS = Infinity;
+const GC_TIME_MS = 30 * 60 * 1000;
+
+export async function fetchPlaces(
+  q: string,
+  signal?: AbortSignal,
+): Promise<GazetteerPlace[]> {
+  const res = await fetch(`/api/places/search?q=${encodeURIComponent(q)}`, {
+    signal,
+  });
+  const body = (await res.json().catch(() => ({}))) as PlaceSearchResponse;
+  if (!res.ok || "error" in body) {
+    throw new Error(
+      "error" in body ? body.error : `Failed to look up places: ${res.status}`,
+    );
+  }
+  return body.places;
+}
+
+/** Suburb/postcode suggestions for typed location entry. */
+export function usePlaceSearch(query: string) {
+  const debouncedQuery = useDebouncedValue(query.trim(), DEBOUNCE_MS);
+
+  return useQuery({
+    queryKey: ["places-search", debouncedQuery] as const,
+    queryFn: ({ signal }) => fetchPlaces(debouncedQuery, signal),
+    enabled: debouncedQuery.length >= MIN_QUERY_LENGTH,
+    placeholderData: keepPreviousData,
+    staleTime: STALE_TIME_MS,
+    gcTime: GC_TIME_MS,
+  });
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+
+import type { MarkerClusterResponse } from "@/app/api/provider-finder/clusters/types";
+import type { MapSearchView } from "@/components/Map";
+import type { AccessibilityFeature } from "@/schemas/accessibility.types";
+
+const STALE_TIME_MS = 5 * 60 * 1000;
+const GC_TIME_MS = 30 * 60 * 1000;
+
+type ClusterFilters = {
+  serviceIds: string[];
+  registeredOnly: boolean;
+  accessibilityFeatures: AccessibilityFeature[];
+};
+
+export async function fetchProviderClusters(
+  view: MapSearchView & { zoom: number },
+  filters: ClusterFilters,
+  signal?: AbortSignal,
+): Promise<MarkerClusterResponse> {
+  const params = new URLSearchParams({
+    minLat: String(view.minLat),
+    maxLat: String(view.maxLat),
+    minLon: String(view.minLon),
+    maxLon: String(view.maxLon),
+    zoom: String(view.zoom),
+  });
+  if (filters.serviceIds.length > 0) {
+    params.set("serviceIds", filters.serviceIds.join(","));
+  }
+  if (filters.registeredOnly) params.set("registeredOnly", "true");
+  if (filters.accessibilityFeatures.length > 0) {
+    params.set(
+      "accessibilityFeatures",
+      filters.accessibilityFeatures.join(","),
+    );
+  }
+
+  const res = await fetch(`/api/provider-finder/clusters?${params}`, {
+    signal,
+  });
+  if (!res.ok) {
+    const err = (await res.json().catch(() => ({}))) as { error?: string };
+    throw new Error(err.error ?? `Failed to load map clusters: ${res.status}`);
+  }
+  return (await res.json()) as MarkerClusterResponse;
+}
+
+/** Server-side marker clusters for the viewport; only enabled when zoomed out. */
+export function useProviderClusters(
+  view: MapSearchView | null,
+  filters: ClusterFilters,
+  enabled: boolean,
+) {
+  return useQuery({
+    queryKey: ["provider-finder-clusters", view, filters] as const,
+    queryFn: ({ signal }) =>
+      fetchProviderClusters({ ...view!, zoom: view!.zoom! }, filters, signal),
+    enabled: enabled && view != null && view.zoom != null,
+    placeholderData: keepPreviousData,
+    staleTime: STALE_TIME_MS,
+    gcTime: GC_TIME_MS,
+  });
+}
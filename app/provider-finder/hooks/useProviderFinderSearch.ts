@@ -0,0 +1,72 @@
+"use client";
+
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+
+import type { ProviderSearchResponse } from "@/app/utils/provider-finder-search";
+import type { MapSearchView } from "@/components/Map";
+
+import {
+  type ProviderFinderSearchParams,
+  toSearchUrlParams,
+} from "../finderUrlState";
+
+import { useDebouncedValue } from "./useDebouncedValue";
+
+const DEBOUNCE_MS = 300;
+const STALE_TIME_MS = 5 * 60 * 1000;
+const GC_TIME_MS = 30 * 60 * 1000;
+
+export async function fetchProviderFinderSearch(
+  params: ProviderFinderSearchParams,
+  signal?: AbortSignal,
+): Promise<ProviderSearchResponse> {
+  const res = await fetch(
+    `/api/provider-finder/search?${toSearchUrlParams(params)}`,
+    { signal },
+  );
+  if (!res.ok) {
+    const err = (await res.json().catch(() => ({}))) as { error?: string };
+    throw new Error(err.error ?? `Failed to search providers: ${res.status}`);
+  }
+  return (await res.json()) as ProviderSearchResponse;
+}
+
+/**
+ * Server-side filtered, sorted and paged finder results with facet counts.
+ * Query text is debounced; other params refetch immediately. `initial` is the
+ * server-rendered page, used while the params still match it.
+ */
+export function useProviderFinderSearch(
+  params: Omit<ProviderFinderSearchParams, "mapSearchView"> & {
+    mapSearchView: MapSearchView | null;
+  },
+  initial?: {
+    params: ProviderFinderSearchParams;
+    data: ProviderSearchResponse;
+  } | null,
+) {
+  const debouncedQ = useDebouncedValue(params.q.trim(), DEBOUNCE_MS);
+  const { mapSearchView } = params;
+  const matchesInitial =
+    initial != null &&
+    mapSearchView != null &&
+    toSearchUrlParams({
+      ...params,
+      q: debouncedQ,
+      mapSearchView,
+    }).toString() === toSearchUrlParams(initial.params).toString();
+
+  return useQuery({
+    queryKey: ["provider-finder-search", { ...params, q: debouncedQ }] as const,
+    queryFn: ({ signal }) =>
+      fetchProviderFinderSearch(
+        { ...params, q: debouncedQ, mapSearchView: mapSearchView! },
+        signal,
+      ),
+    enabled: mapSearchView != null,
+    initialData: matchesInitial ? initial.data : undefined,
+    placeholderData: keepPreviousData,
+    staleTime: STALE_TIME_MS,
+    gcTime: GC_TIME_MS,
+  });
+}
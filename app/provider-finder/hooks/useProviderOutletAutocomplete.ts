@@ -1,28 +1,21 @@
 "use client";
 
 import { useQuery } from "@tanstack/react-query";
-import { useEffect, useState } from "react";
 
 import { AutocompleteResponse } from "@/app/api/provider-finder/autocomplete/types";
 import { MapSearchView } from "@/components/Map";
 
+import { useDebouncedValue } from "./useDebouncedValue";
+
 const MIN_CHARS = 3;
+// Abbreviations like "OT" reach the server, which answers `keepTyping` unless
+// the query is a known synonym.
+const MIN_FETCH_CHARS = 2;
 const DEBOUNCE_MS = 300;
 const STALE_TIME_MS = 20 * 60 * 1000;
 const GC_TIME_MS = 30 * 60 * 1000;
 const FETCH_TIMEOUT_MS = 2500;
 
-function useDebouncedValue(value: string, delayMs: number) {
-  const [debounced, setDebounced] = useState(value);
-
-  useEffect(() => {
-    const timeout = setTimeout(() => setDebounced(value), delayMs);
-    return () => clearTimeout(timeout);
-  }, [delayMs, value]);
-
-  return debounced;
-}
-
 async function fetchProviderOutletAutocomplete({
   query,
   mapSearchView,
@@ -120,7 +113,7 @@ export function useProviderOutletAutocomplete({
 }) {
   const trimmed = query.trim();
   const debouncedQuery = useDebouncedValue(trimmed, DEBOUNCE_MS);
-  const shouldFetch = enabled && debouncedQuery.length >= MIN_CHARS;
+  const shouldFetch = enabled && debouncedQuery.length >= MIN_FETCH_CHARS;
 
   const queryResult = useQuery({
     queryKey: [
@@ -155,8 +148,14 @@ export function useProviderOutletAutocomplete({
     queryResult,
     debouncedQuery,
     minChars: MIN_CHARS,
-    keepTyping: trimmed.length > 0 && trimmed.length < MIN_CHARS,
+    keepTyping:
+      trimmed.length > 0 &&
+      (trimmed.length < MIN_FETCH_CHARS ||
+        (queryResult.data?.keepTyping ?? false)),
     fallback: queryResult.data?.fallback ?? false,
     items: queryResult.data?.items ?? [],
+    suggestions: queryResult.data?.suggestions ?? null,
+    didYouMean: queryResult.data?.didYouMean ?? null,
+    searchId: queryResult.data?.searchId ?? null,
   };
 }
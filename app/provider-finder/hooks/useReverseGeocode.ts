@@ -0,0 +1,26 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+
+import { reverseGeocodePosition, type UserPosition } from "@/lib/geo";
+
+const STALE_TIME_MS = Infinity;
+const GC_TIME_MS = 30 * 60 * 1000;
+
+/** Suburb/postcode for the user's position (rounded so small jitter reuses the cache). */
+export function useReverseGeocode(position: UserPosition | null) {
+  const rounded = position
+    ? {
+        lat: Math.round(position.lat * 1000) / 1000,
+        lng: Math.round(position.lng * 1000) / 1000,
+      }
+    : null;
+
+  return useQuery({
+    queryKey: ["reverse-geocode", rounded] as const,
+    queryFn: ({ signal }) => reverseGeocodePosition(rounded!, signal),
+    enabled: rounded != null,
+    staleTime: STALE_TIME_MS,
+    gcTime: GC_TIME_MS,
+  });
+}
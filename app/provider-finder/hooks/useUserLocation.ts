@@ -7,12 +7,20 @@ const SYDNEY_FALLBACK: UserPosition = { lat: -33.8688, lng: 151.2093 };
 export function useUserLocation({
   setPage,
   onLocationChange,
+  followInitialLocation = true,
 }: {
   setPage: React.Dispatch<React.SetStateAction<number>>;
   onLocationChange: (position: UserPosition) => void;
+  /**
+   * Whether the position found on mount is reported to `onLocationChange`.
+   * False when the page was opened on a specific area (a shared link), so the
+   * map stays there; later requests are always reported.
+   */
+  followInitialLocation?: boolean;
 }) {
   const onLocationChangeRef = useRef(onLocationChange);
   onLocationChangeRef.current = onLocationChange;
+  const followInitialLocationRef = useRef(followInitialLocation);
   const [userLocation, setUserLocation] =
     useState<UserPosition>(SYDNEY_FALLBACK);
   const [locationLoading, setLocationLoading] = useState(true);
@@ -35,7 +43,9 @@ export function useUserLocation({
           setUserLocation(position);
           setIsFallback(false);
           setLocationError(null);
-          onLocationChangeRef.current(position);
+          if (followInitialLocationRef.current) {
+            onLocationChangeRef.current(position);
+          }
         }
       } catch (e) {
         console.log("getting user location 2", e);
@@ -46,7 +56,9 @@ export function useUserLocation({
           setUserLocation(SYDNEY_FALLBACK);
           setIsFallback(true);
           setLocationError(message);
-          onLocationChangeRef.current(SYDNEY_FALLBACK);
+          if (followInitialLocationRef.current) {
+            onLocationChangeRef.current(SYDNEY_FALLBACK);
+          }
         }
       } finally {
         if (!cancelled && requestId === requestIdRef.current) {
@@ -92,9 +104,22 @@ export function useUserLocation({
     }
   };
 
+  /** Typed location entry (suburb/postcode) for users who decline geolocation. */
+  const setLocation = (position: UserPosition) => {
+    // Supersedes any geolocation request still in flight.
+    ++requestIdRef.current;
+    setUserLocation(position);
+    setIsFallback(false);
+    setLocationError(null);
+    setLocationLoading(false);
+    setPage(1);
+    onLocationChangeRef.current(position);
+  };
+
   return {
     userLocation,
     getUserLocation,
+    setLocation,
     locationLoading,
     locationError,
     isFallback,
@@ -1,9 +1,71 @@
+import {
+  type ProviderSearchResponse,
+  searchProviders,
+} from "@/app/utils/provider-finder-search";
 import { prisma } from "@/lib/prisma";
+import { searchQuerySchema } from "@/schemas/provider-finder.types";
 
+import {
+  type FinderUrlState,
+  parseFinderUrlState,
+  toFinderSearchParams,
+  toSearchUrlParams,
+} from "./finderUrlState";
 import ProviderFinderClient from "./ProviderFinderClient";
 
-export default async function Page() {
-  const serviceNamesData = await prisma.serviceDefinition.findMany();
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
 
-  return <ProviderFinderClient serviceNamesData={serviceNamesData} />;
+export async function generateMetadata({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  const { q } = parseFinderUrlState(await searchParams);
+  return {
+    title: q ? `${q} – NDIS providers` : "Find NDIS providers near you",
+  };
+}
+
+/** First page of results for a linked search, rendered with the page. */
+async function searchInitialResults(
+  state: FinderUrlState,
+): Promise<ProviderSearchResponse | null> {
+  const params = toFinderSearchParams(state);
+  if (!params) return null;
+
+  const parsed = searchQuerySchema.safeParse(
+    Object.fromEntries(toSearchUrlParams(params)),
+  );
+  if (!parsed.success) return null;
+
+  try {
+    // Same shape the client would get from the search API.
+    return JSON.parse(
+      JSON.stringify(await searchProviders(parsed.data)),
+    ) as ProviderSearchResponse;
+  } catch (err) {
+    // The client retries through the API.
+    console.error("provider-finder page search:", err);
+    return null;
+  }
+}
+
+export default async function Page({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  const initialState = parseFinderUrlState(await searchParams);
+  const [serviceNamesData, initialResults] = await Promise.all([
+    prisma.serviceDefinition.findMany(),
+    searchInitialResults(initialState),
+  ]);
+
+  return (
+    <ProviderFinderClient
+      serviceNamesData={serviceNamesData}
+      initialState={initialState}
+      initialResults={initialResults}
+    />
+  );
 }
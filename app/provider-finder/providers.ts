@@ -1,4 +1,4 @@
-import { DayOfWeek } from "@prisma/client";
+import { AccessibilityFeature, DayOfWeek } from "@prisma/client";
 
 export type ProviderSupportMode = "In-person" | "Telehealth";
 
@@ -30,6 +30,7 @@ export type Provider = {
   businessType: string | null;
   ndisNumber: string | null;
   serviceAreas: string[];
+  accessibilityFeatures: AccessibilityFeature[];
   specialisations: { specialisationDefinition: { id: string; name: string } }[];
   services: { serviceDefinition: { id: string; name: string } }[];
   businessHours: {
@@ -56,6 +57,7 @@ export type ProviderOutlet = {
   businessType: string | null;
   ndisNumber: string | null;
   serviceAreas: string[];
+  accessibilityFeatures: AccessibilityFeature[];
   specialisations: { specialisationDefinition: { id: string; name: string } }[];
   services: { serviceDefinition: { id: string; name: string } }[];
   businessHours: {
@@ -0,0 +1,253 @@
+import { ShieldCheck } from "lucide-react";
+import { headers } from "next/headers";
+import Image from "next/image";
+import Link from "next/link";
+
+import { collectExportRows, MAX_EXPORT_ROWS } from "@/app/utils/finder-export";
+import { resolveSearchArea } from "@/app/utils/provider-finder-search";
+import { takeRateLimitToken } from "@/app/utils/rate-limit";
+import { renderStaticMapSvg } from "@/app/utils/static-map";
+import { ACCESSIBILITY_FEATURE_LABELS } from "@/lib/accessibility";
+import { prisma } from "@/lib/prisma";
+import { ROUTES } from "@/lib/routes";
+import {
+  searchQuerySchema,
+  type SearchQuery,
+} from "@/schemas/provider-finder.types";
+
+import { PrintButton } from "../components/PrintButton";
+
+export const metadata = {
+  title: "Provider report",
+  robots: { index: false },
+};
+
+const MAP_WIDTH = 800;
+const MAP_HEIGHT = 450;
+
+const SORT_LABELS: Record<SearchQuery["sort"], string> = {
+  relevance: "Relevance",
+  distance: "Distance",
+  rating: "Rating",
+};
+
+const COVERAGE_LABELS: Record<SearchQuery["coverage"], string | null> = {
+  all: null,
+  located: "Located in the area only",
+  serviceArea: "Servicing the area only",
+};
+
+/** What the report was run with, in words, so a printout stands alone. */
+async function describeSearch(query: SearchQuery) {
+  const [services, specialisations, languages] = await Promise.all([
+    query.serviceIds.length > 0
+      ? prisma.serviceDefinition.findMany({
+          where: { id: { in: query.serviceIds } },
+          select: { name: true },
+        })
+      : [],
+    query.specialisationIds.length > 0
+      ? prisma.specialisationDefinition.findMany({
+          where: { id: { in: query.specialisationIds } },
+          select: { name: true },
+        })
+      : [],
+    query.languageIds.length > 0
+      ? prisma.languageDefinition.findMany({
+          where: { id: { in: query.languageIds } },
+          select: { name: true },
+        })
+      : [],
+  ]);
+
+  return [
+    query.q ? `Search: “${query.q}”` : null,
+    services.length > 0
+      ? `Services: ${services.map((s) => s.name).join(", ")}`
+      : null,
+    specialisations.length > 0
+      ? `Specialisations: ${specialisations.map((s) => s.name).join(", ")}`
+      : null,
+    languages.length > 0
+      ? `Workers who speak: ${languages.map((l) => l.name).join(", ")}`
+      : null,
+    query.registeredOnly ? "NDIS registered only" : null,
+    query.accessibilityFeatures.length > 0
+      ? `Accessibility: ${query.accessibilityFeatures
+          .map((f) => ACCESSIBILITY_FEATURE_LABELS[f])
+          .join(", ")}`
+      : null,
+    query.openNow ? "Open at the time of printing" : null,
+    query.openWeekends ? "Open weekends" : null,
+    query.openAfter ? `Open after ${query.openAfter}` : null,
+    COVERAGE_LABELS[query.coverage],
+    `Sorted by ${SORT_LABELS[query.sort].toLowerCase()}`,
+  ].filter((line) => line !== null);
+}
+
+/**
+ * Print-optimised list of the finder's current results with a map, for
+ * plan reviews and participants without internet access.
+ */
+export default async function ProviderReportPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const parsed = searchQuerySchema.safeParse(await searchParams);
+  if (!parsed.success) {
+    return (
+      <div className="mx-auto max-w-3xl px-4 py-10 sm:px-6">
+        <h1 className="font-heading text-2xl font-bold">Provider report</h1>
+        <p className="mt-2 text-sm text-muted-foreground">
+          This report link is missing its search. Open the{" "}
+          <Link
+            href={ROUTES.providerFinder}
+            className="text-primary hover:underline"
+          >
+            provider finder
+          </Link>{" "}
+          and print from there.
+        </p>
+      </div>
+    );
+  }
+
+  const limited = await takeRateLimitToken("finderExport", await headers());
+  if (limited && !limited.allowed) {
+    return (
+      <div className="mx-auto max-w-3xl px-4 py-10 sm:px-6">
+        <h1 className="font-heading text-2xl font-bold">Provider report</h1>
+        <p className="mt-2 text-sm text-muted-foreground">
+          Too many reports in a short time. Please wait a minute and reload this
+          page.
+        </p>
+      </div>
+    );
+  }
+
+  const query = parsed.data;
+  const [{ rows, total }, description] = await Promise.all([
+    collectExportRows(query),
+    describeSearch(query),
+  ]);
+  const area = resolveSearchArea(query);
+  const mapSvg = await renderStaticMapSvg({
+    markers: rows.flatMap((row) =>
+      row.latitude !== null && row.longitude !== null
+        ? [
+            {
+              lat: row.latitude,
+              lon: row.longitude,
+              label: String(row.position),
+            },
+          ]
+        : [],
+    ),
+    bounds: area,
+    width: MAP_WIDTH,
+    height: MAP_HEIGHT,
+  });
+  const generatedAt = new Date().toLocaleDateString("en-AU", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6 px-4 py-10 sm:px-6 print:max-w-none print:p-0">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="font-heading text-2xl font-bold">NDIS providers</h1>
+          <p className="mt-1 text-sm text-muted-foreground">
+            {total === rows.length
+              ? `${total} result${total === 1 ? "" : "s"}`
+              : `First ${rows.length} of ${total} results`}{" "}
+            · {generatedAt}
+          </p>
+          {description.length > 0 ? (
+            <ul className="mt-2 text-sm text-muted-foreground">
+              {description.map((line) => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+        <PrintButton />
+      </div>
+
+      <Image
+        src={`data:image/svg+xml;base64,${Buffer.from(mapSvg).toString("base64")}`}
+        alt="Map of the results, numbered as in the list below"
+        width={MAP_WIDTH}
+        height={MAP_HEIGHT}
+        unoptimized
+        className="h-auto w-full rounded-lg border border-border break-inside-avoid"
+      />
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No providers matched this search.
+        </p>
+      ) : (
+        <ol className="divide-y divide-border border-y border-border">
+          {rows.map((row) => (
+            <li
+              key={`${row.type}:${row.position}`}
+              className="grid grid-cols-[2rem_1fr] gap-x-3 py-3 text-sm break-inside-avoid"
+            >
+              <span className="font-semibold tabular-nums">
+                {row.position}.
+              </span>
+              <div className="space-y-1">
+                <p className="font-semibold">
+                  {row.name}
+                  {row.ndisRegistered ? (
+                    <span className="ml-2 inline-flex items-center gap-1 text-xs font-normal text-primary">
+                      <ShieldCheck className="h-3.5 w-3.5" />
+                      NDIS registered
+                    </span>
+                  ) : null}
+                </p>
+                {row.providerName ? (
+                  <p className="text-xs text-muted-foreground">
+                    Part of {row.providerName}
+                  </p>
+                ) : null}
+                <p>
+                  {row.address}{" "}
+                  <span className="text-muted-foreground">
+                    ({row.distanceKm.toFixed(1)} km)
+                  </span>
+                </p>
+                <p className="flex flex-wrap gap-x-4 text-muted-foreground">
+                  {row.phone ? <span>Phone {row.phone}</span> : null}
+                  {row.email ? <span>{row.email}</span> : null}
+                  {row.website ? <span>{row.website}</span> : null}
+                  {row.abn ? <span>ABN {row.abn}</span> : null}
+                </p>
+                {row.services.length > 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    Services: {row.services.join(", ")}
+                  </p>
+                ) : null}
+                {row.accessibility.length > 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    Accessibility: {row.accessibility.join(", ")}
+                  </p>
+                ) : null}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {total > MAX_EXPORT_ROWS ? (
+        <p className="text-xs text-muted-foreground">
+          Reports list up to {MAX_EXPORT_ROWS} results. Narrow the search to see
+          the rest.
+        </p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import type { SearchClickPayload } from "@/schemas/search-analytics.types";
+
+const SEARCH_CLICKS_URL = "/api/provider-finder/search-clicks";
+
+/**
+ * Reports a clicked search result for search analytics. Uses a beacon so it
+ * still arrives when the click navigates away; failures are ignored.
+ */
+export function trackSearchClick(click: SearchClickPayload) {
+  const body = JSON.stringify(click);
+  if (
+    navigator.sendBeacon?.(
+      SEARCH_CLICKS_URL,
+      new Blob([body], { type: "application/json" }),
+    )
+  ) {
+    return;
+  }
+  void fetch(SEARCH_CLICKS_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+    keepalive: true,
+  }).catch(() => {});
+}
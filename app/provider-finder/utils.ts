@@ -10,3 +10,7 @@ export function clampRating(rating: number) {
   if (Number.isNaN(rating)) return 0;
   return Math.max(0, Math.min(5, rating));
 }
+
+export function coverageLabel(coverage: "located" | "serviceArea") {
+  return coverage === "serviceArea" ? "Services your area" : "Located nearby";
+}
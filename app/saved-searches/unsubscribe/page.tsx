@@ -0,0 +1,79 @@
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { prisma } from "@/lib/prisma";
+import { API_ROUTES, ROUTES } from "@/lib/routes";
+
+export const metadata = {
+  title: "Unsubscribe from saved search emails",
+};
+
+export default async function SavedSearchUnsubscribePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string; done?: string }>;
+}) {
+  const { token, done } = await searchParams;
+  const savedSearch = token
+    ? await prisma.savedSearch.findUnique({
+        where: { unsubscribeToken: token },
+        select: { name: true, emailAlerts: true },
+      })
+    : null;
+
+  return (
+    <div className="mx-auto max-w-lg px-4 py-16 sm:px-6">
+      <Card>
+        {!savedSearch ? (
+          <CardHeader>
+            <CardTitle>Link not recognised</CardTitle>
+            <CardDescription>
+              This unsubscribe link is invalid or the saved search was deleted.
+            </CardDescription>
+          </CardHeader>
+        ) : done || !savedSearch.emailAlerts ? (
+          <CardHeader>
+            <CardTitle>You&rsquo;re unsubscribed</CardTitle>
+            <CardDescription>
+              We won&rsquo;t email you about &ldquo;{savedSearch.name}&rdquo;
+              any more. You can turn emails back on from your account.
+            </CardDescription>
+          </CardHeader>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle>Stop emails for this search?</CardTitle>
+              <CardDescription>
+                You&rsquo;ll stop getting new-provider emails for &ldquo;
+                {savedSearch.name}&rdquo;. The search stays saved.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form
+                method="post"
+                action={API_ROUTES.savedSearches.unsubscribe(token!)}
+              >
+                <input type="hidden" name="token" value={token} />
+                <Button type="submit" variant="default" size="default">
+                  Unsubscribe
+                </Button>
+              </form>
+            </CardContent>
+          </>
+        )}
+        <CardContent className="flex gap-2">
+          <Button variant="outline" size="default" asChild>
+            <Link href={ROUTES.dashboard}>Account</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
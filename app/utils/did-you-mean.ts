@@ -0,0 +1,61 @@
+import { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+
+/**
+ * "Did you mean" corrections from `search_vocabulary`, a materialized view of
+ * the words in provider, outlet and service names and suburbs, matched by
+ * pg_trgm similarity one word at a time.
+ */
+
+const MIN_WORD_LENGTH = 3;
+const WORD_RE = /[\p{L}\p{N}]+/gu;
+
+type CorrectionRow = { token: string; word: string | null };
+
+/**
+ * The query with misspelt words replaced by their closest vocabulary word, or
+ * null when every word is known (or nothing close exists). `keep` words, e.g.
+ * synonym terms, are never corrected.
+ */
+export async function suggestCorrection(
+  query: string,
+  keep: string[] = [],
+): Promise<string | null> {
+  const lowerQuery = query.toLowerCase();
+  const kept = new Set(keep.map((word) => word.toLowerCase()));
+  const tokens = Array.from(
+    new Set(
+      (lowerQuery.match(WORD_RE) ?? []).filter(
+        (token) =>
+          token.length >= MIN_WORD_LENGTH &&
+          !/^\d+$/.test(token) &&
+          !kept.has(token),
+      ),
+    ),
+  );
+  if (tokens.length === 0) return null;
+
+  const rows = await prisma.$queryRaw<CorrectionRow[]>`
+    SELECT t.token, best.word
+    FROM unnest(ARRAY[${Prisma.join(tokens)}]::text[]) AS t(token)
+    LEFT JOIN LATERAL (
+      SELECT v.word
+      FROM search_vocabulary v
+      WHERE v.word % t.token
+      ORDER BY v.word = t.token DESC, similarity(v.word, t.token) DESC, v.ndoc DESC
+      LIMIT 1
+    ) best ON TRUE
+  `;
+
+  const corrections: Record<string, string> = {};
+  for (const row of rows) {
+    if (row.word && row.word !== row.token) corrections[row.token] = row.word;
+  }
+  if (Object.keys(corrections).length === 0) return null;
+
+  return lowerQuery
+    .replace(WORD_RE, (token) => corrections[token] ?? token)
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,67 @@
+import type { FinderEmbed } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { createTtlCache } from "@/lib/ttlCache";
+import type { FinderEmbedItem } from "@/schemas/finder-embed.types";
+
+/**
+ * Partner sites allowed to embed the finder widget. The widget page is only
+ * framed by an embed's own origins (CSP `frame-ancestors`, set in
+ * `middleware.ts`); unknown or disabled embeds can't be framed elsewhere.
+ */
+
+const EMBED_TTL_MS = 60_000;
+
+type ActiveFinderEmbed = Pick<FinderEmbed, "id" | "name" | "allowedOrigins">;
+
+/** Active embeds by id; `null` caches "no such embed" too. */
+const embedCache = createTtlCache<ActiveFinderEmbed | null>({
+  ttlMs: EMBED_TTL_MS,
+  maxEntries: 1000,
+});
+
+export function toFinderEmbedItem(row: FinderEmbed): FinderEmbedItem {
+  return {
+    id: row.id,
+    name: row.name,
+    allowedOrigins: row.allowedOrigins,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+    disabledAt: row.disabledAt?.toISOString() ?? null,
+  };
+}
+
+export async function listFinderEmbeds(): Promise<FinderEmbedItem[]> {
+  const rows = await prisma.finderEmbed.findMany({
+    orderBy: { name: "asc" },
+  });
+  return rows.map(toFinderEmbedItem);
+}
+
+/** The embed if it exists and isn't disabled; cached for a minute. */
+export async function getActiveFinderEmbed(id: string) {
+  if (!id) return null;
+  const cached = embedCache.get(id);
+  if (cached !== undefined) return cached;
+
+  const embed = await prisma.finderEmbed.findFirst({
+    where: { id, disabledAt: null },
+    select: { id: true, name: true, allowedOrigins: true },
+  });
+  embedCache.set(id, embed);
+  return embed;
+}
+
+/** Drops this instance's cached copy after an admin edit. */
+export function invalidateFinderEmbed(id: string) {
+  embedCache.delete(id);
+}
+
+/** CSP `frame-ancestors` sources for the widget page. */
+export async function embedFrameAncestors(id: string) {
+  const embed = await getActiveFinderEmbed(id).catch((err) => {
+    console.error("finder embed lookup:", err);
+    return null;
+  });
+  return ["'self'", ...(embed?.allowedOrigins ?? [])].join(" ");
+}
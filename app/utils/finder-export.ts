@@ -0,0 +1,134 @@
+import { ACCESSIBILITY_FEATURE_LABELS } from "@/lib/accessibility";
+import type { SearchQuery } from "@/schemas/provider-finder.types";
+
+import {
+  listSearchResults,
+  type ProviderSearchResult,
+} from "./provider-finder-search";
+
+/**
+ * Finder results flattened for CSV exports and printed reports. Both run the
+ * search API's query, in its order, with paging replaced by a row cap.
+ */
+
+/** Nearest/most relevant first; broader searches are cut off here. */
+export const MAX_EXPORT_ROWS = 500;
+
+export type FinderExportRow = {
+  position: number;
+  type: "provider" | "outlet";
+  name: string;
+  /** Parent provider, for outlets. */
+  providerName: string | null;
+  abn: string | null;
+  address: string;
+  latitude: number | null;
+  longitude: number | null;
+  phone: string | null;
+  email: string | null;
+  website: string | null;
+  services: string[];
+  /** Spoken by linked workers. */
+  languages: string[];
+  /** Feature labels, e.g. "Hearing loop". */
+  accessibility: string[];
+  ndisRegistered: boolean;
+  distanceKm: number;
+};
+
+function toExportRow(
+  item: ProviderSearchResult,
+  position: number,
+): FinderExportRow {
+  const common = {
+    position,
+    address: item.address.formatted ?? item.address.addressString,
+    latitude: item.address.latitude,
+    longitude: item.address.longitude,
+    distanceKm: item.distanceKm,
+    languages: item.languages.map((l) => l.name),
+  };
+
+  if (item.type === "provider") {
+    const { provider } = item;
+    return {
+      ...common,
+      type: "provider",
+      name: provider.name,
+      providerName: null,
+      abn: provider.abn,
+      phone: provider.phone,
+      email: provider.email,
+      website: provider.website,
+      services: provider.services.map((s) => s.serviceDefinition.name),
+      accessibility: provider.accessibilityFeatures.map(
+        (f) => ACCESSIBILITY_FEATURE_LABELS[f],
+      ),
+      ndisRegistered: provider.ndisRegistered,
+    };
+  }
+
+  // Outlets without their own contact details are reached through the provider.
+  const { providerOutlet } = item;
+  const { provider } = providerOutlet;
+  return {
+    ...common,
+    type: "outlet",
+    name: providerOutlet.name,
+    providerName: provider.name,
+    abn: providerOutlet.abn ?? provider.abn,
+    phone: providerOutlet.phone ?? provider.phone,
+    email: providerOutlet.email ?? provider.email,
+    website: providerOutlet.website ?? provider.website,
+    services: providerOutlet.services.map((s) => s.serviceDefinition.name),
+    accessibility: providerOutlet.accessibilityFeatures.map(
+      (f) => ACCESSIBILITY_FEATURE_LABELS[f],
+    ),
+    ndisRegistered: provider.ndisRegistered,
+  };
+}
+
+/** Up to `MAX_EXPORT_ROWS` results for `query`, ignoring its page and size. */
+export async function collectExportRows(query: SearchQuery) {
+  const { items, total } = await listSearchResults(query, MAX_EXPORT_ROWS);
+  return {
+    rows: items.map((item, index) => toExportRow(item, index + 1)),
+    total,
+  };
+}
+
+const CSV_COLUMNS: [string, (row: FinderExportRow) => string][] = [
+  ["Name", (row) => row.name],
+  ["Provider", (row) => row.providerName ?? ""],
+  ["ABN", (row) => row.abn ?? ""],
+  ["Address", (row) => row.address],
+  ["Phone", (row) => row.phone ?? ""],
+  ["Email", (row) => row.email ?? ""],
+  ["Website", (row) => row.website ?? ""],
+  ["Services", (row) => row.services.join("; ")],
+  ["Languages spoken", (row) => row.languages.join("; ")],
+  ["Accessibility", (row) => row.accessibility.join("; ")],
+  ["NDIS registered", (row) => (row.ndisRegistered ? "Yes" : "No")],
+  ["Distance (km)", (row) => row.distanceKm.toFixed(1)],
+];
+
+/**
+ * Quoted where needed. Values a spreadsheet would run as a formula get a
+ * leading apostrophe; phone numbers like "+61 2 …" are left alone.
+ */
+function csvCell(value: string) {
+  const formula = /^[=@\t\r]/.test(value) || /^[+-](?![\d\s()]+$)/.test(value);
+  const safe = formula ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** RFC 4180 CSV with a BOM so Excel reads it as UTF-8. */
+export function toFinderCsv(rows: FinderExportRow[]) {
+  const lines = [
+    CSV_COLUMNS.map(([header]) => csvCell(header)).join(","),
+    ...rows.map((row) =>
+      CSV_COLUMNS.map(([, value]) => csvCell(value(row))).join(","),
+    ),
+  ];
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
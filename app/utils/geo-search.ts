@@ -0,0 +1,219 @@
+import { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import type { NearbyQuery } from "@/schemas/provider-finder.types";
+
+import { getBoundingBox } from "./getBoundingBox";
+
+/**
+ * Radius search over `Address` using earthdistance (`address_earth_idx`).
+ * The lat/lon bounding box is only a cheap prefilter; `earth_box` narrows to the
+ * index and `earth_distance` gives the exact great-circle cut-off and ordering.
+ */
+
+export const MAX_NEARBY_LIMIT = 100;
+export const MAX_NEARBY_RADIUS_KM = 250;
+const DEFAULT_NEARBY_RADIUS_KM = 5;
+
+/** Great-circle distance in km from a point to the joined `a` ("Address") row. */
+export function earthDistanceKmSql(lat: number, lon: number) {
+  return Prisma.sql`(earth_distance(ll_to_earth(${lat}, ${lon}), ll_to_earth(a.latitude, a.longitude)) / 1000)`;
+}
+
+/** Restricts the joined `a` ("Address") row to within `radiusKm` of a point. */
+export function withinRadiusSql(lat: number, lon: number, radiusKm: number) {
+  const { minLat, maxLat, minLon, maxLon } = getBoundingBox(lat, lon, radiusKm);
+  const radiusM = radiusKm * 1000;
+
+  return Prisma.sql`
+    a.latitude BETWEEN ${minLat} AND ${maxLat}
+    AND a.longitude BETWEEN ${minLon} AND ${maxLon}
+    AND earth_box(ll_to_earth(${lat}, ${lon}), ${radiusM}) @> ll_to_earth(a.latitude, a.longitude)
+    AND earth_distance(ll_to_earth(${lat}, ${lon}), ll_to_earth(a.latitude, a.longitude)) <= ${radiusM}`;
+}
+
+/** Centre and radius of the circle that covers a bbox (e.g. the map viewport). */
+export function circleCoveringBox(box: {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}) {
+  const lat = (box.minLat + box.maxLat) / 2;
+  const lon = (box.minLon + box.maxLon) / 2;
+  const latKm = ((box.maxLat - box.minLat) / 2) * 111;
+  const lonKm =
+    ((box.maxLon - box.minLon) / 2) * 111 * Math.cos((lat * Math.PI) / 180);
+  return { lat, lon, radiusKm: Math.sqrt(latKm * latKm + lonKm * lonKm) };
+}
+
+type NearbyCursor = { distanceKm: number; id: string };
+
+export function encodeNearbyCursor(cursor: NearbyCursor): string {
+  return Buffer.from(
+    JSON.stringify([cursor.distanceKm, cursor.id]),
+    "utf8",
+  ).toString("base64url");
+}
+
+export function decodeNearbyCursor(raw: string): NearbyCursor | null {
+  try {
+    const [distanceKm, id] = JSON.parse(
+      Buffer.from(raw, "base64url").toString("utf8"),
+    ) as [unknown, unknown];
+    if (typeof distanceKm !== "number" || typeof id !== "string") return null;
+    return { distanceKm, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolves parsed nearby params (centre + radius, or a viewport bbox) into the
+ * arguments for `findAddressesNearby`. Returns null for an invalid cursor.
+ */
+export function resolveNearbyQuery(query: NearbyQuery) {
+  const circle =
+    query.lat !== undefined && query.lon !== undefined
+      ? {
+          lat: query.lat,
+          lon: query.lon,
+          radiusKm: query.radiusKm ?? DEFAULT_NEARBY_RADIUS_KM,
+        }
+      : circleCoveringBox({
+          minLat: query.minLat!,
+          maxLat: query.maxLat!,
+          minLon: query.minLon!,
+          maxLon: query.maxLon!,
+        });
+
+  const cursor = query.cursor ? decodeNearbyCursor(query.cursor) : null;
+  if (query.cursor && !cursor) return null;
+
+  return {
+    ...circle,
+    radiusKm: Math.min(circle.radiusKm, MAX_NEARBY_RADIUS_KM),
+    cursor,
+    limit: query.limit,
+  };
+}
+
+export type NearbyAddressesPage<TAddress> = {
+  results: { address: TAddress; distanceKm: number }[];
+  nextCursor: string | null;
+};
+
+/** The address `a` has an active provider, or an active outlet of one. */
+export const hasActiveEntitySql = Prisma.sql`(
+  EXISTS (
+    SELECT 1 FROM "Provider" p
+    WHERE p."addressId" = a.id AND p."isActive" = TRUE
+  )
+  OR EXISTS (
+    SELECT 1 FROM "ProviderOutlet" po
+    JOIN "Provider" parent ON po."providerId" = parent.id
+    WHERE po."addressId" = a.id
+      AND po."isActive" = TRUE AND parent."isActive" = TRUE
+  )
+)`;
+
+/**
+ * Addresses with at least one provider or outlet within `radiusKm`, nearest
+ * first, paged by an opaque `(distanceKm, id)` cursor.
+ */
+export async function findAddressesNearby<
+  TInclude extends Prisma.AddressInclude,
+>({
+  lat,
+  lon,
+  radiusKm,
+  cursor,
+  limit = MAX_NEARBY_LIMIT,
+  include,
+}: {
+  lat: number;
+  lon: number;
+  radiusKm: number;
+  cursor?: NearbyCursor | null;
+  limit?: number;
+  include: TInclude;
+}): Promise<
+  NearbyAddressesPage<Prisma.AddressGetPayload<{ include: TInclude }>>
+> {
+  const take = Math.min(Math.max(1, limit), MAX_NEARBY_LIMIT);
+  const distance = earthDistanceKmSql(lat, lon);
+  const after = cursor
+    ? Prisma.sql`AND (${distance}, a.id) > (${cursor.distanceKm}, ${cursor.id})`
+    : Prisma.empty;
+
+  const rows = await prisma.$queryRaw<{ id: string; distanceKm: number }[]>`
+    SELECT a.id, ${distance} AS "distanceKm"
+    FROM "Address" a
+    WHERE ${withinRadiusSql(lat, lon, radiusKm)}
+      AND ${hasActiveEntitySql}
+      ${after}
+    ORDER BY "distanceKm" ASC, a.id ASC
+    LIMIT ${take + 1}
+  `;
+
+  const page = rows.slice(0, take);
+  const addresses = (await prisma.address.findMany({
+    where: { id: { in: page.map((r) => r.id) } },
+    include,
+  })) as Prisma.AddressGetPayload<{ include: TInclude }>[];
+  const addressesById = new Map(addresses.map((a) => [a.id, a]));
+
+  const last = page[page.length - 1];
+
+  return {
+    results: page.flatMap((row) => {
+      const address = addressesById.get(row.id);
+      return address ? [{ address, distanceKm: Number(row.distanceKm) }] : [];
+    }),
+    nextCursor:
+      rows.length > take && last
+        ? encodeNearbyCursor({
+            distanceKm: Number(last.distanceKm),
+            id: last.id,
+          })
+        : null,
+  };
+}
+
+/**
+ * Addresses with at least one provider or outlet inside `box` (e.g. one map
+ * tile), by id. `truncated` is set when there were more than `limit`.
+ */
+export async function findAddressesInBox<
+  TInclude extends Prisma.AddressInclude,
+>({
+  box,
+  limit,
+  include,
+}: {
+  box: { minLat: number; maxLat: number; minLon: number; maxLon: number };
+  limit: number;
+  include: TInclude;
+}): Promise<{
+  addresses: Prisma.AddressGetPayload<{ include: TInclude }>[];
+  truncated: boolean;
+}> {
+  // Half-open on the north and east edges so neighbouring tiles don't overlap.
+  const rows = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT a.id
+    FROM "Address" a
+    WHERE a.latitude >= ${box.minLat} AND a.latitude < ${box.maxLat}
+      AND a.longitude >= ${box.minLon} AND a.longitude < ${box.maxLon}
+      AND ${hasActiveEntitySql}
+    ORDER BY a.id ASC
+    LIMIT ${limit + 1}
+  `;
+
+  const addresses = (await prisma.address.findMany({
+    where: { id: { in: rows.slice(0, limit).map((r) => r.id) } },
+    include,
+    orderBy: { id: "asc" },
+  })) as Prisma.AddressGetPayload<{ include: TInclude }>[];
+
+  return { addresses, truncated: rows.length > limit };
+}
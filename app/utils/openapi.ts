@@ -0,0 +1,176 @@
+import { z } from "zod";
+
+import {
+  partnerCatalogResponseSchema,
+  partnerErrorSchema,
+  partnerOutletResponseSchema,
+  partnerProviderResponseSchema,
+  partnerSearchQuerySchema,
+  partnerSearchResponseSchema,
+} from "@/schemas/partner-api.types";
+
+/**
+ * OpenAPI 3.1 document for the `/api/v1` partner API, built from the same zod
+ * schemas the routes validate and answer with, so the two can't drift apart.
+ */
+
+type JsonSchema = z.core.JSONSchema.BaseSchema;
+
+function jsonSchema(schema: z.ZodType, io: "input" | "output" = "output") {
+  // Draft 2020-12 is OpenAPI 3.1's dialect; `$schema` is implied there.
+  const { $schema: _dialect, ...rest } = z.toJSONSchema(schema, {
+    io,
+    unrepresentable: "any",
+  });
+  return rest;
+}
+
+function jsonContent(schema: z.ZodType) {
+  return { "application/json": { schema: jsonSchema(schema) } };
+}
+
+/** One `in: query` parameter per property of an object schema. */
+function queryParameters(schema: z.ZodType) {
+  const { properties = {}, required = [] } = jsonSchema(schema, "input");
+  return Object.entries(properties).map(([name, property]) => {
+    const { description, ...propertySchema } = property as JsonSchema;
+    return {
+      name,
+      in: "query",
+      required: required.includes(name),
+      ...(description ? { description } : {}),
+      schema: propertySchema,
+    };
+  });
+}
+
+function pathParameter(name: string, description: string) {
+  return {
+    name,
+    in: "path",
+    required: true,
+    description,
+    schema: { type: "string" },
+  };
+}
+
+const errorResponses = {
+  "401": { $ref: "#/components/responses/Unauthorized" },
+  "429": { $ref: "#/components/responses/QuotaExceeded" },
+  "500": { $ref: "#/components/responses/Error" },
+};
+
+const quotaHeaders = {
+  "X-Quota-Limit": {
+    description: "Requests allowed per UTC day for this key",
+    schema: { type: "integer" },
+  },
+  "X-Quota-Remaining": {
+    description: "Requests left today after this one",
+    schema: { type: "integer" },
+  },
+};
+
+function errorResponse(description: string, headers?: object) {
+  return {
+    description,
+    ...(headers ? { headers } : {}),
+    content: {
+      "application/json": { schema: { $ref: "#/components/schemas/Error" } },
+    },
+  };
+}
+
+function okResponse(description: string, schema: z.ZodType) {
+  return { description, headers: quotaHeaders, content: jsonContent(schema) };
+}
+
+export function buildPartnerOpenApiDocument(serverUrl: string) {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Mapable partner API",
+      version: "1.0.0",
+      description:
+        "Search the Mapable directory of disability service providers and " +
+        "their outlets. Every request needs an API key issued by Mapable; " +
+        "each key has a daily quota that resets at midnight UTC.",
+    },
+    servers: [{ url: `${serverUrl}/api/v1` }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths: {
+      "/search": {
+        get: {
+          operationId: "searchProviders",
+          summary: "Search providers and outlets",
+          description:
+            "One result per provider site. Give a bounding box " +
+            "(minLat, maxLat, minLon, maxLon) or a centre (lat, lon, " +
+            "optional radiusKm). List params are comma-separated ids from " +
+            "/catalog.",
+          parameters: queryParameters(partnerSearchQuerySchema),
+          responses: {
+            "200": okResponse("A page of results", partnerSearchResponseSchema),
+            "400": { $ref: "#/components/responses/BadRequest" },
+            ...errorResponses,
+          },
+        },
+      },
+      "/providers/{providerId}": {
+        get: {
+          operationId: "getProvider",
+          summary: "A provider with its outlets",
+          parameters: [pathParameter("providerId", "Provider id")],
+          responses: {
+            "200": okResponse("The provider", partnerProviderResponseSchema),
+            "404": { $ref: "#/components/responses/NotFound" },
+            ...errorResponses,
+          },
+        },
+      },
+      "/outlets/{outletId}": {
+        get: {
+          operationId: "getOutlet",
+          summary: "An outlet with its parent provider",
+          parameters: [pathParameter("outletId", "Outlet id")],
+          responses: {
+            "200": okResponse("The outlet", partnerOutletResponseSchema),
+            "404": { $ref: "#/components/responses/NotFound" },
+            ...errorResponses,
+          },
+        },
+      },
+      "/catalog": {
+        get: {
+          operationId: "getCatalog",
+          summary: "Services, specialisations, languages and access features",
+          description: "The ids accepted by /search's filter params.",
+          responses: {
+            "200": okResponse("The catalog", partnerCatalogResponseSchema),
+            ...errorResponses,
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas: { Error: jsonSchema(partnerErrorSchema) },
+      responses: {
+        BadRequest: errorResponse("Invalid parameters"),
+        Unauthorized: errorResponse("Missing, unknown or revoked API key"),
+        NotFound: errorResponse("No such record"),
+        QuotaExceeded: errorResponse("Daily quota used up", {
+          ...quotaHeaders,
+          "Retry-After": {
+            description: "Seconds until the quota resets",
+            schema: { type: "integer" },
+          },
+        }),
+        Error: errorResponse("Unexpected server error"),
+      },
+    },
+  };
+}
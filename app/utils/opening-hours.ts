@@ -0,0 +1,83 @@
+import { Prisma } from "@prisma/client";
+
+import {
+  DEFAULT_TIME_ZONE,
+  STATE_CODES_BY_NAME,
+  STATE_TIME_ZONES,
+  type OpeningHoursFilter,
+} from "@/lib/openingHours";
+
+/** IANA time zone for the joined `a` ("Address") row, from its state. */
+function addressTimeZoneSql() {
+  const entries = [
+    ...Object.entries(STATE_TIME_ZONES),
+    ...Object.entries(STATE_CODES_BY_NAME).map(
+      ([name, code]) => [name, STATE_TIME_ZONES[code]] as const,
+    ),
+  ];
+  return Prisma.sql`(CASE upper(trim(a.state)) ${Prisma.join(
+    entries.map(([key, zone]) => Prisma.sql`WHEN ${key} THEN ${zone}`),
+    " ",
+  )} ELSE ${DEFAULT_TIME_ZONE} END)`;
+}
+
+type HoursTable =
+  | { table: "ProviderBusinessHour"; ownerColumn: "providerId" }
+  | { table: "ProviderOutletBusinessHour"; ownerColumn: "providerOutletId" };
+
+/**
+ * Opening-hours conditions for a provider (`ownerId` = `p.id`) or outlet
+ * (`po.id`) whose address is joined as `a`. `TIME`s are wall-clock at the
+ * address, so "now" is converted into the state's zone (DST included) first.
+ * A close at or before the open is treated as running past midnight.
+ */
+export function openingHoursWhereSql(
+  filter: OpeningHoursFilter,
+  hours: HoursTable,
+  ownerId: Prisma.Sql,
+) {
+  const conditions: Prisma.Sql[] = [];
+  const hoursFor = Prisma.sql`FROM ${Prisma.raw(`"${hours.table}"`)} bh
+    WHERE bh.${Prisma.raw(`"${hours.ownerColumn}"`)} = ${ownerId}`;
+
+  if (filter.openNow) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1
+      ${hoursFor}
+        AND EXISTS (
+          SELECT 1
+          FROM (SELECT now() AT TIME ZONE ${addressTimeZoneSql()} AS ts) l
+          WHERE (
+              bh."dayOfWeek"::text = upper(to_char(l.ts, 'FMDay'))
+              AND l.ts::time >= bh."openTime"
+              AND (l.ts::time < bh."closeTime" OR bh."closeTime" <= bh."openTime")
+            )
+            OR (
+              bh."dayOfWeek"::text = upper(to_char(l.ts - interval '1 day', 'FMDay'))
+              AND bh."closeTime" <= bh."openTime"
+              AND l.ts::time < bh."closeTime"
+            )
+        )
+    )`);
+  }
+
+  if (filter.openWeekends) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1
+      ${hoursFor}
+        AND bh."dayOfWeek"::text IN ('SATURDAY', 'SUNDAY')
+    )`);
+  }
+
+  if (filter.openAfter) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1
+      ${hoursFor}
+        AND (bh."closeTime" > ${filter.openAfter}::time OR bh."closeTime" <= bh."openTime")
+    )`);
+  }
+
+  return conditions.length > 0
+    ? Prisma.join(conditions, " AND ")
+    : Prisma.sql`TRUE`;
+}
@@ -0,0 +1,200 @@
+import { createHash, randomBytes } from "node:crypto";
+
+import type { PartnerApiKey } from "@prisma/client";
+import { after, NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import type { PartnerApiKeyItem } from "@/schemas/partner-api.types";
+
+/**
+ * Keys, daily quotas and usage logging for the `/api/v1` partner API. Keys are
+ * sent as `Authorization: Bearer <key>` (or `X-API-Key`) and stored hashed.
+ */
+
+const KEY_PREFIX = "mpk";
+
+function hashApiKey(key: string) {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/** Start of the current UTC day, when quotas reset. */
+function quotaDayStart(now = new Date()) {
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+  );
+}
+
+/** `PartnerApiUsage.status` while the request is still being handled. */
+const IN_FLIGHT_STATUS = 0;
+
+const countedToday = (now?: Date) => ({
+  createdAt: { gte: quotaDayStart(now) },
+  // Requests refused for being over quota don't use it up further.
+  status: { not: 429 },
+});
+
+function toPartnerApiKeyItem(
+  key: PartnerApiKey,
+  usedToday: number,
+): PartnerApiKeyItem {
+  return {
+    id: key.id,
+    name: key.name,
+    keyPrefix: key.keyPrefix,
+    dailyQuota: key.dailyQuota,
+    usedToday,
+    createdAt: key.createdAt.toISOString(),
+    lastUsedAt: key.lastUsedAt?.toISOString() ?? null,
+    revokedAt: key.revokedAt?.toISOString() ?? null,
+  };
+}
+
+export async function listPartnerApiKeys(): Promise<PartnerApiKeyItem[]> {
+  const [keys, usage] = await Promise.all([
+    prisma.partnerApiKey.findMany({ orderBy: { createdAt: "desc" } }),
+    prisma.partnerApiUsage.groupBy({
+      by: ["apiKeyId"],
+      where: countedToday(),
+      _count: { _all: true },
+    }),
+  ]);
+  const usedById = new Map(usage.map((u) => [u.apiKeyId, u._count._all]));
+  return keys.map((key) => toPartnerApiKeyItem(key, usedById.get(key.id) ?? 0));
+}
+
+/** A new key; `secret` is the only copy of the full key. */
+export async function createPartnerApiKey(data: {
+  name: string;
+  dailyQuota: number;
+}) {
+  const keyPrefix = `${KEY_PREFIX}_${randomBytes(4).toString("hex")}`;
+  const secret = `${keyPrefix}_${randomBytes(24).toString("base64url")}`;
+  const key = await prisma.partnerApiKey.create({
+    data: { ...data, keyPrefix, keyHash: hashApiKey(secret) },
+  });
+  return { key: toPartnerApiKeyItem(key, 0), secret };
+}
+
+/** Null when there's no such key. Revoking twice keeps the first date. */
+export async function revokePartnerApiKey(id: string) {
+  const key = await prisma.partnerApiKey.findUnique({ where: { id } });
+  if (!key) return null;
+  const revoked = key.revokedAt
+    ? key
+    : await prisma.partnerApiKey.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+      });
+  return toPartnerApiKeyItem(
+    revoked,
+    await prisma.partnerApiUsage.count({
+      where: { apiKeyId: id, ...countedToday() },
+    }),
+  );
+}
+
+function requestApiKey(req: NextRequest) {
+  const bearer = req.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i);
+  return bearer?.[1]?.trim() || req.headers.get("x-api-key")?.trim() || null;
+}
+
+/** Fills in a reserved usage row once the response is sent. */
+function logUsage(usageId: string, status: number, startedAt: number) {
+  const latencyMs = Math.round(performance.now() - startedAt);
+  after(async () => {
+    try {
+      await prisma.partnerApiUsage.update({
+        where: { id: usageId },
+        data: { status, latencyMs },
+      });
+    } catch (error) {
+      console.error("partner api usage:", error);
+    }
+  });
+}
+
+/**
+ * Runs `handler` for a request with a valid, unrevoked key that is under its
+ * daily quota, logging it against `endpoint` (the route pattern, e.g.
+ * `GET /api/v1/providers/{id}`). Otherwise answers 401 or 429.
+ */
+export async function withPartnerApi(
+  req: NextRequest,
+  endpoint: string,
+  handler: () => Promise<NextResponse>,
+): Promise<NextResponse> {
+  const startedAt = performance.now();
+  const secret = requestApiKey(req);
+  const key = secret
+    ? await prisma.partnerApiKey.findUnique({
+        where: { keyHash: hashApiKey(secret) },
+      })
+    : null;
+  if (!key || key.revokedAt) {
+    return NextResponse.json(
+      { error: "A valid API key is required" },
+      { status: 401, headers: { "WWW-Authenticate": "Bearer" } },
+    );
+  }
+
+  // Reserve this request's row before counting, so concurrent requests each
+  // see the others and no more than `dailyQuota` of them get through.
+  const now = new Date();
+  const usage = await prisma.partnerApiUsage.create({
+    data: {
+      apiKeyId: key.id,
+      endpoint,
+      status: IN_FLIGHT_STATUS,
+      latencyMs: 0,
+    },
+  });
+  const usedToday = await prisma.partnerApiUsage.count({
+    where: { apiKeyId: key.id, ...countedToday(now) },
+  });
+  const quotaHeaders = {
+    "X-Quota-Limit": String(key.dailyQuota),
+    "X-Quota-Remaining": String(Math.max(0, key.dailyQuota - usedToday)),
+  };
+
+  if (usedToday > key.dailyQuota) {
+    logUsage(usage.id, 429, startedAt);
+    const resetAt = quotaDayStart(now).getTime() + 24 * 60 * 60 * 1000;
+    return NextResponse.json(
+      { error: "Daily quota used up; it resets at midnight UTC" },
+      {
+        status: 429,
+        headers: {
+          ...quotaHeaders,
+          "Retry-After": String(Math.ceil((resetAt - now.getTime()) / 1000)),
+        },
+      },
+    );
+  }
+
+  let response: NextResponse;
+  try {
+    response = await handler();
+  } catch (err) {
+    console.error(`partner api ${endpoint}:`, err);
+    response = NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+
+  logUsage(usage.id, response.status, startedAt);
+  after(async () => {
+    try {
+      await prisma.partnerApiKey.update({
+        where: { id: key.id },
+        data: { lastUsedAt: now },
+      });
+    } catch (error) {
+      console.error("partner api lastUsedAt:", error);
+    }
+  });
+  for (const [name, value] of Object.entries(quotaHeaders)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
@@ -0,0 +1,245 @@
+import type { Address, DayOfWeek, Prisma } from "@prisma/client";
+
+import { ACCESSIBILITY_FEATURE_LABELS } from "@/lib/accessibility";
+import { getDbTimeString } from "@/lib/dbTime";
+import { prisma } from "@/lib/prisma";
+import { ACCESSIBILITY_FEATURES } from "@/schemas/accessibility.types";
+import type {
+  PartnerAddress,
+  PartnerCatalogResponse,
+  PartnerOutletResponse,
+  PartnerProviderResponse,
+  PartnerSearchResponse,
+  PartnerSearchResult,
+} from "@/schemas/partner-api.types";
+import type { SearchQuery } from "@/schemas/provider-finder.types";
+
+import {
+  type ProviderSearchResult,
+  searchProviders,
+} from "./provider-finder-search";
+
+/**
+ * Finder data in the `/api/v1` partner API's shapes (`schemas/partner-api.types.ts`).
+ * These are a published contract: add fields rather than renaming them.
+ */
+
+function siteOrigin() {
+  return process.env.NEXT_PUBLIC_ORIGIN ?? "https://www.mapable.com.au";
+}
+
+function profileUrl(type: "provider" | "outlet", id: string) {
+  const path = type === "provider" ? "provider" : "provider-outlet";
+  return `${siteOrigin()}/${path}/${encodeURIComponent(id)}`;
+}
+
+function toPartnerAddress(address: Address): PartnerAddress {
+  return {
+    addressString: address.addressString,
+    suburb: address.suburb,
+    state: address.state,
+    postcode: address.postcode,
+    latitude: address.latitude,
+    longitude: address.longitude,
+  };
+}
+
+function toNamed({ id, name }: { id: string; name: string }) {
+  return { id, name };
+}
+
+function toBusinessHours(
+  hours: { dayOfWeek: DayOfWeek; openTime: Date; closeTime: Date }[],
+) {
+  return hours.map((h) => ({
+    dayOfWeek: h.dayOfWeek,
+    opens: getDbTimeString(h.openTime),
+    closes: getDbTimeString(h.closeTime),
+  }));
+}
+
+function toPartnerSearchResult(
+  item: ProviderSearchResult,
+): PartnerSearchResult {
+  const common = {
+    address: toPartnerAddress(item.address),
+    distanceKm: item.distanceKm,
+    coverage: item.coverage,
+    languages: item.languages,
+    otherSiteCount: item.site.otherSiteCount,
+  };
+
+  if (item.type === "provider") {
+    const { provider } = item;
+    return {
+      ...common,
+      type: "provider",
+      id: provider.id,
+      name: provider.name,
+      providerId: provider.id,
+      providerName: provider.name,
+      ndisRegistered: provider.ndisRegistered,
+      services: provider.services.map((s) => toNamed(s.serviceDefinition)),
+      accessibilityFeatures: provider.accessibilityFeatures,
+      profileUrl: profileUrl("provider", provider.id),
+    };
+  }
+
+  const { providerOutlet } = item;
+  return {
+    ...common,
+    type: "outlet",
+    id: providerOutlet.id,
+    name: providerOutlet.name,
+    providerId: providerOutlet.provider.id,
+    providerName: providerOutlet.provider.name,
+    ndisRegistered: providerOutlet.provider.ndisRegistered,
+    services: providerOutlet.services.map((s) => toNamed(s.serviceDefinition)),
+    accessibilityFeatures: providerOutlet.accessibilityFeatures,
+    profileUrl: profileUrl("outlet", providerOutlet.id),
+  };
+}
+
+/**
+ * The finder's search, one result per site, without its analytics. Like the
+ * detail lookups below it only returns active providers and outlets (of
+ * active providers), so every id in it resolves.
+ */
+export async function searchForPartner(
+  query: SearchQuery,
+): Promise<PartnerSearchResponse> {
+  const results = await searchProviders(query);
+  return {
+    items: results.items.map(toPartnerSearchResult),
+    total: results.total,
+    page: results.page,
+    pageSize: results.pageSize,
+    totalPages: results.totalPages,
+    facets: results.facets,
+  };
+}
+
+const namedSelect = {
+  select: { id: true, name: true },
+} satisfies Prisma.ServiceDefinitionDefaultArgs;
+
+const partnerEntityInclude = {
+  address: true,
+  services: { select: { serviceDefinition: namedSelect } },
+  businessHours: {
+    orderBy: [{ dayOfWeek: "asc" }, { openTime: "asc" }],
+  },
+  specialisations: { select: { specialisationDefinition: namedSelect } },
+} satisfies Prisma.ProviderInclude & Prisma.ProviderOutletInclude;
+
+export async function getPartnerProvider(
+  id: string,
+): Promise<PartnerProviderResponse | null> {
+  const provider = await prisma.provider.findFirst({
+    where: { id, isActive: true },
+    include: {
+      ...partnerEntityInclude,
+      outlets: {
+        where: { isActive: true },
+        select: { id: true, name: true, address: true },
+        orderBy: [{ name: "asc" }, { id: "asc" }],
+      },
+    },
+  });
+  if (!provider) return null;
+
+  return {
+    provider: {
+      id: provider.id,
+      name: provider.name,
+      description: provider.description,
+      abn: provider.abn,
+      phone: provider.phone,
+      email: provider.email,
+      website: provider.website,
+      rating: provider.rating,
+      reviewCount: provider.reviewCount,
+      address: toPartnerAddress(provider.address),
+      serviceAreas: provider.serviceAreas,
+      services: provider.services.map((s) => s.serviceDefinition),
+      specialisations: provider.specialisations.map(
+        (s) => s.specialisationDefinition,
+      ),
+      accessibilityFeatures: provider.accessibilityFeatures,
+      businessHours: toBusinessHours(provider.businessHours),
+      profileUrl: profileUrl("provider", provider.id),
+      ndisRegistered: provider.ndisRegistered,
+      ndisNumber: provider.ndisNumber,
+      outlets: provider.outlets.map((o) => ({
+        id: o.id,
+        name: o.name,
+        address: o.address ? toPartnerAddress(o.address) : null,
+      })),
+    },
+  };
+}
+
+export async function getPartnerOutlet(
+  id: string,
+): Promise<PartnerOutletResponse | null> {
+  const outlet = await prisma.providerOutlet.findFirst({
+    where: { id, isActive: true, provider: { isActive: true } },
+    include: {
+      ...partnerEntityInclude,
+      provider: { select: { id: true, name: true, ndisRegistered: true } },
+    },
+  });
+  if (!outlet) return null;
+
+  return {
+    outlet: {
+      id: outlet.id,
+      name: outlet.name,
+      description: outlet.description,
+      abn: outlet.abn,
+      phone: outlet.phone,
+      email: outlet.email,
+      website: outlet.website,
+      rating: outlet.rating,
+      reviewCount: outlet.reviewCount,
+      address: outlet.address ? toPartnerAddress(outlet.address) : null,
+      serviceAreas: outlet.serviceAreas,
+      services: outlet.services.map((s) => s.serviceDefinition),
+      specialisations: outlet.specialisations.map(
+        (s) => s.specialisationDefinition,
+      ),
+      accessibilityFeatures: outlet.accessibilityFeatures,
+      businessHours: toBusinessHours(outlet.businessHours),
+      profileUrl: profileUrl("outlet", outlet.id),
+      provider: outlet.provider,
+    },
+  };
+}
+
+/** Ids partners can pass to search's `serviceIds`, `specialisationIds`, etc. */
+export async function getPartnerCatalog(): Promise<PartnerCatalogResponse> {
+  const [services, specialisations, languages] = await Promise.all([
+    prisma.serviceDefinition.findMany({
+      select: { id: true, name: true },
+      orderBy: { name: "asc" },
+    }),
+    prisma.specialisationDefinition.findMany({
+      select: { id: true, name: true },
+      orderBy: { name: "asc" },
+    }),
+    prisma.languageDefinition.findMany({
+      select: { id: true, name: true },
+      orderBy: { name: "asc" },
+    }),
+  ]);
+
+  return {
+    services,
+    specialisations,
+    languages,
+    accessibilityFeatures: ACCESSIBILITY_FEATURES.map((id) => ({
+      id,
+      name: ACCESSIBILITY_FEATURE_LABELS[id],
+    })),
+  };
+}
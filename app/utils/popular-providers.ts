@@ -0,0 +1,242 @@
+import { Prisma } from "@prisma/client";
+
+import type { AutocompleteItem } from "@/app/api/provider-finder/autocomplete/types";
+import { distanceKm } from "@/lib/geo";
+import { decodeGeohash, encodeGeohash } from "@/lib/geohash";
+import { prisma } from "@/lib/prisma";
+import { createTtlCache } from "@/lib/ttlCache";
+
+import { hasActiveEntitySql, withinRadiusSql } from "./geo-search";
+
+/**
+ * Most-reviewed providers and outlets per region, for the autocomplete
+ * fallback. Regions are geohash cells; each cell's list (everything within
+ * `REGION_RADIUS_KM` of the cell centre) is precomputed into `PopularRegion`
+ * by the popular-providers cron and kept in memory once read, so serving the
+ * fallback doesn't wait on the slow query it stands in for.
+ */
+
+/** ~39 x 20 km cells. */
+const REGION_GEOHASH_PRECISION = 4;
+const REGION_RADIUS_KM = 50;
+const PER_REGION = 20;
+const REGION_TTL_MS = 60 * 60 * 1000;
+/** Cache key for the national list used where a region has no providers. */
+const NATIONAL_KEY = "*";
+
+type PopularRow = Omit<
+  AutocompleteItem,
+  "distanceKm" | "ft_rank" | "trigram_rank" | "coverage"
+>;
+
+// Promises, so concurrent requests for a cold region share one query.
+const popularByRegion = createTtlCache<Promise<PopularRow[]>>({
+  ttlMs: REGION_TTL_MS,
+  maxEntries: 2000,
+});
+
+function queryPopular(centre: { latitude: number; longitude: number } | null) {
+  const within = centre
+    ? Prisma.sql`AND ${withinRadiusSql(centre.latitude, centre.longitude, REGION_RADIUS_KM)}`
+    : Prisma.empty;
+
+  return prisma.$queryRaw<PopularRow[]>`
+    WITH popular AS (
+      SELECT *
+      FROM (
+        SELECT
+          p.id,
+          'provider' AS type,
+          p.name,
+          p.id AS "providerId",
+          p.rating,
+          p."reviewCount",
+          a."addressString",
+          a.latitude,
+          a.longitude
+        FROM "Provider" p
+        JOIN "Address" a ON p."addressId" = a.id
+        WHERE p."isActive" = TRUE
+          AND a.latitude IS NOT NULL
+          ${within}
+
+        UNION ALL
+
+        SELECT
+          po.id,
+          'outlet' AS type,
+          po.name,
+          po."providerId",
+          po.rating,
+          po."reviewCount",
+          a."addressString",
+          a.latitude,
+          a.longitude
+        FROM "ProviderOutlet" po
+        JOIN "Provider" parent ON po."providerId" = parent.id
+        JOIN "Address" a ON po."addressId" = a.id
+        WHERE po."isActive" = TRUE AND parent."isActive" = TRUE
+          AND a.latitude IS NOT NULL
+          ${within}
+      ) entities
+      ORDER BY "reviewCount" DESC, rating DESC NULLS LAST, name ASC
+      LIMIT ${PER_REGION}
+    )
+    SELECT
+      popular.*,
+      COALESCE(svc.services, ARRAY[]::text[]) AS services
+    FROM popular
+    LEFT JOIN LATERAL (
+      SELECT array_agg(sd.name ORDER BY sd.name) AS services
+      FROM (
+        SELECT ps."serviceDefinitionId"
+        FROM "ProviderService" ps
+        WHERE popular.type = 'provider' AND ps."providerId" = popular.id
+        UNION ALL
+        SELECT pos."serviceDefinitionId"
+        FROM "ProviderOutletService" pos
+        WHERE popular.type = 'outlet' AND pos."providerOutletId" = popular.id
+      ) s
+      JOIN "ServiceDefinition" sd ON sd.id = s."serviceDefinitionId"
+    ) svc ON TRUE
+    ORDER BY popular."reviewCount" DESC, popular.rating DESC NULLS LAST, popular.name ASC
+  `;
+}
+
+function cached(key: string, load: () => Promise<PopularRow[]>) {
+  const hit = popularByRegion.get(key);
+  if (hit) return hit;
+
+  const promise = load();
+  popularByRegion.set(key, promise);
+  // Don't keep a failure around for an hour.
+  promise.catch(() => popularByRegion.delete(key));
+  return promise;
+}
+
+async function storeRegion(cell: string, rows: PopularRow[]) {
+  const data = {
+    items: rows as unknown as Prisma.InputJsonValue,
+    computedAt: new Date(),
+  };
+  await prisma.popularRegion.upsert({
+    where: { cell },
+    create: { cell, ...data },
+    update: data,
+  });
+}
+
+/**
+ * A region's list: the precomputed one, or computed now (and stored) for a
+ * cell the cron didn't cover. `centre` is null for the national list.
+ */
+function regionPopular(
+  cell: string,
+  centre: { latitude: number; longitude: number } | null,
+) {
+  return cached(cell, async () => {
+    const stored = await prisma.popularRegion.findUnique({ where: { cell } });
+    if (stored) return stored.items as unknown as PopularRow[];
+
+    const rows = await queryPopular(centre);
+    storeRegion(cell, rows).catch((error) =>
+      console.error("popular providers store:", error),
+    );
+    return rows;
+  });
+}
+
+/** Popular entities for the region around a point, national if it has none. */
+async function getRegionalPopular(latitude: number, longitude: number) {
+  const cell = encodeGeohash(latitude, longitude, REGION_GEOHASH_PRECISION);
+  const regional = await regionPopular(cell, decodeGeohash(cell));
+  if (regional.length > 0) return regional;
+  return regionPopular(NATIONAL_KEY, null);
+}
+
+export type PopularRegionsRefreshSummary = { regions: number; removed: number };
+
+/**
+ * Recomputes the list for every cell with a listed provider or outlet, and
+ * the national one, then drops regions that no longer have any. Run by the
+ * popular-providers cron.
+ */
+export async function refreshPopularRegions(): Promise<PopularRegionsRefreshSummary> {
+  const startedAt = new Date();
+  // Rounded to ~1 km; only the distinct cells matter.
+  const points = await prisma.$queryRaw<{ lat: number; lon: number }[]>`
+    SELECT DISTINCT
+      round(a.latitude::numeric, 2)::float8 AS lat,
+      round(a.longitude::numeric, 2)::float8 AS lon
+    FROM "Address" a
+    WHERE a.latitude IS NOT NULL AND a.longitude IS NOT NULL
+      AND ${hasActiveEntitySql}
+  `;
+  const cells = new Set(
+    points.map((p) => encodeGeohash(p.lat, p.lon, REGION_GEOHASH_PRECISION)),
+  );
+
+  // One at a time: each is a radius query over the whole directory.
+  for (const cell of cells) {
+    const rows = await queryPopular(decodeGeohash(cell));
+    await storeRegion(cell, rows);
+    popularByRegion.set(cell, Promise.resolve(rows));
+  }
+  const national = await queryPopular(null);
+  await storeRegion(NATIONAL_KEY, national);
+  popularByRegion.set(NATIONAL_KEY, Promise.resolve(national));
+
+  const { count } = await prisma.popularRegion.deleteMany({
+    where: { computedAt: { lt: startedAt } },
+  });
+  return { regions: cells.size, removed: count };
+}
+
+/**
+ * Starts loading (or reuses) the region's list so it is ready if the main
+ * autocomplete query times out.
+ */
+export function preloadPopularProviders(latitude: number, longitude: number) {
+  getRegionalPopular(latitude, longitude).catch((error) => {
+    console.error("popular providers preload:", error);
+  });
+}
+
+/**
+ * Up to `limit` popular providers/outlets near the caller with real distances.
+ * Those inside the viewport come first, then by popularity.
+ */
+export async function getPopularProviders({
+  latitude,
+  longitude,
+  bounds,
+  limit,
+}: {
+  latitude: number;
+  longitude: number;
+  bounds: { minLat: number; maxLat: number; minLon: number; maxLon: number };
+  limit: number;
+}): Promise<AutocompleteItem[]> {
+  const rows = await getRegionalPopular(latitude, longitude);
+
+  const inBounds = (row: PopularRow) =>
+    row.latitude >= bounds.minLat &&
+    row.latitude <= bounds.maxLat &&
+    row.longitude >= bounds.minLon &&
+    row.longitude <= bounds.maxLon;
+
+  return rows
+    .map((row, popularity) => ({ row, popularity, visible: inBounds(row) }))
+    .sort(
+      (a, b) =>
+        Number(b.visible) - Number(a.visible) || a.popularity - b.popularity,
+    )
+    .slice(0, limit)
+    .map(({ row }) => ({
+      ...row,
+      distanceKm: distanceKm(latitude, longitude, row.latitude, row.longitude),
+      ft_rank: 0,
+      trigram_rank: 0,
+      coverage: "located",
+    }));
+}
@@ -79,6 +79,15 @@ export async function getProviderWithWorkers(providerId: string) {
           },
         },
       },
+      outlets: {
+        select: {
+          id: true,
+          name: true,
+          accessibilityFeatures: true,
+          address: { select: { addressString: true } },
+        },
+        orderBy: { name: "asc" },
+      },
     },
   });
 }
@@ -103,10 +112,17 @@ export const getAdminResponse = (
       ndisRegistered: provider.ndisRegistered,
       ndisNumber: provider.ndisNumber,
       serviceAreas: provider.serviceAreas,
+      accessibilityFeatures: provider.accessibilityFeatures,
       specialisations: provider.specialisations.map(
         (s) => s.specialisationDefinition,
       ),
     },
+    outlets: provider.outlets.map((outlet) => ({
+      id: outlet.id,
+      name: outlet.name,
+      addressString: outlet.address?.addressString ?? null,
+      accessibilityFeatures: outlet.accessibilityFeatures,
+    })),
     workers: provider.workers.map((wp) => ({
       id: wp.worker.id,
       userId: wp.worker.userId,
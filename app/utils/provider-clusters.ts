@@ -0,0 +1,147 @@
+import { Prisma } from "@prisma/client";
+
+import type { MarkerClusterResponse } from "@/app/api/provider-finder/clusters/types";
+import { prisma } from "@/lib/prisma";
+import type { ClusterQuery } from "@/schemas/provider-finder.types";
+
+import { accessibilityFeaturesSql } from "./provider-finder-search";
+
+/** Grid cells per 256px map tile; 4 gives roughly 64px cluster bubbles. */
+const CELLS_PER_TILE = 4;
+const TOP_SERVICES_PER_CLUSTER = 3;
+
+type ClusterRow = {
+  gx: number;
+  gy: number;
+  count: bigint | number;
+  latitude: number;
+  longitude: number;
+  topServices: string[] | null;
+};
+
+export function clusterCellSizeDeg(zoom: number) {
+  return 360 / 2 ** zoom / CELLS_PER_TILE;
+}
+
+/**
+ * Groups every provider and outlet in the viewport into a fixed lat/lon grid
+ * sized for the zoom level, returning each cell's count, centroid and most
+ * common services.
+ */
+export async function getMarkerClusters(
+  query: ClusterQuery,
+): Promise<MarkerClusterResponse> {
+  const cellSizeDeg = clusterCellSizeDeg(query.zoom);
+
+  const inViewport = Prisma.sql`
+    a.latitude BETWEEN ${query.minLat} AND ${query.maxLat}
+    AND a.longitude BETWEEN ${query.minLon} AND ${query.maxLon}`;
+
+  const providerServiceFilter =
+    query.serviceIds.length > 0
+      ? Prisma.sql`AND EXISTS (
+          SELECT 1 FROM "ProviderService" ps
+          WHERE ps."providerId" = p.id
+            AND ps."serviceDefinitionId" IN (${Prisma.join(query.serviceIds)})
+        )`
+      : Prisma.empty;
+  const outletServiceFilter =
+    query.serviceIds.length > 0
+      ? Prisma.sql`AND EXISTS (
+          SELECT 1 FROM "ProviderOutletService" pos
+          WHERE pos."providerOutletId" = po.id
+            AND pos."serviceDefinitionId" IN (${Prisma.join(query.serviceIds)})
+        )`
+      : Prisma.empty;
+
+  const providerRegistered = query.registeredOnly
+    ? Prisma.sql`AND p."ndisRegistered" = TRUE`
+    : Prisma.empty;
+  const outletRegistered = query.registeredOnly
+    ? Prisma.sql`AND parent."ndisRegistered" = TRUE`
+    : Prisma.empty;
+
+  const features = accessibilityFeaturesSql(query.accessibilityFeatures);
+  const providerAccessible = features
+    ? Prisma.sql`AND p."accessibilityFeatures" @> ${features}`
+    : Prisma.empty;
+  const outletAccessible = features
+    ? Prisma.sql`AND po."accessibilityFeatures" @> ${features}`
+    : Prisma.empty;
+
+  const rows = await prisma.$queryRaw<ClusterRow[]>`
+    WITH points AS (
+      SELECT 'provider' AS type, p.id, a.latitude, a.longitude
+      FROM "Provider" p
+      JOIN "Address" a ON p."addressId" = a.id
+      WHERE p."isActive" = TRUE
+        AND ${inViewport} ${providerRegistered} ${providerAccessible} ${providerServiceFilter}
+
+      UNION ALL
+
+      SELECT 'outlet' AS type, po.id, a.latitude, a.longitude
+      FROM "ProviderOutlet" po
+      JOIN "Provider" parent ON po."providerId" = parent.id
+      JOIN "Address" a ON po."addressId" = a.id
+      WHERE po."isActive" = TRUE AND parent."isActive" = TRUE
+        AND ${inViewport} ${outletRegistered} ${outletAccessible} ${outletServiceFilter}
+    ),
+    gridded AS (
+      SELECT
+        points.*,
+        floor(points.longitude / ${cellSizeDeg})::int AS gx,
+        floor(points.latitude / ${cellSizeDeg})::int AS gy
+      FROM points
+    ),
+    cells AS (
+      SELECT gx, gy, count(*) AS count, avg(latitude) AS latitude, avg(longitude) AS longitude
+      FROM gridded
+      GROUP BY gx, gy
+    ),
+    cell_services AS (
+      SELECT
+        g.gx,
+        g.gy,
+        sd.name,
+        row_number() OVER (
+          PARTITION BY g.gx, g.gy ORDER BY count(*) DESC, sd.name ASC
+        ) AS rn
+      FROM gridded g
+      JOIN (
+        SELECT 'provider' AS type, ps."providerId" AS id, ps."serviceDefinitionId"
+        FROM "ProviderService" ps
+        UNION ALL
+        SELECT 'outlet' AS type, pos."providerOutletId" AS id, pos."serviceDefinitionId"
+        FROM "ProviderOutletService" pos
+      ) s ON s.type = g.type AND s.id = g.id
+      JOIN "ServiceDefinition" sd ON sd.id = s."serviceDefinitionId"
+      GROUP BY g.gx, g.gy, sd.name
+    )
+    SELECT
+      c.gx,
+      c.gy,
+      c.count,
+      c.latitude,
+      c.longitude,
+      array_agg(cs.name ORDER BY cs.rn) FILTER (WHERE cs.name IS NOT NULL) AS "topServices"
+    FROM cells c
+    LEFT JOIN cell_services cs
+      ON cs.gx = c.gx AND cs.gy = c.gy AND cs.rn <= ${TOP_SERVICES_PER_CLUSTER}
+    GROUP BY c.gx, c.gy, c.count, c.latitude, c.longitude
+  `;
+
+  const clusters = rows.map((row) => ({
+    id: `${query.zoom}:${row.gx}:${row.gy}`,
+    count: Number(row.count),
+    latitude: Number(row.latitude),
+    longitude: Number(row.longitude),
+    topServices: row.topServices ?? [],
+  }));
+
+  return {
+    zoom: query.zoom,
+    cellSizeDeg,
+    total: clusters.reduce((sum, c) => sum + c.count, 0),
+    clusters,
+  };
+}
@@ -0,0 +1,238 @@
+import type { AccessibilityFeature, DayOfWeek, Prisma } from "@prisma/client";
+
+import { ACCESSIBILITY_FEATURE_LABELS } from "@/lib/accessibility";
+import { getDbTimeString } from "@/lib/dbTime";
+import { distanceKm } from "@/lib/geo";
+import { DAYS_OF_WEEK } from "@/lib/openingHours";
+import { prisma } from "@/lib/prisma";
+import { ACCESSIBILITY_FEATURES } from "@/schemas/accessibility.types";
+import type { CompareQuery } from "@/schemas/provider-finder.types";
+
+import { activeWorkerLinkWhere } from "./provider-finder-search";
+
+/**
+ * Data for the side-by-side comparison page. Providers and outlets are
+ * flattened to the same shape so the page can line them up row by row.
+ */
+
+export type ComparisonEntry = {
+  type: "provider" | "outlet";
+  id: string;
+  name: string;
+  href: string;
+  /** Set for outlets. */
+  parentProviderName: string | null;
+  /** Outlets are registered through their provider. */
+  ndisRegistered: boolean;
+  rating: number | null;
+  reviewCount: number;
+  address: string | null;
+  /** From the searched point; null without one or without coordinates. */
+  distanceKm: number | null;
+  services: string[];
+  specialisations: string[];
+  /** Spoken by currently linked workers. */
+  languages: string[];
+  serviceAreas: string[];
+  accessibility: string[];
+  /** "09:00 – 17:00" per day, or null when closed. */
+  hours: Record<DayOfWeek, string | null>;
+};
+
+type ComparedAddress = {
+  addressString: string;
+  formatted: string | null;
+  latitude: number | null;
+  longitude: number | null;
+} | null;
+
+type ComparedHour = {
+  dayOfWeek: DayOfWeek;
+  openTime: Date;
+  closeTime: Date;
+};
+
+const addressSelect = {
+  select: {
+    addressString: true,
+    formatted: true,
+    latitude: true,
+    longitude: true,
+  },
+} satisfies Prisma.AddressDefaultArgs;
+
+/** Links current at `now`, as search counts them for the language filter. */
+function currentWorkerLinks(now: Date) {
+  return {
+    where: activeWorkerLinkWhere(now),
+    select: {
+      worker: {
+        select: {
+          languages: {
+            select: { languageDefinition: { select: { name: true } } },
+          },
+        },
+      },
+    },
+  };
+}
+
+function uniqueSorted(values: string[]) {
+  return [...new Set(values)].sort((a, b) => a.localeCompare(b));
+}
+
+function hoursByDay(
+  businessHours: ComparedHour[],
+): Record<DayOfWeek, string | null> {
+  const hours = Object.fromEntries(
+    DAYS_OF_WEEK.map((day) => [day, null]),
+  ) as Record<DayOfWeek, string | null>;
+  for (const day of DAYS_OF_WEEK) {
+    const ranges = businessHours
+      .filter((bh) => bh.dayOfWeek === day)
+      .sort((a, b) => a.openTime.getTime() - b.openTime.getTime())
+      .map(
+        (bh) =>
+          `${getDbTimeString(bh.openTime)} – ${getDbTimeString(bh.closeTime)}`,
+      );
+    if (ranges.length > 0) hours[day] = ranges.join(", ");
+  }
+  return hours;
+}
+
+function distanceFrom(
+  origin: { lat: number; lon: number } | null,
+  address: ComparedAddress,
+) {
+  if (!origin || address?.latitude == null || address.longitude == null) {
+    return null;
+  }
+  return distanceKm(
+    origin.lat,
+    origin.lon,
+    address.latitude,
+    address.longitude,
+  );
+}
+
+/** Feature labels in the usual order. */
+function accessibilityOf(features: AccessibilityFeature[]) {
+  return ACCESSIBILITY_FEATURES.filter((f) => features.includes(f)).map(
+    (f) => ACCESSIBILITY_FEATURE_LABELS[f],
+  );
+}
+
+function languagesOf(
+  links: {
+    worker: { languages: { languageDefinition: { name: string } }[] };
+  }[],
+) {
+  return uniqueSorted(
+    links.flatMap((link) =>
+      link.worker.languages.map((l) => l.languageDefinition.name),
+    ),
+  );
+}
+
+/**
+ * Active providers/outlets for `items`, in the order requested. Anything
+ * missing or inactive is left out rather than failing the page.
+ */
+export async function getComparisonEntries(
+  items: CompareQuery["items"],
+  origin: { lat: number; lon: number } | null,
+): Promise<ComparisonEntry[]> {
+  const now = new Date();
+  const providerIds = items
+    .filter((i) => i.type === "provider")
+    .map((i) => i.id);
+  const outletIds = items.filter((i) => i.type === "outlet").map((i) => i.id);
+
+  const [providers, outlets] = await Promise.all([
+    providerIds.length > 0
+      ? prisma.provider.findMany({
+          where: { id: { in: providerIds }, isActive: true },
+          include: {
+            address: addressSelect,
+            services: { include: { serviceDefinition: true } },
+            specialisations: { include: { specialisationDefinition: true } },
+            businessHours: true,
+            workers: currentWorkerLinks(now),
+          },
+        })
+      : [],
+    outletIds.length > 0
+      ? prisma.providerOutlet.findMany({
+          where: {
+            id: { in: outletIds },
+            isActive: true,
+            provider: { isActive: true },
+          },
+          include: {
+            address: addressSelect,
+            provider: { select: { name: true, ndisRegistered: true } },
+            services: { include: { serviceDefinition: true } },
+            specialisations: { include: { specialisationDefinition: true } },
+            businessHours: true,
+            workers: currentWorkerLinks(now),
+          },
+        })
+      : [],
+  ]);
+
+  const entries = new Map<string, ComparisonEntry>();
+
+  for (const provider of providers) {
+    entries.set(`provider:${provider.id}`, {
+      type: "provider",
+      id: provider.id,
+      name: provider.name,
+      href: `/provider/${encodeURIComponent(provider.id)}`,
+      parentProviderName: null,
+      ndisRegistered: provider.ndisRegistered,
+      rating: provider.rating,
+      reviewCount: provider.reviewCount,
+      address:
+        provider.address?.formatted ?? provider.address?.addressString ?? null,
+      distanceKm: distanceFrom(origin, provider.address),
+      services: uniqueSorted(
+        provider.services.map((s) => s.serviceDefinition.name),
+      ),
+      specialisations: uniqueSorted(
+        provider.specialisations.map((s) => s.specialisationDefinition.name),
+      ),
+      languages: languagesOf(provider.workers),
+      serviceAreas: uniqueSorted(provider.serviceAreas),
+      accessibility: accessibilityOf(provider.accessibilityFeatures),
+      hours: hoursByDay(provider.businessHours),
+    });
+  }
+
+  for (const outlet of outlets) {
+    entries.set(`outlet:${outlet.id}`, {
+      type: "outlet",
+      id: outlet.id,
+      name: outlet.name,
+      href: `/provider-outlet/${encodeURIComponent(outlet.id)}`,
+      parentProviderName: outlet.provider.name,
+      ndisRegistered: outlet.provider.ndisRegistered,
+      rating: outlet.rating,
+      reviewCount: outlet.reviewCount,
+      address:
+        outlet.address?.formatted ?? outlet.address?.addressString ?? null,
+      distanceKm: distanceFrom(origin, outlet.address),
+      services: uniqueSorted(
+        outlet.services.map((s) => s.serviceDefinition.name),
+      ),
+      specialisations: uniqueSorted(
+        outlet.specialisations.map((s) => s.specialisationDefinition.name),
+      ),
+      languages: languagesOf(outlet.workers),
+      serviceAreas: uniqueSorted(outlet.serviceAreas),
+      accessibility: accessibilityOf(outlet.accessibilityFeatures),
+      hours: hoursByDay(outlet.businessHours),
+    });
+  }
+
+  return items.flatMap((item) => entries.get(`${item.type}:${item.id}`) ?? []);
+}
@@ -0,0 +1,125 @@
+import type { Prisma } from "@prisma/client";
+
+import {
+  MAX_FEATURE_ADDRESSES,
+  PROVIDER_FEATURES_LAYER,
+  type ProviderFeature,
+  type ProviderFeatureCollection,
+} from "@/app/api/provider-finder/features/types";
+import { type MapTile, projectToTile, type TileBounds } from "@/lib/mapTiles";
+import { DEFAULT_MVT_EXTENT, encodeMvt } from "@/lib/mvt";
+
+import { findAddressesInBox } from "./geo-search";
+
+/**
+ * Providers and outlets as a standard map feed for partners and GIS tools:
+ * GeoJSON FeatureCollections, or Mapbox Vector Tiles with the same
+ * properties (services joined with "; ", as tiles have no arrays).
+ */
+
+const featureAddressInclude = {
+  providers: {
+    where: { isActive: true },
+    select: {
+      id: true,
+      name: true,
+      ndisRegistered: true,
+      services: { select: { serviceDefinition: { select: { name: true } } } },
+    },
+  },
+  providerOutlets: {
+    where: { isActive: true, provider: { isActive: true } },
+    select: {
+      id: true,
+      name: true,
+      provider: { select: { name: true, ndisRegistered: true } },
+      services: { select: { serviceDefinition: { select: { name: true } } } },
+    },
+  },
+} satisfies Prisma.AddressInclude;
+
+function siteOrigin() {
+  return process.env.NEXT_PUBLIC_ORIGIN ?? "https://www.mapable.com.au";
+}
+
+function point(
+  latitude: number,
+  longitude: number,
+): ProviderFeature["geometry"] {
+  return { type: "Point", coordinates: [longitude, latitude] };
+}
+
+/** Every provider and outlet at the addresses in `box`. */
+export async function getProviderFeatures(
+  box: TileBounds,
+): Promise<ProviderFeatureCollection> {
+  const { addresses, truncated } = await findAddressesInBox({
+    box,
+    limit: MAX_FEATURE_ADDRESSES,
+    include: featureAddressInclude,
+  });
+
+  const features: ProviderFeature[] = [];
+  for (const address of addresses) {
+    if (address.latitude == null || address.longitude == null) continue;
+    const geometry = point(address.latitude, address.longitude);
+
+    for (const p of address.providers) {
+      features.push({
+        type: "Feature",
+        id: `provider:${p.id}`,
+        geometry,
+        properties: {
+          type: "provider",
+          id: p.id,
+          name: p.name,
+          providerName: null,
+          services: p.services.map((s) => s.serviceDefinition.name),
+          ndisRegistered: p.ndisRegistered,
+          address: address.addressString,
+          profileUrl: `${siteOrigin()}/provider/${encodeURIComponent(p.id)}`,
+        },
+      });
+    }
+    for (const o of address.providerOutlets) {
+      features.push({
+        type: "Feature",
+        id: `outlet:${o.id}`,
+        geometry,
+        properties: {
+          type: "outlet",
+          id: o.id,
+          name: o.name,
+          providerName: o.provider.name,
+          services: o.services.map((s) => s.serviceDefinition.name),
+          ndisRegistered: o.provider.ndisRegistered,
+          address: address.addressString,
+          profileUrl: `${siteOrigin()}/provider-outlet/${encodeURIComponent(o.id)}`,
+        },
+      });
+    }
+  }
+
+  return { type: "FeatureCollection", features, truncated };
+}
+
+/** `collection` (from `tile`'s bounds) as one vector tile layer. */
+export function toProviderVectorTile(
+  collection: ProviderFeatureCollection,
+  tile: MapTile,
+) {
+  return encodeMvt([
+    {
+      name: PROVIDER_FEATURES_LAYER,
+      extent: DEFAULT_MVT_EXTENT,
+      features: collection.features.map((feature) => {
+        const [longitude, latitude] = feature.geometry.coordinates;
+        const { services, ...properties } = feature.properties;
+        return {
+          ...projectToTile(latitude, longitude, tile, DEFAULT_MVT_EXTENT),
+          properties: { ...properties, services: services.join("; ") },
+        };
+      }),
+    },
+  ]);
+}
@@ -0,0 +1,798 @@
+import { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import type { SearchQuery, SearchSort } from "@/schemas/provider-finder.types";
+
+import { suggestCorrection } from "./did-you-mean";
+import { earthDistanceKmSql, withinRadiusSql } from "./geo-search";
+import { getBoundingBox } from "./getBoundingBox";
+import { openingHoursWhereSql } from "./opening-hours";
+import {
+  expandSearchQuery,
+  variantsArraySql,
+  variantsTsQuerySql,
+  type ExpandedQuery,
+} from "./search-synonyms";
+import {
+  outletServicesAreaSql,
+  providerServicesAreaSql,
+  resolveSearchedArea,
+  type SearchedArea,
+} from "./service-areas";
+
+const DEFAULT_RADIUS_KM = 25;
+
+export const providerSearchInclude = {
+  address: true,
+  services: { include: { serviceDefinition: true } },
+  specialisations: { include: { specialisationDefinition: true } },
+  businessHours: true,
+} satisfies Prisma.ProviderInclude;
+
+export const providerOutletSearchInclude = {
+  address: true,
+  provider: true,
+  services: { include: { serviceDefinition: true } },
+  specialisations: { include: { specialisationDefinition: true } },
+  businessHours: true,
+} satisfies Prisma.ProviderOutletInclude;
+
+type SearchProvider = Prisma.ProviderGetPayload<{
+  include: typeof providerSearchInclude;
+}>;
+type SearchProviderOutlet = Prisma.ProviderOutletGetPayload<{
+  include: typeof providerOutletSearchInclude;
+}>;
+
+/**
+ * `located` — the address is in the searched area ("Located nearby").
+ * `serviceArea` — the office is elsewhere but its declared service areas or
+ * service locations cover the searched point ("Services your area").
+ */
+export type ResultCoverage = "located" | "serviceArea";
+
+/** Languages spoken by a result's currently linked workers. */
+export type SearchResultLanguage = { id: string; name: string };
+
+/** One of the parent provider's other addresses (its head office or an outlet). */
+export type SearchResultSiteLink = {
+  type: "provider" | "outlet";
+  id: string;
+  name: string;
+  addressString: string;
+};
+
+/**
+ * The parent provider's other physical sites. Results are grouped per
+ * provider and address, so a head office that is also listed as an outlet
+ * comes back once.
+ */
+export type SearchResultSite = {
+  providerId: string;
+  providerName: string;
+  /** At most `MAX_OTHER_SITES`, head offices first, then by name. */
+  otherSites: SearchResultSiteLink[];
+  otherSiteCount: number;
+};
+
+const MAX_OTHER_SITES = 20;
+
+export type ProviderSearchResult =
+  | {
+      type: "provider";
+      provider: SearchProvider;
+      address: SearchProvider["address"];
+      distanceKm: number;
+      coverage: ResultCoverage;
+      languages: SearchResultLanguage[];
+      site: SearchResultSite;
+    }
+  | {
+      type: "outlet";
+      providerOutlet: SearchProviderOutlet;
+      address: NonNullable<SearchProviderOutlet["address"]>;
+      distanceKm: number;
+      coverage: ResultCoverage;
+      languages: SearchResultLanguage[];
+      site: SearchResultSite;
+    };
+
+export type SearchFacet = { id: string; name: string; count: number };
+
+export type ProviderSearchResponse = {
+  items: ProviderSearchResult[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  facets: {
+    services: SearchFacet[];
+    specialisations: SearchFacet[];
+    languages: SearchFacet[];
+  };
+  /** Spelling-corrected `q`, only when the search found nothing. */
+  didYouMean: string | null;
+  /** Search analytics log id (first pages from the API only), sent back with clicks. */
+  searchId?: string;
+};
+
+type SearchArea = {
+  centreLat: number;
+  centreLon: number;
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+  radiusKm: number | null;
+};
+
+type SearchRow = {
+  type: "provider" | "outlet";
+  id: string;
+  providerId: string;
+  addressId: string;
+  distanceKm: number;
+  coverage: ResultCoverage;
+};
+
+/** Keyed by address id; the head office wins over outlets at its address. */
+type SiteRow = { name: string; byAddress: Map<string, SearchResultSiteLink> };
+
+type FacetRow = { id: string; name: string; count: bigint | number };
+
+type LanguageRow = {
+  type: "provider" | "outlet";
+  id: string;
+  languageId: string;
+  name: string;
+};
+
+/** Resolves bbox or centre + radius params into one search area. */
+export function resolveSearchArea(params: SearchQuery): SearchArea {
+  const { minLat, maxLat, minLon, maxLon, lat, lon, radiusKm } = params;
+
+  if (lat !== undefined && lon !== undefined) {
+    const radius = radiusKm ?? DEFAULT_RADIUS_KM;
+    const box =
+      minLat !== undefined &&
+      maxLat !== undefined &&
+      minLon !== undefined &&
+      maxLon !== undefined
+        ? { minLat, maxLat, minLon, maxLon }
+        : getBoundingBox(lat, lon, radius);
+    return { centreLat: lat, centreLon: lon, ...box, radiusKm: radius };
+  }
+
+  return {
+    centreLat: (minLat! + maxLat!) / 2,
+    centreLon: (minLon! + maxLon!) / 2,
+    minLat: minLat!,
+    maxLat: maxLat!,
+    minLon: minLon!,
+    maxLon: maxLon!,
+    radiusKm: null,
+  };
+}
+
+function distanceSql(area: SearchArea) {
+  return earthDistanceKmSql(area.centreLat, area.centreLon);
+}
+
+function areaWhereSql(area: SearchArea) {
+  const withinBox = Prisma.sql`
+    a.latitude BETWEEN ${area.minLat} AND ${area.maxLat}
+    AND a.longitude BETWEEN ${area.minLon} AND ${area.maxLon}`;
+
+  if (area.radiusKm === null) return withinBox;
+  return Prisma.sql`${withinBox} AND ${withinRadiusSql(area.centreLat, area.centreLon, area.radiusKm)}`;
+}
+
+/** A `ProviderWorker` / `ProviderOutletWorker` link that is current today. */
+function activeWorkerLinkSql(alias: string) {
+  const link = Prisma.raw(alias);
+  return Prisma.sql`(${link}."startDate" IS NULL OR ${link}."startDate" <= now())
+    AND (${link}."endDate" IS NULL OR ${link}."endDate" >= now())`;
+}
+
+/** `activeWorkerLinkSql` as a Prisma filter, for worker links loaded with `include`. */
+export function activeWorkerLinkWhere(now: Date) {
+  return {
+    AND: [
+      { OR: [{ startDate: null }, { startDate: { lte: now } }] },
+      { OR: [{ endDate: null }, { endDate: { gte: now } }] },
+    ],
+  } satisfies Prisma.ProviderWorkerWhereInput &
+    Prisma.ProviderOutletWorkerWhereInput;
+}
+
+/** `features` as an `AccessibilityFeature[]` literal, or null for none. */
+export function accessibilityFeaturesSql(features: string[]) {
+  if (features.length === 0) return null;
+  return Prisma.sql`ARRAY[${Prisma.join(features)}]::"AccessibilityFeature"[]`;
+}
+
+/**
+ * Providers and outlets matching query text (with synonym variants), area,
+ * the registered flag, accessibility features and opening hours. With a `servicedArea`, entities whose service areas cover it
+ * are added too (unless already located in the area). `params.coverage` picks
+ * either kind on its own.
+ * Service/specialisation/language selections are applied later so facets can
+ * be counted against the other selections only.
+ * Each candidate carries its parent `providerId` and `addressId`: the site
+ * results are grouped by.
+ */
+function candidatesSql(
+  params: SearchQuery,
+  query: ExpandedQuery,
+  area: SearchArea,
+  servicedArea: SearchedArea | null,
+) {
+  const { registeredOnly } = params;
+  const hasQuery = query.text.length > 0;
+  const tsq = hasQuery ? variantsTsQuerySql(query) : Prisma.empty;
+  const names = hasQuery ? variantsArraySql(query) : Prisma.empty;
+
+  const providerText = hasQuery
+    ? Prisma.sql`(
+        p.search_vector @@ ${tsq}
+        OR p.name % ANY(${names})
+        OR EXISTS (
+          SELECT 1
+          FROM "ProviderService" ps
+          JOIN "ServiceDefinition" sd ON ps."serviceDefinitionId" = sd.id
+          WHERE ps."providerId" = p.id
+            AND (sd.name % ANY(${names}) OR to_tsvector('english', sd.name) @@ ${tsq})
+        )
+      )`
+    : Prisma.sql`TRUE`;
+
+  const outletText = hasQuery
+    ? Prisma.sql`(
+        po.search_vector @@ ${tsq}
+        OR po.name % ANY(${names})
+        OR EXISTS (
+          SELECT 1
+          FROM "ProviderOutletService" pos
+          JOIN "ServiceDefinition" sd ON pos."serviceDefinitionId" = sd.id
+          WHERE pos."providerOutletId" = po.id
+            AND (sd.name % ANY(${names}) OR to_tsvector('english', sd.name) @@ ${tsq})
+        )
+      )`
+    : Prisma.sql`TRUE`;
+
+  const providerRank = hasQuery
+    ? Prisma.sql`ts_rank_cd(p.search_vector, ${tsq}) * 10 + similarity(p.name, ${query.text})`
+    : Prisma.sql`0`;
+  const outletRank = hasQuery
+    ? Prisma.sql`ts_rank_cd(po.search_vector, ${tsq}) * 10 + similarity(po.name, ${query.text})`
+    : Prisma.sql`0`;
+
+  const providerRegistered = registeredOnly
+    ? Prisma.sql`p."ndisRegistered" = TRUE`
+    : Prisma.sql`TRUE`;
+  // Outlets inherit NDIS registration from their parent provider.
+  const outletRegistered = registeredOnly
+    ? Prisma.sql`parent."ndisRegistered" = TRUE`
+    : Prisma.sql`TRUE`;
+
+  // Outlets are separate premises, so only their own features count.
+  const features = accessibilityFeaturesSql(params.accessibilityFeatures);
+  const providerAccessible = features
+    ? Prisma.sql`p."accessibilityFeatures" @> ${features}`
+    : Prisma.sql`TRUE`;
+  const outletAccessible = features
+    ? Prisma.sql`po."accessibilityFeatures" @> ${features}`
+    : Prisma.sql`TRUE`;
+
+  const providerHours = openingHoursWhereSql(
+    params,
+    { table: "ProviderBusinessHour", ownerColumn: "providerId" },
+    Prisma.sql`p.id`,
+  );
+  const outletHours = openingHoursWhereSql(
+    params,
+    { table: "ProviderOutletBusinessHour", ownerColumn: "providerOutletId" },
+    Prisma.sql`po.id`,
+  );
+
+  const providerWhere = Prisma.sql`${providerRegistered}
+        AND ${providerAccessible}
+        AND ${providerHours}
+        AND ${providerText}`;
+  const outletWhere = Prisma.sql`${outletRegistered}
+        AND ${outletAccessible}
+        AND ${outletHours}
+        AND ${outletText}`;
+
+  const branches: Prisma.Sql[] = [];
+  if (params.coverage !== "serviceArea") {
+    branches.push(
+      providerCandidateSql(
+        area,
+        "located",
+        areaWhereSql(area),
+        providerWhere,
+        providerRank,
+      ),
+      outletCandidateSql(
+        area,
+        "located",
+        areaWhereSql(area),
+        outletWhere,
+        outletRank,
+      ),
+    );
+  }
+  if (servicedArea && params.coverage !== "located") {
+    branches.push(
+      providerCandidateSql(
+        area,
+        "serviceArea",
+        Prisma.sql`NOT COALESCE((${areaWhereSql(area)}), FALSE) AND ${providerServicesAreaSql(servicedArea)}`,
+        providerWhere,
+        providerRank,
+      ),
+      outletCandidateSql(
+        area,
+        "serviceArea",
+        Prisma.sql`NOT COALESCE((${areaWhereSql(area)}), FALSE) AND ${outletServicesAreaSql(servicedArea)}`,
+        outletWhere,
+        outletRank,
+      ),
+    );
+  }
+
+  return Prisma.sql`
+    candidates AS (
+      ${Prisma.join(branches, " UNION ALL ")}
+    ),
+    entity_services AS (
+      SELECT c.type, c.id, ps."serviceDefinitionId" AS "definitionId"
+      FROM candidates c
+      JOIN "ProviderService" ps ON c.type = 'provider' AND ps."providerId" = c.id
+      UNION ALL
+      SELECT c.type, c.id, pos."serviceDefinitionId" AS "definitionId"
+      FROM candidates c
+      JOIN "ProviderOutletService" pos ON c.type = 'outlet' AND pos."providerOutletId" = c.id
+    ),
+    entity_specialisations AS (
+      SELECT c.type, c.id, ps."specialisationDefinitionId" AS "definitionId"
+      FROM candidates c
+      JOIN "ProviderSpecialisation" ps ON c.type = 'provider' AND ps."providerId" = c.id
+      UNION ALL
+      SELECT c.type, c.id, pos."specialisationDefinitionId" AS "definitionId"
+      FROM candidates c
+      JOIN "ProviderOutletSpecialisation" pos ON c.type = 'outlet' AND pos."providerOutletId" = c.id
+    ),
+    entity_languages AS (
+      SELECT c.type, c.id, wl."languageDefinitionId" AS "definitionId"
+      FROM candidates c
+      JOIN "ProviderWorker" pw ON c.type = 'provider' AND pw."providerId" = c.id
+      JOIN "WorkerLanguage" wl ON wl."workerId" = pw."workerId"
+      WHERE ${activeWorkerLinkSql("pw")}
+      UNION
+      SELECT c.type, c.id, wl."languageDefinitionId" AS "definitionId"
+      FROM candidates c
+      JOIN "ProviderOutletWorker" pow ON c.type = 'outlet' AND pow."providerOutletId" = c.id
+      JOIN "WorkerLanguage" wl ON wl."workerId" = pow."workerId"
+      WHERE ${activeWorkerLinkSql("pow")}
+    )
+  `;
+}
+
+function providerCandidateSql(
+  area: SearchArea,
+  coverage: ResultCoverage,
+  areaWhere: Prisma.Sql,
+  where: Prisma.Sql,
+  rank: Prisma.Sql,
+) {
+  return Prisma.sql`
+    SELECT
+      'provider' AS type,
+      p.id,
+      p.id AS "providerId",
+      a.id AS "addressId",
+      p.name,
+      p.rating,
+      p."reviewCount",
+      ${distanceSql(area)} AS "distanceKm",
+      ${rank} AS rank,
+      ${coverage}::text AS coverage
+    FROM "Provider" p
+    JOIN "Address" a ON p."addressId" = a.id
+    WHERE p."isActive" = TRUE
+      AND ${areaWhere}
+      AND ${where}`;
+}
+
+function outletCandidateSql(
+  area: SearchArea,
+  coverage: ResultCoverage,
+  areaWhere: Prisma.Sql,
+  where: Prisma.Sql,
+  rank: Prisma.Sql,
+) {
+  return Prisma.sql`
+    SELECT
+      'outlet' AS type,
+      po.id,
+      po."providerId",
+      a.id AS "addressId",
+      po.name,
+      po.rating,
+      po."reviewCount",
+      ${distanceSql(area)} AS "distanceKm",
+      ${rank} AS rank,
+      ${coverage}::text AS coverage
+    FROM "ProviderOutlet" po
+    JOIN "Provider" parent ON po."providerId" = parent.id
+    JOIN "Address" a ON po."addressId" = a.id
+    WHERE po."isActive" = TRUE AND parent."isActive" = TRUE
+      AND ${areaWhere}
+      AND ${where}`;
+}
+
+function selectionSql(
+  table: "entity_services" | "entity_specialisations" | "entity_languages",
+  ids: string[],
+) {
+  if (ids.length === 0) return Prisma.sql`TRUE`;
+  return Prisma.sql`EXISTS (
+    SELECT 1 FROM ${Prisma.raw(table)} e
+    WHERE e.type = c.type AND e.id = c.id AND e."definitionId" IN (${Prisma.join(ids)})
+  )`;
+}
+
+/**
+ * One candidate per provider and address matching `where`: the head office
+ * when it matched, otherwise the best-ranked outlet there.
+ */
+function siteRepresentativesSql(where: Prisma.Sql) {
+  return Prisma.sql`(
+    SELECT DISTINCT ON (c."providerId", c."addressId") c.*
+    FROM candidates c
+    WHERE ${where}
+    ORDER BY c."providerId", c."addressId", (c.type = 'provider') DESC, c.rank DESC, c.id
+  ) c`;
+}
+
+function orderBySql(sort: SearchSort, hasQuery: boolean) {
+  if (sort === "rating") {
+    return Prisma.sql`c.rating DESC NULLS LAST, c."reviewCount" DESC, c."distanceKm" ASC, c.id`;
+  }
+  if (sort === "relevance" && hasQuery) {
+    return Prisma.sql`c.rank DESC, c."distanceKm" ASC, c.id`;
+  }
+  return Prisma.sql`c."distanceKm" ASC, c.name ASC, c.id`;
+}
+
+async function resultLanguages(providerIds: string[], outletIds: string[]) {
+  const branches: Prisma.Sql[] = [];
+  if (providerIds.length > 0) {
+    branches.push(Prisma.sql`
+      SELECT 'provider' AS type, pw."providerId" AS id, ld.id AS "languageId", ld.name
+      FROM "ProviderWorker" pw
+      JOIN "WorkerLanguage" wl ON wl."workerId" = pw."workerId"
+      JOIN "LanguageDefinition" ld ON ld.id = wl."languageDefinitionId"
+      WHERE pw."providerId" IN (${Prisma.join(providerIds)})
+        AND ${activeWorkerLinkSql("pw")}`);
+  }
+  if (outletIds.length > 0) {
+    branches.push(Prisma.sql`
+      SELECT 'outlet' AS type, pow."providerOutletId" AS id, ld.id AS "languageId", ld.name
+      FROM "ProviderOutletWorker" pow
+      JOIN "WorkerLanguage" wl ON wl."workerId" = pow."workerId"
+      JOIN "LanguageDefinition" ld ON ld.id = wl."languageDefinitionId"
+      WHERE pow."providerOutletId" IN (${Prisma.join(outletIds)})
+        AND ${activeWorkerLinkSql("pow")}`);
+  }
+  if (branches.length === 0) return [];
+
+  // UNION rather than UNION ALL: several workers can speak the same language.
+  return prisma.$queryRaw<LanguageRow[]>`
+    ${Prisma.join(branches, " UNION ")}
+    ORDER BY name ASC
+  `;
+}
+
+/** Each provider's sites: the head office plus outlets, one per address. */
+async function providerSites(providerIds: string[]) {
+  if (providerIds.length === 0) return new Map<string, SiteRow>();
+
+  const providers = await prisma.provider.findMany({
+    where: { id: { in: providerIds } },
+    select: {
+      id: true,
+      name: true,
+      addressId: true,
+      address: { select: { addressString: true } },
+      outlets: {
+        where: { isActive: true, addressId: { not: null } },
+        select: {
+          id: true,
+          name: true,
+          addressId: true,
+          address: { select: { addressString: true } },
+        },
+        orderBy: [{ name: "asc" }, { id: "asc" }],
+      },
+    },
+  });
+
+  const sites = new Map<string, SiteRow>();
+  for (const provider of providers) {
+    const byAddress = new Map<string, SearchResultSiteLink>([
+      [
+        provider.addressId,
+        {
+          type: "provider",
+          id: provider.id,
+          name: provider.name,
+          addressString: provider.address.addressString,
+        },
+      ],
+    ]);
+    for (const outlet of provider.outlets) {
+      if (!outlet.addressId || !outlet.address) continue;
+      if (byAddress.has(outlet.addressId)) continue;
+      byAddress.set(outlet.addressId, {
+        type: "outlet",
+        id: outlet.id,
+        name: outlet.name,
+        addressString: outlet.address.addressString,
+      });
+    }
+    sites.set(provider.id, { name: provider.name, byAddress });
+  }
+  return sites;
+}
+
+function toSite(
+  row: SearchRow,
+  sites: Map<string, SiteRow>,
+  fallbackName: string,
+): SearchResultSite {
+  const others = [...(sites.get(row.providerId)?.byAddress ?? [])]
+    .filter(([addressId]) => addressId !== row.addressId)
+    .map(([, link]) => link);
+  return {
+    providerId: row.providerId,
+    providerName: sites.get(row.providerId)?.name ?? fallbackName,
+    otherSites: others.slice(0, MAX_OTHER_SITES),
+    otherSiteCount: others.length,
+  };
+}
+
+async function hydrate(rows: SearchRow[]): Promise<ProviderSearchResult[]> {
+  const providerIds = rows
+    .filter((r) => r.type === "provider")
+    .map((r) => r.id);
+  const outletIds = rows.filter((r) => r.type === "outlet").map((r) => r.id);
+
+  const [providers, outlets, languageRows, sites] = await Promise.all([
+    providerIds.length > 0
+      ? prisma.provider.findMany({
+          where: { id: { in: providerIds } },
+          include: providerSearchInclude,
+        })
+      : Promise.resolve([]),
+    outletIds.length > 0
+      ? prisma.providerOutlet.findMany({
+          where: { id: { in: outletIds } },
+          include: providerOutletSearchInclude,
+        })
+      : Promise.resolve([]),
+    resultLanguages(providerIds, outletIds),
+    providerSites([...new Set(rows.map((r) => r.providerId))]),
+  ]);
+
+  const providersById = new Map(providers.map((p) => [p.id, p]));
+  const outletsById = new Map(outlets.map((o) => [o.id, o]));
+  const languagesByResult = new Map<string, SearchResultLanguage[]>();
+  for (const row of languageRows) {
+    const key = `${row.type}:${row.id}`;
+    const languages = languagesByResult.get(key) ?? [];
+    languages.push({ id: row.languageId, name: row.name });
+    languagesByResult.set(key, languages);
+  }
+
+  const results: ProviderSearchResult[] = [];
+  for (const row of rows) {
+    const distance = Number(row.distanceKm);
+    if (row.type === "provider") {
+      const provider = providersById.get(row.id);
+      if (provider) {
+        results.push({
+          type: "provider",
+          provider,
+          address: provider.address,
+          distanceKm: distance,
+          coverage: row.coverage,
+          languages: languagesByResult.get(`provider:${row.id}`) ?? [],
+          site: toSite(row, sites, provider.name),
+        });
+      }
+    } else {
+      const providerOutlet = outletsById.get(row.id);
+      if (providerOutlet?.address) {
+        results.push({
+          type: "outlet",
+          providerOutlet,
+          address: providerOutlet.address,
+          distanceKm: distance,
+          coverage: row.coverage,
+          languages: languagesByResult.get(`outlet:${row.id}`) ?? [],
+          site: toSite(row, sites, providerOutlet.provider.name),
+        });
+      }
+    }
+  }
+  return results;
+}
+
+function toFacets(rows: FacetRow[]): SearchFacet[] {
+  return rows.map((r) => ({ id: r.id, name: r.name, count: Number(r.count) }));
+}
+
+/**
+ * The candidate set for `params` and its service/specialisation/language
+ * selections, shared by the paged search and exports.
+ */
+async function prepareSearch(params: SearchQuery) {
+  const area = resolveSearchArea(params);
+
+  // Only "Located nearby" results need no lookup of what the point is called.
+  const servicedArea =
+    params.coverage === "located"
+      ? null
+      : await resolveSearchedArea(
+          area.centreLat,
+          area.centreLon,
+          params.postcode,
+        );
+
+  const query = await expandSearchQuery(params.q);
+  return {
+    query,
+    withCandidates: Prisma.sql`WITH ${candidatesSql(params, query, area, servicedArea)}`,
+    serviceSelection: selectionSql("entity_services", params.serviceIds),
+    specialisationSelection: selectionSql(
+      "entity_specialisations",
+      params.specialisationIds,
+    ),
+    languageSelection: selectionSql("entity_languages", params.languageIds),
+  };
+}
+
+type PreparedSearch = Awaited<ReturnType<typeof prepareSearch>>;
+
+/** One row per matching site, in `sort` order. */
+function resultRowsQuery(
+  search: PreparedSearch,
+  sort: SearchSort,
+  limit: number,
+  offset: number,
+) {
+  return prisma.$queryRaw<SearchRow[]>`
+    ${search.withCandidates}
+    SELECT c.type, c.id, c."providerId", c."addressId", c."distanceKm", c.coverage
+    FROM ${siteRepresentativesSql(
+      Prisma.sql`${search.serviceSelection} AND ${search.specialisationSelection}
+        AND ${search.languageSelection}`,
+    )}
+    ORDER BY ${orderBySql(sort, search.query.text.length > 0)}
+    LIMIT ${limit}
+    OFFSET ${offset}
+  `;
+}
+
+/** Matching sites, however many pages they span. */
+async function countResults(search: PreparedSearch) {
+  const [row] = await prisma.$queryRaw<{ total: bigint }[]>`
+    ${search.withCandidates}
+    SELECT count(DISTINCT (c."providerId", c."addressId")) AS total
+    FROM candidates c
+    WHERE ${search.serviceSelection} AND ${search.specialisationSelection}
+      AND ${search.languageSelection}
+  `;
+  return Number(row?.total ?? 0);
+}
+
+/**
+ * Paged provider + outlet search with facet counts per service, specialisation
+ * and language spoken by linked workers.
+ * Results, totals and facet counts are per site (parent provider + address).
+ * Facet counts honour every filter except the facet's own selection.
+ */
+export async function searchProviders(
+  params: SearchQuery,
+): Promise<ProviderSearchResponse> {
+  const { page, pageSize, sort } = params;
+  const search = await prepareSearch(params);
+  const {
+    query,
+    withCandidates,
+    serviceSelection,
+    specialisationSelection,
+    languageSelection,
+  } = search;
+
+  const [
+    rows,
+    total,
+    serviceFacetRows,
+    specialisationFacetRows,
+    languageFacetRows,
+  ] = await Promise.all([
+    resultRowsQuery(search, sort, pageSize, (page - 1) * pageSize),
+    countResults(search),
+    prisma.$queryRaw<FacetRow[]>`
+        ${withCandidates}
+        SELECT sd.id, sd.name, count(DISTINCT (c."providerId", c."addressId")) AS count
+        FROM candidates c
+        JOIN entity_services es ON es.type = c.type AND es.id = c.id
+        JOIN "ServiceDefinition" sd ON sd.id = es."definitionId"
+        WHERE ${specialisationSelection} AND ${languageSelection}
+        GROUP BY sd.id, sd.name
+        ORDER BY count DESC, sd.name ASC
+      `,
+    prisma.$queryRaw<FacetRow[]>`
+        ${withCandidates}
+        SELECT sd.id, sd.name, count(DISTINCT (c."providerId", c."addressId")) AS count
+        FROM candidates c
+        JOIN entity_specialisations es ON es.type = c.type AND es.id = c.id
+        JOIN "SpecialisationDefinition" sd ON sd.id = es."definitionId"
+        WHERE ${serviceSelection} AND ${languageSelection}
+        GROUP BY sd.id, sd.name
+        ORDER BY count DESC, sd.name ASC
+      `,
+    prisma.$queryRaw<FacetRow[]>`
+        ${withCandidates}
+        SELECT ld.id, ld.name, count(DISTINCT (c."providerId", c."addressId")) AS count
+        FROM candidates c
+        JOIN entity_languages el ON el.type = c.type AND el.id = c.id
+        JOIN "LanguageDefinition" ld ON ld.id = el."definitionId"
+        WHERE ${serviceSelection} AND ${specialisationSelection}
+        GROUP BY ld.id, ld.name
+        ORDER BY count DESC, ld.name ASC
+      `,
+  ]);
+
+  const didYouMean =
+    total === 0 && query.text
+      ? await suggestCorrection(query.text, query.expandedTerms).catch(
+          (error) => {
+            console.error("provider-finder search didYouMean:", error);
+            return null;
+          },
+        )
+      : null;
+
+  return {
+    items: await hydrate(rows),
+    total,
+    page,
+    pageSize,
+    totalPages: Math.max(1, Math.ceil(total / pageSize)),
+    facets: {
+      services: toFacets(serviceFacetRows),
+      specialisations: toFacets(specialisationFacetRows),
+      languages: toFacets(languageFacetRows),
+    },
+    didYouMean,
+  };
+}
+
+/**
+ * The first `limit` results for `params` in one query, ignoring its page and
+ * size, with the full total. No facets or spelling suggestions.
+ */
+export async function listSearchResults(params: SearchQuery, limit: number) {
+  const search = await prepareSearch(params);
+  const [rows, total] = await Promise.all([
+    resultRowsQuery(search, params.sort, limit, 0),
+    countResults(search),
+  ]);
+  return { items: await hydrate(rows), total };
+}
@@ -0,0 +1,261 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { createTtlCache } from "@/lib/ttlCache";
+
+import { getSessionUserId } from "./provider-admin";
+
+/**
+ * Token bucket rate limiting for the public finder APIs. Every request takes
+ * a token from its IP address's bucket and, when signed in, from the user's
+ * too, so neither signing in nor switching addresses lifts the limit.
+ * Buckets live in memory unless `RATE_LIMIT_STORE=database`, which shares
+ * them between server instances.
+ */
+
+export type RateLimitRule = {
+  /** Tokens in a full bucket: the burst a client can make at once. */
+  capacity: number;
+  /** Tokens added back per second, up to `capacity`. */
+  refillPerSecond: number;
+};
+
+/** Per route; each request takes one token. */
+export const RATE_LIMITS = {
+  // A request per keystroke, so bursts are expected.
+  autocomplete: { capacity: 30, refillPerSecond: 2 },
+  // The heaviest query: a page of up to 50 results with facet counts.
+  finderSearch: { capacity: 20, refillPerSecond: 0.5 },
+  // Refetched as the map pans while zoomed out.
+  finderClusters: { capacity: 60, refillPerSecond: 2 },
+  providerNearby: { capacity: 20, refillPerSecond: 0.5 },
+  // A dozen or so tiles per viewport, most of them from the browser cache.
+  nearbyTiles: { capacity: 120, refillPerSecond: 4 },
+  placesNearby: { capacity: 20, refillPerSecond: 0.5 },
+  // Gazetteer lookups run in memory; typed location entry is per keystroke.
+  placesSearch: { capacity: 30, refillPerSecond: 2 },
+  placesReverse: { capacity: 20, refillPerSecond: 0.5 },
+  // GeoJSON / vector tile feed for partner maps.
+  providerFeatures: { capacity: 120, refillPerSecond: 4 },
+  // CSV exports and printed reports: up to 500 rows each.
+  finderExport: { capacity: 5, refillPerSecond: 1 / 60 },
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitName = keyof typeof RATE_LIMITS;
+
+type Bucket = { tokens: number; updatedAt: number };
+
+export type RateLimitResult = {
+  allowed: boolean;
+  remaining: number;
+  /** Until the next token, when not allowed. */
+  retryAfterMs: number;
+};
+
+export type RateLimitStore = {
+  take(key: string, rule: RateLimitRule): Promise<RateLimitResult>;
+};
+
+/** Time for an empty bucket to fill, after which it can be forgotten. */
+function fullAfterMs(rule: RateLimitRule) {
+  return Math.ceil((rule.capacity / rule.refillPerSecond) * 1000);
+}
+
+/** Refills `bucket` up to `now` and takes a token if there is one. */
+function takeToken(
+  bucket: Bucket | undefined,
+  rule: RateLimitRule,
+  now: number,
+): { bucket: Bucket; result: RateLimitResult } {
+  const elapsedSeconds = bucket
+    ? Math.max(0, now - bucket.updatedAt) / 1000
+    : 0;
+  const tokens = bucket
+    ? Math.min(
+        rule.capacity,
+        bucket.tokens + elapsedSeconds * rule.refillPerSecond,
+      )
+    : rule.capacity;
+
+  if (tokens >= 1) {
+    return {
+      bucket: { tokens: tokens - 1, updatedAt: now },
+      result: {
+        allowed: true,
+        remaining: Math.floor(tokens - 1),
+        retryAfterMs: 0,
+      },
+    };
+  }
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: {
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: Math.ceil(((1 - tokens) / rule.refillPerSecond) * 1000),
+    },
+  };
+}
+
+/** Buckets for this server instance only; the least recently used are dropped. */
+export function createMemoryRateLimitStore(
+  maxEntries = 10_000,
+): RateLimitStore {
+  const buckets = createTtlCache<Bucket>({
+    ttlMs: 60 * 60 * 1000,
+    maxEntries,
+  });
+
+  return {
+    async take(key, rule) {
+      const { bucket, result } = takeToken(buckets.get(key), rule, Date.now());
+      buckets.set(key, bucket, fullAfterMs(rule));
+      return result;
+    },
+  };
+}
+
+/** Share of takes that also delete expired buckets. */
+const PRUNE_PROBABILITY = 0.01;
+
+/** Buckets in the `RateLimitBucket` table, locked per key while taking. */
+export function createDatabaseRateLimitStore(): RateLimitStore {
+  return {
+    async take(key, rule) {
+      const now = Date.now();
+      const result = await prisma.$transaction(async (tx) => {
+        const [row] = await tx.$queryRaw<{ tokens: number; updatedAt: Date }[]>`
+          SELECT tokens, "updatedAt" FROM "RateLimitBucket"
+          WHERE key = ${key}
+          FOR UPDATE
+        `;
+        const taken = takeToken(
+          row
+            ? { tokens: row.tokens, updatedAt: row.updatedAt.getTime() }
+            : undefined,
+          rule,
+          now,
+        );
+        const data = {
+          tokens: taken.bucket.tokens,
+          updatedAt: new Date(now),
+          expiresAt: new Date(now + fullAfterMs(rule)),
+        };
+        await tx.rateLimitBucket.upsert({
+          where: { key },
+          create: { key, ...data },
+          update: data,
+        });
+        return taken.result;
+      });
+
+      if (Math.random() < PRUNE_PROBABILITY) {
+        prisma.rateLimitBucket
+          .deleteMany({ where: { expiresAt: { lt: new Date(now) } } })
+          .catch((error) => console.error("rate limit prune:", error));
+      }
+      return result;
+    },
+  };
+}
+
+let store: RateLimitStore | null = null;
+
+function getStore(): RateLimitStore {
+  store ??=
+    process.env.RATE_LIMIT_STORE === "database"
+      ? createDatabaseRateLimitStore()
+      : createMemoryRateLimitStore();
+  return store;
+}
+
+/** Replaces the store picked from `RATE_LIMIT_STORE`, e.g. with a shared cache. */
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+/**
+ * The client's address, or null when it can't be trusted. Clients can send
+ * any `x-forwarded-for`, so only the entries appended by our own proxies
+ * count: with `TRUSTED_PROXY_HOPS=n` it's the n-th from the right. Otherwise
+ * the platform proxy's `x-real-ip`.
+ */
+function clientIp(headers: Headers) {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS);
+  if (Number.isInteger(hops) && hops > 0) {
+    const forwarded = (headers.get("x-forwarded-for") ?? "")
+      .split(",")
+      .map((ip) => ip.trim())
+      .filter(Boolean);
+    return forwarded[forwarded.length - hops] ?? null;
+  }
+  return headers.get("x-real-ip")?.trim() || null;
+}
+
+let warnedNoClientIp = false;
+
+/**
+ * Takes a token for the request with `headers` from the `name` route's
+ * buckets; not allowed when either is empty. Without a client IP only the
+ * signed-in user's bucket applies, since one shared bucket would let a single
+ * client lock everyone out. Null when there's no bucket to take from or the
+ * store fails, which lets the request through rather than taking the API down.
+ */
+export async function takeRateLimitToken(
+  name: RateLimitName,
+  headers: Headers,
+): Promise<RateLimitResult | null> {
+  try {
+    const userId = await getSessionUserId().catch(() => null);
+    const ip = clientIp(headers);
+    if (!ip && !warnedNoClientIp) {
+      warnedNoClientIp = true;
+      console.error(
+        "rate limit: no client IP (set x-real-ip at the proxy or TRUSTED_PROXY_HOPS); anonymous requests aren't limited",
+      );
+    }
+
+    const keys: string[] = [];
+    if (ip) keys.push(`${name}:ip:${ip}`);
+    if (userId) keys.push(`${name}:user:${userId}`);
+    if (keys.length === 0) return null;
+
+    const results = await Promise.all(
+      keys.map((key) => getStore().take(key, RATE_LIMITS[name])),
+    );
+    return results.reduce((a, b) => ({
+      allowed: a.allowed && b.allowed,
+      remaining: Math.min(a.remaining, b.remaining),
+      retryAfterMs: Math.max(a.retryAfterMs, b.retryAfterMs),
+    }));
+  } catch (error) {
+    console.error(`rate limit ${name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * `takeRateLimitToken` for an API route: a 429 with `Retry-After` (whole
+ * seconds) when limited, otherwise null.
+ */
+export async function rateLimit(
+  req: NextRequest,
+  name: RateLimitName,
+): Promise<NextResponse<{ error: string }> | null> {
+  const result = await takeRateLimitToken(name, req.headers);
+  if (!result || result.allowed) return null;
+
+  return NextResponse.json(
+    { error: "Too many requests. Please try again shortly." },
+    {
+      status: 429,
+      headers: {
+        "Retry-After": String(
+          Math.max(1, Math.ceil(result.retryAfterMs / 1000)),
+        ),
+        "RateLimit-Limit": String(RATE_LIMITS[name].capacity),
+        "RateLimit-Remaining": String(result.remaining),
+      },
+    },
+  );
+}
@@ -0,0 +1,160 @@
+import type { SavedSearchFrequency } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { API_ROUTES, ROUTES } from "@/lib/routes";
+import { sendEmail } from "@/lib/sendGrid";
+import type { SavedSearchParams } from "@/schemas/saved-searches.types";
+
+import {
+  filterNewSavedSearchMatches,
+  findSavedSearchMatches,
+  recordSavedSearchMatches,
+  type SavedSearchMatchResult,
+} from "./saved-searches";
+
+/**
+ * Emails each due saved search's new matches. Run from the cron route; safe to
+ * run more often than daily since each search tracks `lastCheckedAt`.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FREQUENCY_MS: Record<SavedSearchFrequency, number> = {
+  DAILY: DAY_MS,
+  WEEKLY: 7 * DAY_MS,
+};
+/** Slack so a daily cron that runs a few minutes early still picks it up. */
+const DUE_SLACK_MS = 60 * 60 * 1000;
+const MAX_LISTED_MATCHES = 20;
+
+export type DigestRunSummary = {
+  checked: number;
+  emailed: number;
+  failed: number;
+};
+
+function siteOrigin() {
+  return process.env.NEXT_PUBLIC_ORIGIN ?? "https://www.mapable.com.au";
+}
+
+function entityUrl(match: SavedSearchMatchResult) {
+  const path =
+    match.entityType === "provider"
+      ? `/provider/${encodeURIComponent(match.entityId)}`
+      : `/provider-outlet/${encodeURIComponent(match.entityId)}`;
+  return `${siteOrigin()}${path}`;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function renderDigestEmail({
+  searchName,
+  recipientName,
+  matches,
+  unsubscribeUrl,
+}: {
+  searchName: string;
+  recipientName: string;
+  matches: SavedSearchMatchResult[];
+  unsubscribeUrl: string;
+}) {
+  const listed = matches.slice(0, MAX_LISTED_MATCHES);
+  const more = matches.length - listed.length;
+  const subject = `${matches.length} new ${matches.length === 1 ? "provider" : "providers"} for "${searchName}"`;
+
+  const lines = listed.map(
+    (m) =>
+      `- ${m.name} (${m.distanceKm.toFixed(1)} km, ${m.addressString})\n  ${entityUrl(m)}`,
+  );
+  const text = [
+    `Hi ${recipientName},`,
+    "",
+    `New providers match your saved search "${searchName}":`,
+    "",
+    ...lines,
+    ...(more > 0 ? ["", `…and ${more} more.`] : []),
+    "",
+    `Stop these emails: ${unsubscribeUrl}`,
+  ].join("\n");
+
+  const html = `
+<p>Hi ${escapeHtml(recipientName)},</p>
+<p>New providers match your saved search <strong>${escapeHtml(searchName)}</strong>:</p>
+<ul>
+${listed
+  .map(
+    (m) =>
+      `  <li><a href="${escapeHtml(entityUrl(m))}">${escapeHtml(m.name)}</a> &middot; ${m.distanceKm.toFixed(1)} km &middot; ${escapeHtml(m.addressString)}</li>`,
+  )
+  .join("\n")}
+</ul>
+${more > 0 ? `<p>…and ${more} more.</p>` : ""}
+<p style="font-size:12px;color:#666"><a href="${escapeHtml(unsubscribeUrl)}">Unsubscribe</a> from emails for this search.</p>
+`.trim();
+
+  return { subject, text, html };
+}
+
+export async function runSavedSearchDigests(
+  now = new Date(),
+): Promise<DigestRunSummary> {
+  const candidates = await prisma.savedSearch.findMany({
+    where: { emailAlerts: true },
+    include: { user: { select: { email: true, name: true } } },
+    orderBy: { lastCheckedAt: { sort: "asc", nulls: "first" } },
+  });
+  const due = candidates.filter(
+    (s) =>
+      !s.lastCheckedAt ||
+      now.getTime() - s.lastCheckedAt.getTime() >=
+        FREQUENCY_MS[s.frequency] - DUE_SLACK_MS,
+  );
+
+  const summary: DigestRunSummary = { checked: 0, emailed: 0, failed: 0 };
+
+  for (const savedSearch of due) {
+    try {
+      const fresh = await filterNewSavedSearchMatches(
+        savedSearch.id,
+        await findSavedSearchMatches(savedSearch.params as SavedSearchParams),
+      );
+
+      if (fresh.length > 0) {
+        const unsubscribeUrl = `${siteOrigin()}${ROUTES.savedSearchUnsubscribe(savedSearch.unsubscribeToken)}`;
+        const oneClickUrl = `${siteOrigin()}${API_ROUTES.savedSearches.unsubscribe(savedSearch.unsubscribeToken)}`;
+        await sendEmail({
+          to: savedSearch.user.email,
+          ...renderDigestEmail({
+            searchName: savedSearch.name,
+            recipientName: savedSearch.user.name,
+            matches: fresh,
+            unsubscribeUrl,
+          }),
+          headers: {
+            "List-Unsubscribe": `<${oneClickUrl}>`,
+            "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+          },
+        });
+        summary.emailed++;
+      }
+
+      // Only after the email went out, so a failed send is retried next run.
+      await recordSavedSearchMatches(savedSearch.id, fresh);
+      await prisma.savedSearch.update({
+        where: { id: savedSearch.id },
+        data: { lastCheckedAt: now },
+      });
+      summary.checked++;
+    } catch (error) {
+      summary.failed++;
+      console.error(`saved search digest ${savedSearch.id}:`, error);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,174 @@
+import type { Prisma, SavedSearch } from "@prisma/client";
+import { after } from "next/server";
+
+import { generateVerificationToken } from "@/lib/claim-verify";
+import { prisma } from "@/lib/prisma";
+import { searchQuerySchema } from "@/schemas/provider-finder.types";
+import type {
+  SavedSearchItem,
+  SavedSearchParams,
+} from "@/schemas/saved-searches.types";
+
+import { listSearchResults } from "./provider-finder-search";
+
+/** Query params worth saving; paging and sort are per visit. */
+export const SAVED_SEARCH_PARAM_KEYS = [
+  "q",
+  "lat",
+  "lon",
+  "radiusKm",
+  "minLat",
+  "maxLat",
+  "minLon",
+  "maxLon",
+  "postcode",
+  "coverage",
+  "serviceIds",
+  "specialisationIds",
+  "languageIds",
+  "registeredOnly",
+  "accessibilityFeatures",
+  "openNow",
+  "openWeekends",
+  "openAfter",
+] as const;
+
+const MATCH_PAGE_SIZE = 50;
+/** Caps one run; broader searches only track the nearest. */
+const MAX_MATCHES = 500;
+
+export type SavedSearchMatchResult = {
+  entityType: "provider" | "outlet";
+  entityId: string;
+  name: string;
+  addressString: string;
+  distanceKm: number;
+};
+
+/** Drops unknown keys and empty values. */
+export function pickSavedSearchParams(
+  params: SavedSearchParams,
+): SavedSearchParams {
+  const picked: SavedSearchParams = {};
+  for (const key of SAVED_SEARCH_PARAM_KEYS) {
+    const value = params[key]?.trim();
+    if (value) picked[key] = value;
+  }
+  return picked;
+}
+
+export function parseSavedSearchParams(params: SavedSearchParams) {
+  return searchQuerySchema.safeParse({
+    ...pickSavedSearchParams(params),
+    sort: "distance",
+    pageSize: String(MATCH_PAGE_SIZE),
+  });
+}
+
+export function toSavedSearchItem(row: SavedSearch): SavedSearchItem {
+  return {
+    id: row.id,
+    name: row.name,
+    params: row.params as SavedSearchParams,
+    emailAlerts: row.emailAlerts,
+    frequency: row.frequency,
+    lastCheckedAt: row.lastCheckedAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export async function listSavedSearches(userId: string) {
+  const rows = await prisma.savedSearch.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+  });
+  return rows.map(toSavedSearchItem);
+}
+
+/**
+ * Active providers and outlets the saved search matches right now, nearest
+ * first. Inactive listings are left out so they count as new once activated.
+ */
+export async function findSavedSearchMatches(
+  params: SavedSearchParams,
+): Promise<SavedSearchMatchResult[]> {
+  const parsed = parseSavedSearchParams(params);
+  if (!parsed.success) return [];
+
+  const { items } = await listSearchResults(parsed.data, MAX_MATCHES);
+  return items.map((item) => {
+    const entity =
+      item.type === "provider" ? item.provider : item.providerOutlet;
+    return {
+      entityType: item.type,
+      entityId: entity.id,
+      name: entity.name,
+      addressString: item.address.addressString,
+      distanceKm: item.distanceKm,
+    };
+  });
+}
+
+/** Matches the saved search has not seen before. */
+export async function filterNewSavedSearchMatches(
+  savedSearchId: string,
+  matches: SavedSearchMatchResult[],
+): Promise<SavedSearchMatchResult[]> {
+  if (matches.length === 0) return [];
+
+  const known = await prisma.savedSearchMatch.findMany({
+    where: { savedSearchId },
+    select: { entityType: true, entityId: true },
+  });
+  const knownKeys = new Set(known.map((m) => `${m.entityType}:${m.entityId}`));
+  return matches.filter((m) => !knownKeys.has(`${m.entityType}:${m.entityId}`));
+}
+
+/** Marks matches as seen so later digests skip them. */
+export async function recordSavedSearchMatches(
+  savedSearchId: string,
+  matches: SavedSearchMatchResult[],
+) {
+  if (matches.length === 0) return;
+  await prisma.savedSearchMatch.createMany({
+    data: matches.map((m) => ({
+      savedSearchId,
+      entityType: m.entityType,
+      entityId: m.entityId,
+    })),
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Saves a search and, once the response is sent, records what it matches
+ * today so the first digest only lists providers that appear afterwards.
+ */
+export async function createSavedSearch(
+  userId: string,
+  data: Omit<
+    Prisma.SavedSearchUncheckedCreateInput,
+    "userId" | "unsubscribeToken" | "params"
+  > & { params: SavedSearchParams },
+) {
+  const savedSearch = await prisma.savedSearch.create({
+    data: {
+      ...data,
+      params: pickSavedSearchParams(data.params),
+      userId,
+      unsubscribeToken: generateVerificationToken(),
+      lastCheckedAt: new Date(),
+    },
+  });
+  after(async () => {
+    try {
+      await recordSavedSearchMatches(
+        savedSearch.id,
+        await findSavedSearchMatches(data.params),
+      );
+    } catch (error) {
+      console.error("saved search snapshot:", error);
+    }
+  });
+  return savedSearch;
+}
@@ -0,0 +1,187 @@
+import { randomUUID } from "node:crypto";
+
+import { Prisma, type SearchLogSource } from "@prisma/client";
+import { after } from "next/server";
+
+import { encodeGeohash } from "@/lib/geohash";
+import { prisma } from "@/lib/prisma";
+import type {
+  ClickThroughRow,
+  SearchAnalyticsReport,
+  SearchClickPayload,
+  SearchQueryRow,
+  ZeroResultQueryRow,
+} from "@/schemas/search-analytics.types";
+
+/**
+ * Anonymised search logging for the search analytics report: what people
+ * search for, what finds nothing and which results get clicked. Logs hold the
+ * normalised query, filters and a coarse area only.
+ */
+
+/** ~156 x 156 km; enough to tell regions apart, not to locate anyone. */
+const AREA_GEOHASH_PRECISION = 3;
+const MAX_QUERY_LENGTH = 200;
+const REPORT_ROWS = 50;
+/** Click-through is reported for the first this many positions. */
+const REPORTED_POSITIONS = 10;
+
+export type SearchLogEntry = {
+  source: SearchLogSource;
+  query: string;
+  filters?: Record<string, unknown>;
+  latitude?: number;
+  longitude?: number;
+  resultCount: number;
+  latencyMs: number;
+  fallback?: boolean;
+};
+
+/**
+ * Lowercased and whitespace-collapsed, with anything that looks like an email
+ * address or phone number replaced so people's details aren't stored.
+ */
+export function normaliseSearchQuery(query: string) {
+  return query
+    .toLowerCase()
+    .replace(/\S+@\S+/g, "[email]")
+    .replace(/\+?\d[\d\s-]{6,}\d/g, "[number]")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_QUERY_LENGTH);
+}
+
+/**
+ * Records a search after the response is sent and returns its id, which the
+ * client sends back with a click. Logging failures are reported, not thrown.
+ */
+export function logSearch(entry: SearchLogEntry): string {
+  const id = randomUUID();
+  const area =
+    entry.latitude !== undefined && entry.longitude !== undefined
+      ? encodeGeohash(entry.latitude, entry.longitude, AREA_GEOHASH_PRECISION)
+      : null;
+
+  after(async () => {
+    try {
+      await prisma.searchQueryLog.create({
+        data: {
+          id,
+          source: entry.source,
+          query: normaliseSearchQuery(entry.query),
+          filters: (entry.filters ?? {}) as Prisma.InputJsonObject,
+          area,
+          resultCount: entry.resultCount,
+          latencyMs: Math.round(entry.latencyMs),
+          fallback: entry.fallback ?? false,
+        },
+      });
+    } catch (error) {
+      console.error("search analytics log:", error);
+    }
+  });
+
+  return id;
+}
+
+/** Stores the first click for a logged search; later clicks are ignored. */
+export async function recordSearchClick(click: SearchClickPayload) {
+  await prisma.searchQueryLog.updateMany({
+    where: { id: click.searchId, clickedAt: null },
+    data: {
+      clickedPosition: click.position,
+      clickedEntityType: click.entityType,
+      clickedEntityId: click.entityId,
+      clickedAt: new Date(),
+    },
+  });
+}
+
+function reportWhere(since: Date, source: SearchLogSource | null) {
+  return Prisma.sql`l."createdAt" >= ${since} ${
+    source
+      ? Prisma.sql`AND l.source = ${source}::"SearchLogSource"`
+      : Prisma.empty
+  }`;
+}
+
+/** Top and zero-result queries and click-through by position since `since`. */
+export async function getSearchAnalyticsReport({
+  since,
+  source,
+}: {
+  since: Date;
+  source: SearchLogSource | null;
+}): Promise<SearchAnalyticsReport> {
+  const where = reportWhere(since, source);
+
+  const [[summary], topQueries, zeroResultQueries, clickThrough] =
+    await Promise.all([
+      prisma.$queryRaw<SearchAnalyticsReport["summary"][]>`
+        SELECT
+          count(*)::int AS searches,
+          count(*) FILTER (WHERE l."resultCount" = 0)::int AS "zeroResults",
+          count(l."clickedAt")::int AS clicks,
+          COALESCE(percentile_cont(0.5) WITHIN GROUP (ORDER BY l."latencyMs"), 0)::float AS "p50LatencyMs",
+          COALESCE(percentile_cont(0.95) WITHIN GROUP (ORDER BY l."latencyMs"), 0)::float AS "p95LatencyMs",
+          count(*) FILTER (WHERE l.fallback)::int AS fallbacks
+        FROM "SearchQueryLog" l
+        WHERE ${where}
+      `,
+      prisma.$queryRaw<SearchQueryRow[]>`
+        SELECT
+          l.query,
+          count(*)::int AS searches,
+          avg(l."resultCount")::float AS "avgResults",
+          count(*) FILTER (WHERE l."resultCount" = 0)::int AS "zeroResults",
+          count(l."clickedAt")::int AS clicks
+        FROM "SearchQueryLog" l
+        WHERE ${where} AND l.query <> ''
+        GROUP BY l.query
+        ORDER BY searches DESC, l.query ASC
+        LIMIT ${REPORT_ROWS}
+      `,
+      // Timeouts served popular providers, so they aren't catalogue gaps.
+      prisma.$queryRaw<ZeroResultQueryRow[]>`
+        SELECT
+          l.query,
+          count(*)::int AS searches,
+          max(l."createdAt") AS "lastSearchedAt",
+          count(DISTINCT l.area)::int AS areas
+        FROM "SearchQueryLog" l
+        WHERE ${where} AND l."resultCount" = 0 AND NOT l.fallback
+        GROUP BY l.query
+        ORDER BY searches DESC, "lastSearchedAt" DESC
+        LIMIT ${REPORT_ROWS}
+      `,
+      // A position counts as shown when the search returned at least that many results.
+      prisma.$queryRaw<ClickThroughRow[]>`
+        SELECT
+          p.position::int AS position,
+          count(*) FILTER (WHERE l."resultCount" >= p.position)::int AS impressions,
+          count(*) FILTER (WHERE l."clickedPosition" = p.position)::int AS clicks
+        FROM generate_series(1, ${REPORTED_POSITIONS}) AS p(position)
+        CROSS JOIN "SearchQueryLog" l
+        WHERE ${where}
+        GROUP BY p.position
+        ORDER BY p.position
+      `,
+    ]);
+
+  return {
+    summary: summary ?? {
+      searches: 0,
+      zeroResults: 0,
+      clicks: 0,
+      p50LatencyMs: 0,
+      p95LatencyMs: 0,
+      fallbacks: 0,
+    },
+    topQueries,
+    zeroResultQueries: zeroResultQueries.map((row) => ({
+      ...row,
+      lastSearchedAt: new Date(row.lastSearchedAt).toISOString(),
+    })),
+    clickThrough,
+  };
+}
@@ -0,0 +1,130 @@
+import { Prisma, type SearchSynonym } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import type { SearchSynonymItem } from "@/schemas/search-synonyms.types";
+
+/**
+ * Query expansion for NDIS jargon ("OT", "SIL", "SDA"...). Every dictionary
+ * term found in the query adds a variant with the term replaced by one of its
+ * expansions; text matching ORs the variants, so "OT near me" also searches
+ * "occupational therapy".
+ */
+
+const DICTIONARY_TTL_MS = 60_000;
+const MAX_VARIANTS = 8;
+
+/** "near me" and friends; results are already scoped to the map/location. */
+const LOCATION_FILLER_RE =
+  /\b(?:(?:near|close to|around)\s+(?:me|here)|nearby|in my area)\b/gi;
+
+export type SynonymEntry = Pick<
+  SearchSynonym,
+  "term" | "expansions" | "matchCase"
+>;
+
+let cachedDictionary: { entries: SynonymEntry[]; expiresAt: number } | null =
+  null;
+
+export async function getSynonymDictionary(): Promise<SynonymEntry[]> {
+  if (cachedDictionary && cachedDictionary.expiresAt > Date.now()) {
+    return cachedDictionary.entries;
+  }
+
+  const entries = await prisma.searchSynonym.findMany({
+    select: { term: true, expansions: true, matchCase: true },
+  });
+  cachedDictionary = { entries, expiresAt: Date.now() + DICTIONARY_TTL_MS };
+  return entries;
+}
+
+/** Drops this instance's cached dictionary after an admin edit. */
+export function invalidateSynonymDictionary() {
+  cachedDictionary = null;
+}
+
+export function toSearchSynonymItem(row: SearchSynonym): SearchSynonymItem {
+  return {
+    id: row.id,
+    term: row.term,
+    expansions: row.expansions,
+    matchCase: row.matchCase,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/** The full dictionary for the admin editor, alphabetical. */
+export async function listSearchSynonyms(): Promise<SearchSynonymItem[]> {
+  const rows = await prisma.searchSynonym.findMany({
+    orderBy: { term: "asc" },
+  });
+  return rows.map(toSearchSynonymItem);
+}
+
+export type ExpandedQuery = {
+  /** The query without location filler; empty means no text filter. */
+  text: string;
+  /** `text` first, then one variant per expansion. */
+  variants: string[];
+  /** Dictionary terms found in the query. */
+  expandedTerms: string[];
+};
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Whole-word match for a term; `matchCase` terms only match in capitals. */
+function termPattern(entry: SynonymEntry) {
+  const term = entry.matchCase ? entry.term.toUpperCase() : entry.term;
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`,
+    entry.matchCase ? "gu" : "giu",
+  );
+}
+
+export function expandQuery(
+  query: string,
+  dictionary: SynonymEntry[],
+): ExpandedQuery {
+  const text = query
+    .replace(LOCATION_FILLER_RE, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!text) return { text, variants: [], expandedTerms: [] };
+
+  const variants = [text];
+  const expandedTerms: string[] = [];
+
+  for (const entry of dictionary) {
+    const pattern = termPattern(entry);
+    if (text.search(pattern) === -1) continue;
+
+    expandedTerms.push(entry.term);
+    for (const expansion of entry.expansions) {
+      if (variants.length >= MAX_VARIANTS) break;
+      variants.push(text.replace(pattern, expansion));
+    }
+  }
+
+  return { text, variants, expandedTerms };
+}
+
+export async function expandSearchQuery(query: string): Promise<ExpandedQuery> {
+  if (!query.trim()) return { text: "", variants: [], expandedTerms: [] };
+  return expandQuery(query, await getSynonymDictionary());
+}
+
+/** `websearch_to_tsquery` of every variant, OR'd. Needs a non-empty query. */
+export function variantsTsQuerySql(query: ExpandedQuery) {
+  return Prisma.sql`(${Prisma.join(
+    query.variants.map(
+      (variant) => Prisma.sql`websearch_to_tsquery('english', ${variant})`,
+    ),
+    " || ",
+  )})`;
+}
+
+/** The variants as `text[]`, for `name % ANY(...)`. Needs a non-empty query. */
+export function variantsArraySql(query: ExpandedQuery) {
+  return Prisma.sql`ARRAY[${Prisma.join(query.variants)}]::text[]`;
+}
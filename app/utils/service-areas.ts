@@ -0,0 +1,142 @@
+import { Prisma } from "@prisma/client";
+
+import { reverseGeocode } from "@/lib/gazetteer";
+import { STATE_CODES_BY_NAME } from "@/lib/openingHours";
+import { prisma } from "@/lib/prisma";
+
+import { earthDistanceKmSql, withinRadiusSql } from "./geo-search";
+
+/**
+ * "Services your area" matching. Mobile providers declare where they work via
+ * `serviceAreas` (free text: suburbs, postcodes or a whole state) and service
+ * locations (addresses); either can cover a searched point regardless of where
+ * the office is.
+ */
+
+/** A declared service location covers points within this distance of it. */
+export const SERVICE_LOCATION_RADIUS_KM = 10;
+/** How far to look for an address to name the searched point's suburb/postcode. */
+const AREA_LOOKUP_RADIUS_KM = 5;
+
+/** The point being searched and the names it's known by. */
+export type SearchedArea = {
+  lat: number;
+  lon: number;
+  suburb: string | null;
+  postcode: string | null;
+  state: string | null;
+};
+
+/**
+ * Names the searched point from the closest known address, falling back to
+ * the gazetteer. An explicit `postcode` wins over the one found nearby.
+ */
+export async function resolveSearchedArea(
+  lat: number,
+  lon: number,
+  postcode?: string,
+): Promise<SearchedArea> {
+  const [nearest] = await prisma.$queryRaw<
+    { suburb: string | null; postcode: string | null; state: string | null }[]
+  >`
+    SELECT a.suburb, a.postcode, a.state
+    FROM "Address" a
+    WHERE ${withinRadiusSql(lat, lon, AREA_LOOKUP_RADIUS_KM)}
+      AND (a.suburb IS NOT NULL OR a.postcode IS NOT NULL)
+    ORDER BY ${earthDistanceKmSql(lat, lon)} ASC
+    LIMIT 1
+  `;
+
+  // No listed address nearby (e.g. a typed suburb with no providers yet).
+  const named = nearest ?? reverseGeocode(lat, lon, AREA_LOOKUP_RADIUS_KM);
+
+  return {
+    lat,
+    lon,
+    suburb: named?.suburb ?? null,
+    postcode: postcode ?? named?.postcode ?? null,
+    state: named?.state ?? null,
+  };
+}
+
+function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Suburb and postcode match as whole words anywhere in an entry
+ * ("Parramatta NSW 2150"); a state only matches an entry that is just the state.
+ */
+function serviceAreasMatchSql(column: Prisma.Sql, area: SearchedArea) {
+  const wordPatterns = [area.suburb, area.postcode]
+    .filter((v): v is string => Boolean(v?.trim()))
+    .map((v) => `\\m${escapeRegex(v.trim().toLowerCase())}\\M`);
+
+  const state = area.state?.trim().toUpperCase() ?? "";
+  const stateCode = STATE_CODES_BY_NAME[state] ?? state;
+  const stateNames = stateCode
+    ? [
+        stateCode,
+        ...Object.keys(STATE_CODES_BY_NAME).filter(
+          (name) => STATE_CODES_BY_NAME[name] === stateCode,
+        ),
+      ].map((name) => name.toLowerCase())
+    : [];
+
+  const conditions = [
+    ...(wordPatterns.length > 0
+      ? [Prisma.sql`lower(sa) ~ ANY(${wordPatterns}::text[])`]
+      : []),
+    ...(stateNames.length > 0
+      ? [Prisma.sql`lower(trim(sa)) = ANY(${stateNames}::text[])`]
+      : []),
+  ];
+  if (conditions.length === 0) return Prisma.sql`FALSE`;
+
+  return Prisma.sql`EXISTS (
+    SELECT 1 FROM unnest(${column}) sa
+    WHERE ${Prisma.join(conditions, " OR ")}
+  )`;
+}
+
+function serviceLocationMatchSql(area: SearchedArea) {
+  const radiusM = SERVICE_LOCATION_RADIUS_KM * 1000;
+  const samePostcode = area.postcode
+    ? Prisma.sql`sla.postcode = ${area.postcode} OR`
+    : Prisma.empty;
+
+  return Prisma.sql`(
+    ${samePostcode}
+    (
+      sla.latitude IS NOT NULL
+      AND sla.longitude IS NOT NULL
+      AND earth_distance(ll_to_earth(${area.lat}, ${area.lon}), ll_to_earth(sla.latitude, sla.longitude)) <= ${radiusM}
+    )
+  )`;
+}
+
+/** Provider `p` declares a service area or service location covering `area`. */
+export function providerServicesAreaSql(area: SearchedArea) {
+  return Prisma.sql`(
+    ${serviceAreasMatchSql(Prisma.sql`p."serviceAreas"`, area)}
+    OR EXISTS (
+      SELECT 1
+      FROM "ProviderServiceLocation" psl
+      JOIN "Address" sla ON sla.id = psl."addressId"
+      WHERE psl."providerId" = p.id AND ${serviceLocationMatchSql(area)}
+    )
+  )`;
+}
+
+/** Outlet `po` declares a service area or service location covering `area`. */
+export function outletServicesAreaSql(area: SearchedArea) {
+  return Prisma.sql`(
+    ${serviceAreasMatchSql(Prisma.sql`po."serviceAreas"`, area)}
+    OR EXISTS (
+      SELECT 1
+      FROM "ProviderOutletServiceLocation" posl
+      JOIN "Address" sla ON sla.id = posl."addressId"
+      WHERE posl."providerOutletId" = po.id AND ${serviceLocationMatchSql(area)}
+    )
+  )`;
+}
@@ -0,0 +1,212 @@
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import type {
+  ShortlistEntityType,
+  ShortlistEntryItem,
+} from "@/schemas/shortlist.types";
+
+/**
+ * Per-account shortlist of providers, outlets and workers with private notes.
+ * Signed-out visitors keep theirs in localStorage until they sign in, when it
+ * is merged in with `mergeShortlist`.
+ */
+
+export const MAX_SHORTLIST_ENTRIES = 200;
+
+/** The `ShortlistEntry` column holding each entity type's id. */
+const ENTITY_COLUMNS = {
+  provider: "providerId",
+  outlet: "providerOutletId",
+  worker: "workerId",
+} as const satisfies Record<
+  ShortlistEntityType,
+  keyof Prisma.ShortlistEntryUncheckedCreateInput
+>;
+
+const addressSelect = {
+  select: { addressString: true, suburb: true, state: true, postcode: true },
+} satisfies Prisma.AddressDefaultArgs;
+
+const shortlistEntryInclude = {
+  provider: { select: { name: true, address: addressSelect } },
+  providerOutlet: {
+    select: {
+      name: true,
+      address: addressSelect,
+      provider: { select: { name: true } },
+    },
+  },
+  worker: { select: { user: { select: { name: true } } } },
+} satisfies Prisma.ShortlistEntryInclude;
+
+type ShortlistEntryRow = Prisma.ShortlistEntryGetPayload<{
+  include: typeof shortlistEntryInclude;
+}>;
+
+type ShortlistTarget = {
+  type: ShortlistEntityType;
+  id: string;
+  note?: string | null;
+};
+
+function formatArea(
+  address: {
+    addressString: string;
+    suburb: string | null;
+    state: string | null;
+    postcode: string | null;
+  } | null,
+) {
+  if (!address) return null;
+  const area = [address.suburb, address.state, address.postcode]
+    .filter(Boolean)
+    .join(" ");
+  return area || address.addressString;
+}
+
+function toShortlistEntryItem(
+  row: ShortlistEntryRow,
+): ShortlistEntryItem | null {
+  const base = {
+    id: row.id,
+    note: row.note,
+    createdAt: row.createdAt.toISOString(),
+  };
+  if (row.providerId && row.provider) {
+    return {
+      ...base,
+      type: "provider",
+      entityId: row.providerId,
+      name: row.provider.name,
+      href: `/provider/${encodeURIComponent(row.providerId)}`,
+      detail: formatArea(row.provider.address),
+    };
+  }
+  if (row.providerOutletId && row.providerOutlet) {
+    return {
+      ...base,
+      type: "outlet",
+      entityId: row.providerOutletId,
+      name: row.providerOutlet.name,
+      href: `/provider-outlet/${encodeURIComponent(row.providerOutletId)}`,
+      detail: [
+        row.providerOutlet.provider.name,
+        formatArea(row.providerOutlet.address),
+      ]
+        .filter(Boolean)
+        .join(" · "),
+    };
+  }
+  if (row.workerId && row.worker) {
+    return {
+      ...base,
+      type: "worker",
+      entityId: row.workerId,
+      name: row.worker.user.name,
+      href: `/worker/${encodeURIComponent(row.workerId)}`,
+      detail: "Support worker",
+    };
+  }
+  return null;
+}
+
+export async function listShortlist(
+  userId: string,
+): Promise<ShortlistEntryItem[]> {
+  const rows = await prisma.shortlistEntry.findMany({
+    where: { userId },
+    include: shortlistEntryInclude,
+    orderBy: { createdAt: "desc" },
+  });
+  return rows.flatMap((row) => toShortlistEntryItem(row) ?? []);
+}
+
+/**
+ * Ids from `targets` that exist and are listed, keyed `type:id`: providers
+ * and outlets must be active, and an outlet's provider too.
+ */
+async function existingTargets(targets: ShortlistTarget[]) {
+  const idsOf = (type: ShortlistEntityType) =>
+    targets.filter((t) => t.type === type).map((t) => t.id);
+  const [providers, outlets, workers] = await Promise.all([
+    prisma.provider.findMany({
+      where: { id: { in: idsOf("provider") }, isActive: true },
+      select: { id: true },
+    }),
+    prisma.providerOutlet.findMany({
+      where: {
+        id: { in: idsOf("outlet") },
+        isActive: true,
+        provider: { isActive: true },
+      },
+      select: { id: true },
+    }),
+    prisma.worker.findMany({
+      where: { id: { in: idsOf("worker") } },
+      select: { id: true },
+    }),
+  ]);
+  return new Set([
+    ...providers.map((p) => `provider:${p.id}`),
+    ...outlets.map((o) => `outlet:${o.id}`),
+    ...workers.map((w) => `worker:${w.id}`),
+  ]);
+}
+
+/**
+ * Adds (or re-adds, updating the note when one is given) an entry. Returns
+ * null when the provider, outlet or worker doesn't exist or isn't listed.
+ */
+export async function addToShortlist(
+  userId: string,
+  target: ShortlistTarget,
+): Promise<ShortlistEntryItem | null> {
+  if (!(await existingTargets([target])).has(`${target.type}:${target.id}`)) {
+    return null;
+  }
+
+  const column = ENTITY_COLUMNS[target.type];
+  const existing = await prisma.shortlistEntry.findFirst({
+    where: { userId, [column]: target.id },
+    select: { id: true },
+  });
+  const row = existing
+    ? await prisma.shortlistEntry.update({
+        where: { id: existing.id },
+        data: target.note !== undefined ? { note: target.note } : {},
+        include: shortlistEntryInclude,
+      })
+    : await prisma.shortlistEntry.create({
+        data: { userId, [column]: target.id, note: target.note ?? null },
+        include: shortlistEntryInclude,
+      });
+  return toShortlistEntryItem(row);
+}
+
+/**
+ * Adds a signed-out shortlist to the account. Entries already on the account
+ * keep their notes; unknown ids and anything past the limit are dropped.
+ */
+export async function mergeShortlist(
+  userId: string,
+  targets: ShortlistTarget[],
+) {
+  const existing = await existingTargets(targets);
+  const room =
+    MAX_SHORTLIST_ENTRIES -
+    (await prisma.shortlistEntry.count({ where: { userId } }));
+  if (room <= 0) return;
+
+  await prisma.shortlistEntry.createMany({
+    data: targets
+      .filter((t) => existing.has(`${t.type}:${t.id}`))
+      .slice(0, room)
+      .map((t) => ({
+        userId,
+        [ENTITY_COLUMNS[t.type]]: t.id,
+        note: t.note ?? null,
+      })),
+    skipDuplicates: true,
+  });
+}
@@ -0,0 +1,10 @@
+import { prisma } from "@/lib/prisma";
+
+/** Platform administrators, as opposed to provider roles (`ProviderUserRole`). */
+export async function isSiteAdmin(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { isSiteAdmin: true },
+  });
+  return user?.isSiteAdmin ?? false;
+}
@@ -0,0 +1,159 @@
+import { createTtlCache } from "@/lib/ttlCache";
+
+/**
+ * Server-rendered map images for printed reports: OpenStreetMap tiles (the
+ * same ones the finder map uses) stitched into one SVG with numbered markers.
+ * Tiles are inlined so the image works offline and in print previews.
+ */
+
+const TILE_SIZE = 256;
+const TILE_URL = "https://tile.openstreetmap.org";
+const MAX_ZOOM = 16;
+const TILE_TIMEOUT_MS = 5000;
+const PADDING_PX = 24;
+
+/** Base64 PNGs; OSM asks heavy users to cache tiles. */
+const tileCache = createTtlCache<string>({
+  ttlMs: 24 * 60 * 60 * 1000,
+  maxEntries: 500,
+});
+
+export type StaticMapMarker = { lat: number; lon: number; label: string };
+
+export type StaticMapBounds = {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+};
+
+/** Web Mercator pixel position at `zoom`. */
+function project(lat: number, lon: number, zoom: number) {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const clampedLat = Math.max(-85.0511, Math.min(85.0511, lat));
+  const sin = Math.sin((clampedLat * Math.PI) / 180);
+  return {
+    x: ((lon + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+}
+
+/** Highest zoom at which `bounds` fits inside the image, less padding. */
+function fitZoom(bounds: StaticMapBounds, width: number, height: number) {
+  for (let zoom = MAX_ZOOM; zoom > 0; zoom--) {
+    const topLeft = project(bounds.maxLat, bounds.minLon, zoom);
+    const bottomRight = project(bounds.minLat, bounds.maxLon, zoom);
+    if (
+      bottomRight.x - topLeft.x <= width - PADDING_PX * 2 &&
+      bottomRight.y - topLeft.y <= height - PADDING_PX * 2
+    ) {
+      return zoom;
+    }
+  }
+  return 0;
+}
+
+async function fetchTile(zoom: number, x: number, y: number) {
+  const key = `${zoom}/${x}/${y}`;
+  const cached = tileCache.get(key);
+  if (cached) return cached;
+
+  try {
+    const res = await fetch(`${TILE_URL}/${key}.png`, {
+      headers: { "User-Agent": "MapAble provider report" },
+      signal: AbortSignal.timeout(TILE_TIMEOUT_MS),
+    });
+    if (!res.ok) return null;
+    const tile = Buffer.from(await res.arrayBuffer()).toString("base64");
+    tileCache.set(key, tile);
+    return tile;
+  } catch (error) {
+    console.error("static map tile:", error);
+    return null;
+  }
+}
+
+function markersBounds(markers: StaticMapMarker[]): StaticMapBounds | null {
+  if (markers.length === 0) return null;
+  return {
+    minLat: Math.min(...markers.map((m) => m.lat)),
+    maxLat: Math.max(...markers.map((m) => m.lat)),
+    minLon: Math.min(...markers.map((m) => m.lon)),
+    maxLon: Math.max(...markers.map((m) => m.lon)),
+  };
+}
+
+/**
+ * An SVG map fitted to `markers` (or `bounds` when there are none). Missing
+ * tiles are left blank rather than failing the image.
+ */
+export async function renderStaticMapSvg({
+  markers,
+  bounds,
+  width = 800,
+  height = 450,
+}: {
+  markers: StaticMapMarker[];
+  bounds: StaticMapBounds;
+  width?: number;
+  height?: number;
+}) {
+  const fitted = markersBounds(markers) ?? bounds;
+  const zoom = fitZoom(fitted, width, height);
+  const centre = project(
+    (fitted.minLat + fitted.maxLat) / 2,
+    (fitted.minLon + fitted.maxLon) / 2,
+    zoom,
+  );
+  const originX = centre.x - width / 2;
+  const originY = centre.y - height / 2;
+  const tileCount = 2 ** zoom;
+
+  const tiles: { x: number; y: number; left: number; top: number }[] = [];
+  for (
+    let y = Math.floor(originY / TILE_SIZE);
+    y <= Math.floor((originY + height) / TILE_SIZE);
+    y++
+  ) {
+    if (y < 0 || y >= tileCount) continue;
+    for (
+      let x = Math.floor(originX / TILE_SIZE);
+      x <= Math.floor((originX + width) / TILE_SIZE);
+      x++
+    ) {
+      tiles.push({
+        x: ((x % tileCount) + tileCount) % tileCount,
+        y,
+        left: x * TILE_SIZE - originX,
+        top: y * TILE_SIZE - originY,
+      });
+    }
+  }
+
+  const images = await Promise.all(
+    tiles.map(async (tile) => {
+      const png = await fetchTile(zoom, tile.x, tile.y);
+      return png
+        ? `<image href="data:image/png;base64,${png}" x="${tile.left.toFixed(1)}" y="${tile.top.toFixed(1)}" width="${TILE_SIZE}" height="${TILE_SIZE}"/>`
+        : "";
+    }),
+  );
+
+  // Reversed so the first result is drawn on top.
+  const pins = [...markers].reverse().map((marker) => {
+    const { x, y } = project(marker.lat, marker.lon, zoom);
+    const cx = (x - originX).toFixed(1);
+    const cy = (y - originY).toFixed(1);
+    return `<g><circle cx="${cx}" cy="${cy}" r="10" fill="#1d4ed8" stroke="#fff" stroke-width="2"/><text x="${cx}" y="${cy}" dy="0.35em" text-anchor="middle" font-family="sans-serif" font-size="${marker.label.length > 2 ? 7 : 9}" font-weight="700" fill="#fff">${marker.label}</text></g>`;
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="100%" height="100%" fill="#f1f5f9"/>`,
+    ...images,
+    ...pins,
+    `<rect x="${width - 170}" y="${height - 16}" width="170" height="16" fill="#fff" fill-opacity="0.8"/>`,
+    `<text x="${width - 4}" y="${height - 4}" text-anchor="end" font-family="sans-serif" font-size="10" fill="#334155">© OpenStreetMap contributors</text>`,
+    `</svg>`,
+  ].join("");
+}
@@ -0,0 +1,90 @@
+import {
+  Accessibility,
+  Ear,
+  Hand,
+  SquareParking,
+  SunDim,
+  Toilet,
+  VolumeX,
+  type LucideIcon,
+} from "lucide-react";
+
+import { cn } from "@/app/lib/utils";
+import { ACCESSIBILITY_FEATURE_LABELS } from "@/lib/accessibility";
+import {
+  ACCESSIBILITY_FEATURES,
+  type AccessibilityFeature,
+} from "@/schemas/accessibility.types";
+
+export const ACCESSIBILITY_FEATURE_ICONS: Record<
+  AccessibilityFeature,
+  LucideIcon
+> = {
+  STEP_FREE_ACCESS: Accessibility,
+  ACCESSIBLE_TOILET: Toilet,
+  ACCESSIBLE_PARKING: SquareParking,
+  HEARING_LOOP: Ear,
+  AUSLAN_INTERPRETERS: Hand,
+  QUIET_ROOM: VolumeX,
+  SENSORY_FRIENDLY_HOURS: SunDim,
+};
+
+type AccessibilityFeatureListProps = {
+  features: AccessibilityFeature[];
+  /** Icons only, labelled for screen readers and on hover (result cards). */
+  compact?: boolean;
+  className?: string;
+};
+
+/** Premises accessibility features as icons with text, in a fixed order. */
+export default function AccessibilityFeatureList({
+  features,
+  compact = false,
+  className,
+}: AccessibilityFeatureListProps) {
+  const present = ACCESSIBILITY_FEATURES.filter((f) => features.includes(f));
+  if (present.length === 0) return null;
+
+  if (compact) {
+    return (
+      <ul
+        aria-label="Accessibility features"
+        className={cn("flex flex-wrap gap-2 text-muted-foreground", className)}
+      >
+        {present.map((feature) => {
+          const Icon = ACCESSIBILITY_FEATURE_ICONS[feature];
+          return (
+            <li key={feature} title={ACCESSIBILITY_FEATURE_LABELS[feature]}>
+              <Icon className="h-4 w-4" aria-hidden="true" />
+              <span className="sr-only">
+                {ACCESSIBILITY_FEATURE_LABELS[feature]}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    );
+  }
+
+  return (
+    <ul
+      className={cn(
+        "grid gap-2 text-sm text-muted-foreground sm:grid-cols-2",
+        className,
+      )}
+    >
+      {present.map((feature) => {
+        const Icon = ACCESSIBILITY_FEATURE_ICONS[feature];
+        return (
+          <li key={feature} className="flex items-center gap-3">
+            <Icon
+              className="h-4 w-4 shrink-0 text-primary"
+              aria-hidden="true"
+            />
+            {ACCESSIBILITY_FEATURE_LABELS[feature]}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -1,16 +1,36 @@
 "use client";
 
-import L, { type LatLngExpression, latLngBounds } from "leaflet";
-import { useEffect, useRef } from "react";
-import { MapContainer, TileLayer, Marker, Popup, useMap } from "react-leaflet";
+import L, { circleMarker, type LatLngExpression, latLngBounds } from "leaflet";
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  GeoJSON,
+  type GeoJSONProps,
+  MapContainer,
+  TileLayer,
+  Marker,
+  Popup,
+  Tooltip,
+  useMap,
+  useMapEvents,
+} from "react-leaflet";
 
 import "leaflet/dist/leaflet.css";
+import {
+  CLUSTER_MAX_ZOOM,
+  type MarkerCluster,
+} from "@/app/api/provider-finder/clusters/types";
+import {
+  MAX_FEATURE_TILE_ZOOM,
+  type ProviderFeature,
+  type ProviderFeatureCollection,
+} from "@/app/api/provider-finder/features/types";
 import {
   Address,
   Provider,
   ProviderOutlet,
 } from "@/app/provider-finder/providers";
 import { distanceKm } from "@/lib/geo";
+import { tileKey, tilesCoveringBox } from "@/lib/mapTiles";
 import "@/lib/leafletIcons";
 
 type ProviderWithAddress = {
@@ -29,12 +49,14 @@ type ProviderOrOutletWithAddress =
   | ProviderWithAddress
   | ProviderOutletWithAddress;
 
-/** Center + radius used with `/api/provider-finder/nearby` when the map viewport changes. */
+/** Map viewport; pins are loaded from the `/api/provider-finder/nearby` tiles covering it. */
 export type MapSearchView = {
   minLat: number;
   maxLat: number;
   minLon: number;
   maxLon: number;
+  /** Leaflet zoom level when reported by the map; used to decide on clustering. */
+  zoom?: number;
 };
 
 function radiusKmCoveringVisibleMap(map: L.Map): number {
@@ -82,6 +104,7 @@ function MapViewReporter({
         maxLat: b.getNorth(),
         minLon: b.getWest(),
         maxLon: b.getEast(),
+        zoom: map.getZoom(),
       });
     };
 
@@ -123,6 +146,48 @@ const userPositionIcon = L.divIcon({
   iconAnchor: [10, 10],
 });
 
+function clusterIcon(count: number) {
+  const size = count < 10 ? 32 : count < 100 ? 40 : count < 1000 ? 48 : 56;
+  return L.divIcon({
+    className: "cluster-marker-icon",
+    html: `<div style="width:${size}px;height:${size}px;display:flex;align-items:center;justify-content:center;background:rgba(37,99,235,0.85);color:white;font:600 12px/1 sans-serif;border:3px solid white;border-radius:50%;box-shadow:0 2px 6px rgba(0,0,0,0.35)">${count}</div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+}
+
+/** Zooms in on a cluster when clicked so it breaks apart into smaller ones (or pins). */
+function ClusterMarker({ cluster }: { cluster: MarkerCluster }) {
+  const map = useMap();
+
+  return (
+    <Marker
+      position={[cluster.latitude, cluster.longitude]}
+      icon={clusterIcon(cluster.count)}
+      eventHandlers={{
+        click: () => {
+          map.flyTo(
+            [cluster.latitude, cluster.longitude],
+            Math.min(map.getZoom() + 2, CLUSTER_MAX_ZOOM),
+            { duration: 0.5 },
+          );
+        },
+      }}
+    >
+      {cluster.topServices.length > 0 ? (
+        <Tooltip direction="top">
+          <div className="text-xs">
+            <p className="font-semibold">{cluster.count} providers</p>
+            {cluster.topServices.map((name) => (
+              <p key={name}>{name}</p>
+            ))}
+          </div>
+        </Tooltip>
+      ) : null}
+    </Marker>
+  );
+}
+
 type MapProps = {
   providers: ProviderWithAddress[];
   providerOutlets: ProviderOutletWithAddress[];
@@ -142,6 +207,16 @@ type MapProps = {
    */
   fitBoundsPolicy?: "always" | "initial-only";
   initialSearchView?: MapSearchView | null;
+  /**
+   * Server-side clusters for zoomed-out views. When set, these bubbles are drawn
+   * instead of the individual provider/outlet markers.
+   */
+  clusters?: MarkerCluster[] | null;
+  /**
+   * Draws the public provider feed (`/api/provider-finder/features`) as a
+   * GeoJSON layer, for maps without markers of their own.
+   */
+  featureLayer?: boolean;
 };
 
 // Default center: Sydney, Australia
@@ -189,7 +264,7 @@ function FitBounds({
 }: {
   markers: {
     coords: LatLngExpression;
-    providerOrOutletWithAddress: ProviderOrOutletWithAddress;
+    members: ProviderOrOutletWithAddress[];
   }[];
   fitBoundsPolicy: "always" | "initial-only";
 }) {
@@ -260,6 +335,92 @@ function FlyToProvider({
   return null;
 }
 
+/** Name and profile link; built as DOM nodes so names aren't parsed as HTML. */
+function featurePopup(feature: ProviderFeature) {
+  const { name, providerName, services, profileUrl } = feature.properties;
+  const root = document.createElement("div");
+  root.className = "text-xs leading-tight";
+  const title = document.createElement("a");
+  title.href = profileUrl;
+  title.className = "font-semibold text-sm text-primary hover:underline";
+  title.textContent = name;
+  root.append(title);
+  const detail = [providerName, services.slice(0, 3).join(", ")]
+    .filter(Boolean)
+    .join(" · ");
+  if (detail) {
+    const p = document.createElement("p");
+    p.className = "text-muted-foreground mt-0.5";
+    p.textContent = detail;
+    root.append(p);
+  }
+  return root;
+}
+
+/** Fetches the feed's GeoJSON tiles covering the view after each move. */
+function ProviderFeatureLayer() {
+  const map = useMap();
+  const [features, setFeatures] = useState<ProviderFeature[]>([]);
+  const [version, setVersion] = useState(0);
+  const requestRef = useRef(0);
+
+  const load = useCallback(() => {
+    const request = ++requestRef.current;
+    const bounds = map.getBounds();
+    const tiles = tilesCoveringBox(
+      {
+        minLat: bounds.getSouth(),
+        maxLat: bounds.getNorth(),
+        minLon: bounds.getWest(),
+        maxLon: bounds.getEast(),
+      },
+      Math.min(Math.floor(map.getZoom()), MAX_FEATURE_TILE_ZOOM),
+    );
+    Promise.all(
+      tiles.map((tile) =>
+        fetch(`/api/provider-finder/features/${tileKey(tile)}.geojson`).then(
+          (res) =>
+            res.ok ? (res.json() as Promise<ProviderFeatureCollection>) : null,
+        ),
+      ),
+    )
+      .then((collections) => {
+        if (request !== requestRef.current) return;
+        setFeatures(collections.flatMap((c) => c?.features ?? []));
+        setVersion((v) => v + 1);
+      })
+      .catch((error) => console.error("provider feature layer:", error));
+  }, [map]);
+
+  useMapEvents({ moveend: load });
+  useEffect(load, [load]);
+
+  // GeoJSON layers don't pick up new data, so each load remounts it.
+  return (
+    <GeoJSON
+      key={version}
+      data={
+        {
+          type: "FeatureCollection",
+          features,
+        } as GeoJSONProps["data"]
+      }
+      pointToLayer={(_, latlng) =>
+        circleMarker(latlng, {
+          radius: 6,
+          color: "#fff",
+          weight: 2,
+          fillColor: "#1d4ed8",
+          fillOpacity: 0.9,
+        })
+      }
+      onEachFeature={(feature, layer) =>
+        layer.bindPopup(() => featurePopup(feature as ProviderFeature))
+      }
+    />
+  );
+}
+
 export default function Map({
   providers = [],
   providerOutlets = [],
@@ -268,21 +429,37 @@ export default function Map({
   onViewChange,
   fitBoundsPolicy = "always",
   initialSearchView = null,
+  clusters = null,
+  featureLayer = false,
 }: MapProps) {
   const ignoreNextViewChangeRef = useRef(false);
-  const markers = [...providers, ...providerOutlets]
-    .map((p) => {
-      const address = p.address;
-      const coords =
-        address.latitude != null &&
-        address.longitude != null &&
-        (address.latitude !== 0 || address.longitude !== 0)
-          ? ([address.latitude, address.longitude] as LatLngExpression)
-          : null;
-      if (!coords) return null;
-      return { coords, providerOrOutletWithAddress: p };
-    })
-    .filter((m) => m !== null);
+  // One marker per physical site; providers come first so a head office
+  // sharing its address with outlets heads the popup.
+  const markers: {
+    coords: LatLngExpression;
+    members: ProviderOrOutletWithAddress[];
+  }[] = [];
+  const markerIndexByAddressId: Record<string, number> = {};
+  for (const p of [...providers, ...providerOutlets]) {
+    const address = p.address;
+    if (
+      address.latitude == null ||
+      address.longitude == null ||
+      (address.latitude === 0 && address.longitude === 0)
+    ) {
+      continue;
+    }
+    const index = markerIndexByAddressId[address.id];
+    if (index !== undefined) {
+      markers[index].members.push(p);
+    } else {
+      markerIndexByAddressId[address.id] = markers.length;
+      markers.push({
+        coords: [address.latitude, address.longitude],
+        members: [p],
+      });
+    }
+  }
 
   const centerLat = initialSearchView
     ? (initialSearchView.minLat + initialSearchView.maxLat) / 2
@@ -345,11 +522,15 @@ export default function Map({
           <Popup>You are here</Popup>
         </Marker>
       ) : null}
-      {markers.map(({ coords, providerOrOutletWithAddress }) => {
-        const entity =
-          "provider" in providerOrOutletWithAddress
-            ? providerOrOutletWithAddress.provider
-            : providerOrOutletWithAddress.providerOutlet;
+      {featureLayer ? <ProviderFeatureLayer /> : null}
+      {clusters?.map((cluster) => (
+        <ClusterMarker key={cluster.id} cluster={cluster} />
+      ))}
+      {(clusters ? [] : markers).map(({ coords, members }) => {
+        const [providerOrOutletWithAddress] = members;
+        const [entity, ...alsoHere] = members.map((m) =>
+          "provider" in m ? m.provider : m.providerOutlet,
+        );
 
         const addressToCenterOnProviderOrOutletId =
           addressToCenterOn?.type === "provider"
@@ -367,26 +548,14 @@ export default function Map({
         //   const distanceKm = providerOrOutletWithAddress.distanceKm;
         // }
 
-        console.log("entity.id", entity.id);
-        console.log(
-          "addressToCenterOn?.address.id",
-          addressToCenterOn?.address.id,
-        );
-        console.log(
-          "entity.id === addressToCenterOn?.address.id",
-          entity.id === addressToCenterOn?.address.id,
-        );
-        console.log(
-          "entity.id === addressToCenterOn?.address.id",
-          entity.id === addressToCenterOn?.address.id,
-        );
-
         return (
           <Marker
-            key={entity.id}
+            key={providerOrOutletWithAddress.address.id}
             position={coords}
             icon={
-              entity.id === addressToCenterOnProviderOrOutletId
+              [entity, ...alsoHere].some(
+                (e) => e.id === addressToCenterOnProviderOrOutletId,
+              )
                 ? redMarkerIcon
                 : defaultMarkerIcon
             }
@@ -464,6 +633,18 @@ export default function Map({
                     {entity.abn}
                   </p>
                 ) : null}
+                {alsoHere.length > 0 ? (
+                  <div className="mt-1 pt-1 border-t border-border">
+                    <p className="font-medium text-muted-foreground mb-0.5">
+                      Also here
+                    </p>
+                    <ul className="list-disc pl-4">
+                      {alsoHere.map((e) => (
+                        <li key={e.id}>{e.name}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : null}
                 {/* {entity.businessHours.length > 0 ? (
                   <div className="mt-1 pt-1 border-t border-border">
                     <p className="font-medium text-muted-foreground mb-0.5">
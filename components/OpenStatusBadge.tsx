@@ -0,0 +1,52 @@
+import type { DayOfWeek } from "@prisma/client";
+
+import { Badge } from "@/components/ui/badge";
+import { getOpenStatus } from "@/lib/openingHours";
+
+const DAY_LABELS: Record<DayOfWeek, string> = {
+  MONDAY: "Monday",
+  TUESDAY: "Tuesday",
+  WEDNESDAY: "Wednesday",
+  THURSDAY: "Thursday",
+  FRIDAY: "Friday",
+  SATURDAY: "Saturday",
+  SUNDAY: "Sunday",
+};
+
+type OpenStatusBadgeProps = {
+  businessHours: {
+    dayOfWeek: DayOfWeek;
+    openTime: Date | string;
+    closeTime: Date | string;
+  }[];
+  /** Address state; selects the time zone the hours are in. */
+  state: string | null | undefined;
+};
+
+/** "Open now · Closes at 5:00pm" / "Closed · Opens Monday 9:00am". */
+export default function OpenStatusBadge({
+  businessHours,
+  state,
+}: OpenStatusBadgeProps) {
+  const status = getOpenStatus(businessHours, state);
+
+  if (status.isOpen) {
+    return (
+      <Badge
+        variant="outline"
+        className="border-green-600/30 bg-green-50 text-green-700"
+      >
+        Open now · Closes at {status.closesAt}
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant="secondary">
+      Closed
+      {status.opensAt
+        ? ` · Opens ${DAY_LABELS[status.opensAt.dayOfWeek]} ${status.opensAt.time}`
+        : null}
+    </Badge>
+  );
+}
@@ -0,0 +1,333 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+
+import { cn } from "@/app/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type {
+  FinderEmbedItem,
+  FinderEmbedPayload,
+  FinderEmbedsResponse,
+} from "@/schemas/finder-embed.types";
+
+const inputClass =
+  "w-full rounded-lg border border-input bg-background px-3 py-2 text-sm text-foreground shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+const QUERY_KEY = ["admin-finder-embeds"];
+
+const SITE_ORIGIN =
+  process.env.NEXT_PUBLIC_ORIGIN ?? "https://www.mapable.com.au";
+
+type Message = { ok: boolean; text: string } | null;
+
+function textToOrigins(text: string) {
+  return text
+    .split(/[\s,]+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/** What the partner pastes into their page. */
+function embedSnippet(embed: FinderEmbedItem) {
+  return [
+    `<div data-mapable-finder="${embed.id}"`,
+    `  data-lat="-37.8136" data-lon="144.9631" data-location="Melbourne VIC 3000"`,
+    `  data-primary-color="#003f88"></div>`,
+    `<script src="${SITE_ORIGIN}/finder-embed.js" async></script>`,
+  ].join("\n");
+}
+
+async function sendEmbed(
+  url: string,
+  method: "POST" | "PATCH" | "DELETE",
+  body?: FinderEmbedPayload,
+) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(
+      typeof data.error === "string" ? data.error : "Save failed",
+    );
+  }
+  return data;
+}
+
+function EmbedForm({
+  initial,
+  submitLabel,
+  pending,
+  onSubmit,
+  onCancel,
+}: {
+  initial?: FinderEmbedItem;
+  submitLabel: string;
+  pending: boolean;
+  onSubmit: (payload: FinderEmbedPayload) => void;
+  onCancel?: () => void;
+}) {
+  const [name, setName] = useState(initial?.name ?? "");
+  const [origins, setOrigins] = useState(
+    initial ? initial.allowedOrigins.join("\n") : "",
+  );
+  const [disabled, setDisabled] = useState(initial?.disabledAt != null);
+
+  return (
+    <form
+      className="grid gap-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit({ name, allowedOrigins: textToOrigins(origins), disabled });
+      }}
+    >
+      <label className="text-sm font-medium">
+        Partner
+        <input
+          className={cn(inputClass, "mt-1")}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Example Disability Advocacy"
+          required
+        />
+      </label>
+      <label className="text-sm font-medium">
+        Sites allowed to embed it (one per line)
+        <textarea
+          className={cn(inputClass, "mt-1 font-mono")}
+          rows={3}
+          value={origins}
+          onChange={(e) => setOrigins(e.target.value)}
+          placeholder="https://www.example.org.au"
+          required
+        />
+      </label>
+      <div className="flex flex-wrap items-center gap-2">
+        {initial ? (
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={disabled}
+              onChange={(e) => setDisabled(e.target.checked)}
+            />
+            Disabled
+          </label>
+        ) : null}
+        <Button type="submit" variant="default" size="sm" disabled={pending}>
+          {pending ? "Saving…" : submitLabel}
+        </Button>
+        {onCancel ? (
+          <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        ) : null}
+      </div>
+    </form>
+  );
+}
+
+function EmbedRow({
+  embed,
+  onChanged,
+}: {
+  embed: FinderEmbedItem;
+  onChanged: (message: Message) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [showSnippet, setShowSnippet] = useState(false);
+  const url = `/api/admin/finder-embeds/${embed.id}`;
+
+  const updateMutation = useMutation({
+    mutationFn: (payload: FinderEmbedPayload) =>
+      sendEmbed(url, "PATCH", payload),
+    onSuccess: () => {
+      setEditing(false);
+      onChanged({ ok: true, text: `Saved ${embed.name}.` });
+    },
+    onError: (e: Error) => onChanged({ ok: false, text: e.message }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => sendEmbed(url, "DELETE"),
+    onSuccess: () => onChanged({ ok: true, text: `Removed ${embed.name}.` }),
+    onError: (e: Error) => onChanged({ ok: false, text: e.message }),
+  });
+
+  if (editing) {
+    return (
+      <li className="rounded-lg border border-primary/30 bg-primary/5 p-3">
+        <EmbedForm
+          initial={embed}
+          submitLabel="Save"
+          pending={updateMutation.isPending}
+          onSubmit={(payload) => updateMutation.mutate(payload)}
+          onCancel={() => setEditing(false)}
+        />
+      </li>
+    );
+  }
+
+  return (
+    <li
+      className={cn(
+        "space-y-2 rounded-lg border border-border bg-card p-3",
+        embed.disabledAt && "opacity-60",
+      )}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="min-w-0">
+          <p className="font-semibold">
+            {embed.name}
+            {embed.disabledAt ? " · disabled" : ""}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {embed.allowedOrigins.join(", ")}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setShowSnippet((shown) => !shown)}
+          >
+            {showSnippet ? "Hide code" : "Embed code"}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setEditing(true)}
+          >
+            Edit
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={deleteMutation.isPending}
+            onClick={() => {
+              if (
+                window.confirm(
+                  `Remove ${embed.name}? The widget will stop loading on their sites.`,
+                )
+              )
+                deleteMutation.mutate();
+            }}
+          >
+            Remove
+          </Button>
+        </div>
+      </div>
+      {showSnippet ? (
+        <pre className="overflow-x-auto rounded bg-muted p-2 text-xs">
+          {embedSnippet(embed)}
+        </pre>
+      ) : null}
+    </li>
+  );
+}
+
+export function FinderEmbedsManager({
+  initialEmbeds,
+}: {
+  initialEmbeds: FinderEmbedItem[];
+}) {
+  const queryClient = useQueryClient();
+  const [message, setMessage] = useState<Message>(null);
+  const [formKey, setFormKey] = useState(0);
+
+  const embedsQuery = useQuery<FinderEmbedsResponse, Error>({
+    queryKey: QUERY_KEY,
+    queryFn: async () => {
+      const res = await fetch("/api/admin/finder-embeds");
+      if (!res.ok) throw new Error("Failed to load embeds");
+      return res.json() as Promise<FinderEmbedsResponse>;
+    },
+    initialData: { embeds: initialEmbeds },
+  });
+
+  const onChanged = (next: Message) => {
+    setMessage(next);
+    if (next?.ok) void queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (payload: FinderEmbedPayload) =>
+      sendEmbed("/api/admin/finder-embeds", "POST", payload),
+    onSuccess: (_data, payload) => {
+      setFormKey((k) => k + 1);
+      onChanged({ ok: true, text: `Added ${payload.name}.` });
+    },
+    onError: (e: Error) => onChanged({ ok: false, text: e.message }),
+  });
+
+  const embeds = embedsQuery.data?.embeds ?? [];
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-6 px-4 py-10 sm:px-6">
+      <div>
+        <h1 className="font-heading text-2xl font-bold">Finder embeds</h1>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Partner sites that can show the provider finder on their own pages.
+          The widget only loads on the sites listed for it; changes apply within
+          a minute.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Add a partner</CardTitle>
+          <CardDescription>
+            List every address the widget appears on, including
+            &ldquo;www.&rdquo; and staging sites.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <EmbedForm
+            key={formKey}
+            submitLabel="Add"
+            pending={createMutation.isPending}
+            onSubmit={(payload) => createMutation.mutate(payload)}
+          />
+        </CardContent>
+      </Card>
+
+      {message ? (
+        <p
+          role="status"
+          className={cn(
+            "text-sm",
+            message.ok ? "text-secondary" : "text-destructive",
+          )}
+        >
+          {message.text}
+        </p>
+      ) : null}
+
+      {embedsQuery.isError ? (
+        <p className="text-sm text-destructive">{embedsQuery.error.message}</p>
+      ) : null}
+
+      <ul className="space-y-2">
+        {embeds.map((embed) => (
+          <EmbedRow
+            key={`${embed.id}-${embed.updatedAt}`}
+            embed={embed}
+            onChanged={onChanged}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+}
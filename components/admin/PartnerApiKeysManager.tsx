@@ -0,0 +1,298 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+
+import { cn } from "@/app/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type {
+  CreatePartnerApiKeyPayload,
+  CreatePartnerApiKeyResponse,
+  PartnerApiKeyItem,
+  PartnerApiKeysResponse,
+} from "@/schemas/partner-api.types";
+
+const inputClass =
+  "w-full rounded-lg border border-input bg-background px-3 py-2 text-sm text-foreground shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+const QUERY_KEY = ["admin-partner-api-keys"];
+
+type Message = { ok: boolean; text: string } | null;
+
+const dateFormatter = new Intl.DateTimeFormat("en-AU", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+function formatDate(value: string) {
+  return dateFormatter.format(new Date(value));
+}
+
+async function sendApiKey(
+  url: string,
+  method: "POST" | "DELETE",
+  body?: CreatePartnerApiKeyPayload,
+) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(
+      typeof data.error === "string" ? data.error : "Save failed",
+    );
+  }
+  return data;
+}
+
+function CreateKeyForm({
+  pending,
+  onSubmit,
+}: {
+  pending: boolean;
+  onSubmit: (payload: CreatePartnerApiKeyPayload) => void;
+}) {
+  const [name, setName] = useState("");
+  const [dailyQuota, setDailyQuota] = useState("1000");
+
+  return (
+    <form
+      className="grid gap-3 sm:grid-cols-[1fr_9rem_auto] sm:items-end"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit({ name, dailyQuota: Number(dailyQuota) });
+      }}
+    >
+      <label className="text-sm font-medium">
+        Partner
+        <input
+          className={cn(inputClass, "mt-1")}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="City of Example LAC"
+          required
+        />
+      </label>
+      <label className="text-sm font-medium">
+        Requests a day
+        <input
+          className={cn(inputClass, "mt-1")}
+          type="number"
+          min={1}
+          value={dailyQuota}
+          onChange={(e) => setDailyQuota(e.target.value)}
+          required
+        />
+      </label>
+      <Button type="submit" variant="default" size="sm" disabled={pending}>
+        {pending ? "Creating…" : "Create key"}
+      </Button>
+    </form>
+  );
+}
+
+function ApiKeyRow({
+  apiKey,
+  onChanged,
+}: {
+  apiKey: PartnerApiKeyItem;
+  onChanged: (message: Message) => void;
+}) {
+  const revokeMutation = useMutation({
+    mutationFn: () =>
+      sendApiKey(`/api/admin/partner-api-keys/${apiKey.id}`, "DELETE"),
+    onSuccess: () =>
+      onChanged({ ok: true, text: `Revoked the key for ${apiKey.name}.` }),
+    onError: (e: Error) => onChanged({ ok: false, text: e.message }),
+  });
+
+  return (
+    <li
+      className={cn(
+        "flex flex-wrap items-center justify-between gap-3 rounded-lg border border-border bg-card p-3",
+        apiKey.revokedAt && "opacity-60",
+      )}
+    >
+      <div className="min-w-0">
+        <p className="font-semibold">
+          {apiKey.name}{" "}
+          <code className="text-xs font-normal text-muted-foreground">
+            {apiKey.keyPrefix}_…
+          </code>
+        </p>
+        <p className="text-sm text-muted-foreground">
+          {apiKey.revokedAt
+            ? `Revoked ${formatDate(apiKey.revokedAt)}`
+            : `${apiKey.usedToday.toLocaleString()} of ${apiKey.dailyQuota.toLocaleString()} requests today`}
+          {" · "}
+          {apiKey.lastUsedAt
+            ? `last used ${formatDate(apiKey.lastUsedAt)}`
+            : "never used"}
+        </p>
+      </div>
+      {apiKey.revokedAt ? null : (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={revokeMutation.isPending}
+          onClick={() => {
+            if (
+              window.confirm(
+                `Revoke the key for ${apiKey.name}? Their requests will fail straight away.`,
+              )
+            )
+              revokeMutation.mutate();
+          }}
+        >
+          Revoke
+        </Button>
+      )}
+    </li>
+  );
+}
+
+export function PartnerApiKeysManager({
+  initialKeys,
+}: {
+  initialKeys: PartnerApiKeyItem[];
+}) {
+  const queryClient = useQueryClient();
+  const [message, setMessage] = useState<Message>(null);
+  const [created, setCreated] = useState<CreatePartnerApiKeyResponse | null>(
+    null,
+  );
+  const [formKey, setFormKey] = useState(0);
+
+  const keysQuery = useQuery<PartnerApiKeysResponse, Error>({
+    queryKey: QUERY_KEY,
+    queryFn: async () => {
+      const res = await fetch("/api/admin/partner-api-keys");
+      if (!res.ok) throw new Error("Failed to load API keys");
+      return res.json() as Promise<PartnerApiKeysResponse>;
+    },
+    initialData: { keys: initialKeys },
+  });
+
+  const onChanged = (next: Message) => {
+    setMessage(next);
+    if (next?.ok) void queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (payload: CreatePartnerApiKeyPayload) =>
+      sendApiKey(
+        "/api/admin/partner-api-keys",
+        "POST",
+        payload,
+      ) as Promise<CreatePartnerApiKeyResponse>,
+    onSuccess: (data) => {
+      setFormKey((k) => k + 1);
+      setCreated(data);
+      onChanged({ ok: true, text: `Created a key for ${data.key.name}.` });
+    },
+    onError: (e: Error) => onChanged({ ok: false, text: e.message }),
+  });
+
+  const keys = keysQuery.data?.keys ?? [];
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-6 px-4 py-10 sm:px-6">
+      <div>
+        <h1 className="font-heading text-2xl font-bold">Partner API keys</h1>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Keys for councils, LACs and plan managers using the directory API.
+          Partners send them as <code>Authorization: Bearer &lt;key&gt;</code>;
+          the contract is published at{" "}
+          <a
+            href="/api/v1/openapi.json"
+            className="font-medium text-primary hover:underline"
+          >
+            /api/v1/openapi.json
+          </a>
+          . Quotas reset at midnight UTC.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Create a key</CardTitle>
+          <CardDescription>
+            The full key is shown once, straight after it&rsquo;s created.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CreateKeyForm
+            key={formKey}
+            pending={createMutation.isPending}
+            onSubmit={(payload) => createMutation.mutate(payload)}
+          />
+        </CardContent>
+      </Card>
+
+      {created ? (
+        <div
+          role="status"
+          className="space-y-2 rounded-lg border border-primary/30 bg-primary/5 p-3"
+        >
+          <p className="text-sm font-medium">
+            Key for {created.key.name}. Copy it now; it can&rsquo;t be shown
+            again.
+          </p>
+          <code className="block break-all rounded bg-background p-2 text-sm">
+            {created.secret}
+          </code>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => void navigator.clipboard.writeText(created.secret)}
+            >
+              Copy
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setCreated(null)}
+            >
+              Done
+            </Button>
+          </div>
+        </div>
+      ) : null}
+
+      {message ? (
+        <p
+          role="status"
+          className={cn(
+            "text-sm",
+            message.ok ? "text-secondary" : "text-destructive",
+          )}
+        >
+          {message.text}
+        </p>
+      ) : null}
+
+      {keysQuery.isError ? (
+        <p className="text-sm text-destructive">{keysQuery.error.message}</p>
+      ) : null}
+
+      <ul className="space-y-2">
+        {keys.map((apiKey) => (
+          <ApiKeyRow key={apiKey.id} apiKey={apiKey} onChanged={onChanged} />
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import type { ReactNode } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type {
+  SearchAnalyticsQuery,
+  SearchAnalyticsReport as Report,
+} from "@/schemas/search-analytics.types";
+
+const DAY_OPTIONS = [7, 30, 90];
+
+const selectClass =
+  "rounded-lg border border-input bg-background px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+function percent(part: number, whole: number) {
+  return whole > 0 ? `${((part / whole) * 100).toFixed(1)}%` : "–";
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg border border-border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="mt-1 text-xl font-semibold">{value}</p>
+    </div>
+  );
+}
+
+function Table({
+  headers,
+  children,
+  empty,
+}: {
+  headers: string[];
+  children: ReactNode[];
+  empty: string;
+}) {
+  if (children.length === 0) {
+    return <p className="text-sm text-muted-foreground">{empty}</p>;
+  }
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-left text-sm">
+        <thead className="text-xs text-muted-foreground">
+          <tr>
+            {headers.map((header, index) => (
+              <th
+                key={header}
+                className={index === 0 ? "py-2 pr-3" : "px-3 py-2 text-right"}
+              >
+                {header}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">{children}</tbody>
+      </table>
+    </div>
+  );
+}
+
+const cell = "px-3 py-2 text-right tabular-nums";
+
+/** Read-only search analytics for site admins, filtered by a GET form. */
+export function SearchAnalyticsReport({
+  filters,
+  report,
+}: {
+  filters: SearchAnalyticsQuery;
+  report: Report;
+}) {
+  const { summary } = report;
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6 px-4 py-10 sm:px-6">
+      <div>
+        <h1 className="font-heading text-2xl font-bold">Search analytics</h1>
+        <p className="mt-1 text-sm text-muted-foreground">
+          What people search for in the provider finder and autocomplete, what
+          finds nothing and which results they pick. Queries are stored without
+          who searched or where beyond a ~150 km area.
+        </p>
+      </div>
+
+      <form className="flex flex-wrap items-end gap-3">
+        <label className="text-sm font-medium">
+          Period
+          <select
+            name="days"
+            defaultValue={String(filters.days)}
+            className={`${selectClass} mt-1 block`}
+          >
+            {DAY_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                Last {days} days
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm font-medium">
+          Source
+          <select
+            name="source"
+            defaultValue={filters.source ?? ""}
+            className={`${selectClass} mt-1 block`}
+          >
+            <option value="">All searches</option>
+            <option value="FINDER">Finder</option>
+            <option value="AUTOCOMPLETE">Autocomplete</option>
+          </select>
+        </label>
+        <Button type="submit" variant="outline" size="default">
+          Update
+        </Button>
+      </form>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <Stat label="Searches" value={summary.searches.toLocaleString()} />
+        <Stat
+          label="Zero results"
+          value={percent(summary.zeroResults, summary.searches)}
+        />
+        <Stat
+          label="Click-through"
+          value={percent(summary.clicks, summary.searches)}
+        />
+        <Stat
+          label="Latency p50 / p95"
+          value={`${Math.round(summary.p50LatencyMs)} / ${Math.round(summary.p95LatencyMs)} ms`}
+        />
+      </div>
+      {summary.fallbacks > 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {summary.fallbacks.toLocaleString()} autocomplete searches timed out
+          and showed popular providers instead.
+        </p>
+      ) : null}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Top queries</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table
+            headers={["Query", "Searches", "Avg results", "Zero", "CTR"]}
+            empty="No searches in this period."
+          >
+            {report.topQueries.map((row) => (
+              <tr key={row.query}>
+                <td className="py-2 pr-3">{row.query}</td>
+                <td className={cell}>{row.searches}</td>
+                <td className={cell}>{row.avgResults.toFixed(1)}</td>
+                <td className={cell}>{row.zeroResults}</td>
+                <td className={cell}>{percent(row.clicks, row.searches)}</td>
+              </tr>
+            ))}
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Zero-result queries</CardTitle>
+          <CardDescription>
+            Gaps in the catalogue or missing synonyms. Empty queries are
+            filter-only finder searches.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table
+            headers={["Query", "Searches", "Areas", "Last searched"]}
+            empty="Every search found something."
+          >
+            {report.zeroResultQueries.map((row) => (
+              <tr key={row.query}>
+                <td className="py-2 pr-3">
+                  {row.query || (
+                    <span className="text-muted-foreground">
+                      (filters only)
+                    </span>
+                  )}
+                </td>
+                <td className={cell}>{row.searches}</td>
+                <td className={cell}>{row.areas}</td>
+                <td className={cell}>
+                  {new Date(row.lastSearchedAt).toLocaleDateString("en-AU")}
+                </td>
+              </tr>
+            ))}
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Click-through by position</CardTitle>
+          <CardDescription>
+            Share of searches that showed a result at each position and had it
+            clicked first. Autocomplete positions include suggestions.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table
+            headers={["Position", "Shown", "Clicked", "CTR"]}
+            empty="No searches in this period."
+          >
+            {report.clickThrough
+              .filter((row) => row.impressions > 0)
+              .map((row) => (
+                <tr key={row.position}>
+                  <td className="py-2 pr-3">{row.position}</td>
+                  <td className={cell}>{row.impressions}</td>
+                  <td className={cell}>{row.clicks}</td>
+                  <td className={cell}>
+                    {percent(row.clicks, row.impressions)}
+                  </td>
+                </tr>
+              ))}
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+
+import { cn } from "@/app/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type {
+  SearchSynonymItem,
+  SearchSynonymPayload,
+  SearchSynonymsResponse,
+} from "@/schemas/search-synonyms.types";
+
+const inputClass =
+  "w-full rounded-lg border border-input bg-background px-3 py-2 text-sm text-foreground shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+const QUERY_KEY = ["admin-search-synonyms"];
+
+type Message = { ok: boolean; text: string } | null;
+
+function expansionsToText(expansions: string[]) {
+  return expansions.join(", ");
+}
+
+function textToExpansions(text: string) {
+  return text
+    .split(/[,\n]/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+async function sendSynonym(
+  url: string,
+  method: "POST" | "PATCH" | "DELETE",
+  body?: SearchSynonymPayload,
+) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(
+      typeof data.error === "string" ? data.error : "Save failed",
+    );
+  }
+  return data;
+}
+
+function SynonymForm({
+  initial,
+  submitLabel,
+  pending,
+  onSubmit,
+  onCancel,
+}: {
+  initial?: SearchSynonymItem;
+  submitLabel: string;
+  pending: boolean;
+  onSubmit: (payload: SearchSynonymPayload) => void;
+  onCancel?: () => void;
+}) {
+  const [term, setTerm] = useState(initial?.term ?? "");
+  const [expansions, setExpansions] = useState(
+    initial ? expansionsToText(initial.expansions) : "",
+  );
+  const [matchCase, setMatchCase] = useState(initial?.matchCase ?? false);
+
+  return (
+    <form
+      className="grid gap-3 sm:grid-cols-[8rem_1fr_auto] sm:items-end"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit({
+          term,
+          expansions: textToExpansions(expansions),
+          matchCase,
+        });
+      }}
+    >
+      <label className="text-sm font-medium">
+        Term
+        <input
+          className={cn(inputClass, "mt-1")}
+          value={term}
+          onChange={(e) => setTerm(e.target.value)}
+          placeholder="OT"
+          required
+        />
+      </label>
+      <label className="text-sm font-medium">
+        Expands to (comma separated)
+        <input
+          className={cn(inputClass, "mt-1")}
+          value={expansions}
+          onChange={(e) => setExpansions(e.target.value)}
+          placeholder="occupational therapy, occupational therapist"
+          required
+        />
+      </label>
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={matchCase}
+            onChange={(e) => setMatchCase(e.target.checked)}
+          />
+          Capitals only
+        </label>
+        <Button type="submit" variant="default" size="sm" disabled={pending}>
+          {pending ? "Saving…" : submitLabel}
+        </Button>
+        {onCancel ? (
+          <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        ) : null}
+      </div>
+    </form>
+  );
+}
+
+function SynonymRow({
+  synonym,
+  onChanged,
+}: {
+  synonym: SearchSynonymItem;
+  onChanged: (message: Message) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const url = `/api/admin/search-synonyms/${synonym.id}`;
+
+  const updateMutation = useMutation({
+    mutationFn: (payload: SearchSynonymPayload) =>
+      sendSynonym(url, "PATCH", payload),
+    onSuccess: () => {
+      setEditing(false);
+      onChanged({ ok: true, text: `Saved "${synonym.term}".` });
+    },
+    onError: (e: Error) => onChanged({ ok: false, text: e.message }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => sendSynonym(url, "DELETE"),
+    onSuccess: () =>
+      onChanged({ ok: true, text: `Removed "${synonym.term}".` }),
+    onError: (e: Error) => onChanged({ ok: false, text: e.message }),
+  });
+
+  if (editing) {
+    return (
+      <li className="rounded-lg border border-primary/30 bg-primary/5 p-3">
+        <SynonymForm
+          initial={synonym}
+          submitLabel="Save"
+          pending={updateMutation.isPending}
+          onSubmit={(payload) => updateMutation.mutate(payload)}
+          onCancel={() => setEditing(false)}
+        />
+      </li>
+    );
+  }
+
+  return (
+    <li className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-border bg-card p-3">
+      <div className="min-w-0">
+        <p className="font-semibold uppercase">{synonym.term}</p>
+        <p className="text-sm text-muted-foreground">
+          {expansionsToText(synonym.expansions)}
+          {synonym.matchCase ? " · capitals only" : ""}
+        </p>
+      </div>
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setEditing(true)}
+        >
+          Edit
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={deleteMutation.isPending}
+          onClick={() => {
+            if (window.confirm(`Remove "${synonym.term}" from the dictionary?`))
+              deleteMutation.mutate();
+          }}
+        >
+          Remove
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+export function SearchSynonymsEditor({
+  initialSynonyms,
+}: {
+  initialSynonyms: SearchSynonymItem[];
+}) {
+  const queryClient = useQueryClient();
+  const [message, setMessage] = useState<Message>(null);
+  const [formKey, setFormKey] = useState(0);
+
+  const synonymsQuery = useQuery<SearchSynonymsResponse, Error>({
+    queryKey: QUERY_KEY,
+    queryFn: async () => {
+      const res = await fetch("/api/admin/search-synonyms");
+      if (!res.ok) throw new Error("Failed to load synonyms");
+      return res.json() as Promise<SearchSynonymsResponse>;
+    },
+    initialData: { synonyms: initialSynonyms },
+  });
+
+  const onChanged = (next: Message) => {
+    setMessage(next);
+    if (next?.ok) void queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (payload: SearchSynonymPayload) =>
+      sendSynonym("/api/admin/search-synonyms", "POST", payload),
+    onSuccess: (_data, payload) => {
+      setFormKey((k) => k + 1);
+      onChanged({ ok: true, text: `Added "${payload.term}".` });
+    },
+    onError: (e: Error) => onChanged({ ok: false, text: e.message }),
+  });
+
+  const synonyms = synonymsQuery.data?.synonyms ?? [];
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-6 px-4 py-10 sm:px-6">
+      <div>
+        <h1 className="font-heading text-2xl font-bold">Search synonyms</h1>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Abbreviations and jargon that the provider finder also searches by
+          their expansions, e.g. &ldquo;OT&rdquo; finds occupational therapists.
+          Changes apply within a minute.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Add a term</CardTitle>
+          <CardDescription>
+            Tick &ldquo;Capitals only&rdquo; for terms that are also everyday
+            words, like &ldquo;AT&rdquo;.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <SynonymForm
+            key={formKey}
+            submitLabel="Add"
+            pending={createMutation.isPending}
+            onSubmit={(payload) => createMutation.mutate(payload)}
+          />
+        </CardContent>
+      </Card>
+
+      {message ? (
+        <p
+          role="status"
+          className={cn(
+            "text-sm",
+            message.ok ? "text-secondary" : "text-destructive",
+          )}
+        >
+          {message.text}
+        </p>
+      ) : null}
+
+      {synonymsQuery.isError ? (
+        <p className="text-sm text-destructive">
+          {synonymsQuery.error.message}
+        </p>
+      ) : null}
+
+      <ul className="space-y-2">
+        {synonyms.map((synonym) => (
+          <SynonymRow
+            key={`${synonym.id}-${synonym.updatedAt}`}
+            synonym={synonym}
+            onChanged={onChanged}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+"use client";
+
+import { usePathname } from "next/navigation";
+
+/** Renders `children` except on pages framed by partner sites (`/embed/…`). */
+export function SiteChrome({ children }: { children: React.ReactNode }) {
+  const pathname = usePathname();
+  return pathname?.startsWith("/embed/") ? null : children;
+}
@@ -10,7 +10,7 @@ const footerNav = [
 
 export function SiteFooter() {
   return (
-    <footer className="border-t border-border/40 bg-gradient-to-br from-card via-card to-primary/5">
+    <footer className="print:hidden border-t border-border/40 bg-gradient-to-br from-card via-card to-primary/5">
       <div className="container mx-auto px-4 py-10 sm:py-12">
         <div className="mx-auto flex max-w-6xl flex-col gap-8 sm:flex-row sm:items-start sm:justify-between">
           <div className="flex max-w-sm flex-col gap-3">
@@ -34,7 +34,7 @@ function NavLinks({ className }: { className?: string }) {
 
 export function SiteHeader() {
   return (
-    <header className="sticky top-0 z-50 border-b border-border/60 bg-card/85 shadow-sm backdrop-blur-md supports-[backdrop-filter]:bg-card/70">
+    <header className="sticky top-0 print:hidden z-50 border-b border-border/60 bg-card/85 shadow-sm backdrop-blur-md supports-[backdrop-filter]:bg-card/70">
       <div className="container mx-auto px-4">
         <div className="mx-auto flex max-w-6xl items-center justify-between gap-4 py-3">
           <Link
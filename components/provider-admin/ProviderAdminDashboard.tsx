@@ -17,9 +17,15 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { ACCESSIBILITY_FEATURE_LABELS } from "@/lib/accessibility";
+import {
+  ACCESSIBILITY_FEATURES,
+  type AccessibilityFeature,
+} from "@/schemas/accessibility.types";
 import {
   GetAdminResponse,
   GetCatalogResponse,
+  PatchOutletPayload,
   PatchProviderPayload,
   patchProviderPayloadSchema,
   PatchWorkerPayload,
@@ -125,6 +131,7 @@ type OrgFormValues = {
   ndisRegistered: boolean;
   ndisNumber: string;
   serviceAreas: string;
+  accessibilityFeatures: AccessibilityFeature[];
   providerSpecialisationIds: string[];
 };
 
@@ -143,6 +150,7 @@ function providerToFormValues(
     ndisRegistered: provider.ndisRegistered,
     ndisNumber: provider.ndisNumber ?? "",
     serviceAreas: serviceAreasListToLines(provider.serviceAreas),
+    accessibilityFeatures: provider.accessibilityFeatures,
     providerSpecialisationIds: provider.specialisations.map((s) => s.id),
   };
 }
@@ -176,6 +184,7 @@ function formValuesToPatchPayload(
     ndisRegistered: values.ndisRegistered,
     ndisNumber: values.ndisNumber.trim() || null,
     serviceAreas: serviceAreas,
+    accessibilityFeatures: values.accessibilityFeatures,
     specialisations: specialisations,
   };
 }
@@ -370,210 +379,250 @@ export function ProviderAdminDashboard({
         </nav>
 
         {tab === "org" && (
-          <Card>
-            <CardHeader>
-              <CardTitle>Organisation details</CardTitle>
-              <CardDescription>
-                Information shown on your public provider listing.
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              {orgMessage && (
-                <p
-                  className={cn(
-                    "text-sm",
-                    orgMessage.ok ? "text-secondary" : "text-destructive",
-                  )}
+          <div className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Organisation details</CardTitle>
+                <CardDescription>
+                  Information shown on your public provider listing.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {orgMessage && (
+                  <p
+                    className={cn(
+                      "text-sm",
+                      orgMessage.ok ? "text-secondary" : "text-destructive",
+                    )}
+                  >
+                    {orgMessage.text}
+                  </p>
+                )}
+                <form
+                  className="space-y-4"
+                  onSubmit={handleSubmit((values) => {
+                    setOrgMessage(null);
+                    if (!values.name.trim()) {
+                      setOrgMessage({
+                        ok: false,
+                        text: "Name cannot be empty.",
+                      });
+                      return;
+                    }
+                    const catalog = catalogQuery.data ?? adminCatalog;
+                    try {
+                      orgMutation.mutate(
+                        formValuesToPatchPayload(values, catalog),
+                      );
+                    } catch (e) {
+                      setOrgMessage({
+                        ok: false,
+                        text:
+                          e instanceof Error ? e.message : "Invalid form data.",
+                      });
+                    }
+                  })}
                 >
-                  {orgMessage.text}
-                </p>
-              )}
-              <form
-                className="space-y-4"
-                onSubmit={handleSubmit((values) => {
-                  setOrgMessage(null);
-                  if (!values.name.trim()) {
-                    setOrgMessage({
-                      ok: false,
-                      text: "Name cannot be empty.",
-                    });
-                    return;
-                  }
-                  const catalog = catalogQuery.data ?? adminCatalog;
-                  try {
-                    orgMutation.mutate(
-                      formValuesToPatchPayload(values, catalog),
-                    );
-                  } catch (e) {
-                    setOrgMessage({
-                      ok: false,
-                      text:
-                        e instanceof Error ? e.message : "Invalid form data.",
-                    });
-                  }
-                })}
-              >
-                <div className="grid gap-4 sm:grid-cols-2">
-                  <label className="block space-y-1.5">
-                    <span className="text-sm font-medium">Name</span>
-                    <input
-                      className={inputClass}
-                      disabled={!canEditOrg}
-                      {...register("name")}
-                    />
-                  </label>
-                  <label className="block space-y-1.5">
-                    <span className="text-sm font-medium">Logo URL</span>
-                    <input
-                      className={inputClass}
-                      disabled={!canEditOrg}
-                      {...register("logoUrl")}
-                    />
-                  </label>
-                  <label className="block space-y-1.5">
-                    <span className="text-sm font-medium">Email</span>
-                    <input
-                      className={inputClass}
-                      disabled={!canEditOrg}
-                      {...register("email")}
-                    />
-                  </label>
-                  <label className="block space-y-1.5">
-                    <span className="text-sm font-medium">Phone</span>
-                    <input
-                      className={inputClass}
-                      disabled={!canEditOrg}
-                      {...register("phone")}
-                    />
-                  </label>
-                  <label className="block space-y-1.5">
-                    <span className="text-sm font-medium">Website</span>
-                    <input
-                      className={inputClass}
-                      disabled={!canEditOrg}
-                      {...register("website")}
-                    />
-                  </label>
-                  <label className="block space-y-1.5">
-                    <span className="text-sm font-medium">ABN</span>
-                    <input
-                      className={inputClass}
-                      disabled={!canEditOrg}
-                      {...register("abn")}
-                    />
-                  </label>
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <label className="block space-y-1.5">
+                      <span className="text-sm font-medium">Name</span>
+                      <input
+                        className={inputClass}
+                        disabled={!canEditOrg}
+                        {...register("name")}
+                      />
+                    </label>
+                    <label className="block space-y-1.5">
+                      <span className="text-sm font-medium">Logo URL</span>
+                      <input
+                        className={inputClass}
+                        disabled={!canEditOrg}
+                        {...register("logoUrl")}
+                      />
+                    </label>
+                    <label className="block space-y-1.5">
+                      <span className="text-sm font-medium">Email</span>
+                      <input
+                        className={inputClass}
+                        disabled={!canEditOrg}
+                        {...register("email")}
+                      />
+                    </label>
+                    <label className="block space-y-1.5">
+                      <span className="text-sm font-medium">Phone</span>
+                      <input
+                        className={inputClass}
+                        disabled={!canEditOrg}
+                        {...register("phone")}
+                      />
+                    </label>
+                    <label className="block space-y-1.5">
+                      <span className="text-sm font-medium">Website</span>
+                      <input
+                        className={inputClass}
+                        disabled={!canEditOrg}
+                        {...register("website")}
+                      />
+                    </label>
+                    <label className="block space-y-1.5">
+                      <span className="text-sm font-medium">ABN</span>
+                      <input
+                        className={inputClass}
+                        disabled={!canEditOrg}
+                        {...register("abn")}
+                      />
+                    </label>
+                    <label className="block space-y-1.5">
+                      <span className="text-sm font-medium">Business type</span>
+                      <input
+                        className={inputClass}
+                        disabled={!canEditOrg}
+                        {...register("businessType")}
+                      />
+                    </label>
+                    <label className="block space-y-1.5">
+                      <span className="text-sm font-medium">
+                        NDIS registration #
+                      </span>
+                      <input
+                        className={inputClass}
+                        disabled={!canEditOrg}
+                        {...register("ndisNumber")}
+                      />
+                    </label>
+                  </div>
+                  <Controller
+                    name="ndisRegistered"
+                    control={control}
+                    render={({ field }) => (
+                      <label className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          className="size-4 rounded border-input"
+                          disabled={!canEditOrg}
+                          checked={field.value}
+                          onChange={field.onChange}
+                          onBlur={field.onBlur}
+                          ref={field.ref}
+                        />
+                        NDIS registered
+                      </label>
+                    )}
+                  />
                   <label className="block space-y-1.5">
-                    <span className="text-sm font-medium">Business type</span>
-                    <input
-                      className={inputClass}
+                    <span className="text-sm font-medium">Description</span>
+                    <textarea
+                      className={cn(inputClass, "min-h-[100px]")}
                       disabled={!canEditOrg}
-                      {...register("businessType")}
+                      {...register("description")}
                     />
                   </label>
                   <label className="block space-y-1.5">
                     <span className="text-sm font-medium">
-                      NDIS registration #
+                      Service areas (one per line)
                     </span>
-                    <input
-                      className={inputClass}
+                    <textarea
+                      className={cn(inputClass, "min-h-[80px]")}
                       disabled={!canEditOrg}
-                      {...register("ndisNumber")}
+                      {...register("serviceAreas")}
                     />
                   </label>
-                </div>
-                <Controller
-                  name="ndisRegistered"
-                  control={control}
-                  render={({ field }) => (
-                    <label className="flex items-center gap-2 text-sm">
-                      <input
-                        type="checkbox"
-                        className="size-4 rounded border-input"
+                  <Controller
+                    name="accessibilityFeatures"
+                    control={control}
+                    render={({ field }) => (
+                      <AccessibilityFeatureCheckboxes
+                        value={field.value}
                         disabled={!canEditOrg}
-                        checked={field.value}
                         onChange={field.onChange}
-                        onBlur={field.onBlur}
-                        ref={field.ref}
                       />
-                      NDIS registered
-                    </label>
-                  )}
-                />
-                <label className="block space-y-1.5">
-                  <span className="text-sm font-medium">Description</span>
-                  <textarea
-                    className={cn(inputClass, "min-h-[100px]")}
-                    disabled={!canEditOrg}
-                    {...register("description")}
-                  />
-                </label>
-                <label className="block space-y-1.5">
-                  <span className="text-sm font-medium">
-                    Service areas (one per line)
-                  </span>
-                  <textarea
-                    className={cn(inputClass, "min-h-[80px]")}
-                    disabled={!canEditOrg}
-                    {...register("serviceAreas")}
-                  />
-                </label>
-                <div className="block space-y-1.5">
-                  <span className="text-sm font-medium">Specialisations</span>
-                  <Controller
-                    name="providerSpecialisationIds"
-                    control={control}
-                    render={({ field }) => {
-                      const catalog = catalogQuery.data ?? adminCatalog;
-                      const options: ProviderSpecOption[] =
-                        catalog.providerSpecialisations.map((s) => ({
-                          value: s.id,
-                          label: s.name,
-                        }));
-                      const selected: MultiValue<ProviderSpecOption> =
-                        options.filter((o) => field.value.includes(o.value));
-                      return (
-                        <Select<ProviderSpecOption, true>
-                          instanceId="provider-org-specialisations"
-                          isMulti
-                          isClearable
-                          closeMenuOnSelect={false}
-                          isDisabled={!canEditOrg}
-                          options={options}
-                          value={selected}
-                          onChange={(next) => {
-                            field.onChange(
-                              next ? next.map((o) => o.value) : [],
-                            );
-                          }}
-                          onBlur={field.onBlur}
-                          placeholder="Search and select specialisations…"
-                          noOptionsMessage={() => "No matches"}
-                          styles={providerSpecSelectStyles}
-                          classNamePrefix="provider-spec-select"
-                        />
-                      );
-                    }}
+                    )}
                   />
-                  {catalogQuery.isLoading &&
-                  adminCatalog.providerSpecialisations.length === 0 ? (
-                    <p className="text-xs text-muted-foreground">
-                      Loading catalogue…
-                    </p>
-                  ) : null}
-                </div>
-                {canEditOrg && (
-                  <Button
-                    variant="default"
-                    size="default"
-                    loading={orgMutation.isPending}
-                    type="submit"
-                  >
-                    Save organisation
-                  </Button>
-                )}
-              </form>
-            </CardContent>
-          </Card>
+                  <div className="block space-y-1.5">
+                    <span className="text-sm font-medium">Specialisations</span>
+                    <Controller
+                      name="providerSpecialisationIds"
+                      control={control}
+                      render={({ field }) => {
+                        const catalog = catalogQuery.data ?? adminCatalog;
+                        const options: ProviderSpecOption[] =
+                          catalog.providerSpecialisations.map((s) => ({
+                            value: s.id,
+                            label: s.name,
+                          }));
+                        const selected: MultiValue<ProviderSpecOption> =
+                          options.filter((o) => field.value.includes(o.value));
+                        return (
+                          <Select<ProviderSpecOption, true>
+                            instanceId="provider-org-specialisations"
+                            isMulti
+                            isClearable
+                            closeMenuOnSelect={false}
+                            isDisabled={!canEditOrg}
+                            options={options}
+                            value={selected}
+                            onChange={(next) => {
+                              field.onChange(
+                                next ? next.map((o) => o.value) : [],
+                              );
+                            }}
+                            onBlur={field.onBlur}
+                            placeholder="Search and select specialisations…"
+                            noOptionsMessage={() => "No matches"}
+                            styles={providerSpecSelectStyles}
+                            classNamePrefix="provider-spec-select"
+                          />
+                        );
+                      }}
+                    />
+                    {catalogQuery.isLoading &&
+                    adminCatalog.providerSpecialisations.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">
+                        Loading catalogue…
+                      </p>
+                    ) : null}
+                  </div>
+                  {canEditOrg && (
+                    <Button
+                      variant="default"
+                      size="default"
+                      loading={orgMutation.isPending}
+                      type="submit"
+                    >
+                      Save organisation
+                    </Button>
+                  )}
+                </form>
+              </CardContent>
+            </Card>
+            {adminQuery.data.outlets.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Outlet accessibility</CardTitle>
+                  <CardDescription>
+                    Features at each outlet&apos;s premises, shown on its public
+                    page and used by the provider finder&apos;s accessibility
+                    filter.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {adminQuery.data.outlets.map((outlet) => (
+                    <OutletAccessibilityForm
+                      key={outlet.id}
+                      providerId={providerId}
+                      outlet={outlet}
+                      canEdit={canEditOrg}
+                      onSaved={() => {
+                        void queryClient.invalidateQueries({
+                          queryKey: ["provider-admin", providerId],
+                        });
+                      }}
+                    />
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
         )}
 
         {tab === "team" && (
@@ -605,6 +654,131 @@ export function ProviderAdminDashboard({
   );
 }
 
+function AccessibilityFeatureCheckboxes({
+  value,
+  disabled,
+  onChange,
+}: {
+  value: AccessibilityFeature[];
+  disabled?: boolean;
+  onChange: (next: AccessibilityFeature[]) => void;
+}) {
+  return (
+    <fieldset className="space-y-2">
+      <legend className="text-sm font-medium">Accessibility features</legend>
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        {ACCESSIBILITY_FEATURES.map((feature) => (
+          <label key={feature} className="flex items-center gap-1.5 text-sm">
+            <input
+              type="checkbox"
+              className="size-4 rounded border-input"
+              disabled={disabled}
+              checked={value.includes(feature)}
+              onChange={(e) => {
+                onChange(
+                  e.target.checked
+                    ? [...value, feature]
+                    : value.filter((f) => f !== feature),
+                );
+              }}
+            />
+            {ACCESSIBILITY_FEATURE_LABELS[feature]}
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+}
+
+function OutletAccessibilityForm({
+  providerId,
+  outlet,
+  canEdit,
+  onSaved,
+}: {
+  providerId: string;
+  outlet: GetAdminResponse["outlets"][number];
+  canEdit: boolean;
+  onSaved: () => void;
+}) {
+  const [features, setFeatures] = useState(outlet.accessibilityFeatures);
+  const [msg, setMsg] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(
+        `/api/provider-admin/${providerId}/outlets/${outlet.id}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            accessibilityFeatures: features,
+          } satisfies PatchOutletPayload),
+        },
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          typeof data.error === "string" ? data.error : "Save failed",
+        );
+      }
+      return data;
+    },
+    onSuccess: () => {
+      setMsg({ ok: true, text: `Saved accessibility for ${outlet.name}.` });
+      onSaved();
+    },
+    onError: (e: Error) => setMsg({ ok: false, text: e.message }),
+  });
+
+  const changed =
+    features.length !== outlet.accessibilityFeatures.length ||
+    features.some((f) => !outlet.accessibilityFeatures.includes(f));
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-4">
+      <div>
+        <p className="text-sm font-semibold">{outlet.name}</p>
+        {outlet.addressString && (
+          <p className="text-xs text-muted-foreground">
+            {outlet.addressString}
+          </p>
+        )}
+      </div>
+      {msg && (
+        <p
+          className={cn(
+            "text-sm",
+            msg.ok ? "text-secondary" : "text-destructive",
+          )}
+        >
+          {msg.text}
+        </p>
+      )}
+      <AccessibilityFeatureCheckboxes
+        value={features}
+        disabled={!canEdit}
+        onChange={(next) => {
+          setMsg(null);
+          setFeatures(next);
+        }}
+      />
+      {canEdit && (
+        <Button
+          variant="secondary"
+          size="sm"
+          type="button"
+          disabled={!changed}
+          loading={mutation.isPending}
+          onClick={() => mutation.mutate()}
+        >
+          Save outlet
+        </Button>
+      )}
+    </div>
+  );
+}
+
 function Field({
   label,
   value,
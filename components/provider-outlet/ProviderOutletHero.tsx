@@ -1,6 +1,7 @@
 import { MapPin, Star } from "lucide-react";
 import Image from "next/image";
 
+import { ShortlistButton } from "@/components/shortlist/ShortlistButton";
 import { Badge } from "@/components/ui/badge";
 
 import type { ProviderOutlet } from "./types";
@@ -127,6 +128,16 @@ export default function ProviderOutletHero({
           )}
         </div>
       </div>
+
+      <ShortlistButton
+        labelled
+        target={{
+          type: "outlet",
+          id: providerOutlet.id,
+          name: providerOutlet.name,
+        }}
+        className="shrink-0 sm:self-start"
+      />
     </div>
   );
 }
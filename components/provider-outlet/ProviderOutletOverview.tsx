@@ -1,5 +1,7 @@
 import { Globe, Mail, Phone } from "lucide-react";
 
+import AccessibilityFeatureList from "@/components/AccessibilityFeatureList";
+
 import type { ProviderOutlet } from "./types";
 
 type ProviderOutletOverviewProps = {
@@ -15,7 +17,10 @@ export default function ProviderOutletOverview({
     providerOutlet.website ||
     providerOutlet.description;
 
-  if (!hasContact && !providerOutlet.description) return null;
+  const hasAccessibility = providerOutlet.accessibilityFeatures.length > 0;
+
+  if (!hasContact && !providerOutlet.description && !hasAccessibility)
+    return null;
 
   return (
     <section className="space-y-4">
@@ -77,6 +82,15 @@ export default function ProviderOutletOverview({
           </div>
         </div>
       )}
+
+      {hasAccessibility && (
+        <div className="space-y-3">
+          <h3 className="text-sm text-foreground">Accessibility</h3>
+          <AccessibilityFeatureList
+            features={providerOutlet.accessibilityFeatures}
+          />
+        </div>
+      )}
     </section>
   );
 }
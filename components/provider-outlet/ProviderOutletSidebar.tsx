@@ -1,13 +1,7 @@
-import {
-  Clock,
-  Globe,
-  Mail,
-  MapPin,
-  Phone,
-  Sparkles,
-} from "lucide-react";
+import { Clock, Globe, Mail, MapPin, Phone, Sparkles } from "lucide-react";
 import Link from "next/link";
 
+import OpenStatusBadge from "@/components/OpenStatusBadge";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -111,7 +105,11 @@ export default function ProviderOutletSidebar({
               Opening hours
             </CardTitle>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-3">
+            <OpenStatusBadge
+              businessHours={providerOutlet.businessHours}
+              state={providerOutlet.address?.state}
+            />
             <div className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm tabular-nums">
               {providerOutlet.businessHours.map((bh) => (
                 <span key={bh.id} className="contents">
@@ -1,4 +1,4 @@
-import type { DayOfWeek } from "@prisma/client";
+import type { AccessibilityFeature, DayOfWeek } from "@prisma/client";
 
 export type ProviderOutlet = {
   id: string;
@@ -26,6 +26,7 @@ export type ProviderOutlet = {
   rating: number | null;
   reviewCount: number;
   serviceAreas: string[];
+  accessibilityFeatures: AccessibilityFeature[];
   specialisations: { id: string; name: string }[];
   services: {
     id: string;
@@ -1,6 +1,7 @@
 import { MapPin, ShieldCheck, Star } from "lucide-react";
 import Image from "next/image";
 
+import { ShortlistButton } from "@/components/shortlist/ShortlistButton";
 import { Badge } from "@/components/ui/badge";
 
 import type { Provider } from "./types";
@@ -132,6 +133,12 @@ export default function ProviderHero({ provider }: ProviderHeroProps) {
           )}
         </div>
       </div>
+
+      <ShortlistButton
+        labelled
+        target={{ type: "provider", id: provider.id, name: provider.name }}
+        className="shrink-0 sm:self-start"
+      />
     </div>
   );
 }
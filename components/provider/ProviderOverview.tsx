@@ -1,5 +1,7 @@
 import { Globe, Mail, Phone } from "lucide-react";
 
+import AccessibilityFeatureList from "@/components/AccessibilityFeatureList";
+
 import type { Provider } from "./types";
 
 type ProviderOverviewProps = {
@@ -13,7 +15,9 @@ export default function ProviderOverview({ provider }: ProviderOverviewProps) {
     provider.website ||
     provider.description;
 
-  if (!hasContact && !provider.description) return null;
+  const hasAccessibility = provider.accessibilityFeatures.length > 0;
+
+  if (!hasContact && !provider.description && !hasAccessibility) return null;
 
   return (
     <section className="space-y-4">
@@ -73,6 +77,13 @@ export default function ProviderOverview({ provider }: ProviderOverviewProps) {
           </div>
         </div>
       )}
+
+      {hasAccessibility && (
+        <div className="space-y-3">
+          <h3 className="text-sm text-foreground">Accessibility</h3>
+          <AccessibilityFeatureList features={provider.accessibilityFeatures} />
+        </div>
+      )}
     </section>
   );
 }
@@ -9,6 +9,7 @@ import {
 } from "lucide-react";
 import Link from "next/link";
 
+import OpenStatusBadge from "@/components/OpenStatusBadge";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -111,7 +112,11 @@ export default function ProviderSidebar({ provider }: ProviderSidebarProps) {
               Opening hours
             </CardTitle>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-3">
+            <OpenStatusBadge
+              businessHours={provider.businessHours}
+              state={provider.address?.state}
+            />
             <div className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm tabular-nums">
               {provider.businessHours.map((bh) => (
                 <span key={bh.id} className="contents">
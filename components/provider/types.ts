@@ -1,4 +1,4 @@
-import type { DayOfWeek } from "@prisma/client";
+import type { AccessibilityFeature, DayOfWeek } from "@prisma/client";
 
 export type Provider = {
   id: string;
@@ -25,6 +25,7 @@ export type Provider = {
   rating: number | null;
   reviewCount: number;
   serviceAreas: string[];
+  accessibilityFeatures: AccessibilityFeature[];
   specialisations: { id: string; name: string }[];
   services: {
     id: string;
@@ -3,13 +3,19 @@
 import { SessionProvider } from "next-auth/react";
 
 import { BrandProvider } from "@/app/contexts/BrandContext";
+import { CompareTrayProvider } from "@/app/contexts/CompareTrayContext";
+import { ShortlistProvider } from "@/app/contexts/ShortlistContext";
 import { QueryProvider } from "@/lib/query-provider";
 
 export function Providers({ children }: { children: React.ReactNode }) {
   return (
     <SessionProvider>
       <QueryProvider>
-        <BrandProvider>{children}</BrandProvider>
+        <BrandProvider>
+          <ShortlistProvider>
+            <CompareTrayProvider>{children}</CompareTrayProvider>
+          </ShortlistProvider>
+        </BrandProvider>
       </QueryProvider>
     </SessionProvider>
   );
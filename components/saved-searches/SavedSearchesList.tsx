@@ -0,0 +1,178 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import Link from "next/link";
+import { useState } from "react";
+
+import { cn } from "@/app/lib/utils";
+import { Button } from "@/components/ui/button";
+import { API_ROUTES, ROUTES } from "@/lib/routes";
+import type {
+  PatchSavedSearchPayload,
+  SavedSearchesResponse,
+  SavedSearchFrequency,
+  SavedSearchItem,
+} from "@/schemas/saved-searches.types";
+
+const QUERY_KEY = ["saved-searches"];
+
+type Message = { ok: boolean; text: string } | null;
+
+async function sendSavedSearch(
+  id: string,
+  method: "PATCH" | "DELETE",
+  body?: PatchSavedSearchPayload,
+) {
+  const res = await fetch(API_ROUTES.savedSearches.item(id), {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(
+      typeof data.error === "string" ? data.error : "Save failed",
+    );
+  }
+  return data;
+}
+
+function SavedSearchRow({
+  savedSearch,
+  onChanged,
+}: {
+  savedSearch: SavedSearchItem;
+  onChanged: (message: Message) => void;
+}) {
+  const updateMutation = useMutation({
+    mutationFn: (payload: PatchSavedSearchPayload) =>
+      sendSavedSearch(savedSearch.id, "PATCH", payload),
+    onSuccess: () =>
+      onChanged({ ok: true, text: `Saved "${savedSearch.name}".` }),
+    onError: (e: Error) => onChanged({ ok: false, text: e.message }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => sendSavedSearch(savedSearch.id, "DELETE"),
+    onSuccess: () =>
+      onChanged({ ok: true, text: `Removed "${savedSearch.name}".` }),
+    onError: (e: Error) => onChanged({ ok: false, text: e.message }),
+  });
+
+  const pending = updateMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <li className="space-y-2 rounded-lg border border-border p-3">
+      {/* Saved params are also valid finder URL params. */}
+      <Link
+        href={`${ROUTES.providerFinder}?${new URLSearchParams(savedSearch.params)}`}
+        className="text-sm font-medium text-primary hover:underline"
+      >
+        {savedSearch.name}
+      </Link>
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={savedSearch.emailAlerts}
+            disabled={pending}
+            onChange={(e) =>
+              updateMutation.mutate({ emailAlerts: e.target.checked })
+            }
+          />
+          Email me
+        </label>
+        <select
+          aria-label={`Email frequency for ${savedSearch.name}`}
+          className="rounded-lg border border-input bg-background px-2 py-1 text-sm"
+          value={savedSearch.frequency}
+          disabled={pending || !savedSearch.emailAlerts}
+          onChange={(e) =>
+            updateMutation.mutate({
+              frequency: e.target.value as SavedSearchFrequency,
+            })
+          }
+        >
+          <option value="WEEKLY">Weekly</option>
+          <option value="DAILY">Daily</option>
+        </select>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="ml-auto"
+          disabled={pending}
+          onClick={() => {
+            if (
+              window.confirm(`Remove the saved search "${savedSearch.name}"?`)
+            )
+              deleteMutation.mutate();
+          }}
+        >
+          Remove
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+/** The signed-in user's saved finder searches with their email settings. */
+export function SavedSearchesList({
+  initialSavedSearches,
+}: {
+  initialSavedSearches: SavedSearchItem[];
+}) {
+  const queryClient = useQueryClient();
+  const [message, setMessage] = useState<Message>(null);
+
+  const savedSearchesQuery = useQuery<SavedSearchesResponse, Error>({
+    queryKey: QUERY_KEY,
+    queryFn: async () => {
+      const res = await fetch(API_ROUTES.savedSearches.list);
+      if (!res.ok) throw new Error("Failed to load saved searches");
+      return res.json() as Promise<SavedSearchesResponse>;
+    },
+    initialData: { savedSearches: initialSavedSearches },
+  });
+
+  const onChanged = (next: Message) => {
+    setMessage(next);
+    if (next?.ok) void queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+  };
+
+  const savedSearches = savedSearchesQuery.data?.savedSearches ?? [];
+
+  if (savedSearches.length === 0) {
+    return (
+      <p className="mt-3 text-sm text-muted-foreground">
+        Use &ldquo;Save search&rdquo; in the provider finder to get emails when
+        new providers match.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-3 space-y-3">
+      {message ? (
+        <p
+          role="status"
+          className={cn(
+            "text-sm",
+            message.ok ? "text-secondary" : "text-destructive",
+          )}
+        >
+          {message.text}
+        </p>
+      ) : null}
+      <ul className="space-y-2">
+        {savedSearches.map((savedSearch) => (
+          <SavedSearchRow
+            key={savedSearch.id}
+            savedSearch={savedSearch}
+            onChanged={onChanged}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { Heart } from "lucide-react";
+import { useState } from "react";
+
+import {
+  type ShortlistTarget,
+  useShortlist,
+} from "@/app/contexts/ShortlistContext";
+import { cn } from "@/app/lib/utils";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Heart toggle for the shortlist. `labelled` shows "Shortlist"/"Shortlisted"
+ * next to the icon, for profile pages; cards use the icon alone.
+ */
+export function ShortlistButton({
+  target,
+  labelled = false,
+  className,
+}: {
+  target: ShortlistTarget;
+  labelled?: boolean;
+  className?: string;
+}) {
+  const { ready, isShortlisted, toggle } = useShortlist();
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const active = isShortlisted(target.type, target.id);
+  const label = active
+    ? `Remove ${target.name} from your shortlist`
+    : `Add ${target.name} to your shortlist`;
+
+  const onClick = async () => {
+    setPending(true);
+    setError(null);
+    try {
+      await toggle(target);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Save failed");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        size={labelled ? "sm" : "icon"}
+        className={cn(active && "border-primary/30 text-primary", className)}
+        aria-pressed={active}
+        aria-label={labelled ? undefined : label}
+        title={error ?? label}
+        disabled={!ready || pending}
+        onClick={onClick}
+      >
+        <Heart className={cn(active && "fill-current")} />
+        {labelled ? (active ? "Shortlisted" : "Shortlist") : null}
+      </Button>
+      {error ? (
+        <span role="status" className="sr-only">
+          {error}
+        </span>
+      ) : null}
+    </>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import Link from "next/link";
+import { useState } from "react";
+
+import { SHORTLIST_QUERY_KEY } from "@/app/contexts/ShortlistContext";
+import { cn } from "@/app/lib/utils";
+import { Button } from "@/components/ui/button";
+import { API_ROUTES, ROUTES } from "@/lib/routes";
+import type {
+  PatchShortlistEntryPayload,
+  ShortlistEntityType,
+  ShortlistEntryItem,
+  ShortlistResponse,
+} from "@/schemas/shortlist.types";
+
+const TYPE_LABELS: Record<ShortlistEntityType, string> = {
+  provider: "Provider",
+  outlet: "Outlet",
+  worker: "Worker",
+};
+
+type Message = { ok: boolean; text: string } | null;
+
+async function sendShortlistEntry(
+  id: string,
+  method: "PATCH" | "DELETE",
+  body?: PatchShortlistEntryPayload,
+) {
+  const res = await fetch(API_ROUTES.shortlist.item(id), {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(
+      typeof data.error === "string" ? data.error : "Save failed",
+    );
+  }
+  return data;
+}
+
+function ShortlistRow({
+  entry,
+  onChanged,
+}: {
+  entry: ShortlistEntryItem;
+  onChanged: (message: Message) => void;
+}) {
+  const [note, setNote] = useState(entry.note ?? "");
+
+  const noteMutation = useMutation({
+    mutationFn: () => sendShortlistEntry(entry.id, "PATCH", { note }),
+    onSuccess: () =>
+      onChanged({ ok: true, text: `Saved your note on ${entry.name}.` }),
+    onError: (e: Error) => onChanged({ ok: false, text: e.message }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => sendShortlistEntry(entry.id, "DELETE"),
+    onSuccess: () =>
+      onChanged({
+        ok: true,
+        text: `Removed ${entry.name} from your shortlist.`,
+      }),
+    onError: (e: Error) => onChanged({ ok: false, text: e.message }),
+  });
+
+  const pending = noteMutation.isPending || deleteMutation.isPending;
+  const noteChanged = note.trim() !== (entry.note ?? "");
+
+  return (
+    <li className="space-y-2 rounded-lg border border-border p-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <Link
+            href={entry.href}
+            className="text-sm font-medium text-primary hover:underline"
+          >
+            {entry.name}
+          </Link>
+          <p className="text-xs text-muted-foreground">
+            {TYPE_LABELS[entry.type]}
+            {entry.detail ? ` · ${entry.detail}` : null}
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={pending}
+          onClick={() => deleteMutation.mutate()}
+        >
+          Remove
+        </Button>
+      </div>
+      <label className="block text-xs text-muted-foreground">
+        Private note
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={2}
+          maxLength={1000}
+          placeholder="Only you can see this"
+          className="mt-1 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm text-foreground shadow-sm outline-none transition focus:border-primary/30 focus:ring-2 focus:ring-ring"
+        />
+      </label>
+      {noteChanged ? (
+        <Button
+          type="button"
+          variant="default"
+          size="sm"
+          disabled={pending}
+          onClick={() => noteMutation.mutate()}
+        >
+          Save note
+        </Button>
+      ) : null}
+    </li>
+  );
+}
+
+/** The signed-in user's shortlisted providers, outlets and workers. */
+export function ShortlistList({
+  initialEntries,
+}: {
+  initialEntries: ShortlistEntryItem[];
+}) {
+  const queryClient = useQueryClient();
+  const [message, setMessage] = useState<Message>(null);
+
+  const shortlistQuery = useQuery<ShortlistResponse, Error>({
+    queryKey: SHORTLIST_QUERY_KEY,
+    queryFn: async () => {
+      const res = await fetch(API_ROUTES.shortlist.list);
+      if (!res.ok) throw new Error("Failed to load shortlist");
+      return res.json() as Promise<ShortlistResponse>;
+    },
+    initialData: { entries: initialEntries },
+  });
+
+  const onChanged = (next: Message) => {
+    setMessage(next);
+    if (next?.ok) {
+      void queryClient.invalidateQueries({ queryKey: SHORTLIST_QUERY_KEY });
+    }
+  };
+
+  const entries = shortlistQuery.data?.entries ?? [];
+
+  if (entries.length === 0) {
+    return (
+      <p className="mt-3 text-sm text-muted-foreground">
+        Tap the heart on providers, outlets and workers in the{" "}
+        <Link
+          href={ROUTES.providerFinder}
+          className="text-primary hover:underline"
+        >
+          provider finder
+        </Link>{" "}
+        to keep them here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-3 space-y-3">
+      {message ? (
+        <p
+          role="status"
+          className={cn(
+            "text-sm",
+            message.ok ? "text-secondary" : "text-destructive",
+          )}
+        >
+          {message.text}
+        </p>
+      ) : null}
+      <ul className="space-y-2">
+        {entries.map((entry) => (
+          <ShortlistRow key={entry.id} entry={entry} onChanged={onChanged} />
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { Briefcase, User } from "lucide-react";
 
+import { ShortlistButton } from "@/components/shortlist/ShortlistButton";
+
 import type { WorkerWithRelations } from "./types";
 
 type WorkerHeroProps = {
@@ -33,6 +35,12 @@ export default function WorkerHero({ worker }: WorkerHeroProps) {
           </p>
         )}
       </div>
+
+      <ShortlistButton
+        labelled
+        target={{ type: "worker", id: worker.id, name: displayName }}
+        className="shrink-0 sm:self-start"
+      />
     </div>
   );
 }
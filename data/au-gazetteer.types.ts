@@ -0,0 +1,10 @@
+import type { StateCode } from "./provider-outlets.types";
+
+/** One row of `data/au-gazetteer.json`: suburb, postcode, state and centroid. */
+export type GazetteerRow = [
+  suburb: string,
+  postcode: string,
+  state: StateCode,
+  latitude: number,
+  longitude: number,
+];
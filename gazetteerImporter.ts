@@ -0,0 +1,139 @@
+/**
+ * Rebuilds the bundled suburb/postcode gazetteer (`data/au-gazetteer.json`)
+ * from a full Australian postcode CSV with `locality`, `postcode`, `state`,
+ * `lat` and `long` columns (e.g. Matthew Proctor's australian_postcodes.csv).
+ * The checked-in file is only a starter set of major suburbs; run this before
+ * relying on location search outside the capitals.
+ *
+ * Env:
+ *   GAZETTEER_CSV_PATH — source CSV on disk; otherwise it's downloaded from
+ *   GAZETTEER_CSV_URL (default: the australian_postcodes.csv above).
+ *
+ * Run: pnpm import:gazetteer
+ */
+import fs from "node:fs";
+import path from "node:path";
+
+import type { GazetteerRow } from "./data/au-gazetteer.types";
+import type { StateCode } from "./data/provider-outlets.types";
+
+const OUTPUT_PATH = path.join(process.cwd(), "data/au-gazetteer.json");
+const DEFAULT_CSV_URL =
+  "https://raw.githubusercontent.com/matthewproctor/australianpostcodes/master/australian_postcodes.csv";
+const STATES = new Set(["NSW", "VIC", "QLD", "SA", "WA", "TAS", "ACT", "NT"]);
+
+/** Minimal CSV line parser (quoted fields, escaped quotes). */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+function titleCase(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/(^|[\s-'])([a-z])/g, (_, sep: string, ch: string) => {
+      return sep + ch.toUpperCase();
+    });
+}
+
+async function readSourceCsv() {
+  const csvPath = process.env.GAZETTEER_CSV_PATH;
+  if (csvPath) {
+    return { source: csvPath, csv: fs.readFileSync(csvPath, "utf-8") };
+  }
+
+  const url = process.env.GAZETTEER_CSV_URL ?? DEFAULT_CSV_URL;
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Downloading ${url} failed: ${res.status}`);
+  return { source: url, csv: await res.text() };
+}
+
+async function run() {
+  const { source, csv } = await readSourceCsv();
+  const [header, ...lines] = csv.split(/\r?\n/).filter(Boolean);
+  const columns = parseCsvLine(header).map((c) => c.trim().toLowerCase());
+  const col = (name: string) => {
+    const index = columns.indexOf(name);
+    if (index < 0) throw new Error(`Missing column "${name}" in ${source}`);
+    return index;
+  };
+  const [localityCol, postcodeCol, stateCol, latCol, lonCol] = [
+    col("locality"),
+    col("postcode"),
+    col("state"),
+    col("lat"),
+    col("long"),
+  ];
+
+  const rows: Record<string, GazetteerRow> = {};
+  let skipped = 0;
+  for (const line of lines) {
+    const fields = parseCsvLine(line);
+    const state = fields[stateCol]?.trim().toUpperCase();
+    const postcode = fields[postcodeCol]?.trim().padStart(4, "0");
+    const latitude = Number(fields[latCol]);
+    const longitude = Number(fields[lonCol]);
+    if (
+      !state ||
+      !STATES.has(state) ||
+      !/^\d{4}$/.test(postcode ?? "") ||
+      !latitude ||
+      !longitude
+    ) {
+      skipped++;
+      continue;
+    }
+
+    const suburb = titleCase(fields[localityCol].trim());
+    rows[`${suburb}|${postcode}|${state}`] ??= [
+      suburb,
+      postcode,
+      state as StateCode,
+      Math.round(latitude * 10000) / 10000,
+      Math.round(longitude * 10000) / 10000,
+    ];
+  }
+
+  const sorted = Object.values(rows).sort(
+    (a, b) =>
+      a[2].localeCompare(b[2]) ||
+      a[1].localeCompare(b[1]) ||
+      a[0].localeCompare(b[0]),
+  );
+  fs.writeFileSync(
+    OUTPUT_PATH,
+    `[\n${sorted.map((row) => `  ${JSON.stringify(row)}`).join(",\n")}\n]\n`,
+  );
+
+  console.log(
+    `Gazetteer: wrote ${sorted.length} places to ${OUTPUT_PATH} (${skipped} rows skipped)`,
+  );
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,14 @@
+import type { AccessibilityFeature } from "@/schemas/accessibility.types";
+
+export const ACCESSIBILITY_FEATURE_LABELS: Record<
+  AccessibilityFeature,
+  string
+> = {
+  STEP_FREE_ACCESS: "Step-free access",
+  ACCESSIBLE_TOILET: "Accessible toilet",
+  ACCESSIBLE_PARKING: "Accessible parking",
+  HEARING_LOOP: "Hearing loop",
+  AUSLAN_INTERPRETERS: "Auslan interpreters",
+  QUIET_ROOM: "Quiet room",
+  SENSORY_FRIENDLY_HOURS: "Sensory-friendly hours",
+};
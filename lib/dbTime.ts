@@ -1,10 +1,11 @@
 /**
  * Helpers for Prisma `DateTime @db.Time` fields.
  *
- * The DB stores time-of-day only; Prisma exposes it as a Date (often 1970-01-01
- * in UTC when serialized to JSON). Use UTC hour/minute for display and forms so
- * values round-trip without timezone shifts. If you need true "Sydney wall clock",
- * store timezone explicitly or use `timestamptz` — not plain `TIME`.
+ * The DB stores time-of-day only, as local wall-clock time at the address (e.g.
+ * "09:00" at a Perth outlet is 9am AWST). Prisma exposes it as a Date on
+ * 1970-01-01 UTC, so read the UTC hour/minute to get the wall-clock value back.
+ * Never compare these against `new Date()` directly; use `lib/openingHours.ts`,
+ * which converts "now" into the address's state time zone first.
  */
 const formatter = new Intl.DateTimeFormat("en-AU", {
   hour: "2-digit",
@@ -17,3 +18,16 @@ export const getDbTimeString = (value: string | Date): string => {
   const date = typeof value === "string" ? new Date(value) : value;
   return formatter.format(date);
 };
+
+/** Minutes since midnight (wall clock) for a `TIME` value. */
+export const getDbTimeMinutes = (value: string | Date): number => {
+  const date = typeof value === "string" ? new Date(value) : value;
+  return date.getUTCHours() * 60 + date.getUTCMinutes();
+};
+
+/** 12-hour label for minutes since midnight, e.g. 1020 -> "5:00pm". */
+export const formatMinutes12h = (minutes: number): string => {
+  const h = Math.floor(minutes / 60) % 24;
+  const m = minutes % 60;
+  return `${h % 12 || 12}:${m.toString().padStart(2, "0")}${h < 12 ? "am" : "pm"}`;
+};
@@ -0,0 +1,134 @@
+import gazetteerRows from "@/data/au-gazetteer.json";
+import type { GazetteerRow } from "@/data/au-gazetteer.types";
+import type { StateCode } from "@/data/provider-outlets.types";
+
+import { distanceKm, type ReverseGeocodeResult } from "./geo";
+
+/**
+ * Offline suburb/postcode lookup over the bundled gazetteer
+ * (`data/au-gazetteer.json`). The checked-in file is a starter set of about
+ * 220 capital-city suburbs and regional centres, so smaller suburbs aren't
+ * found until it's rebuilt from a full postcode CSV with
+ * `pnpm import:gazetteer` (~15k places, downloaded). Server-side only, so the full file
+ * never lands in a client bundle.
+ */
+
+export type GazetteerPlace = {
+  suburb: string;
+  postcode: string;
+  state: StateCode;
+  latitude: number;
+  longitude: number;
+  /** e.g. "Parramatta NSW 2150" */
+  displayName: string;
+};
+
+/**
+ * Reverse lookups further than this from any centroid return nothing; past a
+ * few km the nearest centroid names the wrong suburb (and postcode).
+ */
+export const MAX_REVERSE_DISTANCE_KM = 5;
+
+const STATE_CODES = new Set<string>([
+  "NSW",
+  "VIC",
+  "QLD",
+  "SA",
+  "WA",
+  "TAS",
+  "ACT",
+  "NT",
+]);
+
+const places: GazetteerPlace[] = (
+  gazetteerRows as unknown as GazetteerRow[]
+).map(([suburb, postcode, state, latitude, longitude]) => ({
+  suburb,
+  postcode,
+  state,
+  latitude,
+  longitude,
+  displayName: `${suburb} ${state} ${postcode}`,
+}));
+
+function normalise(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Lower is better: exact, prefix, word prefix, then substring. */
+function nameScore(suburb: string, name: string): number | null {
+  const candidate = normalise(suburb);
+  if (candidate === name) return 0;
+  if (candidate.startsWith(name)) return 1;
+  if (candidate.split(" ").some((word) => word.startsWith(name))) return 2;
+  if (candidate.includes(name)) return 3;
+  return null;
+}
+
+/**
+ * Places matching a suburb name and/or postcode, e.g. "Parramatta", "2150",
+ * "richmond vic" or "Richmond 3121". A bare number matches postcode prefixes.
+ */
+export function searchPlaces(query: string, limit = 8): GazetteerPlace[] {
+  const tokens = normalise(query).split(" ").filter(Boolean);
+  if (tokens.length === 0) return [];
+
+  let state: string | null = null;
+  let postcode: string | null = null;
+  const nameTokens: string[] = [];
+  for (const token of tokens) {
+    if (STATE_CODES.has(token.toUpperCase())) state = token.toUpperCase();
+    else if (/^\d{1,4}$/.test(token)) postcode = token;
+    else nameTokens.push(token);
+  }
+  const name = nameTokens.join(" ");
+
+  const matches: { place: GazetteerPlace; score: number }[] = [];
+  for (const place of places) {
+    if (state && place.state !== state) continue;
+    if (postcode && !place.postcode.startsWith(postcode)) continue;
+
+    const score = name ? nameScore(place.suburb, name) : 0;
+    if (score === null) continue;
+    matches.push({ place, score });
+  }
+
+  return matches
+    .sort(
+      (a, b) =>
+        a.score - b.score ||
+        a.place.suburb.localeCompare(b.place.suburb) ||
+        a.place.postcode.localeCompare(b.place.postcode),
+    )
+    .slice(0, limit)
+    .map((m) => m.place);
+}
+
+/** Nearest suburb centroid to a point, or null if none is close enough. */
+export function reverseGeocode(
+  lat: number,
+  lon: number,
+  maxDistanceKm = MAX_REVERSE_DISTANCE_KM,
+): ReverseGeocodeResult | null {
+  let nearest: GazetteerPlace | null = null;
+  let nearestKm = Infinity;
+  for (const place of places) {
+    const km = distanceKm(lat, lon, place.latitude, place.longitude);
+    if (km < nearestKm) {
+      nearest = place;
+      nearestKm = km;
+    }
+  }
+
+  if (!nearest || nearestKm > maxDistanceKm) return null;
+  return {
+    postcode: nearest.postcode,
+    suburb: nearest.suburb,
+    state: nearest.state,
+    displayName: nearest.displayName,
+  };
+}
@@ -1,5 +1,6 @@
 /**
- * Browser geolocation and reverse geocoding (Nominatim) for postcode/area.
+ * Browser geolocation and reverse geocoding for postcode/area (served from the
+ * bundled gazetteer in `lib/gazetteer.ts` via `/api/places/reverse`).
  * Distance helper (haversine) for filtering providers by radius.
  */
 
@@ -27,6 +28,24 @@ export function getCurrentPosition(): Promise<UserPosition> {
   });
 }
 
+/** Suburb/postcode for a position, or null when it's outside gazetteer coverage. */
+export async function reverseGeocodePosition(
+  position: UserPosition,
+  signal?: AbortSignal,
+): Promise<ReverseGeocodeResult | null> {
+  const params = new URLSearchParams({
+    lat: String(position.lat),
+    lon: String(position.lng),
+  });
+  const res = await fetch(`/api/places/reverse?${params}`, { signal });
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    const err = (await res.json().catch(() => ({}))) as { error?: string };
+    throw new Error(err.error ?? `Failed to look up suburb: ${res.status}`);
+  }
+  return (await res.json()) as ReverseGeocodeResult;
+}
+
 /** Haversine distance in km between two points. */
 export function distanceKm(
   lat1: number,
@@ -0,0 +1,70 @@
+/**
+ * Geohash encoding for coarse region keys (e.g. cache buckets). Precision 4 is
+ * roughly a 39 x 20 km cell, precision 5 about 5 x 5 km.
+ */
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+export function encodeGeohash(
+  latitude: number,
+  longitude: number,
+  precision: number,
+): string {
+  let latRange: [number, number] = [-90, 90];
+  let lonRange: [number, number] = [-180, 180];
+  let hash = "";
+  let bits = 0;
+  let bitCount = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    const range = evenBit ? lonRange : latRange;
+    const value = evenBit ? longitude : latitude;
+    const mid = (range[0] + range[1]) / 2;
+    bits <<= 1;
+    if (value >= mid) {
+      bits |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+    if (evenBit) lonRange = range;
+    else latRange = range;
+    evenBit = !evenBit;
+
+    if (++bitCount === 5) {
+      hash += BASE32[bits];
+      bits = 0;
+      bitCount = 0;
+    }
+  }
+
+  return hash;
+}
+
+/** Centre point of a geohash cell. */
+export function decodeGeohash(hash: string): {
+  latitude: number;
+  longitude: number;
+} {
+  const latRange = [-90, 90];
+  const lonRange = [-180, 180];
+  let evenBit = true;
+
+  for (const char of hash) {
+    const index = BASE32.indexOf(char);
+    if (index === -1) throw new Error(`Invalid geohash character "${char}"`);
+    for (let bit = 4; bit >= 0; bit--) {
+      const range = evenBit ? lonRange : latRange;
+      const mid = (range[0] + range[1]) / 2;
+      if ((index >> bit) & 1) range[0] = mid;
+      else range[1] = mid;
+      evenBit = !evenBit;
+    }
+  }
+
+  return {
+    latitude: (latRange[0] + latRange[1]) / 2,
+    longitude: (lonRange[0] + lonRange[1]) / 2,
+  };
+}
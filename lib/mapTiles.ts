@@ -0,0 +1,109 @@
+/**
+ * Slippy-map tile maths (z/x/y in Web Mercator, as used by OpenStreetMap and
+ * Leaflet). Map lookups made per fixed tile rather than per viewport can be
+ * cached, because panning asks for the same tiles again.
+ */
+
+export type MapTile = { z: number; x: number; y: number };
+
+export type TileBounds = {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+};
+
+const MAX_LAT = 85.0511;
+
+function tileCount(z: number) {
+  return 2 ** z;
+}
+
+function clampTile(n: number, z: number) {
+  return Math.min(tileCount(z) - 1, Math.max(0, n));
+}
+
+/** Fractional tile column / row of a point at zoom `z`. */
+function worldX(lon: number, z: number) {
+  return ((lon + 180) / 360) * tileCount(z);
+}
+
+function worldY(lat: number, z: number) {
+  const clamped = Math.max(-MAX_LAT, Math.min(MAX_LAT, lat));
+  const rad = (clamped * Math.PI) / 180;
+  return (
+    ((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) *
+    tileCount(z)
+  );
+}
+
+export function lonToTileX(lon: number, z: number) {
+  return clampTile(Math.floor(worldX(lon, z)), z);
+}
+
+export function latToTileY(lat: number, z: number) {
+  return clampTile(Math.floor(worldY(lat, z)), z);
+}
+
+function tileXToLon(x: number, z: number) {
+  return (x / tileCount(z)) * 360 - 180;
+}
+
+function tileYToLat(y: number, z: number) {
+  const n = Math.PI - (2 * Math.PI * y) / tileCount(z);
+  return (Math.atan(Math.sinh(n)) * 180) / Math.PI;
+}
+
+export function isValidTile({ z, x, y }: MapTile) {
+  return (
+    [z, x, y].every(Number.isInteger) &&
+    z >= 0 &&
+    x >= 0 &&
+    y >= 0 &&
+    x < tileCount(z) &&
+    y < tileCount(z)
+  );
+}
+
+export function tileBounds({ z, x, y }: MapTile): TileBounds {
+  return {
+    minLat: tileYToLat(y + 1, z),
+    maxLat: tileYToLat(y, z),
+    minLon: tileXToLon(x, z),
+    maxLon: tileXToLon(x + 1, z),
+  };
+}
+
+/** Tiles at zoom `z` covering `box`, west to east within north to south. */
+export function tilesCoveringBox(box: TileBounds, z: number): MapTile[] {
+  const minX = lonToTileX(box.minLon, z);
+  const maxX = lonToTileX(box.maxLon, z);
+  // Tile rows count down from the north.
+  const minY = latToTileY(box.maxLat, z);
+  const maxY = latToTileY(box.minLat, z);
+
+  const tiles: MapTile[] = [];
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      tiles.push({ z, x, y });
+    }
+  }
+  return tiles;
+}
+
+/** Position of a point in `tile`, in `0..extent` pixels from its top left. */
+export function projectToTile(
+  lat: number,
+  lon: number,
+  { z, x, y }: MapTile,
+  extent: number,
+) {
+  return {
+    x: (worldX(lon, z) - x) * extent,
+    y: (worldY(lat, z) - y) * extent,
+  };
+}
+
+export function tileKey({ z, x, y }: MapTile) {
+  return `${z}/${x}/${y}`;
+}
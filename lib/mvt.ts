@@ -0,0 +1,158 @@
+/**
+ * Minimal Mapbox Vector Tile (v2.1) encoder for point layers: enough for
+ * marker feeds without pulling in a protobuf library. Coordinates are tile
+ * pixels in `0..extent`, see `projectToTile` in `lib/mapTiles.ts`.
+ */
+
+export type MvtValue = string | number | boolean;
+
+export type MvtPointFeature = {
+  x: number;
+  y: number;
+  properties: Record<string, MvtValue | null | undefined>;
+};
+
+export type MvtLayer = {
+  name: string;
+  extent?: number;
+  features: MvtPointFeature[];
+};
+
+export const DEFAULT_MVT_EXTENT = 4096;
+
+// Protobuf wire types.
+const VARINT = 0;
+const FIXED64 = 1;
+const LENGTH_DELIMITED = 2;
+
+const GEOMETRY_POINT = 1;
+const COMMAND_MOVE_TO = 1;
+
+/** Append-only protobuf writer. */
+class ProtobufWriter {
+  private bytes: number[] = [];
+
+  varint(value: number) {
+    // Values here are non-negative and well under 2^53.
+    let v = value;
+    while (v >= 0x80) {
+      this.bytes.push((v % 0x80) | 0x80);
+      v = Math.floor(v / 0x80);
+    }
+    this.bytes.push(v);
+  }
+
+  tag(field: number, wireType: number) {
+    this.varint((field << 3) | wireType);
+  }
+
+  uint32Field(field: number, value: number) {
+    this.tag(field, VARINT);
+    this.varint(value);
+  }
+
+  bytesField(field: number, bytes: Uint8Array | number[]) {
+    this.tag(field, LENGTH_DELIMITED);
+    this.varint(bytes.length);
+    for (const b of bytes) this.bytes.push(b);
+  }
+
+  stringField(field: number, value: string) {
+    this.bytesField(field, new TextEncoder().encode(value));
+  }
+
+  doubleField(field: number, value: number) {
+    this.tag(field, FIXED64);
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value, true);
+    for (let i = 0; i < 8; i++) this.bytes.push(view.getUint8(i));
+  }
+
+  packedVarints(field: number, values: number[]) {
+    const inner = new ProtobufWriter();
+    for (const v of values) inner.varint(v);
+    this.bytesField(field, inner.finish());
+  }
+
+  finish() {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+function zigzag(n: number) {
+  return n >= 0 ? n * 2 : -n * 2 - 1;
+}
+
+/** Value message: strings, whole numbers as sint64, else doubles or bools. */
+function encodeValue(value: MvtValue) {
+  const writer = new ProtobufWriter();
+  if (typeof value === "string") {
+    writer.stringField(1, value);
+  } else if (typeof value === "boolean") {
+    writer.uint32Field(7, value ? 1 : 0);
+  } else if (Number.isSafeInteger(value)) {
+    writer.uint32Field(6, zigzag(value));
+  } else {
+    writer.doubleField(3, value);
+  }
+  return writer.finish();
+}
+
+function encodeLayer(layer: MvtLayer) {
+  const keys: string[] = [];
+  const keyIndex = new Map<string, number>();
+  const values: MvtValue[] = [];
+  const valueIndex = new Map<string, number>();
+
+  const indexOf = <T>(
+    list: T[],
+    index: Map<string, number>,
+    item: T,
+    id: string,
+  ) => {
+    let i = index.get(id);
+    if (i === undefined) {
+      i = list.length;
+      list.push(item);
+      index.set(id, i);
+    }
+    return i;
+  };
+
+  const writer = new ProtobufWriter();
+  writer.uint32Field(15, 2);
+  writer.stringField(1, layer.name);
+
+  for (const feature of layer.features) {
+    const tags: number[] = [];
+    for (const [key, value] of Object.entries(feature.properties)) {
+      if (value === null || value === undefined) continue;
+      tags.push(
+        indexOf(keys, keyIndex, key, key),
+        indexOf(values, valueIndex, value, `${typeof value}:${value}`),
+      );
+    }
+
+    const featureWriter = new ProtobufWriter();
+    featureWriter.packedVarints(2, tags);
+    featureWriter.uint32Field(3, GEOMETRY_POINT);
+    featureWriter.packedVarints(4, [
+      (1 << 3) | COMMAND_MOVE_TO,
+      zigzag(Math.round(feature.x)),
+      zigzag(Math.round(feature.y)),
+    ]);
+    writer.bytesField(2, featureWriter.finish());
+  }
+
+  for (const key of keys) writer.stringField(3, key);
+  for (const value of values) writer.bytesField(4, encodeValue(value));
+  writer.uint32Field(5, layer.extent ?? DEFAULT_MVT_EXTENT);
+  return writer.finish();
+}
+
+/** A tile of point layers, ready to serve as `application/vnd.mapbox-vector-tile`. */
+export function encodeMvt(layers: MvtLayer[]) {
+  const writer = new ProtobufWriter();
+  for (const layer of layers) writer.bytesField(3, encodeLayer(layer));
+  return writer.finish();
+}
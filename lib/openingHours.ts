@@ -0,0 +1,187 @@
+import type { DayOfWeek } from "@prisma/client";
+
+import { formatMinutes12h, getDbTimeMinutes } from "./dbTime";
+
+/**
+ * Business hours are stored as wall-clock `TIME`s at the address, so "open now"
+ * has to be worked out in the address's own time zone. Australian states map to
+ * one zone each (NSW's Broken Hill is the only notable exception and is ignored).
+ */
+export const STATE_TIME_ZONES: Record<string, string> = {
+  NSW: "Australia/Sydney",
+  ACT: "Australia/Sydney",
+  VIC: "Australia/Melbourne",
+  TAS: "Australia/Hobart",
+  QLD: "Australia/Brisbane",
+  SA: "Australia/Adelaide",
+  NT: "Australia/Darwin",
+  WA: "Australia/Perth",
+};
+
+export const STATE_CODES_BY_NAME: Record<string, string> = {
+  "NEW SOUTH WALES": "NSW",
+  "AUSTRALIAN CAPITAL TERRITORY": "ACT",
+  VICTORIA: "VIC",
+  TASMANIA: "TAS",
+  QUEENSLAND: "QLD",
+  "SOUTH AUSTRALIA": "SA",
+  "NORTHERN TERRITORY": "NT",
+  "WESTERN AUSTRALIA": "WA",
+};
+
+/** Used when an address has no (or an unrecognised) state. */
+export const DEFAULT_TIME_ZONE = "Australia/Sydney";
+
+/** Monday-first, matching how hours are listed on profiles. */
+export const DAYS_OF_WEEK: DayOfWeek[] = [
+  "MONDAY",
+  "TUESDAY",
+  "WEDNESDAY",
+  "THURSDAY",
+  "FRIDAY",
+  "SATURDAY",
+  "SUNDAY",
+];
+
+const WEEKEND_DAYS: DayOfWeek[] = ["SATURDAY", "SUNDAY"];
+
+export function getTimeZoneForState(state: string | null | undefined): string {
+  const key = state?.trim().toUpperCase() ?? "";
+  const code = STATE_CODES_BY_NAME[key] ?? key;
+  return STATE_TIME_ZONES[code] ?? DEFAULT_TIME_ZONE;
+}
+
+const zonedFormatters: Record<string, Intl.DateTimeFormat> = {};
+
+/** Day of week and minutes since midnight for `now` in `timeZone`. */
+export function getZonedDayAndMinutes(
+  now: Date,
+  timeZone: string,
+): { dayOfWeek: DayOfWeek; minutes: number } {
+  zonedFormatters[timeZone] ??= new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "long",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+  const parts = zonedFormatters[timeZone].formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? "";
+
+  return {
+    dayOfWeek: part("weekday").toUpperCase() as DayOfWeek,
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+type BusinessHour = {
+  dayOfWeek: DayOfWeek;
+  openTime: string | Date;
+  closeTime: string | Date;
+};
+
+/** Open/close in minutes; a close at or before the open runs past midnight. */
+function toRange(hour: BusinessHour) {
+  const open = getDbTimeMinutes(hour.openTime);
+  const close = getDbTimeMinutes(hour.closeTime);
+  return { open, close, overnight: close <= open };
+}
+
+function offsetDay(day: DayOfWeek, offset: number): DayOfWeek {
+  const index = DAYS_OF_WEEK.indexOf(day);
+  return DAYS_OF_WEEK[(index + offset + 7) % 7];
+}
+
+export type OpenStatus =
+  | { isOpen: true; closesAt: string }
+  | {
+      isOpen: false;
+      opensAt: { dayOfWeek: DayOfWeek; time: string } | null;
+    };
+
+/**
+ * Whether a provider/outlet is open at `now`, in the time zone of its address
+ * state, plus when it next closes or opens.
+ */
+export function getOpenStatus(
+  hours: BusinessHour[],
+  state: string | null | undefined,
+  now: Date = new Date(),
+): OpenStatus {
+  const { dayOfWeek, minutes } = getZonedDayAndMinutes(
+    now,
+    getTimeZoneForState(state),
+  );
+  const yesterday = offsetDay(dayOfWeek, -1);
+
+  for (const hour of hours) {
+    const { open, close, overnight } = toRange(hour);
+    const openToday =
+      hour.dayOfWeek === dayOfWeek &&
+      minutes >= open &&
+      (overnight || minutes < close);
+    const openSinceYesterday =
+      hour.dayOfWeek === yesterday && overnight && minutes < close;
+    if (openToday || openSinceYesterday) {
+      return { isOpen: true, closesAt: formatMinutes12h(close) };
+    }
+  }
+
+  for (let offset = 0; offset < 7; offset++) {
+    const day = offsetDay(dayOfWeek, offset);
+    const next = hours
+      .filter((h) => h.dayOfWeek === day)
+      .map((h) => toRange(h).open)
+      .filter((open) => offset > 0 || open > minutes)
+      .sort((a, b) => a - b)[0];
+    if (next !== undefined) {
+      return {
+        isOpen: false,
+        opensAt: { dayOfWeek: day, time: formatMinutes12h(next) },
+      };
+    }
+  }
+
+  return { isOpen: false, opensAt: null };
+}
+
+export type OpeningHoursFilter = {
+  openNow?: boolean;
+  openWeekends?: boolean;
+  /** "HH:MM"; keeps places still open after this time on at least one day. */
+  openAfter?: string;
+};
+
+/** Minutes since midnight for an "HH:MM" string. */
+export function parseTimeOfDay(value: string): number {
+  const [h, m] = value.split(":").map(Number);
+  return h * 60 + (m ?? 0);
+}
+
+/** Client-side mirror of the search API's opening-hours filters. */
+export function matchesOpeningHoursFilter(
+  hours: BusinessHour[],
+  state: string | null | undefined,
+  filter: OpeningHoursFilter,
+  now: Date = new Date(),
+): boolean {
+  if (filter.openNow && !getOpenStatus(hours, state, now).isOpen) {
+    return false;
+  }
+  if (
+    filter.openWeekends &&
+    !hours.some((h) => WEEKEND_DAYS.includes(h.dayOfWeek))
+  ) {
+    return false;
+  }
+  if (filter.openAfter) {
+    const after = parseTimeOfDay(filter.openAfter);
+    const openLate = hours.some((h) => {
+      const { close, overnight } = toRange(h);
+      return overnight || close > after;
+    });
+    if (!openLate) return false;
+  }
+  return true;
+}
@@ -1,16 +1,19 @@
 // todo: move out of lib
 
-import type { Provider } from "@/app/provider-finder/providers";
+import type {
+  ProviderOutletDetail,
+  ProviderOutletResponse,
+} from "@/app/api/provider-finder/outlet/types";
 
 /**
  * Fetches up to 100 nearest provider outlets from the database (by lat/lng).
- * Uses `/api/provider-finder/nearby` (server Haversine + Prisma).
+ * Uses `/api/provider-finder/nearby` (earthdistance radius search).
  */
 /** Load one outlet by database id (profile links). */
 export async function fetchProviderOutletById(
   id: string,
   options?: { signal?: AbortSignal },
-): Promise<Provider | null> {
+): Promise<ProviderOutletDetail | null> {
   const base =
     typeof window !== "undefined" ? "" : (process.env.NEXT_PUBLIC_ORIGIN ?? "");
   const res = await fetch(
@@ -20,8 +23,8 @@ export async function fetchProviderOutletById(
   if (res.status === 404) return null;
   if (!res.ok) {
     const err = (await res.json().catch(() => ({}))) as { error?: string };
-    throw new Error(err.error ?? `Failed to load provider: ${res.status}`);
+    throw new Error(err.error ?? `Failed to load outlet: ${res.status}`);
   }
-  const body = (await res.json()) as { provider?: Provider };
-  return body.provider ?? null;
+  const body = (await res.json()) as ProviderOutletResponse;
+  return body.providerOutlet;
 }
@@ -54,6 +54,25 @@ export const ROUTES = {
   /** Provider Finder: browse outlet-sourced providers */
   providerFinder: "/provider-finder",
 
+  /** Printable report of finder results; takes the search API's params. */
+  providerFinderReport: (searchParams: URLSearchParams) =>
+    `/provider-finder/report?${searchParams}`,
+
+  /** Side-by-side comparison; distances are from `origin` when given. */
+  providerCompare: (
+    items: { type: "provider" | "outlet"; id: string }[],
+    origin?: { lat: number; lng: number } | null,
+  ) => {
+    const params = new URLSearchParams({
+      items: items.map((i) => `${i.type}:${i.id}`).join(","),
+    });
+    if (origin) {
+      params.set("lat", origin.lat.toFixed(4));
+      params.set("lon", origin.lng.toFixed(4));
+    }
+    return `/provider-finder/compare?${params}`;
+  },
+
   /** Outlet profile (read-only, from JSON). Redirects to claimed if exists. */
   outletProfile: (slug: string) =>
     `/jonathan/profile/${encodeURIComponent(slug)}`,
@@ -68,6 +87,10 @@ export const ROUTES = {
   register: "/register",
   dashboard: "/dashboard",
   map: "/map",
+
+  /** Confirm page for the unsubscribe link in saved search digests. */
+  savedSearchUnsubscribe: (token: string) =>
+    `/saved-searches/unsubscribe?token=${encodeURIComponent(token)}`,
 } as const;
 
 // ─── API paths ───────────────────────────────────────────────────────────────
@@ -81,6 +104,22 @@ export const API_ROUTES = {
     verify: (token: string) =>
       `/api/profiles/verify?token=${encodeURIComponent(token)}`,
   },
+  savedSearches: {
+    list: "/api/saved-searches",
+    item: (id: string) => `/api/saved-searches/${encodeURIComponent(id)}`,
+    unsubscribe: (token: string) =>
+      `/api/saved-searches/unsubscribe?token=${encodeURIComponent(token)}`,
+  },
+  providerFinder: {
+    /** CSV of finder results; takes the search API's params. */
+    export: (searchParams: URLSearchParams) =>
+      `/api/provider-finder/export?${searchParams}`,
+  },
+  shortlist: {
+    list: "/api/shortlist",
+    merge: "/api/shortlist/merge",
+    item: (id: string) => `/api/shortlist/${encodeURIComponent(id)}`,
+  },
 } as const;
 
 // ─── Slug provisioning ───────────────────────────────────────────────────────
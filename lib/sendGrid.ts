@@ -1,23 +1,65 @@
 import sgMail from "@sendgrid/mail";
 
-sgMail.setApiKey(process.env.SENDGRID_API_KEY!);
+/**
+ * Outgoing email. Uses SendGrid when `SENDGRID_API_KEY` is set. With
+ * `EMAIL_TRANSPORT=stub`, or outside production without a key, messages are
+ * logged so local development and digests work without SendGrid. Production without either fails loudly rather than dropping mail.
+ */
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  /** Extra headers, e.g. `List-Unsubscribe`. */
+  headers?: Record<string, string>;
+};
+
+type EmailTransport = {
+  send(message: EmailMessage & { from: string }): Promise<void>;
+};
+
+const stubTransport: EmailTransport = {
+  async send(message) {
+    console.info(
+      `[email:stub] to=${message.to} subject=${JSON.stringify(message.subject)}\n${message.text}`,
+    );
+  },
+};
+
+let sendGridReady = false;
+const sendGridTransport: EmailTransport = {
+  async send(message) {
+    if (!sendGridReady) {
+      sgMail.setApiKey(process.env.SENDGRID_API_KEY!);
+      sendGridReady = true;
+    }
+    await sgMail.send(message);
+  },
+};
+
+function getTransport(): EmailTransport {
+  if (process.env.EMAIL_TRANSPORT === "stub") return stubTransport;
+  if (process.env.SENDGRID_API_KEY) return sendGridTransport;
+  if (process.env.NODE_ENV !== "production") return stubTransport;
+  throw new Error(
+    "No email transport: set SENDGRID_API_KEY (or EMAIL_TRANSPORT=stub)",
+  );
+}
 
 export async function sendEmail({
   to,
   subject,
   text,
   html,
-}: {
-  to: string;
-  subject: string;
-  text: string;
-  html?: string;
-}) {
-  await sgMail.send({
+  headers,
+}: EmailMessage) {
+  await getTransport().send({
     to,
-    from: process.env.SENDGRID_FROM_EMAIL!,
+    from: process.env.SENDGRID_FROM_EMAIL ?? "no-reply@mapable.com.au",
     subject,
     text,
     html,
+    headers,
   });
 }
@@ -0,0 +1,51 @@
+/**
+ * Theme colours are CSS variables holding bare HSL channels (`215 100% 35%`),
+ * used as `hsl(var(--primary))` by Tailwind; see `app/index.css`.
+ */
+
+const LIGHT_FOREGROUND = "0 0% 100%";
+const DARK_FOREGROUND = "215 40% 15%";
+
+function hexChannels(hex: string) {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(
+    (c) => c / 255,
+  );
+}
+
+/** `#rrggbb` as HSL channels for a theme variable. */
+export function hexToHslChannels(hex: string) {
+  const [r, g, b] = hexChannels(hex);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+
+  let h = 0;
+  let s = 0;
+  if (d !== 0) {
+    s = d / (1 - Math.abs(2 * l - 1));
+    if (max === r) h = ((g - b) / d) % 6;
+    else if (max === g) h = (b - r) / d + 2;
+    else h = (r - g) / d + 4;
+    h = (h * 60 + 360) % 360;
+  }
+  return `${Math.round(h)} ${Math.round(s * 100)}% ${Math.round(l * 100)}%`;
+}
+
+/** WCAG relative luminance, 0 (black) to 1 (white). */
+function luminance(hex: string) {
+  const [r, g, b] = hexChannels(hex).map((c) =>
+    c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4,
+  );
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/** White or dark text, whichever contrasts more with `hex`. */
+export function readableForeground(hex: string) {
+  const l = luminance(hex);
+  // Contrast ratios against white (L=1) and the dark text (L≈0.015).
+  return 1.05 / (l + 0.05) >= (l + 0.05) / 0.065
+    ? LIGHT_FOREGROUND
+    : DARK_FOREGROUND;
+}
@@ -0,0 +1,50 @@
+/**
+ * In-memory key/value cache with per-entry expiry and a size cap; the least
+ * recently read entry is evicted first. Scoped to one server instance.
+ */
+
+export type TtlCache<V> = {
+  get(key: string): V | undefined;
+  set(key: string, value: V, ttlMs?: number): void;
+  delete(key: string): void;
+  clear(): void;
+  readonly size: number;
+};
+
+export function createTtlCache<V>(options: {
+  ttlMs: number;
+  maxEntries: number;
+}): TtlCache<V> {
+  // Map iteration order is insertion order, so re-inserting on read keeps the
+  // least recently used entry first.
+  const entries = new Map<string, { value: V; expiresAt: number }>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set(key, value, ttlMs = options.ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      while (entries.size > options.maxEntries) {
+        const oldest = entries.keys().next();
+        if (oldest.done) break;
+        entries.delete(oldest.value);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+    clear() {
+      entries.clear();
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+}
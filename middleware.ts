@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { embedFrameAncestors } from "@/app/utils/finder-embeds";
+
+/**
+ * Lets partner sites frame the finder widget, and no one else: the page's
+ * `frame-ancestors` lists the `embed` param's allowed origins. Runs on Node
+ * so the lookup can use Prisma.
+ */
+export async function middleware(req: NextRequest) {
+  const embedId = req.nextUrl.searchParams.get("embed") ?? "";
+  const response = NextResponse.next();
+  response.headers.set(
+    "Content-Security-Policy",
+    `frame-ancestors ${await embedFrameAncestors(embedId)}`,
+  );
+  return response;
+}
+
+export const config = {
+  matcher: "/embed/finder",
+  runtime: "nodejs",
+};
@@ -14,6 +14,16 @@ const nextConfig: NextConfig = {
           },
         ],
       },
+      {
+        // Partner pages load the finder widget from here; keep fixes quick.
+        source: "/finder-embed.js",
+        headers: [
+          {
+            key: "Cache-Control",
+            value: "public, max-age=3600, s-maxage=3600",
+          },
+        ],
+      },
     ];
   },
   eslint: {
@@ -0,0 +1,9 @@
+-- Radius queries on "Address" use earthdistance (cube based) so the database can
+-- answer "within N km, nearest first" from a GiST index instead of a lat/lon box.
+CREATE EXTENSION IF NOT EXISTS cube;
+CREATE EXTENSION IF NOT EXISTS earthdistance;
+
+CREATE INDEX address_earth_idx
+ON "Address"
+USING GIST (ll_to_earth(latitude, longitude))
+WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "isSiteAdmin" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "SearchSynonym" (
+    "id" TEXT NOT NULL,
+    "term" TEXT NOT NULL,
+    "expansions" TEXT[],
+    "matchCase" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SearchSynonym_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SearchSynonym_term_key" ON "SearchSynonym"("term");
+
+-- Starter dictionary of common NDIS abbreviations; admins maintain it from here.
+INSERT INTO "SearchSynonym" ("id", "term", "expansions", "matchCase", "updatedAt")
+VALUES
+  (gen_random_uuid()::text, 'ot', ARRAY['occupational therapy', 'occupational therapist'], false, CURRENT_TIMESTAMP),
+  (gen_random_uuid()::text, 'pt', ARRAY['physiotherapy', 'physiotherapist'], false, CURRENT_TIMESTAMP),
+  (gen_random_uuid()::text, 'physio', ARRAY['physiotherapy', 'physiotherapist'], false, CURRENT_TIMESTAMP),
+  (gen_random_uuid()::text, 'speechie', ARRAY['speech pathology', 'speech therapy'], false, CURRENT_TIMESTAMP),
+  (gen_random_uuid()::text, 'sil', ARRAY['supported independent living'], false, CURRENT_TIMESTAMP),
+  (gen_random_uuid()::text, 'sda', ARRAY['specialist disability accommodation'], false, CURRENT_TIMESTAMP),
+  (gen_random_uuid()::text, 'sta', ARRAY['short term accommodation', 'respite'], false, CURRENT_TIMESTAMP),
+  (gen_random_uuid()::text, 'mta', ARRAY['medium term accommodation'], false, CURRENT_TIMESTAMP),
+  (gen_random_uuid()::text, 'pbs', ARRAY['positive behaviour support', 'behaviour support'], false, CURRENT_TIMESTAMP),
+  (gen_random_uuid()::text, 'at', ARRAY['assistive technology'], true, CURRENT_TIMESTAMP),
+  (gen_random_uuid()::text, 'sc', ARRAY['support coordination'], true, CURRENT_TIMESTAMP),
+  (gen_random_uuid()::text, 'ssc', ARRAY['specialist support coordination'], false, CURRENT_TIMESTAMP),
+  (gen_random_uuid()::text, 'lac', ARRAY['local area coordination'], false, CURRENT_TIMESTAMP),
+  (gen_random_uuid()::text, 'ecei', ARRAY['early childhood intervention', 'early childhood'], false, CURRENT_TIMESTAMP),
+  (gen_random_uuid()::text, 'cp', ARRAY['community participation'], true, CURRENT_TIMESTAMP);
@@ -0,0 +1,22 @@
+-- Words used for "Did you mean" corrections: every word in provider, outlet and
+-- service names and suburbs, with how many of them use it. Not managed by the
+-- Prisma schema; refresh after imports with `pnpm refresh:search-vocabulary`.
+CREATE MATERIALIZED VIEW search_vocabulary AS
+SELECT word, ndoc
+FROM ts_stat($$
+  SELECT to_tsvector('simple', name) FROM "Provider"
+  UNION ALL
+  SELECT to_tsvector('simple', name) FROM "ProviderOutlet"
+  UNION ALL
+  SELECT to_tsvector('simple', name) FROM "ServiceDefinition"
+  UNION ALL
+  SELECT to_tsvector('simple', suburb) FROM "Address" WHERE suburb IS NOT NULL
+$$)
+WHERE length(word) >= 3 AND word !~ '^[0-9]+$';
+
+-- Unique index so the view can be refreshed CONCURRENTLY.
+CREATE UNIQUE INDEX search_vocabulary_word_key ON search_vocabulary (word);
+
+CREATE INDEX search_vocabulary_word_trgm_idx
+ON search_vocabulary
+USING GIN (word gin_trgm_ops);
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "SearchLogSource" AS ENUM ('AUTOCOMPLETE', 'FINDER');
+
+-- CreateTable
+CREATE TABLE "SearchQueryLog" (
+    "id" TEXT NOT NULL,
+    "source" "SearchLogSource" NOT NULL,
+    "query" TEXT NOT NULL,
+    "filters" JSONB NOT NULL,
+    "area" TEXT,
+    "resultCount" INTEGER NOT NULL,
+    "latencyMs" INTEGER NOT NULL,
+    "fallback" BOOLEAN NOT NULL DEFAULT false,
+    "clickedPosition" INTEGER,
+    "clickedEntityType" TEXT,
+    "clickedEntityId" TEXT,
+    "clickedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SearchQueryLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SearchQueryLog_source_createdAt_idx" ON "SearchQueryLog"("source", "createdAt");
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "ShortlistEntry" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "providerId" TEXT,
+    "providerOutletId" TEXT,
+    "workerId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShortlistEntry_pkey" PRIMARY KEY ("id"),
+    -- Not expressible in the Prisma schema.
+    CONSTRAINT "ShortlistEntry_one_entity_check" CHECK (num_nonnulls("providerId", "providerOutletId", "workerId") = 1)
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShortlistEntry_userId_providerId_key" ON "ShortlistEntry"("userId", "providerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShortlistEntry_userId_providerOutletId_key" ON "ShortlistEntry"("userId", "providerOutletId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShortlistEntry_userId_workerId_key" ON "ShortlistEntry"("userId", "workerId");
+
+-- CreateIndex
+CREATE INDEX "ShortlistEntry_userId_createdAt_idx" ON "ShortlistEntry"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ShortlistEntry" ADD CONSTRAINT "ShortlistEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShortlistEntry" ADD CONSTRAINT "ShortlistEntry_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "Provider"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShortlistEntry" ADD CONSTRAINT "ShortlistEntry_providerOutletId_fkey" FOREIGN KEY ("providerOutletId") REFERENCES "ProviderOutlet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShortlistEntry" ADD CONSTRAINT "ShortlistEntry_workerId_fkey" FOREIGN KEY ("workerId") REFERENCES "Worker"("id") ON DELETE CASCADE ON UPDATE CASCADE;
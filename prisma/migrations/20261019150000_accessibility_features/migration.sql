@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "AccessibilityFeature" AS ENUM ('STEP_FREE_ACCESS', 'ACCESSIBLE_TOILET', 'ACCESSIBLE_PARKING', 'HEARING_LOOP', 'AUSLAN_INTERPRETERS', 'QUIET_ROOM', 'SENSORY_FRIENDLY_HOURS');
+
+-- AlterTable
+ALTER TABLE "Provider" ADD COLUMN     "accessibilityFeatures" "AccessibilityFeature"[] DEFAULT ARRAY[]::"AccessibilityFeature"[];
+
+-- AlterTable
+ALTER TABLE "ProviderOutlet" ADD COLUMN     "accessibilityFeatures" "AccessibilityFeature"[] DEFAULT ARRAY[]::"AccessibilityFeature"[];
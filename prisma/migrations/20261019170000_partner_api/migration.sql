@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "PartnerApiKey" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "keyPrefix" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "dailyQuota" INTEGER NOT NULL DEFAULT 1000,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PartnerApiKey_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PartnerApiUsage" (
+    "id" TEXT NOT NULL,
+    "apiKeyId" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "status" INTEGER NOT NULL,
+    "latencyMs" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PartnerApiUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PartnerApiKey_keyPrefix_key" ON "PartnerApiKey"("keyPrefix");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PartnerApiKey_keyHash_key" ON "PartnerApiKey"("keyHash");
+
+-- CreateIndex
+CREATE INDEX "PartnerApiUsage_apiKeyId_createdAt_idx" ON "PartnerApiUsage"("apiKeyId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PartnerApiUsage" ADD CONSTRAINT "PartnerApiUsage_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "PartnerApiKey"("id") ON DELETE CASCADE ON UPDATE CASCADE;
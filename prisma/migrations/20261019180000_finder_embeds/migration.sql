@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "FinderEmbed" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "allowedOrigins" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "disabledAt" TIMESTAMP(3),
+
+    CONSTRAINT "FinderEmbed_pkey" PRIMARY KEY ("id")
+);
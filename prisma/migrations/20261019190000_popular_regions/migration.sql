@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "PopularRegion" (
+    "cell" TEXT NOT NULL,
+    "items" JSONB NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PopularRegion_pkey" PRIMARY KEY ("cell")
+);
@@ -0,0 +1,80 @@
+/**
+ * Mapable provider finder widget. On a partner page:
+ *
+ *   <div
+ *     data-mapable-finder="EMBED_ID"
+ *     data-lat="-38.1499" data-lon="144.3617" data-location="Geelong VIC 3220"
+ *     data-radius-km="15"
+ *     data-service-ids="SERVICE_ID,SERVICE_ID"
+ *     data-primary-color="#0f766e" data-secondary-color="#f59e0b"
+ *     data-q="physio"
+ *   ></div>
+ *   <script src="https://www.mapable.com.au/finder-embed.js" async></script>
+ *
+ * Everything but the embed id is optional. The widget is an iframe of
+ * `/embed/finder`, which only loads on the sites registered for EMBED_ID.
+ */
+(function () {
+  var RESIZE_MESSAGE = "mapable-finder:resize";
+  var script = document.currentScript;
+  var origin = script
+    ? new URL(script.src).origin
+    : "https://www.mapable.com.au";
+
+  /** data-* attribute → `/embed/finder` param. */
+  var PARAMS = {
+    q: "q",
+    lat: "lat",
+    lon: "lon",
+    radiusKm: "radiusKm",
+    location: "location",
+    serviceIds: "serviceIds",
+    primaryColor: "primary",
+    secondaryColor: "secondary",
+  };
+
+  var frames = [];
+
+  function mount(container) {
+    if (container.getAttribute("data-mapable-mounted")) return;
+    container.setAttribute("data-mapable-mounted", "true");
+
+    var params = new URLSearchParams({
+      embed: container.dataset.mapableFinder,
+    });
+    Object.keys(PARAMS).forEach(function (key) {
+      var value = container.dataset[key];
+      if (value) params.set(PARAMS[key], value);
+    });
+
+    var iframe = document.createElement("iframe");
+    iframe.src = origin + "/embed/finder?" + params;
+    iframe.title = "Find disability service providers (Mapable)";
+    iframe.loading = "lazy";
+    iframe.style.width = "100%";
+    iframe.style.border = "0";
+    iframe.style.height = (container.dataset.height || "480") + "px";
+    container.appendChild(iframe);
+    frames.push(iframe);
+  }
+
+  window.addEventListener("message", function (event) {
+    if (event.origin !== origin || !event.data) return;
+    if (event.data.type !== RESIZE_MESSAGE) return;
+    frames.forEach(function (iframe) {
+      if (iframe.contentWindow === event.source) {
+        iframe.style.height = Math.ceil(Number(event.data.height)) + "px";
+      }
+    });
+  });
+
+  function mountAll() {
+    document.querySelectorAll("[data-mapable-finder]").forEach(mount);
+  }
+
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", mountAll);
+  } else {
+    mountAll();
+  }
+})();
@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+/** Premises accessibility features; mirrors the `AccessibilityFeature` enum. */
+export const accessibilityFeatureSchema = z.enum([
+  "STEP_FREE_ACCESS",
+  "ACCESSIBLE_TOILET",
+  "ACCESSIBLE_PARKING",
+  "HEARING_LOOP",
+  "AUSLAN_INTERPRETERS",
+  "QUIET_ROOM",
+  "SENSORY_FRIENDLY_HOURS",
+]);
+
+export const ACCESSIBILITY_FEATURES = accessibilityFeatureSchema.options;
+
+export type AccessibilityFeature = z.infer<typeof accessibilityFeatureSchema>;
@@ -0,0 +1,88 @@
+import { z } from "zod";
+
+import { idListSchema, urlNumberSchema } from "./provider-finder.types";
+
+/** A site origin, normalised to scheme + host (+ port), e.g. `https://a.org`. */
+const embedOriginSchema = z
+  .string()
+  .trim()
+  .transform((value, ctx) => {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      ctx.addIssue({
+        code: "custom",
+        message: `"${value}" isn't a web address`,
+      });
+      return z.NEVER;
+    }
+    if (url.protocol !== "https:" && url.hostname !== "localhost") {
+      ctx.addIssue({ code: "custom", message: `"${value}" must use https` });
+      return z.NEVER;
+    }
+    return url.origin;
+  });
+
+export const finderEmbedSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  allowedOrigins: z.array(z.string()),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  disabledAt: z.string().nullable(),
+});
+
+/** Create and update body. */
+export const finderEmbedPayloadSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Partner name is required")
+    .max(120, "Names are at most 120 characters"),
+  allowedOrigins: z
+    .array(embedOriginSchema)
+    .min(1, "Add at least one site")
+    .max(10, "At most 10 sites per embed")
+    .transform((origins) => [...new Set(origins)]),
+  disabled: z.boolean().default(false),
+});
+
+export const finderEmbedsResponseSchema = z.object({
+  embeds: z.array(finderEmbedSchema),
+});
+
+/** `#rgb` or `#rrggbb` (the `#` is optional), as `#rrggbb`. */
+const hexColourSchema = z
+  .string()
+  .trim()
+  .regex(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i)
+  .transform((value) => {
+    const hex = value.replace("#", "").toLowerCase();
+    return `#${hex.length === 3 ? [...hex].map((c) => c + c).join("") : hex}`;
+  })
+  .optional()
+  .catch(undefined);
+
+/**
+ * `/embed/finder` iframe URL, built by `public/finder-embed.js` from the
+ * partner's `data-*` attributes. Hand-edited values fall back to defaults.
+ */
+export const finderEmbedQuerySchema = z.object({
+  embed: z.string().trim().catch(""),
+  q: z.string().trim().max(200).catch(""),
+  lat: urlNumberSchema(-90, 90),
+  lon: urlNumberSchema(-180, 180),
+  radiusKm: urlNumberSchema(1, 100),
+  /** Shown as the starting location, e.g. "Geelong VIC 3220". */
+  location: z.string().trim().max(120).optional().catch(undefined),
+  /** Fixed service categories; the widget has no service filter of its own. */
+  serviceIds: idListSchema.catch([]),
+  primary: hexColourSchema,
+  secondary: hexColourSchema,
+});
+
+export type FinderEmbedItem = z.infer<typeof finderEmbedSchema>;
+export type FinderEmbedPayload = z.input<typeof finderEmbedPayloadSchema>;
+export type FinderEmbedsResponse = z.infer<typeof finderEmbedsResponseSchema>;
+export type FinderEmbedQuery = z.infer<typeof finderEmbedQuerySchema>;
@@ -0,0 +1,183 @@
+import { z } from "zod";
+
+import { accessibilityFeatureSchema } from "./accessibility.types";
+import {
+  searchCoverageSchema,
+  searchQuerySchema,
+} from "./provider-finder.types";
+
+/**
+ * Request and response contracts of the `/api/v1` partner API. The OpenAPI
+ * document (`/api/v1/openapi.json`) is generated from these schemas.
+ */
+
+const namedSchema = z.object({ id: z.string(), name: z.string() });
+
+export const partnerErrorSchema = z.object({ error: z.string() });
+
+/** Same params as the finder's search API. */
+export const partnerSearchQuerySchema = searchQuerySchema;
+
+export const partnerAddressSchema = z.object({
+  addressString: z.string(),
+  suburb: z.string().nullable(),
+  state: z.string().nullable(),
+  postcode: z.string().nullable(),
+  latitude: z.number().nullable(),
+  longitude: z.number().nullable(),
+});
+
+export const partnerBusinessHourSchema = z.object({
+  dayOfWeek: z.enum([
+    "MONDAY",
+    "TUESDAY",
+    "WEDNESDAY",
+    "THURSDAY",
+    "FRIDAY",
+    "SATURDAY",
+    "SUNDAY",
+  ]),
+  opens: z.string().describe("24-hour HH:MM, local to the address's state"),
+  closes: z.string().describe("24-hour HH:MM, local to the address's state"),
+});
+
+export const partnerSearchResultSchema = z.object({
+  type: z.enum(["provider", "outlet"]),
+  id: z.string(),
+  name: z.string(),
+  providerId: z.string().describe("The provider itself, or an outlet's parent"),
+  providerName: z.string(),
+  address: partnerAddressSchema,
+  distanceKm: z.number(),
+  coverage: searchCoverageSchema.exclude(["all"]),
+  ndisRegistered: z.boolean(),
+  services: z.array(namedSchema),
+  accessibilityFeatures: z.array(accessibilityFeatureSchema),
+  languages: z
+    .array(namedSchema)
+    .describe("Spoken by currently linked workers"),
+  otherSiteCount: z
+    .number()
+    .int()
+    .describe("The provider's other addresses (head office and outlets)"),
+  profileUrl: z.string(),
+});
+
+export const partnerSearchResponseSchema = z.object({
+  items: z.array(partnerSearchResultSchema),
+  total: z.number().int(),
+  page: z.number().int(),
+  pageSize: z.number().int(),
+  totalPages: z.number().int(),
+  facets: z.object({
+    services: z.array(namedSchema.extend({ count: z.number().int() })),
+    specialisations: z.array(namedSchema.extend({ count: z.number().int() })),
+    languages: z.array(namedSchema.extend({ count: z.number().int() })),
+  }),
+});
+
+const partnerEntityFields = {
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  abn: z.string().nullable(),
+  phone: z.string().nullable(),
+  email: z.string().nullable(),
+  website: z.string().nullable(),
+  rating: z.number().nullable(),
+  reviewCount: z.number().int(),
+  address: partnerAddressSchema.nullable(),
+  serviceAreas: z.array(z.string()),
+  services: z.array(namedSchema),
+  specialisations: z.array(namedSchema),
+  accessibilityFeatures: z.array(accessibilityFeatureSchema),
+  businessHours: z.array(partnerBusinessHourSchema),
+  profileUrl: z.string(),
+};
+
+export const partnerProviderResponseSchema = z.object({
+  provider: z.object({
+    ...partnerEntityFields,
+    ndisRegistered: z.boolean(),
+    ndisNumber: z.string().nullable(),
+    outlets: z.array(
+      namedSchema.extend({ address: partnerAddressSchema.nullable() }),
+    ),
+  }),
+});
+
+export const partnerOutletResponseSchema = z.object({
+  outlet: z.object({
+    ...partnerEntityFields,
+    provider: namedSchema.extend({
+      ndisRegistered: z.boolean().describe("Outlets share their provider's"),
+    }),
+  }),
+});
+
+export const partnerCatalogResponseSchema = z.object({
+  services: z.array(namedSchema),
+  specialisations: z.array(namedSchema),
+  languages: z.array(namedSchema),
+  accessibilityFeatures: z.array(
+    z.object({ id: accessibilityFeatureSchema, name: z.string() }),
+  ),
+});
+
+// ─── Key management (site admins) ────────────────────────────────────────────
+
+export const partnerApiKeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  keyPrefix: z.string(),
+  dailyQuota: z.number().int(),
+  usedToday: z.number().int(),
+  createdAt: z.string(),
+  lastUsedAt: z.string().nullable(),
+  revokedAt: z.string().nullable(),
+});
+
+export const createPartnerApiKeyPayloadSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Partner name is required")
+    .max(120, "Names are at most 120 characters"),
+  dailyQuota: z.coerce
+    .number()
+    .int()
+    .min(1, "Quota must be at least 1")
+    .max(1_000_000, "Quota is at most 1,000,000 a day")
+    .default(1000),
+});
+
+export const partnerApiKeysResponseSchema = z.object({
+  keys: z.array(partnerApiKeySchema),
+});
+
+/** The full key is only ever returned here, when it is created. */
+export const createPartnerApiKeyResponseSchema = z.object({
+  key: partnerApiKeySchema,
+  secret: z.string(),
+});
+
+export type PartnerSearchResult = z.infer<typeof partnerSearchResultSchema>;
+export type PartnerSearchResponse = z.infer<typeof partnerSearchResponseSchema>;
+export type PartnerAddress = z.infer<typeof partnerAddressSchema>;
+export type PartnerProviderResponse = z.infer<
+  typeof partnerProviderResponseSchema
+>;
+export type PartnerOutletResponse = z.infer<typeof partnerOutletResponseSchema>;
+export type PartnerCatalogResponse = z.infer<
+  typeof partnerCatalogResponseSchema
+>;
+export type PartnerApiKeyItem = z.infer<typeof partnerApiKeySchema>;
+export type CreatePartnerApiKeyPayload = z.input<
+  typeof createPartnerApiKeyPayloadSchema
+>;
+export type PartnerApiKeysResponse = z.infer<
+  typeof partnerApiKeysResponseSchema
+>;
+export type CreatePartnerApiKeyResponse = z.infer<
+  typeof createPartnerApiKeyResponseSchema
+>;
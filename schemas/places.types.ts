@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+export const placeSearchQuerySchema = z.object({
+  q: z
+    .string()
+    .trim()
+    .min(2, "Enter at least 2 characters of a suburb or postcode"),
+  limit: z.coerce.number().int().min(1).max(20).default(8),
+});
+
+export type PlaceSearchQuery = z.infer<typeof placeSearchQuerySchema>;
+
+export const reverseGeocodeQuerySchema = z.object({
+  lat: z.coerce.number().min(-90).max(90),
+  lon: z.coerce.number().min(-180).max(180),
+});
+
+export type ReverseGeocodeQuery = z.infer<typeof reverseGeocodeQuerySchema>;
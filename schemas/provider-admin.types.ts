@@ -1,5 +1,7 @@
 import { z } from "zod";
 
+import { accessibilityFeatureSchema } from "./accessibility.types";
+
 export const adminResponseSchema = z.object({
   role: z.string(),
   canEditOrganization: z.boolean(),
@@ -16,8 +18,18 @@ export const adminResponseSchema = z.object({
     ndisRegistered: z.boolean(),
     ndisNumber: z.string().nullable(),
     serviceAreas: z.array(z.string()),
+    accessibilityFeatures: z.array(accessibilityFeatureSchema),
     specialisations: z.array(z.object({ id: z.string(), name: z.string() })),
   }),
+  /** Each outlet's own premises features, edited alongside the provider's. */
+  outlets: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      addressString: z.string().nullable(),
+      accessibilityFeatures: z.array(accessibilityFeatureSchema),
+    }),
+  ),
   workers: z.array(
     z.object({
       id: z.string(),
@@ -44,6 +56,7 @@ export const patchProviderPayloadSchema = z.object({
   ndisRegistered: z.boolean().nullable(),
   ndisNumber: z.string().nullable(),
   serviceAreas: z.array(z.string()).nullable(),
+  accessibilityFeatures: z.array(accessibilityFeatureSchema).nullable(),
   specialisations: z
     .array(z.object({ id: z.string(), name: z.string() }))
     .nullable(),
@@ -56,6 +69,17 @@ export const patchProviderResponseSchema = z.object({
   }),
 });
 
+export const patchOutletPayloadSchema = z.object({
+  accessibilityFeatures: z.array(accessibilityFeatureSchema),
+});
+
+export const patchOutletResponseSchema = z.object({
+  outlet: z.object({
+    id: z.string(),
+    accessibilityFeatures: z.array(accessibilityFeatureSchema),
+  }),
+});
+
 export const patchWorkerPayloadSchema = z.object({
   name: z.string().nullable(),
   bio: z.string().nullable(),
@@ -100,6 +124,8 @@ export type PatchProviderResponse = z.infer<typeof patchProviderResponseSchema>;
 export type GetAdminResponse = z.infer<typeof adminResponseSchema>;
 
 export type PatchProviderPayload = z.infer<typeof patchProviderPayloadSchema>;
+export type PatchOutletPayload = z.infer<typeof patchOutletPayloadSchema>;
+export type PatchOutletResponse = z.infer<typeof patchOutletResponseSchema>;
 export type PatchWorkerPayload = z.infer<typeof patchWorkerPayloadSchema>;
 export type PatchWorkerResponse = z.infer<typeof patchWorkerResponseSchema>;
 export type GetCatalogResponse = z.infer<typeof catalogResponseSchema>;
@@ -0,0 +1,230 @@
+import { z } from "zod";
+
+import { accessibilityFeatureSchema } from "./accessibility.types";
+
+/** Comma separated ids, e.g. `serviceIds=a,b,c`. */
+export const idListSchema = z
+  .string()
+  .optional()
+  .transform((value) =>
+    value
+      ? value
+          .split(",")
+          .map((id) => id.trim())
+          .filter(Boolean)
+      : [],
+  );
+
+/** Comma separated features, e.g. `accessibilityFeatures=HEARING_LOOP,QUIET_ROOM`. */
+const accessibilityFeatureListSchema = idListSchema.pipe(
+  z.array(accessibilityFeatureSchema),
+);
+
+/** `true`/`1` or `false`/`0`; absent means false. */
+const booleanFlagSchema = z
+  .enum(["true", "false", "1", "0"])
+  .optional()
+  .transform((value) => value === "true" || value === "1");
+
+const optionalNumberSchema = z.coerce.number().finite().optional();
+
+/** 24-hour "HH:MM", e.g. `openAfter=17:00`. */
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be HH:MM (24-hour)");
+
+export const searchSortSchema = z.enum(["relevance", "distance", "rating"]);
+
+/** Which results to include: located in the area, servicing it, or both. */
+export const searchCoverageSchema = z.enum(["all", "located", "serviceArea"]);
+
+export const searchQuerySchema = z
+  .object({
+    q: z
+      .string()
+      .optional()
+      .transform((value) => value?.trim() ?? ""),
+    // Bounding box (map viewport)
+    minLat: optionalNumberSchema,
+    maxLat: optionalNumberSchema,
+    minLon: optionalNumberSchema,
+    maxLon: optionalNumberSchema,
+    // Centre + radius
+    lat: optionalNumberSchema,
+    lon: optionalNumberSchema,
+    radiusKm: z.coerce.number().positive().max(500).optional(),
+    // Names the searched point for "Services your area" matching.
+    postcode: z
+      .string()
+      .regex(/^\d{4}$/, "postcode must be 4 digits")
+      .optional(),
+    coverage: searchCoverageSchema.default("all"),
+    serviceIds: idListSchema,
+    specialisationIds: idListSchema,
+    // Spoken by at least one currently linked worker.
+    languageIds: idListSchema,
+    registeredOnly: booleanFlagSchema,
+    // Premises features; results must have all of them.
+    accessibilityFeatures: accessibilityFeatureListSchema,
+    // Opening hours, evaluated in each address's state time zone.
+    openNow: booleanFlagSchema,
+    openWeekends: booleanFlagSchema,
+    openAfter: timeOfDaySchema.optional(),
+    sort: searchSortSchema.default("relevance"),
+    page: z.coerce.number().int().min(1).default(1),
+    pageSize: z.coerce.number().int().min(1).max(50).default(9),
+  })
+  .refine(
+    (v) => {
+      const bbox = [v.minLat, v.maxLat, v.minLon, v.maxLon];
+      const hasBbox = bbox.every((n) => n !== undefined);
+      const hasPartialBbox = !hasBbox && bbox.some((n) => n !== undefined);
+      const hasCentre = v.lat !== undefined && v.lon !== undefined;
+      return !hasPartialBbox && (hasBbox || hasCentre);
+    },
+    {
+      message:
+        "Provide either minLat, maxLat, minLon, maxLon or lat, lon (and optional radiusKm)",
+    },
+  );
+
+/**
+ * Provider Finder page URL (`/provider-finder?q=…&serviceIds=…&minLat=…`). Uses
+ * the search API's param names; anything malformed falls back to its default
+ * so an edited or stale link still opens the finder.
+ */
+export const urlNumberSchema = (min: number, max: number) =>
+  z
+    .preprocess(
+      (value) => (value === "" ? undefined : value),
+      z.coerce.number().min(min).max(max).optional(),
+    )
+    .catch(undefined);
+
+export const finderUrlQuerySchema = z.object({
+  q: z.string().trim().max(200).catch(""),
+  serviceIds: idListSchema.catch([]),
+  specialisationIds: idListSchema.catch([]),
+  languageIds: idListSchema.catch([]),
+  registeredOnly: booleanFlagSchema.catch(false),
+  accessibilityFeatures: accessibilityFeatureListSchema.catch([]),
+  openNow: booleanFlagSchema.catch(false),
+  openWeekends: booleanFlagSchema.catch(false),
+  openAfter: timeOfDaySchema.optional().catch(undefined),
+  coverage: searchCoverageSchema.catch("all"),
+  sort: searchSortSchema.catch("relevance"),
+  view: z.enum(["grid", "list"]).catch("grid"),
+  page: z.coerce.number().int().min(1).catch(1),
+  minLat: urlNumberSchema(-90, 90),
+  maxLat: urlNumberSchema(-90, 90),
+  minLon: urlNumberSchema(-180, 180),
+  maxLon: urlNumberSchema(-180, 180),
+  // Centre + radius, as in saved searches.
+  lat: urlNumberSchema(-90, 90),
+  lon: urlNumberSchema(-180, 180),
+  radiusKm: urlNumberSchema(0.1, 500),
+});
+
+export type FinderUrlQuery = z.infer<typeof finderUrlQuerySchema>;
+
+export const MAX_COMPARE_ITEMS = 4;
+
+/** `/provider-finder/compare?items=provider:<id>,outlet:<id>&lat=…&lon=…` */
+export const compareQuerySchema = z.object({
+  items: z
+    .string()
+    .catch("")
+    .transform((value) =>
+      value
+        .split(",")
+        .map((entry) => {
+          const [type, id] = entry.trim().split(":");
+          return (type === "provider" || type === "outlet") && id
+            ? { type: type as "provider" | "outlet", id }
+            : null;
+        })
+        .filter((item) => item !== null)
+        .slice(0, MAX_COMPARE_ITEMS),
+    ),
+  lat: urlNumberSchema(-90, 90),
+  lon: urlNumberSchema(-180, 180),
+  /** Only rows where the providers differ. */
+  diff: booleanFlagSchema.catch(false),
+});
+
+export type CompareQuery = z.infer<typeof compareQuerySchema>;
+
+export type SearchSort = z.infer<typeof searchSortSchema>;
+export type SearchCoverage = z.infer<typeof searchCoverageSchema>;
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+
+export const nearbyQuerySchema = z
+  .object({
+    lat: optionalNumberSchema,
+    lon: optionalNumberSchema,
+    radiusKm: z.coerce.number().positive().max(250).optional(),
+    // Map viewport; converted to the circle that covers it.
+    minLat: optionalNumberSchema,
+    maxLat: optionalNumberSchema,
+    minLon: optionalNumberSchema,
+    maxLon: optionalNumberSchema,
+    cursor: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(100),
+    // Adds providers/outlets whose service areas cover the centre (first page only).
+    includeServiceAreas: booleanFlagSchema,
+  })
+  .refine(
+    (v) =>
+      (v.lat !== undefined && v.lon !== undefined) ||
+      [v.minLat, v.maxLat, v.minLon, v.maxLon].every((n) => n !== undefined),
+    {
+      message:
+        "Valid lat, lon (and optional radiusKm) or minLat, maxLat, minLon, maxLon query parameters are required.",
+    },
+  );
+
+export type NearbyQuery = z.infer<typeof nearbyQuerySchema>;
+
+/** Path params of a nearby tile (`/nearby/{z}/{x}/{y}`). */
+export const nearbyTileParamsSchema = z.object({
+  z: z.coerce.number().int().min(0).max(22),
+  x: z.coerce.number().int().min(0),
+  y: z.coerce.number().int().min(0),
+});
+
+export const clusterQuerySchema = z.object({
+  minLat: z.coerce.number().finite(),
+  maxLat: z.coerce.number().finite(),
+  minLon: z.coerce.number().finite(),
+  maxLon: z.coerce.number().finite(),
+  zoom: z.coerce.number().int().min(0).max(22),
+  serviceIds: idListSchema,
+  registeredOnly: booleanFlagSchema,
+  accessibilityFeatures: accessibilityFeatureListSchema,
+});
+
+export type ClusterQuery = z.infer<typeof clusterQuerySchema>;
+
+/** Bbox for the GeoJSON provider feed. */
+export const featureQuerySchema = z.object({
+  minLat: z.coerce.number().min(-90).max(90),
+  maxLat: z.coerce.number().min(-90).max(90),
+  minLon: z.coerce.number().min(-180).max(180),
+  maxLon: z.coerce.number().min(-180).max(180),
+});
+
+/** Path params of a feed tile: `{z}/{x}/{y}.mvt` or `{z}/{x}/{y}.geojson`. */
+export const featureTileParamsSchema = z
+  .object({
+    z: z.coerce.number().int().min(0).max(22),
+    x: z.coerce.number().int().min(0),
+    y: z.string().regex(/^\d+\.(mvt|geojson)$/, "y must be like 123.mvt"),
+  })
+  .transform((tile) => {
+    const [row, format] = tile.y.split(".");
+    return {
+      ...tile,
+      y: Number(row),
+      format: format as "mvt" | "geojson",
+    };
+  });
@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+export const savedSearchFrequencySchema = z.enum(["DAILY", "WEEKLY"]);
+
+/**
+ * Finder search as query params (`q`, `lat`, `lon`, `radiusKm`, `serviceIds`...),
+ * stored as-is and parsed with `searchQuerySchema` whenever the search runs.
+ */
+export const savedSearchParamsSchema = z.record(z.string(), z.string());
+
+export const createSavedSearchPayloadSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(120),
+  params: savedSearchParamsSchema,
+  emailAlerts: z.boolean().default(true),
+  frequency: savedSearchFrequencySchema.default("WEEKLY"),
+});
+
+export const patchSavedSearchPayloadSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(120).optional(),
+  emailAlerts: z.boolean().optional(),
+  frequency: savedSearchFrequencySchema.optional(),
+});
+
+export const savedSearchSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  params: savedSearchParamsSchema,
+  emailAlerts: z.boolean(),
+  frequency: savedSearchFrequencySchema,
+  lastCheckedAt: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export const savedSearchesResponseSchema = z.object({
+  savedSearches: z.array(savedSearchSchema),
+});
+
+export type SavedSearchFrequency = z.infer<typeof savedSearchFrequencySchema>;
+export type SavedSearchParams = z.infer<typeof savedSearchParamsSchema>;
+export type CreateSavedSearchPayload = z.input<
+  typeof createSavedSearchPayloadSchema
+>;
+export type PatchSavedSearchPayload = z.infer<
+  typeof patchSavedSearchPayloadSchema
+>;
+export type SavedSearchItem = z.infer<typeof savedSearchSchema>;
+export type SavedSearchesResponse = z.infer<typeof savedSearchesResponseSchema>;
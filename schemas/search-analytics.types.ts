@@ -0,0 +1,64 @@
+import { z } from "zod";
+
+export const searchLogSourceSchema = z.enum(["AUTOCOMPLETE", "FINDER"]);
+
+/** Sent by the finder when a result from a logged search is clicked. */
+export const searchClickPayloadSchema = z.object({
+  searchId: z.uuid(),
+  /** 1-based, counting across pages and autocomplete suggestion groups. */
+  position: z.number().int().min(1).max(1000),
+  entityType: z.enum([
+    "provider",
+    "outlet",
+    "place",
+    "service",
+    "specialisation",
+    "regGroup",
+  ]),
+  entityId: z.string().min(1).max(200),
+});
+
+export const searchAnalyticsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).catch(30),
+  source: searchLogSourceSchema.optional().catch(undefined),
+});
+
+export type SearchLogSourceName = z.infer<typeof searchLogSourceSchema>;
+export type SearchClickPayload = z.infer<typeof searchClickPayloadSchema>;
+export type SearchAnalyticsQuery = z.infer<typeof searchAnalyticsQuerySchema>;
+
+export type SearchQueryRow = {
+  query: string;
+  searches: number;
+  avgResults: number;
+  zeroResults: number;
+  clicks: number;
+};
+
+export type ZeroResultQueryRow = {
+  query: string;
+  searches: number;
+  lastSearchedAt: string;
+  /** Distinct ~150 km areas it was searched in. */
+  areas: number;
+};
+
+export type ClickThroughRow = {
+  position: number;
+  impressions: number;
+  clicks: number;
+};
+
+export type SearchAnalyticsReport = {
+  summary: {
+    searches: number;
+    zeroResults: number;
+    clicks: number;
+    p50LatencyMs: number;
+    p95LatencyMs: number;
+    fallbacks: number;
+  };
+  topQueries: SearchQueryRow[];
+  zeroResultQueries: ZeroResultQueryRow[];
+  clickThrough: ClickThroughRow[];
+};
@@ -0,0 +1,34 @@
+import { z } from "zod";
+
+export const searchSynonymSchema = z.object({
+  id: z.string(),
+  term: z.string(),
+  expansions: z.array(z.string()),
+  matchCase: z.boolean(),
+  updatedAt: z.string(),
+});
+
+/** Create and update body; terms are stored lowercase. */
+export const searchSynonymPayloadSchema = z.object({
+  term: z
+    .string()
+    .trim()
+    .min(1, "Term is required")
+    .max(40, "Terms are at most 40 characters")
+    .transform((value) => value.toLowerCase()),
+  expansions: z
+    .array(z.string().trim().min(1).max(80))
+    .min(1, "Add at least one expansion")
+    .max(6, "At most 6 expansions per term"),
+  matchCase: z.boolean().default(false),
+});
+
+export const searchSynonymsResponseSchema = z.object({
+  synonyms: z.array(searchSynonymSchema),
+});
+
+export type SearchSynonymItem = z.infer<typeof searchSynonymSchema>;
+export type SearchSynonymPayload = z.input<typeof searchSynonymPayloadSchema>;
+export type SearchSynonymsResponse = z.infer<
+  typeof searchSynonymsResponseSchema
+>;
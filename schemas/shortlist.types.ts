@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+export const shortlistEntityTypeSchema = z.enum([
+  "provider",
+  "outlet",
+  "worker",
+]);
+
+const noteSchema = z
+  .string()
+  .trim()
+  .max(1000, "Notes can be up to 1000 characters")
+  .transform((note) => note || null);
+
+export const addShortlistEntryPayloadSchema = z.object({
+  type: shortlistEntityTypeSchema,
+  id: z.string().min(1),
+  note: noteSchema.nullish(),
+});
+
+/** Signed-out shortlists are capped so they merge in one request. */
+export const MAX_LOCAL_SHORTLIST_ENTRIES = 100;
+
+/** A signed-out shortlist from localStorage, added on sign-in. */
+export const mergeShortlistPayloadSchema = z.object({
+  entries: z
+    .array(addShortlistEntryPayloadSchema)
+    .max(MAX_LOCAL_SHORTLIST_ENTRIES),
+});
+
+export const patchShortlistEntryPayloadSchema = z.object({
+  note: noteSchema.nullable(),
+});
+
+export const shortlistEntrySchema = z.object({
+  id: z.string(),
+  type: shortlistEntityTypeSchema,
+  entityId: z.string(),
+  name: z.string(),
+  href: z.string(),
+  /** Location, or the parent provider for outlets. */
+  detail: z.string().nullable(),
+  note: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export const shortlistResponseSchema = z.object({
+  entries: z.array(shortlistEntrySchema),
+});
+
+export type ShortlistEntityType = z.infer<typeof shortlistEntityTypeSchema>;
+export type AddShortlistEntryPayload = z.input<
+  typeof addShortlistEntryPayloadSchema
+>;
+export type MergeShortlistPayload = z.input<typeof mergeShortlistPayloadSchema>;
+export type PatchShortlistEntryPayload = z.input<
+  typeof patchShortlistEntryPayloadSchema
+>;
+export type ShortlistEntryItem = z.infer<typeof shortlistEntrySchema>;
+export type ShortlistResponse = z.infer<typeof shortlistResponseSchema>;